@@ -0,0 +1,17 @@
+// @ts-check
+import eslint from '@eslint/js';
+import tseslint from 'typescript-eslint';
+
+export default tseslint.config(
+  { ignores: ['dist/', 'node_modules/'] },
+  eslint.configs.recommended,
+  tseslint.configs.recommended,
+  {
+    rules: {
+      // Same as tsc's noUnusedLocals; rest siblings are how fields are left out of objects
+      '@typescript-eslint/no-unused-vars': ['error', { args: 'none', ignoreRestSiblings: true }],
+      // Augmenting Express's Request needs a namespace declaration
+      '@typescript-eslint/no-namespace': ['error', { allowDeclarations: true }],
+    },
+  }
+);
@@ -0,0 +1,9 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  // Environment every test file starts from: a throwaway database and a fixed JWT secret
+  setupFiles: ['<rootDir>/src/__tests__/setup.ts'],
+};
@@ -0,0 +1,158 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { closeTestDatabase, createApiKey, createTask, createTestApp, registerUser, TestUser } from './helpers';
+
+describe('accounts and API keys', () => {
+  let app: Express;
+  let owner: TestUser;
+
+  beforeAll(async () => {
+    ({ app } = await createTestApp());
+    owner = await registerUser(app);
+  });
+
+  afterAll(closeTestDatabase);
+
+  describe('accounts', () => {
+    it('logs in with the registered password only', async () => {
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'owner@example.com', password: 'wrong-password' })
+        .expect(401);
+
+      const res = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'owner@example.com', password: 'password123' })
+        .expect(200);
+      await request(app).get('/api/auth/me').set('Authorization', `Bearer ${res.body.data.token}`).expect(200);
+    });
+
+    it('refuses a second account with the same email', async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'OWNER@example.com', password: 'password123', name: 'Again' })
+        .expect(409);
+    });
+
+    it('requires a valid token for task routes', async () => {
+      await request(app).get('/api/tasks').expect(401);
+      await request(app).get('/api/tasks').set('Authorization', 'Bearer not-a-token').expect(401);
+    });
+
+    it('keeps tasks private to their owner', async () => {
+      const task = await createTask(app, owner, { title: 'Private' });
+      const other = await registerUser(app, 'other@example.com');
+
+      await request(app).get(`/api/tasks/${task.id}`).set(other.auth).expect(404);
+      await request(app).delete(`/api/tasks/${task.id}`).set(other.auth).expect(404);
+      const res = await request(app).get('/api/tasks').set(other.auth).expect(200);
+      expect(res.body.data).toEqual([]);
+    });
+  });
+
+  describe('API key scopes', () => {
+    it('lets a read-only key read but not write', async () => {
+      const key = await createApiKey(app, owner, ['tasks:read']);
+
+      await request(app).get('/api/tasks').set('X-API-Key', key).expect(200);
+      const res = await request(app)
+        .post('/api/tasks')
+        .set('X-API-Key', key)
+        .send({ title: 'Nope' })
+        .expect(403);
+      expect(res.body.message).toBe('API key lacks required scope: tasks:write');
+    });
+
+    it('stops working once revoked', async () => {
+      const { body } = await request(app)
+        .post('/api/keys')
+        .set(owner.auth)
+        .send({ name: 'short-lived', scopes: ['tasks:read'] })
+        .expect(201);
+      const { id, key } = body.data;
+
+      await request(app).delete(`/api/keys/${id}`).set(owner.auth).expect(200);
+      await request(app).get('/api/tasks').set('X-API-Key', key).expect(401);
+    });
+
+    it('cannot manage API keys with an API key', async () => {
+      const key = await createApiKey(app, owner, ['tasks:read', 'tasks:write']);
+      await request(app).post('/api/keys').set('X-API-Key', key).send({ name: 'k', scopes: ['tasks:read'] }).expect(403);
+    });
+
+    describe('bulk deletes', () => {
+      it('fail per operation without tasks:delete', async () => {
+        const key = await createApiKey(app, owner, ['tasks:read', 'tasks:write']);
+        const task = await createTask(app, owner, { title: 'Keep me' });
+
+        const res = await request(app)
+          .post('/api/tasks/bulk')
+          .set('X-API-Key', key)
+          .send({
+            mode: 'best-effort',
+            operations: [
+              { op: 'create', data: { title: 'Created' } },
+              { op: 'delete', id: task.id }
+            ]
+          })
+          .expect(200);
+
+        expect(res.body.data.results.map((result: { status: number }) => result.status)).toEqual([201, 403]);
+        expect(res.body.data.results[1].message).toBe('API key lacks required scope: tasks:delete');
+        await request(app).get(`/api/tasks/${task.id}`).set(owner.auth).expect(200);
+      });
+
+      it('abort an all-or-nothing request without tasks:delete', async () => {
+        const key = await createApiKey(app, owner, ['tasks:read', 'tasks:write']);
+        const task = await createTask(app, owner, { title: 'Keep me too' });
+
+        const res = await request(app)
+          .post('/api/tasks/bulk')
+          .set('X-API-Key', key)
+          .send({
+            operations: [
+              { op: 'update', id: task.id, data: { title: 'Renamed' } },
+              { op: 'delete', id: task.id }
+            ]
+          })
+          .expect(403);
+
+        expect(res.body.data.results[0].index).toBe(1);
+        const current = await request(app).get(`/api/tasks/${task.id}`).set(owner.auth).expect(200);
+        expect(current.body.data.title).toBe('Keep me too');
+      });
+
+      it('succeed with tasks:delete', async () => {
+        const key = await createApiKey(app, owner, ['tasks:write', 'tasks:delete']);
+        const task = await createTask(app, owner, { title: 'Delete me' });
+
+        await request(app)
+          .post('/api/tasks/bulk')
+          .set('X-API-Key', key)
+          .send({ operations: [{ op: 'delete', id: task.id }] })
+          .expect(200);
+        await request(app).get(`/api/tasks/${task.id}`).set(owner.auth).expect(404);
+      });
+    });
+  });
+
+  describe('admin endpoints', () => {
+    let admin: TestUser;
+
+    beforeAll(async () => {
+      admin = await registerUser(app, 'admin@example.com');
+    });
+
+    it('are only open to users listed in ADMIN_EMAILS', async () => {
+      const res = await request(app).get('/api/admin/jobs').set(owner.auth).expect(403);
+      expect(res.body.message).toBe('Admin access required');
+
+      await request(app).get('/api/admin/jobs').set(admin.auth).expect(200);
+    });
+
+    it('cannot be reached with an admin\'s API key', async () => {
+      const key = await createApiKey(app, admin, ['tasks:read', 'tasks:write', 'tasks:delete', 'stats:read']);
+      await request(app).get('/api/admin/jobs').set('X-API-Key', key).expect(403);
+    });
+  });
+});
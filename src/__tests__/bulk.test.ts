@@ -0,0 +1,65 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { closeTestDatabase, createTask, createTestApp, registerUser, TASK_STORES, TestUser } from './helpers';
+
+const MISSING_ID = '00000000-0000-4000-8000-000000000000';
+
+describe.each(TASK_STORES)('bulk task operations on the %s store', store => {
+  let app: Express;
+  let user: TestUser;
+
+  beforeAll(async () => {
+    ({ app } = await createTestApp(store));
+    user = await registerUser(app);
+  });
+
+  afterAll(closeTestDatabase);
+
+  const bulk = (body: object) => request(app).post('/api/tasks/bulk').set(user.auth).send(body);
+  const statuses = (res: request.Response): number[] =>
+    res.body.data.results.map((result: { status: number }) => result.status);
+
+  it('applies every operation when all of them succeed', async () => {
+    const task = await createTask(app, user, { title: 'Bulk update' });
+
+    const res = await bulk({
+      operations: [
+        { op: 'create', data: { title: 'Bulk create' } },
+        { op: 'update', id: task.id, data: { priority: 'HIGH' } }
+      ]
+    }).expect(200);
+
+    expect(statuses(res)).toEqual([201, 200]);
+    const current = await request(app).get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    expect(current.body.data.priority).toBe('HIGH');
+  });
+
+  it('rolls back every operation when one fails in all-or-nothing mode', async () => {
+    const task = await createTask(app, user, { title: 'Untouched' });
+
+    await bulk({
+      operations: [
+        { op: 'create', data: { title: 'Rolled back' } },
+        { op: 'update', id: task.id, data: { title: 'Renamed' } },
+        { op: 'delete', id: MISSING_ID }
+      ]
+    }).expect(404);
+
+    expect((await request(app).get(`/api/tasks/${task.id}`).set(user.auth)).body.data.title).toBe('Untouched');
+    expect((await request(app).get('/api/tasks?search=rolled').set(user.auth)).body.data).toEqual([]);
+  });
+
+  it('keeps the operations that succeed in best-effort mode', async () => {
+    const res = await bulk({
+      mode: 'best-effort',
+      operations: [
+        { op: 'create', data: { title: 'Kept' } },
+        { op: 'create', data: { title: '' } },
+        { op: 'delete', id: MISSING_ID }
+      ]
+    }).expect(200);
+
+    expect(statuses(res)).toEqual([201, 400, 404]);
+    expect((await request(app).get('/api/tasks?search=kept').set(user.auth)).body.data).toHaveLength(1);
+  });
+});
@@ -0,0 +1,50 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { ApiKeyScope } from '../models/apiKey';
+import { closeTestDatabase, createApiKey, createTask, createTestApp, registerUser, TestUser } from './helpers';
+
+describe('calendar feeds', () => {
+  let app: Express;
+  let user: TestUser;
+
+  beforeAll(async () => {
+    ({ app } = await createTestApp());
+    user = await registerUser(app);
+    await createTask(app, user, { title: 'Due soon', dueDate: '2026-03-02T09:00:00.000Z' });
+  });
+
+  afterAll(closeTestDatabase);
+
+  // Path of a feed URL, which the tests request without any credentials
+  const feedPath = (url: string): string => new URL(url).pathname;
+
+  it('serves due tasks at a secret URL until the feed is deleted', async () => {
+    const created = await request(app).post('/api/calendar/feed').set(user.auth).expect(201);
+    const path = feedPath(created.body.data.url);
+    expect(path).toMatch(/^\/api\/calendar\/[^/]+\.ics$/);
+
+    const calendar = await request(app).get(path).expect(200);
+    expect(calendar.headers['content-type']).toMatch(/^text\/calendar/);
+    expect(calendar.text).toContain('SUMMARY:Due soon');
+
+    await request(app).delete('/api/calendar/feed').set(user.auth).expect(200);
+    await request(app).get(path).expect(404);
+  });
+
+  it('replaces the old URL when a feed is created again', async () => {
+    const first = feedPath((await request(app).post('/api/calendar/feed').set(user.auth).expect(201)).body.data.url);
+    const second = feedPath((await request(app).post('/api/calendar/feed').set(user.auth).expect(201)).body.data.url);
+
+    await request(app).get(first).expect(404);
+    await request(app).get(second).expect(200);
+  });
+
+  it('cannot be managed with an API key', async () => {
+    const key = await createApiKey(app, user, [ApiKeyScope.TASKS_READ]);
+    await request(app).post('/api/calendar/feed').set('X-API-Key', key).expect(403);
+  });
+
+  it('refuses unknown tokens', async () => {
+    await request(app).get('/api/calendar/not-a-token.ics').expect(404);
+  });
+});
@@ -0,0 +1,82 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { ApiKeyScope } from '../models/apiKey';
+import { closeTestDatabase, createApiKey, createTask, createTestApp, registerUser, TestUser } from './helpers';
+
+describe('GraphQL API', () => {
+  let app: Express;
+  let user: TestUser;
+
+  beforeAll(async () => {
+    ({ app } = await createTestApp());
+    user = await registerUser(app);
+  });
+
+  afterAll(closeTestDatabase);
+
+  const graphql = (auth: Record<string, string>, query: string, variables?: object) =>
+    request(app).post('/graphql').set(auth).send({ query, variables });
+
+  it('needs authentication', async () => {
+    await request(app).post('/graphql').send({ query: '{ tasks { total } }' }).expect(401);
+  });
+
+  it('creates, reads, updates and deletes tasks', async () => {
+    const created = await graphql(user.auth, `
+      mutation ($input: CreateTaskInput!) { createTask(input: $input) { id title priority } }
+    `, { input: { title: 'From GraphQL', priority: 'HIGH' } }).expect(200);
+    const { id } = created.body.data.createTask;
+    expect(created.body.data.createTask).toMatchObject({ title: 'From GraphQL', priority: 'HIGH' });
+
+    const updated = await graphql(user.auth, `
+      mutation ($id: ID!) { updateTask(id: $id, input: { status: COMPLETED }) { status version } }
+    `, { id }).expect(200);
+    expect(updated.body.data.updateTask).toEqual({ status: 'COMPLETED', version: 2 });
+
+    const listed = await graphql(user.auth, '{ tasks(status: [COMPLETED]) { total tasks { id } } }').expect(200);
+    expect(listed.body.data.tasks).toEqual({ total: 1, tasks: [{ id }] });
+
+    await graphql(user.auth, 'mutation ($id: ID!) { deleteTask(id: $id) { id } }', { id }).expect(200);
+    const gone = await graphql(user.auth, 'query ($id: ID!) { task(id: $id) { id } }', { id }).expect(200);
+    expect(gone.body.data.task).toBeNull();
+  });
+
+  it('answers validation errors with a code', async () => {
+    const res = await graphql(user.auth, 'mutation { createTask(input: { title: "" }) { id } }').expect(200);
+    expect(res.body.errors[0].extensions.code).toBe('BAD_USER_INPUT');
+  });
+
+  it('keeps other users\' tasks out of reach', async () => {
+    const task = await createTask(app, user, { title: 'Private' });
+    const other = await registerUser(app, 'graphql-other@example.com');
+
+    const res = await graphql(other.auth, 'query ($id: ID!) { task(id: $id) { id } }', { id: task.id }).expect(200);
+    expect(res.body.data.task).toBeNull();
+  });
+
+  it('checks the API key scope of each field', async () => {
+    const key = { 'X-API-Key': await createApiKey(app, user, [ApiKeyScope.TASKS_READ, ApiKeyScope.TASKS_WRITE]) };
+    const task = await createTask(app, user, { title: 'Scoped' });
+
+    const stats = await graphql(key, '{ taskStats { total } }').expect(200);
+    expect(stats.body.errors[0]).toMatchObject({
+      message: `API key lacks required scope: ${ApiKeyScope.STATS_READ}`,
+      extensions: { code: 'FORBIDDEN' }
+    });
+
+    const deleted = await graphql(key, 'mutation ($id: ID!) { deleteTask(id: $id) { id } }', { id: task.id })
+      .expect(200);
+    expect(deleted.body.errors[0].extensions.code).toBe('FORBIDDEN');
+    await request(app).get(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+
+    const read = await graphql(key, '{ overdueTasks { id } }').expect(200);
+    expect(read.body.errors).toBeUndefined();
+  });
+
+  it('refuses operations nested too deeply', async () => {
+    const nested = Array.from({ length: 11 }).reduce<string>(selection => `parent { ${selection} }`, 'id');
+
+    const res = await graphql(user.auth, `{ tasks { tasks { ${nested} } } }`).expect(400);
+    expect(res.body.errors[0].message).toMatch(/at most 10 are allowed/);
+  });
+});
@@ -0,0 +1,55 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { createApp } from '../app';
+import { TaskStore } from '../config';
+import { createTaskRepository, TaskRepository } from '../repositories';
+import { getDatabase, initializeDatabase } from '../utils/database';
+
+export const TASK_STORES: TaskStore[] = ['sqlite', 'memory'];
+
+export interface TestApp {
+  app: Express;
+  taskRepository: TaskRepository;
+}
+
+// Build the app around a task store on a fresh in-memory database
+export const createTestApp = async (store: TaskStore = 'sqlite'): Promise<TestApp> => {
+  await initializeDatabase();
+  const taskRepository = createTaskRepository(store, getDatabase());
+  return { app: createApp({ taskRepository }), taskRepository };
+};
+
+export const closeTestDatabase = (): Promise<void> => getDatabase().close();
+
+export interface TestUser {
+  id: string;
+  token: string;
+  // Authorization header of the user's bearer token
+  auth: { Authorization: string };
+}
+
+// Register a user and return its id and bearer token
+export const registerUser = async (app: Express, email = 'owner@example.com'): Promise<TestUser> => {
+  const res = await request(app)
+    .post('/api/auth/register')
+    .send({ email, password: 'password123', name: 'Test User' })
+    .expect(201);
+  const { user, token } = res.body.data;
+  return { id: user.id, token, auth: { Authorization: `Bearer ${token}` } };
+};
+
+// Create a task through the API and return it
+export const createTask = async (app: Express, user: TestUser, body: object) => {
+  const res = await request(app).post('/api/tasks').set(user.auth).send(body).expect(201);
+  return res.body.data;
+};
+
+// Create an API key with the given scopes for a user and return the key itself
+export const createApiKey = async (app: Express, user: TestUser, scopes: string[]): Promise<string> => {
+  const res = await request(app)
+    .post('/api/keys')
+    .set(user.auth)
+    .send({ name: 'test key', scopes })
+    .expect(201);
+  return res.body.data.key;
+};
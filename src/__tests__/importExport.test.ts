@@ -0,0 +1,58 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { closeTestDatabase, createTask, createTestApp, registerUser, TASK_STORES, TestUser } from './helpers';
+
+describe.each(TASK_STORES)('task import and export on the %s store', store => {
+  let app: Express;
+  let user: TestUser;
+
+  beforeAll(async () => {
+    ({ app } = await createTestApp(store));
+    user = await registerUser(app);
+  });
+
+  afterAll(closeTestDatabase);
+
+  const exportCsv = async (): Promise<string> => {
+    const res = await request(app).get('/api/tasks/export?format=csv').set(user.auth).expect(200);
+    expect(res.headers['content-type']).toMatch(/^text\/csv/);
+    return res.text;
+  };
+
+  const importCsv = (csv: string, query = '') =>
+    request(app).post(`/api/tasks/import${query}`).set(user.auth).set('Content-Type', 'text/csv').send(csv);
+
+  it('neutralizes formula cells in exports', async () => {
+    await createTask(app, user, { title: '=HYPERLINK("http://example.com","x")', description: '@SUM(A1:A2)' });
+
+    const csv = await exportCsv();
+    expect(csv).toContain(`"'=HYPERLINK(""http://example.com"",""x"")"`);
+    expect(csv).toContain(`'@SUM(A1:A2)`);
+    expect(csv).not.toMatch(/(^|,)"?[=+\-@]/m);
+  });
+
+  it('imports an export back to the same text', async () => {
+    const csv = await exportCsv();
+    const other = await registerUser(app, `importer-${store}@example.com`);
+
+    const res = await request(app)
+      .post('/api/tasks/import')
+      .set(other.auth)
+      .set('Content-Type', 'text/csv')
+      .send(csv)
+      .expect(200);
+    expect(res.body.data).toMatchObject({ created: 1, failed: 0 });
+
+    const tasks = await request(app).get('/api/tasks').set(other.auth).expect(200);
+    expect(tasks.body.data[0]).toMatchObject({ title: '=HYPERLINK("http://example.com","x")', description: '@SUM(A1:A2)' });
+  });
+
+  it('validates rows without saving them on a dry run', async () => {
+    const csv = 'title,priority\nFirst,LOW\n,HIGH\n';
+
+    const res = await importCsv(csv, '?dryRun=true').expect(200);
+    expect(res.body.data).toMatchObject({ dryRun: true, total: 2, failed: 1 });
+    const tasks = await request(app).get('/api/tasks?search=first').set(user.auth).expect(200);
+    expect(tasks.body.data).toEqual([]);
+  });
+});
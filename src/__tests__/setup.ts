@@ -0,0 +1,7 @@
+// Runs before each test file, ahead of the modules that read these at import time
+process.env.DB_PATH = ':memory:';
+process.env.JWT_SECRET = 'test-secret';
+process.env.ADMIN_EMAILS = 'admin@example.com';
+
+// Keep the request log and database startup messages out of test output
+console.log = () => undefined;
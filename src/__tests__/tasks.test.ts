@@ -0,0 +1,245 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { closeTestDatabase, createTask, createTestApp, registerUser, TASK_STORES, TestUser } from './helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe.each(TASK_STORES)('task API on the %s store', store => {
+  let app: Express;
+  let user: TestUser;
+
+  beforeAll(async () => {
+    ({ app } = await createTestApp(store));
+    user = await registerUser(app);
+  });
+
+  afterAll(closeTestDatabase);
+
+  const get = (path: string) => request(app).get(`/api/tasks${path}`).set(user.auth);
+  const post = (path: string, body?: object) => request(app).post(`/api/tasks${path}`).set(user.auth).send(body);
+  const put = (path: string, body: object) => request(app).put(`/api/tasks${path}`).set(user.auth).send(body);
+  const del = (path: string) => request(app).delete(`/api/tasks${path}`).set(user.auth);
+  const patch = (path: string, type: string, body: unknown) =>
+    request(app).patch(`/api/tasks${path}`).set(user.auth).set('Content-Type', type).send(JSON.stringify(body));
+  const titles = (res: request.Response): string[] => res.body.data.map((task: { title: string }) => task.title);
+
+  describe('basics', () => {
+    it('creates tasks with defaults and validates them', async () => {
+      const task = await createTask(app, user, { title: 'Defaults' });
+      expect(task).toMatchObject({ status: 'PENDING', priority: 'MEDIUM', tags: [], parentId: null, version: 1 });
+
+      const res = await post('', { title: '' }).expect(400);
+      expect(res.body.message).toBe('Validation error');
+    });
+
+    it('filters and sorts the task list', async () => {
+      await createTask(app, user, { title: 'sort-b', priority: 'LOW', tags: ['sorting'] });
+      await createTask(app, user, { title: 'sort-a', priority: 'URGENT', tags: ['sorting'] });
+      await createTask(app, user, { title: 'sort-c', priority: 'HIGH', tags: ['sorting'] });
+
+      expect(titles(await get('?tags=sorting&sort=title').expect(200))).toEqual(['sort-a', 'sort-b', 'sort-c']);
+      expect(titles(await get('?tags=sorting&sort=-priority').expect(200))).toEqual(['sort-a', 'sort-c', 'sort-b']);
+      expect(titles(await get('?tags=sorting&priority=LOW,HIGH&sort=title').expect(200))).toEqual(['sort-b', 'sort-c']);
+      await get('?sort=owner').expect(400);
+    });
+
+    it('pages with page and limit, and with cursors', async () => {
+      for (const title of ['page-1', 'page-2', 'page-3']) {
+        await createTask(app, user, { title, tags: ['paging'] });
+      }
+
+      const first = await get('?tags=paging&limit=2').expect(200);
+      expect(titles(first)).toEqual(['page-3', 'page-2']);
+      expect(first.body.pagination).toMatchObject({ currentPage: 1, totalItems: 3 });
+
+      const next = await get(`?tags=paging&limit=2&after=${first.body.pagination.nextCursor}`).expect(200);
+      expect(titles(next)).toEqual(['page-1']);
+      expect(next.body.pagination.hasNextPage).toBe(false);
+    });
+
+    it('searches titles and descriptions', async () => {
+      await createTask(app, user, { title: 'Quarterly <report>', description: 'numbers' });
+
+      const res = await get('?search=quarterly').expect(200);
+      expect(titles(res)).toEqual(['Quarterly <report>']);
+      expect(res.body.data[0].highlights.title).toBe('<mark>Quarterly</mark> &lt;report&gt;');
+      await get('?search=%22unterminated').expect(400);
+    });
+
+    it('lists overdue tasks', async () => {
+      await createTask(app, user, { title: 'Overdue', dueDate: new Date(Date.now() - DAY_MS).toISOString() });
+      await createTask(app, user, { title: 'Not yet', dueDate: new Date(Date.now() + DAY_MS).toISOString() });
+
+      expect(titles(await get('/overdue').expect(200))).toEqual(['Overdue']);
+    });
+  });
+
+  describe('conditional writes', () => {
+    it('serves an ETag and rejects a stale If-Match', async () => {
+      const task = await createTask(app, user, { title: 'Versioned' });
+
+      const res = await get(`/${task.id}`).expect(200);
+      expect(res.headers.etag).toBe('"1"');
+
+      await put(`/${task.id}`, { title: 'First', description: '', status: 'PENDING', priority: 'LOW', dueDate: null,
+        tags: [], parentId: null, recurrence: null }).set('If-Match', '"1"').expect(200);
+      const stale = await request(app)
+        .put(`/api/tasks/${task.id}`)
+        .set(user.auth)
+        .set('If-Match', '"1"')
+        .send({ title: 'Second', description: '', status: 'PENDING', priority: 'LOW', dueDate: null,
+          tags: [], parentId: null, recurrence: null })
+        .expect(412);
+      expect(stale.body.data.title).toBe('First');
+    });
+
+    it('applies merge patches and JSON patches', async () => {
+      const task = await createTask(app, user, { title: 'Patchable', description: 'keep', tags: ['a'] });
+
+      const merged = await patch(`/${task.id}`, 'application/merge-patch+json', { title: 'Merged', priority: 'HIGH' })
+        .expect(200);
+      expect(merged.body.data).toMatchObject({ title: 'Merged', description: 'keep', priority: 'HIGH' });
+
+      const patched = await patch(`/${task.id}`, 'application/json-patch+json', [
+        { op: 'test', path: '/title', value: 'Merged' },
+        { op: 'add', path: '/tags/-', value: 'b' }
+      ]).expect(200);
+      expect(patched.body.data.tags).toEqual(['a', 'b']);
+
+      await patch(`/${task.id}`, 'application/json-patch+json', [{ op: 'test', path: '/title', value: 'Wrong' }])
+        .expect(409);
+    });
+
+    it('requires every writable field in a PUT', async () => {
+      const task = await createTask(app, user, { title: 'Replace me' });
+      await put(`/${task.id}`, { title: 'Partial' }).expect(400);
+    });
+  });
+
+  describe('workflow and dependencies', () => {
+    it('refuses a status change the workflow does not allow', async () => {
+      const task = await createTask(app, user, { title: 'Workflow', status: 'COMPLETED' });
+
+      const res = await patch(`/${task.id}`, 'application/merge-patch+json', { status: 'PENDING' }).expect(409);
+      expect(res.body.allowedStatuses).toEqual(['IN_PROGRESS']);
+    });
+
+    it('keeps a blocked task from starting until its blocker is done', async () => {
+      const blocker = await createTask(app, user, { title: 'Blocker' });
+      const blocked = await createTask(app, user, { title: 'Blocked' });
+
+      await post(`/${blocked.id}/blockers`, { blockerId: blocker.id }).expect(201);
+      await post(`/${blocker.id}/blockers`, { blockerId: blocked.id }).expect(400);
+      await patch(`/${blocked.id}`, 'application/merge-patch+json', { status: 'IN_PROGRESS' }).expect(409);
+
+      await patch(`/${blocker.id}`, 'application/merge-patch+json', { status: 'COMPLETED' }).expect(200);
+      await patch(`/${blocked.id}`, 'application/merge-patch+json', { status: 'IN_PROGRESS' }).expect(200);
+    });
+
+    it('nests subtasks and refuses to delete a parent without a child mode', async () => {
+      const parent = await createTask(app, user, { title: 'Parent' });
+      await createTask(app, user, { title: 'Child', parentId: parent.id });
+
+      expect(titles(await get(`/${parent.id}/children`).expect(200))).toEqual(['Child']);
+      await del(`/${parent.id}`).expect(409);
+      await del(`/${parent.id}?children=cascade`).expect(200);
+      expect((await get('/trash').expect(200)).body.data.map((task: { title: string }) => task.title))
+        .toEqual(expect.arrayContaining(['Parent', 'Child']));
+    });
+  });
+
+  describe('history and trash', () => {
+    it('records changes and reverts to an earlier revision', async () => {
+      const task = await createTask(app, user, { title: 'Original' });
+      await patch(`/${task.id}`, 'application/merge-patch+json', { title: 'Changed' }).expect(200);
+
+      const history = await get(`/${task.id}/history`).expect(200);
+      expect(history.body.data.map((entry: { action: string }) => entry.action)).toEqual(['create', 'update']);
+
+      const reverted = await post(`/${task.id}/revert`, { revision: 1 }).expect(200);
+      expect(reverted.body.data).toMatchObject({ title: 'Original', version: 3 });
+    });
+
+    it('restores a trashed task with a new version', async () => {
+      const task = await createTask(app, user, { title: 'Trashed' });
+      await del(`/${task.id}`).expect(200);
+      await get(`/${task.id}`).expect(404);
+
+      const restored = await post(`/trash/${task.id}/restore`).expect(200);
+      expect(restored.body.data).toMatchObject({ title: 'Trashed', deletedAt: null, version: 3 });
+      await post(`/trash/${task.id}/restore`).expect(404);
+    });
+
+    it('purges a trashed task for good', async () => {
+      const task = await createTask(app, user, { title: 'Purged' });
+      await del(`/${task.id}`).expect(200);
+
+      await del(`/trash/${task.id}`).expect(200);
+      await post(`/trash/${task.id}/restore`).expect(404);
+    });
+  });
+
+  describe('recurring tasks', () => {
+    const dueDate = '2026-03-02T09:00:00.000Z';
+
+    it('creates the next occurrence when one is completed', async () => {
+      const task = await createTask(app, user, { title: 'Standup', dueDate, recurrence: 'FREQ=DAILY;COUNT=3' });
+
+      await patch(`/${task.id}`, 'application/merge-patch+json', { status: 'COMPLETED' }).expect(200);
+
+      const next = (await get('?search=standup').expect(200)).body.data
+        .find((each: { status: string }) => each.status === 'PENDING');
+      expect(next).toMatchObject({ dueDate: '2026-03-03T09:00:00.000Z', recurrence: 'FREQ=DAILY;COUNT=2' });
+      expect((await get(`/${task.id}`).expect(200)).body.data.recurrence).toBeNull();
+    });
+
+    it('skips an occurrence and ends the series', async () => {
+      const task = await createTask(app, user, { title: 'Weekly', dueDate, recurrence: 'FREQ=WEEKLY' });
+
+      const skipped = await post(`/${task.id}/skip`).expect(200);
+      expect(skipped.body.data.dueDate).toBe('2026-03-09T09:00:00.000Z');
+
+      const ended = await del(`/${task.id}/recurrence`).expect(200);
+      expect(ended.body.data).toMatchObject({ recurrence: null, dueDate: '2026-03-09T09:00:00.000Z' });
+      await post(`/${task.id}/skip`).expect(400);
+    });
+
+    it('answers 404 when skipping a task that is gone', async () => {
+      const task = await createTask(app, user, { title: 'Gone', dueDate, recurrence: 'FREQ=DAILY' });
+      await del(`/${task.id}`).expect(200);
+
+      await post(`/${task.id}/skip`).expect(404);
+      await del(`/${task.id}/recurrence`).expect(404);
+    });
+
+    it('needs a due date', async () => {
+      await post('', { title: 'No start', recurrence: 'FREQ=DAILY' }).expect(400);
+    });
+  });
+
+  describe('tags and comments', () => {
+    it('renames a tag on every task using it', async () => {
+      const task = await createTask(app, user, { title: 'Tagged', tags: ['old-name'] });
+      const tags = await request(app).get('/api/tags').set(user.auth).expect(200);
+      const tag = tags.body.data.find((each: { name: string }) => each.name === 'old-name');
+
+      await request(app).put(`/api/tags/${tag.id}`).set(user.auth).send({ name: 'new-name' }).expect(200);
+      expect((await get(`/${task.id}`).expect(200)).body.data.tags).toEqual(['new-name']);
+    });
+
+    it('threads comments and keeps them from other users', async () => {
+      const task = await createTask(app, user, { title: 'Discussed' });
+      const comments = `/api/tasks/${task.id}/comments`;
+
+      const comment = await request(app).post(comments).set(user.auth).send({ body: 'Question?' }).expect(201);
+      await request(app).post(comments).set(user.auth).send({ body: 'Answer.', parentId: comment.body.data.id }).expect(201);
+
+      const replies = await request(app).get(`${comments}/${comment.body.data.id}/replies`).set(user.auth).expect(200);
+      expect(replies.body.data.map((reply: { body: string }) => reply.body)).toEqual(['Answer.']);
+      expect((await get(`/${task.id}`).expect(200)).body.data.commentCount).toBe(2);
+
+      const other = await registerUser(app, `commenter-${store}@example.com`);
+      await request(app).get(comments).set(other.auth).expect(404);
+    });
+  });
+});
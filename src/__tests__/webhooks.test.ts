@@ -0,0 +1,110 @@
+import { Express } from 'express';
+import request from 'supertest';
+import { WebhookEvent } from '../models/webhook';
+import { LoggedTaskEvent, taskEventLog } from '../utils/taskEvents';
+import { closeTestDatabase, createTask, createTestApp, registerUser, TestUser } from './helpers';
+
+// A public address given literally, so no lookup is needed
+const PUBLIC_URL = 'https://93.184.216.34/hook';
+
+describe('webhook API', () => {
+  let app: Express;
+  let user: TestUser;
+
+  beforeAll(async () => {
+    ({ app } = await createTestApp());
+    user = await registerUser(app);
+  });
+
+  afterAll(closeTestDatabase);
+
+  const createWebhook = (body: object) => request(app).post('/api/webhooks').set(user.auth).send(body);
+
+  it.each([
+    'http://127.0.0.1:8080/hook',
+    'http://localhost/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://10.0.0.5/hook',
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook'
+  ])('refuses to register %s', async url => {
+    const res = await createWebhook({ url, events: [WebhookEvent.TASK_CREATED] }).expect(400);
+    expect(res.body.errors[0].field).toBe('url');
+  });
+
+  it('refuses to point an existing webhook at a private address', async () => {
+    const webhook = (await createWebhook({ url: PUBLIC_URL, events: [WebhookEvent.TASK_CREATED] }).expect(201)).body.data;
+
+    await request(app)
+      .put(`/api/webhooks/${webhook.id}`)
+      .set(user.auth)
+      .send({ url: 'http://192.168.1.1/hook' })
+      .expect(400);
+    const res = await request(app).get(`/api/webhooks/${webhook.id}`).set(user.auth).expect(200);
+    expect(res.body.data.url).toBe(PUBLIC_URL);
+
+    await request(app).delete(`/api/webhooks/${webhook.id}`).set(user.auth).expect(200);
+  });
+
+  it('queues a delivery for each subscribed event, including restores', async () => {
+    const webhook = (await createWebhook({
+      url: PUBLIC_URL,
+      events: [WebhookEvent.TASK_CREATED, WebhookEvent.TASK_RESTORED]
+    }).expect(201)).body.data;
+
+    const task = await createTask(app, user, { title: 'Delivered' });
+    await request(app).delete(`/api/tasks/${task.id}`).set(user.auth).expect(200);
+    await request(app).post(`/api/tasks/trash/${task.id}/restore`).set(user.auth).expect(200);
+
+    const res = await request(app).get(`/api/webhooks/${webhook.id}/deliveries`).set(user.auth).expect(200);
+    expect(res.body.data.map((delivery: { event: string }) => delivery.event).sort())
+      .toEqual([WebhookEvent.TASK_CREATED, WebhookEvent.TASK_RESTORED]);
+  });
+});
+
+describe('task events', () => {
+  let app: Express;
+  let user: TestUser;
+  let received: LoggedTaskEvent[];
+  let unsubscribe: () => void;
+
+  beforeAll(async () => {
+    ({ app } = await createTestApp());
+    user = await registerUser(app);
+    unsubscribe = taskEventLog.subscribe(event => received.push(event));
+  });
+
+  afterAll(async () => {
+    unsubscribe();
+    await closeTestDatabase();
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it('publishes a restore for every task taken out of the trash', async () => {
+    const parent = await createTask(app, user, { title: 'Parent' });
+    const child = await createTask(app, user, { title: 'Child', parentId: parent.id });
+    await request(app).delete(`/api/tasks/${parent.id}?children=cascade`).set(user.auth).expect(200);
+    received = [];
+
+    await request(app).post(`/api/tasks/trash/${parent.id}/restore`).set(user.auth).expect(200);
+
+    expect(received.map(event => [event.type, event.task.id]).sort()).toEqual([
+      [WebhookEvent.TASK_RESTORED, parent.id],
+      [WebhookEvent.TASK_RESTORED, child.id]
+    ].sort());
+    expect(received.every(event => event.userId === user.id && event.task.deletedAt === null)).toBe(true);
+  });
+
+  it('replays the events after a Last-Event-ID', async () => {
+    const lastEventId = taskEventLog.latestId();
+    await createTask(app, user, { title: 'Replayed' });
+
+    const replay = taskEventLog.since(lastEventId);
+    expect(replay.complete).toBe(true);
+    expect(replay.events.map(event => event.type)).toEqual([WebhookEvent.TASK_CREATED]);
+    expect(taskEventLog.since('unknown-1').complete).toBe(false);
+  });
+});
@@ -0,0 +1,246 @@
+// app.ts
+import express from "express";
+import cors from "cors";
+import helmet from "helmet";
+import { createTaskRoutes } from "./routes/taskRoutes";
+import { createTagRoutes } from "./routes/tagRoutes";
+import { createCommentRoutes } from "./routes/commentRoutes";
+import { createAuditRoutes } from "./routes/auditRoutes";
+import { createCalendarRoutes } from "./routes/calendarRoutes";
+import { createGraphQLRoutes } from "./routes/graphqlRoutes";
+import authRoutes from "./routes/authRoutes";
+import apiKeyRoutes from "./routes/apiKeyRoutes";
+import webhookRoutes from "./routes/webhookRoutes";
+import adminRoutes from "./routes/adminRoutes";
+import { TaskRepository } from "./repositories";
+
+// Import Swagger related modules
+import swaggerUi from 'swagger-ui-express';
+import swaggerSpec, { swaggerOptions } from './swagger';
+
+// Services the application is wired up with
+export interface AppDependencies {
+  taskRepository: TaskRepository;
+}
+
+// Build the Express application around its dependencies
+export const createApp = ({ taskRepository }: AppDependencies) => {
+  // Create Express application
+  const app = express();
+
+  // Security middleware
+  app.use(helmet({
+    contentSecurityPolicy: {
+      directives: {
+        defaultSrc: ["'self'"],
+        styleSrc: ["'self'", "'unsafe-inline'", "https://fonts.googleapis.com"],
+        scriptSrc: ["'self'", "'unsafe-inline'"],
+        fontSrc: ["'self'", "https://fonts.gstatic.com"],
+        imgSrc: ["'self'", "data:", "https://validator.swagger.io"],
+      },
+    },
+  }));
+
+  // CORS middleware
+  app.use(
+    cors({
+      origin: process.env.CLIENT_URL || "http://localhost:3000",
+      credentials: true,
+      // Browser clients need the task ETag for conditional updates
+      exposedHeaders: ["ETag"],
+    })
+  );
+
+  // Body parsing middleware
+  // JSON bodies, including the merge-patch and json-patch bodies of PATCH requests
+  app.use(
+    express.json({
+      limit: "10mb",
+      type: ["application/json", "application/merge-patch+json", "application/json-patch+json"],
+    })
+  );
+  app.use(express.urlencoded({ extended: true }));
+
+  // Request logging middleware (optional)
+  app.use((req, res, next) => {
+    console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
+    next();
+  });
+
+  // API Routes
+  app.use("/api/auth", authRoutes);
+  app.use("/api/keys", apiKeyRoutes);
+  app.use("/api/tasks/:id/comments", createCommentRoutes(taskRepository));
+  app.use("/api/tasks", createTaskRoutes(taskRepository));
+  app.use("/api/tags", createTagRoutes(taskRepository));
+  app.use("/api/audit", createAuditRoutes(taskRepository));
+  app.use("/api/calendar", createCalendarRoutes(taskRepository));
+  app.use("/api/webhooks", webhookRoutes);
+  app.use("/api/admin", adminRoutes);
+  app.use("/graphql", createGraphQLRoutes(taskRepository));
+
+  // Health check endpoint
+  app.get("/", (req, res) => {
+    res.status(200).json({
+      success: true,
+      message: "Task Management API is running!",
+      version: "1.0.0",
+      timestamp: new Date().toISOString(),
+      documentation: `${req.protocol}://${req.get('host')}/api-docs`
+    });
+  });
+
+  // API status endpoint
+  app.get("/api", (req, res) => {
+    res.status(200).json({
+      success: true,
+      message: "Task Management API v1.0.0",
+      endpoints: {
+        auth: "/api/auth",
+        keys: "/api/keys",
+        tasks: "/api/tasks",
+        tags: "/api/tags",
+        audit: "/api/audit",
+        calendar: "/api/calendar",
+        webhooks: "/api/webhooks",
+        admin: "/api/admin",
+        graphql: "/graphql",
+        documentation: "/api-docs",
+        health: "/"
+      }
+    });
+  });
+
+  // Serve Swagger UI at /api-docs
+  app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, swaggerOptions));
+
+  // Redirect /docs to /api-docs for convenience
+  app.get('/docs', (req, res) => {
+    res.redirect('/api-docs');
+  });
+
+  // 404 handler for API routes
+  app.use("/api/*", (req, res) => {
+    res.status(404).json({
+      success: false,
+      message: "API endpoint not found",
+      path: req.path,
+      method: req.method,
+      availableEndpoints: [
+        "POST /api/auth/register",
+        "POST /api/auth/login",
+        "GET /api/auth/me",
+        "POST /api/keys",
+        "GET /api/keys",
+        "DELETE /api/keys/:id",
+        "GET /api/tasks",
+        "POST /api/tasks", 
+        "GET /api/tasks/:id",
+        "GET /api/tasks/:id/children",
+        "GET /api/tasks/:id/subtree",
+        "GET /api/tasks/:id/blockers",
+        "POST /api/tasks/:id/blockers",
+        "DELETE /api/tasks/:id/blockers/:blockerId",
+        "GET /api/tasks/:id/dependents",
+        "GET /api/tasks/:id/history",
+        "POST /api/tasks/:id/revert",
+        "GET /api/tasks/:id/occurrences",
+        "POST /api/tasks/:id/skip",
+        "DELETE /api/tasks/:id/recurrence",
+        "GET /api/tasks/:id/comments",
+        "POST /api/tasks/:id/comments",
+        "GET /api/tasks/:id/comments/:commentId",
+        "GET /api/tasks/:id/comments/:commentId/replies",
+        "PUT /api/tasks/:id/comments/:commentId",
+        "DELETE /api/tasks/:id/comments/:commentId",
+        "PUT /api/tasks/:id",
+        "PATCH /api/tasks/:id",
+        "DELETE /api/tasks/:id",
+        "POST /api/tasks/bulk",
+        "GET /api/tasks/export",
+        "GET /api/tasks/events",
+        "POST /api/tasks/import",
+        "GET /api/tasks/trash",
+        "DELETE /api/tasks/trash",
+        "POST /api/tasks/trash/:id/restore",
+        "DELETE /api/tasks/trash/:id",
+        "GET /api/tasks/stats",
+        "GET /api/tasks/overdue",
+        "GET /api/tags",
+        "POST /api/tags",
+        "PUT /api/tags/:id",
+        "DELETE /api/tags/:id",
+        "GET /api/audit",
+        "GET /api/calendar/tasks.ics",
+        "GET /api/calendar/feed",
+        "POST /api/calendar/feed",
+        "DELETE /api/calendar/feed",
+        "GET /api/calendar/:token.ics",
+        "POST /api/webhooks",
+        "GET /api/webhooks",
+        "GET /api/webhooks/:id",
+        "PUT /api/webhooks/:id",
+        "DELETE /api/webhooks/:id",
+        "GET /api/webhooks/:id/deliveries",
+        "POST /api/webhooks/:id/deliveries/:deliveryId/redeliver",
+        "POST /api/webhooks/:id/ping",
+        "GET /api/admin/jobs",
+        "GET /api/admin/jobs/:id",
+        "POST /api/admin/jobs/:id/pause",
+        "POST /api/admin/jobs/:id/resume",
+        "POST /api/admin/jobs/:id/retry"
+      ]
+    });
+  });
+
+  // 404 handler for all other routes
+  app.use("*", (req, res) => {
+    res.status(404).json({
+      success: false,
+      message: "Endpoint not found",
+      suggestion: "Visit /api-docs for API documentation"
+    });
+  });
+
+  // Global error handler. Errors may carry an HTTP status (body-parser), a parse error
+  // type or a SQLite code.
+  app.use(
+    (
+      error: Error & { status?: number; type?: string; code?: string },
+      req: express.Request,
+      res: express.Response,
+      next: express.NextFunction
+    ) => {
+      console.error("Unhandled error:", error);
+
+      // Handle different types of errors
+      let statusCode = error.status || 500;
+      let message = error.message || "Internal server error";
+
+      // Database connection errors
+      if (error.code === 'SQLITE_CANTOPEN') {
+        statusCode = 503;
+        message = "Database connection failed";
+      }
+
+      // JSON parsing errors
+      if (error.type === 'entity.parse.failed') {
+        statusCode = 400;
+        message = "Invalid JSON format";
+      }
+
+      res.status(statusCode).json({
+        success: false,
+        message: message,
+        ...(process.env.NODE_ENV === 'development' && { 
+          stack: error.stack,
+          details: error 
+        })
+      });
+    }
+  );
+
+  return app;
+};
+
+export default createApp;
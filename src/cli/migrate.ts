@@ -0,0 +1,68 @@
+// cli/migrate.ts
+// Usage:
+//   npm run migrate -- status          Show applied and pending migrations
+//   npm run migrate -- up [version]    Apply pending migrations (optionally up to a version)
+//   npm run migrate -- down [steps]    Roll back the last migration (or the last N)
+import { openDatabase } from '../utils/database';
+import {
+  getMigrationStatus,
+  getCurrentVersion,
+  migrateUp,
+  migrateDown,
+} from '../utils/migrator';
+import { LATEST_VERSION } from '../migrations';
+
+const parsePositiveInt = (value: string | undefined, label: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+  return parsed;
+};
+
+const run = async (): Promise<void> => {
+  const [command = 'status', arg] = process.argv.slice(2);
+  const db = await openDatabase();
+
+  try {
+    switch (command) {
+      case 'status': {
+        const status = await getMigrationStatus(db);
+        const currentVersion = await getCurrentVersion(db);
+        console.log(`Current schema version: ${currentVersion}`);
+        if (currentVersion > LATEST_VERSION) {
+          console.log(`  Warning: database is newer than the latest known migration (${LATEST_VERSION})`);
+        }
+        status.forEach(migration => {
+          const state = migration.applied
+            ? `applied ${migration.appliedAt?.toISOString()}`
+            : 'pending';
+          console.log(`  ${String(migration.version).padStart(3, '0')}_${migration.name}  ${state}`);
+        });
+        break;
+      }
+      case 'up': {
+        const applied = await migrateUp(db, parsePositiveInt(arg, 'Target version'));
+        console.log(applied.length ? `Applied ${applied.length} migration(s).` : 'Nothing to migrate.');
+        break;
+      }
+      case 'down': {
+        const rolledBack = await migrateDown(db, parsePositiveInt(arg, 'Steps') ?? 1);
+        console.log(rolledBack.length ? `Rolled back ${rolledBack.length} migration(s).` : 'Nothing to roll back.');
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}". Use one of: status, up, down`);
+    }
+  } finally {
+    await db.close();
+  }
+};
+
+run().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
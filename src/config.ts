@@ -0,0 +1,90 @@
+// config.ts
+// Runtime configuration read from environment variables
+import { NotificationSinkType } from './models/job';
+
+export type TaskStore = 'sqlite' | 'memory';
+
+const parseTaskStore = (value: string | undefined): TaskStore => {
+  const store = (value || 'sqlite').toLowerCase();
+  if (store !== 'sqlite' && store !== 'memory') {
+    throw new Error(`Invalid TASK_STORE "${value}"; expected "sqlite" or "memory"`);
+  }
+  return store;
+};
+
+const parseNotificationSink = (value: string | undefined): NotificationSinkType => {
+  const sink = (value || 'log').toLowerCase();
+  if (sink !== 'log' && sink !== 'webhook' && sink !== 'smtp') {
+    throw new Error(`Invalid NOTIFICATION_SINK "${value}"; expected "log", "webhook" or "smtp"`);
+  }
+  if (sink === 'webhook' && !process.env.NOTIFICATION_WEBHOOK_URL) {
+    throw new Error('NOTIFICATION_WEBHOOK_URL is required when NOTIFICATION_SINK is "webhook"');
+  }
+  return sink;
+};
+
+// Comma-separated email addresses, compared case-insensitively
+const parseEmailList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+
+const parseRetentionDays = (value: string | undefined): number => {
+  const days = Number(value ?? 30);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`Invalid TRASH_RETENTION_DAYS "${value}"; expected a whole number of days`);
+  }
+  return days;
+};
+
+const parsePositiveInteger = (name: string, value: string | undefined, fallback: number): number => {
+  const number = Number(value ?? fallback);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid ${name} "${value}"; expected a whole number of at least 1`);
+  }
+  return number;
+};
+
+export const config = {
+  port: process.env.PORT || 5000,
+  // SQLite database file; use ":memory:" for a throwaway database
+  dbPath: process.env.DB_PATH || './tasks.db',
+  // Account that tasks created before users existed are assigned to when upgrading such a
+  // database; created with the password if it does not exist yet
+  legacyTaskOwnerEmail: process.env.LEGACY_TASK_OWNER_EMAIL?.trim().toLowerCase() || undefined,
+  legacyTaskOwnerPassword: process.env.LEGACY_TASK_OWNER_PASSWORD,
+  // Backend used by the task repository
+  taskStore: parseTaskStore(process.env.TASK_STORE),
+  // Optional JSON file defining custom statuses and allowed status transitions
+  workflowFile: process.env.WORKFLOW_FILE,
+  // Days a deleted task stays in the trash before it is purged; 0 keeps it forever
+  trashRetentionDays: parseRetentionDays(process.env.TRASH_RETENTION_DAYS),
+  // Attempts at delivering a webhook event before it is given up on
+  webhookMaxAttempts: parsePositiveInteger('WEBHOOK_MAX_ATTEMPTS', process.env.WEBHOOK_MAX_ATTEMPTS, 8),
+  // Wait before the first retry of a failed webhook delivery; doubles with every retry
+  webhookRetryDelaySeconds: parsePositiveInteger(
+    'WEBHOOK_RETRY_DELAY_SECONDS',
+    process.env.WEBHOOK_RETRY_DELAY_SECONDS,
+    30
+  ),
+  // Let webhooks reach loopback, link-local and private network addresses (for development)
+  webhookAllowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+  // Recent task events kept for event stream clients that reconnect with Last-Event-ID
+  eventLogSize: parsePositiveInteger('EVENT_LOG_SIZE', process.env.EVENT_LOG_SIZE, 1000),
+  // Seconds between heartbeat comments on idle event streams
+  eventHeartbeatSeconds: parsePositiveInteger('EVENT_HEARTBEAT_SECONDS', process.env.EVENT_HEARTBEAT_SECONDS, 15),
+  // Deepest nesting of fields a GraphQL operation may select
+  graphqlMaxDepth: parsePositiveInteger('GRAPHQL_MAX_DEPTH', process.env.GRAPHQL_MAX_DEPTH, 10),
+  // Users allowed to manage background jobs through the admin endpoints
+  adminEmails: parseEmailList(process.env.ADMIN_EMAILS),
+  // Attempts at running a background job before it is marked failed
+  jobMaxAttempts: parsePositiveInteger('JOB_MAX_ATTEMPTS', process.env.JOB_MAX_ATTEMPTS, 5),
+  // How long before a task's due date its owner is reminded of it
+  reminderLeadMinutes: parsePositiveInteger('REMINDER_LEAD_MINUTES', process.env.REMINDER_LEAD_MINUTES, 60),
+  // Hours a task may stay IN_PROGRESS without changes before its priority is raised
+  escalationHours: parsePositiveInteger('ESCALATION_HOURS', process.env.ESCALATION_HOURS, 48),
+  // Where reminders and escalations are sent
+  notificationSink: parseNotificationSink(process.env.NOTIFICATION_SINK),
+  // Endpoint the webhook sink POSTs notifications to
+  notificationWebhookUrl: process.env.NOTIFICATION_WEBHOOK_URL,
+  // Directory the smtp sink writes its messages to, one .eml file each
+  notificationMailDir: process.env.NOTIFICATION_MAIL_DIR || './mail',
+};
@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKey, PublicApiKey, CreateApiKeyRequest } from '../models/apiKey';
+import { addApiKey, getApiKeysByUser, revokeApiKey } from '../utils/database';
+import { generateApiKey } from '../utils/auth';
+
+// Strip the key hash before sending an API key to the client
+const toPublicApiKey = ({ keyHash, ...apiKey }: ApiKey): PublicApiKey => apiKey;
+
+// Create a new API key for the current user
+export const createApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, scopes }: CreateApiKeyRequest = req.body;
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const newApiKey: ApiKey = {
+      id: uuidv4(),
+      userId: req.user!.id,
+      name,
+      prefix,
+      keyHash,
+      scopes,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null
+    };
+
+    const createdApiKey = await addApiKey(newApiKey);
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created successfully. Store the key now, it will not be shown again',
+      data: {
+        ...toPublicApiKey(createdApiKey),
+        key
+      }
+    });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// List the current user's API keys, including revoked ones
+export const getApiKeys = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const apiKeys = await getApiKeysByUser(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'API keys retrieved successfully',
+      data: apiKeys.map(toPublicApiKey)
+    });
+  } catch (error) {
+    console.error('Error getting API keys:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Revoke one of the current user's API keys
+export const revokeApiKeyController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const revoked = await revokeApiKey(id, req.user!.id);
+
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        message: 'API key not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'API key revoked successfully'
+    });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
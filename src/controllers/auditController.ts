@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { AuditQuery } from '../models/audit';
+import { TaskRepository } from '../repositories';
+
+// Build the audit feed request handlers around a task repository
+export const createAuditController = (taskRepository: TaskRepository) => {
+  // Get the caller's audit entries across all tasks, newest first
+  const getAuditLogController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      // validateQuery has already applied the page and limit defaults
+      const query = req.query as unknown as AuditQuery;
+
+      const result = await taskRepository.getAuditLog(req.user!.id, query);
+
+      res.status(200).json({
+        success: true,
+        message: 'Audit log retrieved successfully',
+        data: result.entries,
+        pagination: {
+          currentPage: result.page,
+          totalPages: result.totalPages,
+          totalItems: result.total,
+          itemsPerPage: query.limit
+        },
+        total: result.total
+      });
+    } catch (error) {
+      console.error('Error getting audit log:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  return {
+    getAuditLogController
+  };
+};
+
+export type AuditController = ReturnType<typeof createAuditController>;
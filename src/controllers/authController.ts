@@ -0,0 +1,111 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { User, PublicUser, RegisterRequest, LoginRequest } from '../models/user';
+import { addUser, getUserByEmail, getUserById } from '../utils/database';
+import { hashPassword, verifyPassword, signToken, getTokenExpiry } from '../utils/auth';
+
+// Strip the password hash before sending a user to the client
+const toPublicUser = ({ passwordHash, ...user }: User): PublicUser => user;
+
+// Register a new user account
+export const register = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, password, name }: RegisterRequest = req.body;
+
+    const existingUser = await getUserByEmail(email);
+    if (existingUser) {
+      res.status(409).json({
+        success: false,
+        message: 'Email is already registered'
+      });
+      return;
+    }
+
+    const newUser: User = {
+      id: uuidv4(),
+      email,
+      name,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const createdUser = await addUser(newUser);
+
+    res.status(201).json({
+      success: true,
+      message: 'User registered successfully',
+      data: {
+        user: toPublicUser(createdUser),
+        token: signToken(createdUser),
+        expiresIn: getTokenExpiry()
+      }
+    });
+  } catch (error) {
+    console.error('Error registering user:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Log in with email and password
+export const login = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, password }: LoginRequest = req.body;
+
+    const user = await getUserByEmail(email);
+
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid email or password'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        user: toPublicUser(user),
+        token: signToken(user),
+        expiresIn: getTokenExpiry()
+      }
+    });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Get the currently authenticated user
+export const getCurrentUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await getUserById(req.user!.id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'User retrieved successfully',
+      data: toPublicUser(user)
+    });
+  } catch (error) {
+    console.error('Error getting current user:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
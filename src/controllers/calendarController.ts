@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { CalendarFeed, CalendarQuery, PublicCalendarFeed } from '../models/calendar';
+import { TaskRepository } from '../repositories';
+import { InvalidSearchQueryError } from '../utils/errors';
+import { createCalendarEncoder, CALENDAR_TYPE } from '../utils/icalendar';
+import { sendTaskStream, abortTaskStream } from '../utils/taskStream';
+import { generateCalendarToken, hashCalendarToken } from '../utils/auth';
+import {
+  replaceCalendarFeed,
+  getCalendarFeedByUser,
+  getCalendarFeedByHash,
+  touchCalendarFeed,
+  deleteCalendarFeed
+} from '../utils/database';
+
+// Strip the token hash before sending a calendar feed to the client
+const toPublicCalendarFeed = ({ tokenHash, ...feed }: CalendarFeed): PublicCalendarFeed => feed;
+
+// Build the calendar request handlers around a task repository
+export const createCalendarController = (taskRepository: TaskRepository) => {
+  // Stream a user's tasks matching a calendar query as an iCalendar document
+  const sendCalendar = async (req: Request, res: Response, userId: string): Promise<void> => {
+    try {
+      const { events, ...filters } = req.query as unknown as CalendarQuery;
+      await sendTaskStream(res, taskRepository, userId, filters, createCalendarEncoder({ events }), () => {
+        res.status(200).type(CALENDAR_TYPE);
+      });
+    } catch (error) {
+      if (abortTaskStream(res, error, 'Error getting calendar:')) {
+        return;
+      }
+      if (error instanceof InvalidSearchQueryError) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('Error getting calendar:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Get the caller's tasks as an iCalendar document
+  const getCalendarController = (req: Request, res: Response): Promise<void> =>
+    sendCalendar(req, res, req.user!.id);
+
+  // Get the tasks of the owner of a calendar feed; the secret token in the URL is the
+  // only credential, since calendar apps cannot send auth headers
+  const getFeedCalendarController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const feed = await getCalendarFeedByHash(hashCalendarToken(req.params.token));
+
+      if (!feed) {
+        res.status(404).json({
+          success: false,
+          message: 'Calendar feed not found'
+        });
+        return;
+      }
+
+      await touchCalendarFeed(feed.id);
+      await sendCalendar(req, res, feed.userId);
+    } catch (error) {
+      console.error('Error getting calendar feed:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Get the caller's calendar feed, without its URL
+  const getFeedController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const feed = await getCalendarFeedByUser(req.user!.id);
+
+      if (!feed) {
+        res.status(404).json({
+          success: false,
+          message: 'Calendar feed not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar feed retrieved successfully',
+        data: toPublicCalendarFeed(feed)
+      });
+    } catch (error) {
+      console.error('Error getting calendar feed:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Create the caller's calendar feed, replacing (and so disabling) the URL of any feed
+  // they had before
+  const createFeedController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { token, prefix, tokenHash } = generateCalendarToken();
+
+      const feed = await replaceCalendarFeed({
+        id: uuidv4(),
+        userId: req.user!.id,
+        prefix,
+        tokenHash,
+        createdAt: new Date(),
+        lastUsedAt: null
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Calendar feed created successfully. Store the URL now, it will not be shown again',
+        data: {
+          ...toPublicCalendarFeed(feed),
+          url: `${req.protocol}://${req.get('host')}/api/calendar/${token}.ics`
+        }
+      });
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Delete the caller's calendar feed so its URL stops working
+  const deleteFeedController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await deleteCalendarFeed(req.user!.id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Calendar feed not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendar feed deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting calendar feed:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  return {
+    getCalendarController,
+    getFeedCalendarController,
+    getFeedController,
+    createFeedController,
+    deleteFeedController
+  };
+};
+
+export type CalendarController = ReturnType<typeof createCalendarController>;
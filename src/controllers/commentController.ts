@@ -0,0 +1,205 @@
+import { Request, Response } from 'express';
+import { CommentListResult, CommentQuery, CreateCommentRequest, UpdateCommentRequest } from '../models/comment';
+import { TaskRepository } from '../repositories';
+import { ValidationError } from '../utils/errors';
+
+const sendTaskNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    message: 'Task not found'
+  });
+};
+
+const sendCommentNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    message: 'Comment not found'
+  });
+};
+
+// A page of comments in the list response shape
+const sendCommentPage = (
+  res: Response,
+  message: string,
+  { comments, total }: CommentListResult,
+  { page, limit }: { page: number; limit: number }
+): void => {
+  res.status(200).json({
+    success: true,
+    message,
+    data: comments,
+    pagination: {
+      currentPage: page,
+      totalPages: Math.ceil(total / limit),
+      totalItems: total,
+      itemsPerPage: limit
+    },
+    total
+  });
+};
+
+// Build the comment request handlers around a task repository
+export const createCommentController = (taskRepository: TaskRepository) => {
+  // List the top-level comments of a task, oldest first, each with its reply count
+  const getTaskCommentsController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      // validateQuery has already applied the page and limit defaults
+      const query = req.query as unknown as CommentQuery & { page: number; limit: number };
+
+      const result = await taskRepository.getComments(req.params.id, req.user!.id, query);
+
+      if (!result) {
+        sendTaskNotFound(res);
+        return;
+      }
+
+      sendCommentPage(res, 'Comments retrieved successfully', result, query);
+    } catch (error) {
+      console.error('Error getting comments:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Get one comment of a task
+  const getTaskCommentController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const comment = await taskRepository.getComment(req.params.commentId, req.params.id, req.user!.id);
+
+      if (!comment) {
+        sendCommentNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment retrieved successfully',
+        data: comment
+      });
+    } catch (error) {
+      console.error('Error getting comment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // List the replies to a comment, oldest first
+  const getCommentRepliesController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = req.query as unknown as CommentQuery & { page: number; limit: number };
+
+      const result = await taskRepository.getCommentReplies(req.params.commentId, req.params.id, req.user!.id, query);
+
+      if (!result) {
+        sendCommentNotFound(res);
+        return;
+      }
+
+      sendCommentPage(res, 'Replies retrieved successfully', result, query);
+    } catch (error) {
+      console.error('Error getting comment replies:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Comment on a task, or reply to one of its top-level comments with parentId
+  const createTaskCommentController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const request: CreateCommentRequest = req.body;
+
+      const comment = await taskRepository.addComment(req.params.id, req.user!.id, request);
+
+      if (!comment) {
+        sendTaskNotFound(res);
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Comment created successfully',
+        data: comment
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [{ field: error.field, message: error.message }]
+        });
+        return;
+      }
+      console.error('Error creating comment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Edit the body of a comment
+  const updateTaskCommentController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { body }: UpdateCommentRequest = req.body;
+
+      const comment = await taskRepository.updateComment(req.params.commentId, req.params.id, req.user!.id, body);
+
+      if (!comment) {
+        sendCommentNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment updated successfully',
+        data: comment
+      });
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Delete a comment together with its replies
+  const deleteTaskCommentController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await taskRepository.deleteComment(req.params.commentId, req.params.id, req.user!.id);
+
+      if (!deleted) {
+        sendCommentNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  return {
+    getTaskCommentsController,
+    getTaskCommentController,
+    getCommentRepliesController,
+    createTaskCommentController,
+    updateTaskCommentController,
+    deleteTaskCommentController
+  };
+};
+
+export type CommentController = ReturnType<typeof createCommentController>;
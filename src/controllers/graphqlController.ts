@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { DocumentNode, execute, GraphQLError, parse, printSchema, specifiedRules, validate } from 'graphql';
+import { config } from '../config';
+import { TaskRepository } from '../repositories';
+import { createGraphQLSchema, GraphQLContext } from '../graphql/schema';
+import { createDepthLimitRule } from '../graphql/depthLimit';
+import { PLAYGROUND_HTML } from '../graphql/playground';
+
+// Hide the details of unexpected errors from clients, logging them instead; errors
+// raised as GraphQLErrors are meant for the client and kept
+const maskError = (error: GraphQLError): GraphQLError => {
+  if (!error.originalError || error.originalError instanceof GraphQLError) {
+    return error;
+  }
+  console.error('Error executing GraphQL operation:', error.originalError);
+  return new GraphQLError('Internal server error', {
+    nodes: error.nodes,
+    path: error.path,
+    extensions: { code: 'INTERNAL_SERVER_ERROR' }
+  });
+};
+
+// Build the GraphQL request handlers around a task repository
+export const createGraphQLController = (taskRepository: TaskRepository) => {
+  const schema = createGraphQLSchema(taskRepository);
+  const validationRules = [...specifiedRules, createDepthLimitRule(config.graphqlMaxDepth)];
+
+  // Execute a GraphQL operation. Responses take the standard GraphQL shape of data and
+  // errors rather than the REST envelope, so GraphQL clients work unchanged.
+  const executeGraphQLController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { query, variables, operationName } = req.body ?? {};
+
+      if (typeof query !== 'string' || !query.trim()) {
+        res.status(400).json({ errors: [{ message: 'A query string is required' }] });
+        return;
+      }
+      if (variables != null && (typeof variables !== 'object' || Array.isArray(variables))) {
+        res.status(400).json({ errors: [{ message: 'Variables must be an object' }] });
+        return;
+      }
+
+      let document: DocumentNode;
+      try {
+        document = parse(query);
+      } catch (error) {
+        if (error instanceof GraphQLError) {
+          res.status(400).json({ errors: [error] });
+          return;
+        }
+        throw error;
+      }
+
+      const validationErrors = validate(schema, document, validationRules);
+      if (validationErrors.length) {
+        res.status(400).json({ errors: validationErrors });
+        return;
+      }
+
+      const contextValue: GraphQLContext = { user: req.user! };
+      const result = await execute({
+        schema,
+        document,
+        variableValues: variables,
+        operationName: typeof operationName === 'string' ? operationName : undefined,
+        contextValue
+      });
+
+      // Without data the operation could not run at all (e.g. a syntax error)
+      res.status(result.data === undefined ? 400 : 200).json({
+        ...result,
+        errors: result.errors?.map(maskError)
+      });
+    } catch (error) {
+      console.error('Error executing GraphQL operation:', error);
+      res.status(500).json({ errors: [{ message: 'Internal server error' }] });
+    }
+  };
+
+  // Serve the GraphQL playground page
+  const getPlaygroundController = (req: Request, res: Response): void => {
+    res.status(200).type('html').send(PLAYGROUND_HTML);
+  };
+
+  // Get the schema in the GraphQL schema language, e.g. for client code generators
+  const getSchemaController = (req: Request, res: Response): void => {
+    res.status(200).type('text/plain').send(printSchema(schema));
+  };
+
+  return {
+    executeGraphQLController,
+    getPlaygroundController,
+    getSchemaController
+  };
+};
+
+export type GraphQLController = ReturnType<typeof createGraphQLController>;
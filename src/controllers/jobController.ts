@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import { Job, JobQuery, JobStatus } from '../models/job';
+import { getJobs, getJobById, updateJob } from '../utils/database';
+
+const sendJobNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    message: 'Job not found'
+  });
+};
+
+// Move a job to another status, answering 404 for a missing job and 409 when it is not
+// in one of the statuses the change starts from
+const changeJobStatus = async (
+  req: Request,
+  res: Response,
+  action: string,
+  fromStatuses: JobStatus[],
+  changes: Parameters<typeof updateJob>[2]
+): Promise<Job | undefined> => {
+  const job = await updateJob(req.params.id, fromStatuses, changes);
+  if (job) {
+    return job;
+  }
+
+  const current = await getJobById(req.params.id);
+  if (!current) {
+    sendJobNotFound(res);
+    return undefined;
+  }
+
+  res.status(409).json({
+    success: false,
+    message: `Cannot ${action} a ${current.status} job`,
+    data: current
+  });
+  return undefined;
+};
+
+// List background jobs, newest first
+export const getJobsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // validateQuery has already applied the page and limit defaults
+    const query = req.query as unknown as JobQuery & { page: number; limit: number };
+
+    const { jobs, total } = await getJobs(query);
+
+    res.status(200).json({
+      success: true,
+      message: 'Jobs retrieved successfully',
+      data: jobs,
+      pagination: {
+        currentPage: query.page,
+        totalPages: Math.ceil(total / query.limit),
+        totalItems: total,
+        itemsPerPage: query.limit
+      },
+      total
+    });
+  } catch (error) {
+    console.error('Error getting jobs:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Get a background job
+export const getJobController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await getJobById(req.params.id);
+
+    if (!job) {
+      sendJobNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Job retrieved successfully',
+      data: job
+    });
+  } catch (error) {
+    console.error('Error getting job:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Stop a scheduled job from running until it is resumed. A running job cannot be paused;
+// pause it once it is scheduled again.
+export const pauseJobController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await changeJobStatus(req, res, 'pause', ['scheduled'], { status: 'paused' });
+
+    if (!job) {
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Job paused successfully',
+      data: job
+    });
+  } catch (error) {
+    console.error('Error pausing job:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Let a paused job run again; one that fell due while paused runs right away
+export const resumeJobController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await changeJobStatus(req, res, 'resume', ['paused'], { status: 'scheduled' });
+
+    if (!job) {
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Job resumed successfully',
+      data: job
+    });
+  } catch (error) {
+    console.error('Error resuming job:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Run a failed job again with a fresh set of attempts, or a scheduled one right away
+export const retryJobController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await changeJobStatus(req, res, 'retry', ['failed', 'scheduled'], {
+      status: 'scheduled',
+      runAt: new Date(),
+      attempts: 0,
+      lastError: null
+    });
+
+    if (!job) {
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Job retry queued successfully',
+      data: job
+    });
+  } catch (error) {
+    console.error('Error retrying job:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
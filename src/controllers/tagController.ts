@@ -0,0 +1,129 @@
+import { Request, Response } from 'express';
+import { CreateTagRequest, RenameTagRequest } from '../models/tag';
+import { TaskRepository } from '../repositories';
+import { ConflictError } from '../utils/errors';
+
+// Build the tag request handlers around a task repository
+export const createTagController = (taskRepository: TaskRepository) => {
+  // List the caller's tags with the number of tasks using each
+  const getTagsController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tags = await taskRepository.getTags(req.user!.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tags retrieved successfully',
+        data: tags,
+        total: tags.length
+      });
+    } catch (error) {
+      console.error('Error getting tags:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Create a tag without attaching it to any task
+  const createTag = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name }: CreateTagRequest = req.body;
+
+      const tag = await taskRepository.createTag(req.user!.id, name);
+
+      res.status(201).json({
+        success: true,
+        message: 'Tag created successfully',
+        data: tag
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('Error creating tag:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Rename a tag; every task carrying it picks up the new name
+  const renameTagController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { name }: RenameTagRequest = req.body;
+
+      const tag = await taskRepository.renameTag(id, req.user!.id, name);
+
+      if (!tag) {
+        res.status(404).json({
+          success: false,
+          message: 'Tag not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Tag renamed successfully',
+        data: tag
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('Error renaming tag:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Delete a tag and detach it from all tasks
+  const deleteTagController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const deleted = await taskRepository.deleteTag(id, req.user!.id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Tag not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Tag deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  return {
+    getTagsController,
+    createTag,
+    renameTagController,
+    deleteTagController
+  };
+};
+
+export type TagController = ReturnType<typeof createTagController>;
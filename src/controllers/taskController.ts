@@ -1,190 +1,1422 @@
 import { Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import { Task, TaskStatus, CreateTaskRequest, UpdateTaskRequest } from '../models/task';
 import {
-  getAllTasks,
-  getTaskById,
-  addTask,
-  updateTask,
-  deleteTask
-} from '../utils/database'; // database.ts is in utils now, adjust if your path is different
-
-// Create a new task
-export const createTask = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { title, description, status }: CreateTaskRequest = req.body;
-
-    const newTask: Task = {
-      id: uuidv4(),
-      title,
-      description: description || '',
-      status: status || TaskStatus.PENDING,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+  Task,
+  TaskQuery,
+  TrashQuery,
+  UpdateTaskRequest,
+  ReplaceTaskRequest,
+  AddBlockerRequest,
+  ChildDeleteMode
+} from '../models/task';
+import { TaskRepository } from '../repositories';
+import {
+  InvalidSearchQueryError,
+  ConflictError,
+  ValidationError,
+  InvalidTransitionError,
+  PreconditionFailedError,
+  BlockedTaskError,
+  InvalidPatchError,
+  PatchTestFailedError,
+  InvalidImportError
+} from '../utils/errors';
+import { applyJsonPatch, applyMergePatch, JsonPatchOperation, JSON_PATCH_TYPE } from '../utils/patch';
+import { toETag, parseIfMatch } from '../utils/etag';
+import { BulkMode, BulkOperation, BulkOperationResult, BulkRequest } from '../models/bulk';
+import { ExportQuery, ImportQuery, ImportRowResult, ImportTaskRequest, TaskFileFormat } from '../models/importExport';
+import { TaskEvent } from '../models/webhook';
+import { ApiKeyScope } from '../models/apiKey';
+import { OccurrenceQuery } from '../models/recurrence';
+import { publishTaskEvents } from '../utils/taskEvents';
+import { createTaskCommands, findNextOccurrence, toUpdateEvents } from '../utils/taskCommands';
+import { getNextOccurrence, getOccurrences, parseRecurrenceRule } from '../utils/recurrence';
+import { buildTaskStats } from '../utils/taskStats';
+import { validateValue, bulkOperationSchema, replaceTaskSchema, importTaskSchema } from '../middleware/validation';
+import { createTaskEncoder, parseTaskFile, ParsedImportRow, TASK_FILE_TYPES } from '../utils/taskFormats';
+import { sendTaskStream, abortTaskStream } from '../utils/taskStream';
+import { buildTaskTree } from '../utils/taskTree';
+import { AuditAction, RevertTaskRequest } from '../models/audit';
+import { isCursorMode, DEFAULT_CURSOR_LIMIT } from '../utils/cursor';
 
-    const createdTask = await addTask(newTask); // Await the async function
+// Reject a stale conditional write, returning the task as it is now so the client can
+// merge its changes and retry with the new ETag
+const sendPreconditionFailed = (res: Response, error: PreconditionFailedError): void => {
+  res.set('ETag', toETag(error.current));
+  res.status(412).json({
+    success: false,
+    message: error.message,
+    data: error.current
+  });
+};
 
-    res.status(201).json({
-      success: true,
-      message: 'Task created successfully',
-      data: createdTask
-    });
-  } catch (error) {
-    console.error('Error creating task:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
+// A task's writable fields as the JSON document a PATCH is applied to
+const toPatchDocument = (task: Task): Record<string, unknown> => ({
+  title: task.title,
+  description: task.description,
+  status: task.status,
+  priority: task.priority,
+  dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+  tags: [...task.tags],
+  parentId: task.parentId,
+  recurrence: task.recurrence
+});
+
+// Optional fields a patch may remove, and the value that clears each
+const CLEARED_FIELDS: Record<string, unknown> = {
+  description: '',
+  dueDate: null,
+  tags: [],
+  parentId: null,
+  recurrence: null
 };
 
-// Get all tasks with optional pagination and filtering
-export const getAllTasksController = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { page, limit, status, search } = req.query as {
-      page?: string;
-      limit?: string;
-      status?: string;
-      search?: string;
+// Result fields of an operation that failed for a reason the client can act on, shaped
+// like the response of the operation's own endpoint; undefined for unexpected errors
+const toBulkFailure = (error: unknown): Omit<BulkOperationResult, 'index' | 'op'> | undefined => {
+  if (error instanceof ValidationError) {
+    return {
+      success: false,
+      status: 400,
+      message: 'Validation error',
+      errors: [{ field: error.field, message: error.message }]
     };
-
-    const pageNum = page ? parseInt(page) : undefined;
-    const limitNum = limit ? parseInt(limit) : undefined;
-
-    const result = await getAllTasks(pageNum, limitNum, status, search); // Await the async function
-
-    res.status(200).json({
-      success: true,
-      message: 'Tasks retrieved successfully',
-      data: result.tasks,
-      pagination: pageNum && limitNum ? {
-        currentPage: result.page,
-        totalPages: result.totalPages,
-        totalItems: result.total,
-        itemsPerPage: limitNum
-      } : undefined,
-      total: result.total
-    });
-  } catch (error) {
-    console.error('Error getting tasks:', error);
-    res.status(500).json({
+  }
+  if (error instanceof InvalidSearchQueryError) {
+    return { success: false, status: 400, message: error.message };
+  }
+  if (error instanceof InvalidTransitionError) {
+    return { success: false, status: 409, message: error.message, allowedStatuses: error.allowed };
+  }
+  if (error instanceof BlockedTaskError) {
+    return {
       success: false,
-      message: 'Internal server error'
-    });
+      status: 409,
+      message: error.message,
+      blockers: error.blockers.map(({ id, title, status }) => ({ id, title, status }))
+    };
   }
+  if (error instanceof ConflictError) {
+    return { success: false, status: 409, message: error.message };
+  }
+  if (error instanceof PreconditionFailedError) {
+    return { success: false, status: 412, message: error.message, data: error.current };
+  }
+  return undefined;
 };
 
-// Get a single task by ID
-export const getTaskByIdController = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { id } = req.params;
+// Thrown inside a transaction to roll back the changes of a failed bulk operation
+class FailedOperationError extends Error {
+  constructor(public readonly result: BulkOperationResult) {
+    super(result.message);
+    this.name = 'FailedOperationError';
+  }
+}
+
+const summarizeBulk = (mode: BulkMode, results: BulkOperationResult[]) => ({
+  mode,
+  succeeded: results.filter(result => result.success).length,
+  failed: results.filter(result => !result.success).length,
+  results
+});
+
+// Thrown at the end of a dry-run import to roll back everything it did. Other requests
+// wait while the import's transaction is open, so the rollback never takes their writes.
+class DryRunRollback extends Error {
+  constructor(public readonly results: ImportRowResult[]) {
+    super('Dry run');
+    this.name = 'DryRunRollback';
+  }
+}
+
+// Build the task request handlers around a task repository
+export const createTaskController = (taskRepository: TaskRepository) => {
+  const { addTaskFromRequest, applyTaskUpdate, trashTask, restoreTrashedTask } = createTaskCommands(taskRepository);
+
+  // Run one validated bulk operation. Failures the client can act on are returned as
+  // results; anything else is thrown. `scopes` are the API key's scopes, if any.
+  const runBulkOperation = async (
+    operation: BulkOperation,
+    index: number,
+    userId: string,
+    events: TaskEvent[],
+    scopes?: ApiKeyScope[]
+  ): Promise<BulkOperationResult> => {
+    const { op } = operation;
+    const notFound: BulkOperationResult = { index, op, success: false, status: 404, message: 'Task not found' };
+    try {
+      switch (operation.op) {
+        case 'create': {
+          const task = await addTaskFromRequest(operation.data, userId, events);
+          return { index, op, success: true, status: 201, message: 'Task created successfully', data: task };
+        }
+        case 'update': {
+          const { id, filter, data, version, ignoreBlockers } = operation;
+          if (filter) {
+            const { tasks } = await taskRepository.getAllTasks(userId, filter);
+            const updatedTasks: Task[] = [];
+            for (const task of tasks) {
+              updatedTasks.push((await applyTaskUpdate(task.id, userId, data, events, ignoreBlockers))!);
+            }
+            return {
+              index,
+              op,
+              success: true,
+              status: 200,
+              message: `${updatedTasks.length} task(s) updated successfully`,
+              data: updatedTasks
+            };
+          }
+          const task = await applyTaskUpdate(id!, userId, data, events, ignoreBlockers, version);
+          return task
+            ? { index, op, success: true, status: 200, message: 'Task updated successfully', data: task }
+            : notFound;
+        }
+        case 'delete': {
+          // The route only requires tasks:write, so check the delete scope here
+          if (scopes && !scopes.includes(ApiKeyScope.TASKS_DELETE)) {
+            return {
+              index,
+              op,
+              success: false,
+              status: 403,
+              message: `API key lacks required scope: ${ApiKeyScope.TASKS_DELETE}`
+            };
+          }
+          const deleted = await trashTask(operation.id, userId, operation.children, events, operation.version);
+          return deleted
+            ? { index, op, success: true, status: 200, message: 'Task moved to trash', data: { id: operation.id } }
+            : notFound;
+        }
+      }
+    } catch (error) {
+      const failure = toBulkFailure(error);
+      if (!failure) {
+        throw error;
+      }
+      return { index, op, ...failure };
+    }
+  };
+
+  // Run a bulk operation in a nested transaction so a failure leaves no partial changes,
+  // and no events
+  const attemptBulkOperation = async (
+    operation: BulkOperation,
+    index: number,
+    userId: string,
+    events: TaskEvent[],
+    scopes?: ApiKeyScope[]
+  ): Promise<BulkOperationResult> => {
+    try {
+      const operationEvents: TaskEvent[] = [];
+      const succeeded = await taskRepository.transaction(async () => {
+        const result = await runBulkOperation(operation, index, userId, operationEvents, scopes);
+        if (!result.success) {
+          throw new FailedOperationError(result);
+        }
+        return result;
+      });
+      events.push(...operationEvents);
+      return succeeded;
+    } catch (error) {
+      if (error instanceof FailedOperationError) {
+        return error.result;
+      }
+      throw error;
+    }
+  };
+
+  // Import one row of an import file. With upsert, a row whose id names one of the
+  // caller's tasks updates it and any other row with an id creates the task under that id;
+  // without it, every row creates a new task.
+  const importRow = async (
+    { row, ...parsed }: ParsedImportRow,
+    userId: string,
+    upsert: boolean,
+    events: TaskEvent[]
+  ): Promise<ImportRowResult> => {
+    if ('error' in parsed) {
+      return { row, success: false, status: 400, message: parsed.error };
+    }
+    const { value, errors } = validateValue<ImportTaskRequest>(importTaskSchema, parsed.value);
+    if (errors) {
+      return { row, success: false, status: 400, message: 'Validation error', errors };
+    }
+
+    const { id, ...request } = value;
+    const action = upsert && id && await taskRepository.getTaskById(id, userId) ? 'update' : 'create';
+    try {
+      if (action === 'update') {
+        await applyTaskUpdate(id!, userId, request, events);
+        return { row, action, id, success: true, status: 200, message: 'Task updated successfully' };
+      }
+      const task = await addTaskFromRequest(request, userId, events, upsert ? id : undefined);
+      return { row, action, id: task.id, success: true, status: 201, message: 'Task created successfully' };
+    } catch (error) {
+      const failure = toBulkFailure(error);
+      if (!failure) {
+        throw error;
+      }
+      const { data, ...result } = failure;
+      return { row, action, id: upsert ? id : undefined, ...result };
+    }
+  };
 
-    const task = await getTaskById(id); // Await the async function
+  // Create a new task
+  const createTask = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const events: TaskEvent[] = [];
+      const createdTask = await addTaskFromRequest(req.body, req.user!.id, events);
+      await publishTaskEvents(req.user!.id, events);
 
-    if (!task) {
-      res.status(404).json({
+      res.set('ETag', toETag(createdTask));
+      res.status(201).json({
+        success: true,
+        message: 'Task created successfully',
+        data: createdTask
+      });
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          allowedStatuses: error.allowed
+        });
+        return;
+      }
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [{ field: error.field, message: error.message }]
+        });
+        return;
+      }
+      console.error('Error creating task:', error);
+      res.status(500).json({
         success: false,
-        message: 'Task not found'
+        message: 'Internal server error'
       });
-      return;
     }
+  };
 
-    res.status(200).json({
-      success: true,
-      message: 'Task retrieved successfully',
-      data: task
-    });
-  } catch (error) {
-    console.error('Error getting task:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
-};
+  // Get all tasks with optional pagination and filtering
+  const getAllTasksController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      // validateQuery has already converted numbers, dates and lists and decoded cursors
+      const query = req.query as unknown as TaskQuery;
+      const { page, limit } = query;
 
-// Update a task by ID
-export const updateTaskController = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { id } = req.params;
-    const updates: UpdateTaskRequest = req.body;
+      const result = await taskRepository.getAllTasks(req.user!.id, query);
 
-    const updatedTask = await updateTask(id, updates); // Await the async function
+      let pagination;
+      if (isCursorMode(query)) {
+        pagination = {
+          itemsPerPage: limit ?? DEFAULT_CURSOR_LIMIT,
+          totalItems: result.total,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor,
+          hasNextPage: Boolean(result.nextCursor),
+          hasPreviousPage: Boolean(result.prevCursor)
+        };
+      } else if (page && limit) {
+        pagination = {
+          currentPage: result.page,
+          totalPages: result.totalPages,
+          totalItems: result.total,
+          itemsPerPage: limit,
+          ...(result.nextCursor !== undefined && { nextCursor: result.nextCursor })
+        };
+      }
 
-    if (!updatedTask) {
-      res.status(404).json({
+      res.status(200).json({
+        success: true,
+        message: 'Tasks retrieved successfully',
+        data: result.tasks,
+        pagination,
+        total: result.total
+      });
+    } catch (error) {
+      if (error instanceof InvalidSearchQueryError) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('Error getting tasks:', error);
+      res.status(500).json({
         success: false,
-        message: 'Task not found'
+        message: 'Internal server error'
       });
-      return;
     }
+  };
 
-    res.status(200).json({
-      success: true,
-      message: 'Task updated successfully',
-      data: updatedTask
-    });
-  } catch (error) {
-    console.error('Error updating task:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
-};
+  // Get overdue tasks (not completed and past their due date), most urgent first
+  const getOverdueTasksController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tasks = await taskRepository.getOverdueTasks(req.user!.id, new Date());
+
+      res.status(200).json({
+        success: true,
+        message: 'Overdue tasks retrieved successfully',
+        data: tasks,
+        total: tasks.length
+      });
+    } catch (error) {
+      console.error('Error getting overdue tasks:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Get a single task by ID
+  const getTaskByIdController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
 
-// Delete a task by ID
-export const deleteTaskController = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { id } = req.params;
+      const task = await taskRepository.getTaskById(id, req.user!.id); // Await the async function
 
-    const deleted = await deleteTask(id); // Await the async function
+      if (!task) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
 
-    if (!deleted) {
-      res.status(404).json({
+      res.set('ETag', toETag(task));
+      res.status(200).json({
+        success: true,
+        message: 'Task retrieved successfully',
+        data: task
+      });
+    } catch (error) {
+      console.error('Error getting task:', error);
+      res.status(500).json({
         success: false,
-        message: 'Task not found'
+        message: 'Internal server error'
       });
-      return;
     }
+  };
 
-    res.status(200).json({
-      success: true,
-      message: 'Task deleted successfully'
-    });
-  } catch (error) {
-    console.error('Error deleting task:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
-};
+  // Get the direct subtasks of a task, each with the progress of its own subtree
+  const getTaskChildrenController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
 
-// Get task statistics
-export const getTaskStats = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const allTasksResult = await getAllTasks(); // Await the async function to get all tasks
-    const tasks = allTasksResult.tasks;
-
-    const stats = {
-      total: tasks.length,
-      pending: tasks.filter(task => task.status === TaskStatus.PENDING).length,
-      inProgress: tasks.filter(task => task.status === TaskStatus.IN_PROGRESS).length,
-      completed: tasks.filter(task => task.status === TaskStatus.COMPLETED).length
-    };
+      const subtree = await taskRepository.getSubtree(id, req.user!.id);
 
-    res.status(200).json({
-      success: true,
-      message: 'Task statistics retrieved successfully',
-      data: stats
-    });
-  } catch (error) {
-    console.error('Error getting task stats:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Internal server error'
-    });
-  }
-};
\ No newline at end of file
+      if (!subtree.length) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      const children = buildTaskTree(subtree).children.map(({ children, ...child }) => child);
+
+      res.status(200).json({
+        success: true,
+        message: 'Subtasks retrieved successfully',
+        data: children,
+        total: children.length
+      });
+    } catch (error) {
+      console.error('Error getting subtasks:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Get a task with all of its descendants nested under it and progress rollups
+  const getTaskSubtreeController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const subtree = await taskRepository.getSubtree(id, req.user!.id);
+
+      if (!subtree.length) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Task subtree retrieved successfully',
+        data: buildTaskTree(subtree)
+      });
+    } catch (error) {
+      console.error('Error getting task subtree:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Get the tasks a task is blocked by
+  const getTaskBlockersController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const blockers = await taskRepository.getBlockers(req.params.id, req.user!.id);
+
+      if (!blockers) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Blockers retrieved successfully',
+        data: blockers,
+        total: blockers.length
+      });
+    } catch (error) {
+      console.error('Error getting blockers:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Get the tasks blocked by a task
+  const getTaskDependentsController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dependents = await taskRepository.getDependents(req.params.id, req.user!.id);
+
+      if (!dependents) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Dependents retrieved successfully',
+        data: dependents,
+        total: dependents.length
+      });
+    } catch (error) {
+      console.error('Error getting dependents:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Mark a task as blocked by another task
+  const addTaskBlockerController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { blockerId }: AddBlockerRequest = req.body;
+
+      const added = await taskRepository.addBlocker(id, blockerId, req.user!.id);
+
+      if (!added) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      const blockers = await taskRepository.getBlockers(id, req.user!.id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Blocker added successfully',
+        data: blockers
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [{ field: error.field, message: error.message }]
+        });
+        return;
+      }
+      console.error('Error adding blocker:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Remove a blocker from a task
+  const removeTaskBlockerController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, blockerId } = req.params;
+
+      const removed = await taskRepository.removeBlocker(id, blockerId, req.user!.id);
+
+      if (!removed) {
+        res.status(404).json({
+          success: false,
+          message: 'Dependency not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Blocker removed successfully'
+      });
+    } catch (error) {
+      console.error('Error removing blocker:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Get the change history of a task, including a deleted one
+  const getTaskHistoryController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const history = await taskRepository.getTaskHistory(req.params.id, req.user!.id);
+
+      if (!history.length) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Task history retrieved successfully',
+        data: history,
+        total: history.length
+      });
+    } catch (error) {
+      console.error('Error getting task history:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Restore a task's fields to how they were at a given revision. The revert is itself
+  // recorded as a new revision and follows the same rules as any other update: the status
+  // workflow, blockers, recurring series and If-Match.
+  const revertTaskController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { revision }: RevertTaskRequest = req.body;
+      const ignoreBlockers = req.query.ignoreBlockers as unknown as boolean;
+      // validateIfMatch has already rejected malformed headers
+      const expectedVersion = parseIfMatch(req.get('If-Match')) ?? undefined;
+
+      const entry = await taskRepository.getTaskRevision(id, req.user!.id, revision);
+      const task = await taskRepository.getTaskById(id, req.user!.id);
+
+      if (!entry || !task) {
+        res.status(404).json({
+          success: false,
+          message: entry ? 'Task not found' : 'Revision not found'
+        });
+        return;
+      }
+      if (entry.action === AuditAction.DELETE) {
+        res.status(400).json({
+          success: false,
+          message: 'Cannot revert to a deletion; choose an earlier revision'
+        });
+        return;
+      }
+      if (expectedVersion !== undefined && expectedVersion !== task.version) {
+        throw new PreconditionFailedError(task);
+      }
+
+      // Write against the version the revision was compared with, so a concurrent change
+      // is refused instead of overwritten
+      const { dueDate, ...snapshot } = entry.snapshot;
+      const events: TaskEvent[] = [];
+      const revertedTask = await applyTaskUpdate(
+        id,
+        req.user!.id,
+        { ...snapshot, dueDate: dueDate ? new Date(dueDate) : null },
+        events,
+        ignoreBlockers,
+        task.version
+      );
+      await publishTaskEvents(req.user!.id, events);
+
+      if (!revertedTask) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      // Completing a recurring task creates its next occurrence
+      const nextOccurrence = findNextOccurrence(events);
+      res.set('ETag', toETag(revertedTask));
+      res.status(200).json({
+        success: true,
+        message: `Task reverted to revision ${revision}`,
+        data: revertedTask,
+        ...(nextOccurrence && { nextOccurrence })
+      });
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          allowedStatuses: error.allowed
+        });
+        return;
+      }
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [{ field: error.field, message: error.message }]
+        });
+        return;
+      }
+      if (error instanceof BlockedTaskError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          blockers: error.blockers.map(({ id, title, status }) => ({ id, title, status }))
+        });
+        return;
+      }
+      if (error instanceof PreconditionFailedError) {
+        sendPreconditionFailed(res, error);
+        return;
+      }
+      console.error('Error reverting task:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Update a task by ID
+  const updateTaskController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const updates: UpdateTaskRequest = req.body;
+      const ignoreBlockers = req.query.ignoreBlockers as unknown as boolean;
+      // validateIfMatch has already rejected malformed headers
+      const expectedVersion = parseIfMatch(req.get('If-Match')) ?? undefined;
+
+      const events: TaskEvent[] = [];
+      const updatedTask = await applyTaskUpdate(id, req.user!.id, updates, events, ignoreBlockers, expectedVersion);
+      await publishTaskEvents(req.user!.id, events);
+
+      if (!updatedTask) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      // Completing a recurring task creates its next occurrence
+      const nextOccurrence = findNextOccurrence(events);
+      res.set('ETag', toETag(updatedTask));
+      res.status(200).json({
+        success: true,
+        message: 'Task updated successfully',
+        data: updatedTask,
+        ...(nextOccurrence && { nextOccurrence })
+      });
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          allowedStatuses: error.allowed
+        });
+        return;
+      }
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [{ field: error.field, message: error.message }]
+        });
+        return;
+      }
+      if (error instanceof BlockedTaskError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          blockers: error.blockers.map(({ id, title, status }) => ({ id, title, status }))
+        });
+        return;
+      }
+      if (error instanceof PreconditionFailedError) {
+        sendPreconditionFailed(res, error);
+        return;
+      }
+      console.error('Error updating task:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Patch a task with a JSON Merge Patch or a JSON Patch. The patch applies to the task's
+  // writable fields and must leave a task that PUT would accept.
+  const patchTaskController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const ignoreBlockers = req.query.ignoreBlockers as unknown as boolean;
+      const expectedVersion = parseIfMatch(req.get('If-Match')) ?? undefined;
+
+      const task = await taskRepository.getTaskById(id, req.user!.id);
+      if (!task) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+      if (expectedVersion !== undefined && expectedVersion !== task.version) {
+        throw new PreconditionFailedError(task);
+      }
+
+      // validatePatch has already checked the body against its content type
+      const patched = req.is(JSON_PATCH_TYPE)
+        ? applyJsonPatch(toPatchDocument(task), req.body as JsonPatchOperation[])
+        : applyMergePatch(toPatchDocument(task), req.body);
+      const { value: replacement, errors } = validateValue<ReplaceTaskRequest>(
+        replaceTaskSchema,
+        patched !== null && typeof patched === 'object' ? { ...CLEARED_FIELDS, ...patched } : patched
+      );
+      if (errors) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors
+        });
+        return;
+      }
+
+      // Write against the version the patch was applied to, so a concurrent change is
+      // refused instead of overwritten
+      const events: TaskEvent[] = [];
+      const updatedTask = await applyTaskUpdate(id, req.user!.id, replacement, events, ignoreBlockers, task.version);
+      await publishTaskEvents(req.user!.id, events);
+
+      if (!updatedTask) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      // Completing a recurring task creates its next occurrence
+      const nextOccurrence = findNextOccurrence(events);
+      res.set('ETag', toETag(updatedTask));
+      res.status(200).json({
+        success: true,
+        message: 'Task updated successfully',
+        data: updatedTask,
+        ...(nextOccurrence && { nextOccurrence })
+      });
+    } catch (error) {
+      if (error instanceof InvalidPatchError) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      if (error instanceof PatchTestFailedError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          path: error.path
+        });
+        return;
+      }
+      if (error instanceof InvalidTransitionError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          allowedStatuses: error.allowed
+        });
+        return;
+      }
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [{ field: error.field, message: error.message }]
+        });
+        return;
+      }
+      if (error instanceof BlockedTaskError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          blockers: error.blockers.map(({ id, title, status }) => ({ id, title, status }))
+        });
+        return;
+      }
+      if (error instanceof PreconditionFailedError) {
+        sendPreconditionFailed(res, error);
+        return;
+      }
+      console.error('Error patching task:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Preview the upcoming occurrences of a recurring task, starting with the task itself
+  const getTaskOccurrencesController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { limit } = req.query as unknown as OccurrenceQuery;
+      const task = await taskRepository.getTaskById(req.params.id, req.user!.id);
+
+      if (!task) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+      if (!task.recurrence) {
+        res.status(400).json({
+          success: false,
+          message: 'Task is not recurring'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Occurrences retrieved successfully',
+        data: getOccurrences(parseRecurrenceRule(task.recurrence), task.dueDate!, limit)
+      });
+    } catch (error) {
+      console.error('Error getting task occurrences:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Skip the current occurrence of a recurring task: the task moves on to the next date of
+  // its series without being completed
+  const skipTaskOccurrenceController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const expectedVersion = parseIfMatch(req.get('If-Match')) ?? undefined;
+      const task = await taskRepository.getTaskById(id, req.user!.id);
+
+      if (!task) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+      if (!task.recurrence) {
+        res.status(400).json({
+          success: false,
+          message: 'Task is not recurring'
+        });
+        return;
+      }
+
+      const next = getNextOccurrence(task.recurrence, task.dueDate!);
+      if (!next) {
+        res.status(409).json({
+          success: false,
+          message: 'This is the last occurrence of the series; complete it or end the series instead'
+        });
+        return;
+      }
+
+      const skippedTask = await taskRepository.updateTask(id, req.user!.id, next, expectedVersion);
+      // The task may have been deleted since it was read
+      if (!skippedTask) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+      await publishTaskEvents(req.user!.id, toUpdateEvents(task, skippedTask));
+
+      res.set('ETag', toETag(skippedTask));
+      res.status(200).json({
+        success: true,
+        message: 'Occurrence skipped successfully',
+        data: skippedTask
+      });
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        sendPreconditionFailed(res, error);
+        return;
+      }
+      console.error('Error skipping task occurrence:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // End the series of a recurring task. The task itself stays as a one-off task, so
+  // completing it no longer creates another.
+  const endTaskRecurrenceController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const expectedVersion = parseIfMatch(req.get('If-Match')) ?? undefined;
+      const task = await taskRepository.getTaskById(id, req.user!.id);
+
+      if (!task) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+      if (!task.recurrence) {
+        res.status(400).json({
+          success: false,
+          message: 'Task is not recurring'
+        });
+        return;
+      }
+
+      const updatedTask = await taskRepository.updateTask(id, req.user!.id, { recurrence: null }, expectedVersion);
+      if (!updatedTask) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+      await publishTaskEvents(req.user!.id, toUpdateEvents(task, updatedTask));
+
+      res.set('ETag', toETag(updatedTask));
+      res.status(200).json({
+        success: true,
+        message: 'Series ended successfully',
+        data: updatedTask
+      });
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        sendPreconditionFailed(res, error);
+        return;
+      }
+      console.error('Error ending task series:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Delete a task by ID
+  const deleteTaskController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      // validateQuery has already defaulted the mode to 'reject'
+      const children = req.query.children as ChildDeleteMode;
+
+      const expectedVersion = parseIfMatch(req.get('If-Match')) ?? undefined;
+
+      const events: TaskEvent[] = [];
+      const deleted = await trashTask(id, req.user!.id, children, events, expectedVersion);
+      await publishTaskEvents(req.user!.id, events);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Task moved to trash'
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      if (error instanceof PreconditionFailedError) {
+        sendPreconditionFailed(res, error);
+        return;
+      }
+      console.error('Error deleting task:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Run a list of create/update/delete operations in a single transaction
+  const bulkTasksController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { mode, operations }: BulkRequest = req.body;
+      const userId = req.user!.id;
+
+      // Validate every operation before running any, so all-or-nothing never starts on
+      // a request it would have to abandon
+      const checked = operations.map((operation, index) => {
+        const { value, errors } = validateValue<BulkOperation>(bulkOperationSchema, operation);
+        const { op } = operation as { op?: unknown };
+        const invalid: BulkOperationResult | undefined = errors
+          ? {
+            index,
+            op: typeof op === 'string' ? op : 'unknown',
+            success: false,
+            status: 400,
+            message: 'Validation error',
+            errors
+          }
+          : undefined;
+        return { operation: value, invalid };
+      });
+
+      const invalid = checked.flatMap(({ invalid }) => (invalid ? [invalid] : []));
+      if (mode === 'all-or-nothing' && invalid.length) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          data: summarizeBulk(mode, invalid)
+        });
+        return;
+      }
+
+      const results: BulkOperationResult[] = [];
+      const events: TaskEvent[] = [];
+      try {
+        await taskRepository.transaction(async () => {
+          for (const [index, { operation, invalid }] of checked.entries()) {
+            const result = invalid ?? await attemptBulkOperation(operation!, index, userId, events, req.user!.scopes);
+            results.push(result);
+            if (!result.success && mode === 'all-or-nothing') {
+              throw new FailedOperationError(result);
+            }
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof FailedOperationError)) {
+          throw error;
+        }
+        res.status(error.result.status).json({
+          success: false,
+          message: `Operation ${error.result.index} failed; no changes were applied`,
+          data: summarizeBulk(mode, [error.result])
+        });
+        return;
+      }
+      await publishTaskEvents(userId, events);
+
+      const summary = summarizeBulk(mode, results);
+      res.status(200).json({
+        success: true,
+        message: summary.failed
+          ? `Bulk operations completed with ${summary.failed} failure(s)`
+          : 'Bulk operations completed successfully',
+        data: summary
+      });
+    } catch (error) {
+      console.error('Error running bulk operations:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Export the caller's tasks matching the list filters as CSV, JSON or NDJSON. Tasks are
+  // read from the store in batches and written as they arrive, so exports of any size use
+  // little memory.
+  const exportTasksController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { format, ...filters } = req.query as unknown as ExportQuery;
+      await sendTaskStream(res, taskRepository, req.user!.id, filters, createTaskEncoder(format), () => {
+        res.status(200)
+          .type(TASK_FILE_TYPES[format])
+          .attachment(`tasks-${new Date().toISOString().slice(0, 10)}.${format}`);
+      });
+    } catch (error) {
+      if (abortTaskStream(res, error, 'Error exporting tasks:')) {
+        return;
+      }
+      if (error instanceof InvalidSearchQueryError) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('Error exporting tasks:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Import tasks from a CSV, JSON or NDJSON body, reporting the outcome of every row. Rows
+  // that fail are skipped; the others are saved unless this is a dry run.
+  const importTasksController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { dryRun, upsert } = req.query as unknown as ImportQuery;
+      const userId = req.user!.id;
+      const format = (Object.keys(TASK_FILE_TYPES) as TaskFileFormat[])
+        .find(type => req.is(TASK_FILE_TYPES[type]))!;
+
+      const rows = parseTaskFile(req.body, format);
+      if (!rows.length) {
+        res.status(400).json({
+          success: false,
+          message: 'The import contains no tasks'
+        });
+        return;
+      }
+
+      let results: ImportRowResult[];
+      const events: TaskEvent[] = [];
+      try {
+        results = await taskRepository.transaction(async () => {
+          const imported: ImportRowResult[] = [];
+          for (const row of rows) {
+            imported.push(await importRow(row, userId, upsert, events));
+          }
+          if (dryRun) {
+            throw new DryRunRollback(imported);
+          }
+          return imported;
+        });
+        await publishTaskEvents(userId, events);
+      } catch (error) {
+        if (!(error instanceof DryRunRollback)) {
+          throw error;
+        }
+        results = error.results;
+      }
+
+      const created = results.filter(result => result.success && result.action === 'create').length;
+      const updated = results.filter(result => result.success && result.action === 'update').length;
+      const failed = results.filter(result => !result.success).length;
+      res.status(200).json({
+        success: true,
+        message: dryRun
+          ? `Dry run completed with ${failed} failure(s); no changes were saved`
+          : `Import completed with ${failed} failure(s)`,
+        data: { dryRun, total: results.length, created, updated, failed, results }
+      });
+    } catch (error) {
+      if (error instanceof InvalidImportError) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('Error importing tasks:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // List the caller's trashed tasks, most recently deleted first
+  const getTrashController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = req.query as unknown as TrashQuery;
+      const { page, limit } = query;
+
+      const result = await taskRepository.getTrash(req.user!.id, query);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trash retrieved successfully',
+        data: result.tasks,
+        pagination: page && limit
+          ? {
+            currentPage: result.page,
+            totalPages: result.totalPages,
+            totalItems: result.total,
+            itemsPerPage: limit
+          }
+          : undefined,
+        total: result.total
+      });
+    } catch (error) {
+      console.error('Error getting trash:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Move a trashed task, and the subtasks trashed along with it, back to the task list
+  const restoreTaskController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const events: TaskEvent[] = [];
+      const task = await restoreTrashedTask(id, req.user!.id, events);
+
+      if (!task) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found in trash'
+        });
+        return;
+      }
+      await publishTaskEvents(req.user!.id, events);
+
+      res.status(200).json({
+        success: true,
+        message: 'Task restored successfully',
+        data: task
+      });
+    } catch (error) {
+      console.error('Error restoring task:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Permanently delete a trashed task and its trashed subtasks
+  const purgeTaskController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const purged = await taskRepository.purgeTask(id, req.user!.id);
+
+      if (!purged) {
+        res.status(404).json({
+          success: false,
+          message: 'Task not found in trash'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Task permanently deleted'
+      });
+    } catch (error) {
+      console.error('Error purging task:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Permanently delete everything in the caller's trash
+  const emptyTrashController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const purged = await taskRepository.purgeTrash({ userId: req.user!.id });
+
+      res.status(200).json({
+        success: true,
+        message: 'Trash emptied successfully',
+        data: { purged }
+      });
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  // Get task statistics
+  const getTaskStats = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const allTasksResult = await taskRepository.getAllTasks(req.user!.id); // Await the async function to get all of the caller's tasks
+      const tasks = allTasksResult.tasks;
+
+      const stats = buildTaskStats(tasks);
+
+      res.status(200).json({
+        success: true,
+        message: 'Task statistics retrieved successfully',
+        data: stats
+      });
+    } catch (error) {
+      console.error('Error getting task stats:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  return {
+    createTask,
+    getAllTasksController,
+    getOverdueTasksController,
+    getTaskByIdController,
+    getTaskChildrenController,
+    getTaskSubtreeController,
+    getTaskBlockersController,
+    getTaskDependentsController,
+    addTaskBlockerController,
+    removeTaskBlockerController,
+    getTaskHistoryController,
+    revertTaskController,
+    updateTaskController,
+    patchTaskController,
+    getTaskOccurrencesController,
+    skipTaskOccurrenceController,
+    endTaskRecurrenceController,
+    deleteTaskController,
+    bulkTasksController,
+    exportTasksController,
+    importTasksController,
+    getTrashController,
+    restoreTaskController,
+    purgeTaskController,
+    emptyTrashController,
+    getTaskStats
+  };
+};
+
+export type TaskController = ReturnType<typeof createTaskController>;
@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import { config } from '../config';
+import { Task, TaskEventQuery, TaskStatus } from '../models/task';
+import { WebhookEvent } from '../models/webhook';
+import { TaskRepository } from '../repositories';
+import { InvalidSearchQueryError } from '../utils/errors';
+import { LoggedTaskEvent, taskEventLog } from '../utils/taskEvents';
+import { matchesTaskFilter } from '../utils/taskFilter';
+import { parseSearchQuery } from '../utils/textSearch';
+
+// Events sent on the stream; task.completed is left out since its task.updated says as much
+const STREAMED_EVENTS: string[] = [
+  WebhookEvent.TASK_CREATED,
+  WebhookEvent.TASK_UPDATED,
+  WebhookEvent.TASK_DELETED,
+  WebhookEvent.TASK_RESTORED
+];
+
+// How long clients wait before reconnecting after the stream drops
+const RETRY_MS = 3000;
+
+// An event in the text/event-stream format, with the same body as a webhook delivery
+const toFrame = ({ id, type, createdAt, task }: LoggedTaskEvent): string =>
+  `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify({ id, type, createdAt, data: { task } })}\n\n`;
+
+// Build the task event stream request handlers around a task repository
+export const createTaskEventController = (taskRepository: TaskRepository) => {
+  // Whether all of a task's blockers are completed
+  const isReady = async (task: Task, userId: string): Promise<boolean> => {
+    const blockers = await taskRepository.getBlockers(task.id, userId);
+    return (blockers ?? []).every(blocker => blocker.status === TaskStatus.COMPLETED);
+  };
+
+  // Stream the caller's task changes as Server-Sent Events. A client reconnecting with
+  // Last-Event-ID first gets the events it missed, or a reset event when the log no longer
+  // has all of them and it should reload its tasks instead.
+  const streamTaskEventsController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { lastEventId: lastEventIdParam, ready, search, ...filters } = req.query as unknown as TaskEventQuery;
+      const searchQuery = search ? parseSearchQuery(search) : undefined;
+      const lastEventId = req.get('Last-Event-ID') ?? lastEventIdParam;
+      const userId = req.user!.id;
+
+      // An update is sent when the task matches the filters before or after it, so clients
+      // also learn about tasks leaving their view. Deleted tasks are not checked for ready.
+      const matches = async (event: LoggedTaskEvent): Promise<boolean> => {
+        if (event.userId !== userId || !STREAMED_EVENTS.includes(event.type)) {
+          return false;
+        }
+        const versions = event.previous ? [event.task, event.previous] : [event.task];
+        if (!versions.some(task => matchesTaskFilter(task, filters, searchQuery))) {
+          return false;
+        }
+        return ready === undefined || event.type === WebhookEvent.TASK_DELETED ||
+          (await isReady(event.task, userId)) === ready;
+      };
+
+      // Events are matched one after another so they are written in order
+      let closed = false;
+      let pending = Promise.resolve();
+      const send = (event: LoggedTaskEvent): void => {
+        pending = pending
+          .then(async () => {
+            if (!closed && await matches(event)) {
+              res.write(toFrame(event));
+            }
+          })
+          .catch(error => console.error('Error streaming task event:', error));
+      };
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        // Stop proxies from buffering the stream
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+      res.write(`retry: ${RETRY_MS}\n\n`);
+
+      if (lastEventId !== undefined) {
+        const replay = taskEventLog.since(lastEventId);
+        if (!replay.complete) {
+          res.write(`id: ${taskEventLog.latestId()}\nevent: reset\ndata: ${JSON.stringify({
+            message: 'Some events since Last-Event-ID are no longer available; reload the tasks'
+          })}\n\n`);
+        }
+        replay.events.forEach(send);
+      }
+
+      const unsubscribe = taskEventLog.subscribe(send);
+      // Comments keep idle connections from being closed by proxies
+      const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), config.eventHeartbeatSeconds * 1000);
+
+      req.on('close', () => {
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error) {
+      if (error instanceof InvalidSearchQueryError) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      console.error('Error streaming task events:', error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  };
+
+  return {
+    streamTaskEventsController
+  };
+};
+
+export type TaskEventController = ReturnType<typeof createTaskEventController>;
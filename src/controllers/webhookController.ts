@@ -0,0 +1,292 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Webhook,
+  PublicWebhook,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  PING_EVENT
+} from '../models/webhook';
+import {
+  addWebhook,
+  getWebhooksByUser,
+  getWebhookById,
+  updateWebhook,
+  deleteWebhook,
+  addWebhookDeliveries,
+  getWebhookDeliveries,
+  getWebhookDelivery
+} from '../utils/database';
+import { generateWebhookSecret } from '../utils/auth';
+import { ValidationError } from '../utils/errors';
+import { assertPublicWebhookUrl, createDelivery } from '../utils/webhooks';
+
+// Strip the signing secret before sending a webhook to the client
+const toPublicWebhook = ({ secret, ...webhook }: Webhook): PublicWebhook => webhook;
+
+// Deliveries store the body they send as text; return it as JSON
+const toDeliveryResponse = (delivery: WebhookDelivery) => ({
+  ...delivery,
+  payload: JSON.parse(delivery.payload)
+});
+
+const sendWebhookNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    message: 'Webhook not found'
+  });
+};
+
+// Report a URL that failed assertPublicWebhookUrl like a schema validation error
+const sendInvalidUrl = (res: Response, error: ValidationError): void => {
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    errors: [{ field: error.field, message: error.message }]
+  });
+};
+
+// Create a webhook for the current user. The secret is returned this once, whether it
+// was given or generated.
+export const createWebhookController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { url, events, secret, active }: CreateWebhookRequest = req.body;
+    await assertPublicWebhookUrl(url);
+    const now = new Date();
+
+    const webhook = await addWebhook({
+      id: uuidv4(),
+      userId: req.user!.id,
+      url,
+      events,
+      secret: secret ?? generateWebhookSecret(),
+      active: active ?? true,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Webhook created successfully. Store the secret now, it will not be shown again',
+      data: {
+        ...toPublicWebhook(webhook),
+        secret: webhook.secret
+      }
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      sendInvalidUrl(res, error);
+      return;
+    }
+    console.error('Error creating webhook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// List the current user's webhooks
+export const getWebhooksController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhooks = await getWebhooksByUser(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Webhooks retrieved successfully',
+      data: webhooks.map(toPublicWebhook)
+    });
+  } catch (error) {
+    console.error('Error getting webhooks:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Get one of the current user's webhooks
+export const getWebhookController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhook = await getWebhookById(req.params.id, req.user!.id);
+
+    if (!webhook) {
+      sendWebhookNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Webhook retrieved successfully',
+      data: toPublicWebhook(webhook)
+    });
+  } catch (error) {
+    console.error('Error getting webhook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Update one of the current user's webhooks. Deactivating a webhook holds its pending
+// deliveries until it is activated again.
+export const updateWebhookController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const updates: UpdateWebhookRequest = req.body;
+    if (updates.url !== undefined) {
+      await assertPublicWebhookUrl(updates.url);
+    }
+
+    const webhook = await updateWebhook(req.params.id, req.user!.id, updates);
+
+    if (!webhook) {
+      sendWebhookNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Webhook updated successfully',
+      data: toPublicWebhook(webhook)
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      sendInvalidUrl(res, error);
+      return;
+    }
+    console.error('Error updating webhook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Delete one of the current user's webhooks along with its delivery log
+export const deleteWebhookController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await deleteWebhook(req.params.id, req.user!.id);
+
+    if (!deleted) {
+      sendWebhookNotFound(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Webhook deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Get the delivery log of one of the current user's webhooks, newest first
+export const getWebhookDeliveriesController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // validateQuery has already applied the page and limit defaults
+    const query = req.query as unknown as WebhookDeliveryQuery & { page: number; limit: number };
+
+    const webhook = await getWebhookById(req.params.id, req.user!.id);
+
+    if (!webhook) {
+      sendWebhookNotFound(res);
+      return;
+    }
+
+    const { deliveries, total } = await getWebhookDeliveries(webhook.id, query);
+
+    res.status(200).json({
+      success: true,
+      message: 'Webhook deliveries retrieved successfully',
+      data: deliveries.map(toDeliveryResponse),
+      pagination: {
+        currentPage: query.page,
+        totalPages: Math.ceil(total / query.limit),
+        totalItems: total,
+        itemsPerPage: query.limit
+      },
+      total
+    });
+  } catch (error) {
+    console.error('Error getting webhook deliveries:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Queue the event of an earlier delivery to be sent again, as a new delivery with its
+// own log entry. The event id and payload are unchanged so receivers can deduplicate.
+export const redeliverWebhookController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhook = await getWebhookById(req.params.id, req.user!.id);
+
+    if (!webhook) {
+      sendWebhookNotFound(res);
+      return;
+    }
+
+    const original = await getWebhookDelivery(req.params.deliveryId, webhook.id);
+
+    if (!original) {
+      res.status(404).json({
+        success: false,
+        message: 'Webhook delivery not found'
+      });
+      return;
+    }
+
+    const delivery = createDelivery(webhook.id, original.eventId, original.event, original.payload);
+    await addWebhookDeliveries([delivery]);
+
+    res.status(202).json({
+      success: true,
+      message: 'Webhook redelivery queued successfully',
+      data: toDeliveryResponse(delivery)
+    });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+// Queue a ping event to check a webhook's receiver is reachable and verifies signatures
+export const pingWebhookController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhook = await getWebhookById(req.params.id, req.user!.id);
+
+    if (!webhook) {
+      sendWebhookNotFound(res);
+      return;
+    }
+
+    const eventId = uuidv4();
+    const payload = JSON.stringify({ id: eventId, type: PING_EVENT, createdAt: new Date(), data: { webhookId: webhook.id } });
+    const delivery = createDelivery(webhook.id, eventId, PING_EVENT, payload);
+    await addWebhookDeliveries([delivery]);
+
+    res.status(202).json({
+      success: true,
+      message: 'Webhook ping queued successfully',
+      data: toDeliveryResponse(delivery)
+    });
+  } catch (error) {
+    console.error('Error pinging webhook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
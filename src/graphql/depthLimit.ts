@@ -0,0 +1,41 @@
+import { ASTVisitor, GraphQLError, Kind, SelectionSetNode, ValidationContext, ValidationRule } from 'graphql';
+
+// Reject operations that select fields nested deeper than maxDepth. Tasks resolve their
+// related tasks, which resolve theirs in turn, so without a limit one small query could
+// walk the whole task graph many times over. Introspection fields are not counted.
+export const createDepthLimitRule = (maxDepth: number): ValidationRule =>
+  (context: ValidationContext): ASTVisitor => {
+    // Depth of each fragment, worked out once however often it is spread
+    const fragmentDepths = new Map<string, number>();
+
+    const depthOf = (selectionSet: SelectionSetNode | undefined): number =>
+      Math.max(0, ...(selectionSet?.selections ?? []).map(selection => {
+        switch (selection.kind) {
+          case Kind.FIELD:
+            return selection.name.value.startsWith('__') ? 0 : 1 + depthOf(selection.selectionSet);
+          case Kind.INLINE_FRAGMENT:
+            return depthOf(selection.selectionSet);
+          case Kind.FRAGMENT_SPREAD: {
+            const name = selection.name.value;
+            if (!fragmentDepths.has(name)) {
+              // Fragment cycles are reported by another rule; count them as empty here
+              fragmentDepths.set(name, 0);
+              fragmentDepths.set(name, depthOf(context.getFragment(name)?.selectionSet));
+            }
+            return fragmentDepths.get(name)!;
+          }
+        }
+      }));
+
+    return {
+      OperationDefinition: operation => {
+        const depth = depthOf(operation.selectionSet);
+        if (depth > maxDepth) {
+          context.reportError(new GraphQLError(
+            `The operation is nested ${depth} levels deep; at most ${maxDepth} are allowed`,
+            { nodes: operation }
+          ));
+        }
+      }
+    };
+  };
@@ -0,0 +1,104 @@
+// A self-contained page for trying out GraphQL queries, with no external assets so it
+// works offline and under the app's content security policy. The bearer token or API key
+// is kept in the browser's local storage.
+
+const EXAMPLE_QUERY = `query Board($status: [TaskStatus!]) {
+  tasks(status: $status, page: 1, limit: 10, sort: ["-updatedAt"]) {
+    total
+    pagination { currentPage totalPages }
+    tasks { id title status priority dueDate tags blockers { id title } }
+  }
+  taskStats { total completed byStatus { status count } }
+}`;
+
+const EXAMPLE_VARIABLES = `{
+  "status": ["PENDING", "IN_PROGRESS"]
+}`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const PLAYGROUND_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Task Management API - GraphQL Playground</title>
+  <style>
+    body { margin: 0; font-family: system-ui, sans-serif; background: #f6f7f9; color: #1f2328; }
+    header { display: flex; gap: 12px; align-items: center; padding: 10px 16px; background: #24292f; color: #fff; }
+    header h1 { font-size: 16px; margin: 0 auto 0 0; }
+    header input { width: 360px; padding: 6px; font-family: monospace; }
+    button { padding: 6px 14px; cursor: pointer; }
+    main { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; padding: 12px 16px; height: calc(100vh - 70px); box-sizing: border-box; }
+    section { display: flex; flex-direction: column; gap: 8px; min-height: 0; }
+    label { font-size: 12px; font-weight: 600; text-transform: uppercase; color: #57606a; }
+    textarea, pre { font-family: ui-monospace, monospace; font-size: 13px; padding: 8px; border: 1px solid #d0d7de; border-radius: 4px; background: #fff; margin: 0; }
+    textarea { resize: none; }
+    #query { flex: 3; }
+    #variables { flex: 1; }
+    #result { flex: 1; overflow: auto; white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>GraphQL Playground</h1>
+    <input id="token" placeholder="Bearer token or tmk_ API key" autocomplete="off">
+    <button id="schema" type="button">Schema</button>
+    <button id="run" type="button">Run (Ctrl+Enter)</button>
+  </header>
+  <main>
+    <section>
+      <label for="query">Query</label>
+      <textarea id="query" spellcheck="false">${escapeHtml(EXAMPLE_QUERY)}</textarea>
+      <label for="variables">Variables</label>
+      <textarea id="variables" spellcheck="false">${escapeHtml(EXAMPLE_VARIABLES)}</textarea>
+    </section>
+    <section>
+      <label for="result">Result</label>
+      <pre id="result"></pre>
+    </section>
+  </main>
+  <script>
+    const $ = id => document.getElementById(id);
+    $('token').value = localStorage.getItem('graphqlToken') || '';
+    $('token').addEventListener('change', () => localStorage.setItem('graphqlToken', $('token').value.trim()));
+
+    const authHeaders = () => {
+      const token = $('token').value.trim();
+      if (!token) return {};
+      return token.startsWith('tmk_') ? { 'X-API-Key': token } : { Authorization: 'Bearer ' + token };
+    };
+
+    const run = async () => {
+      let variables;
+      try {
+        variables = $('variables').value.trim() ? JSON.parse($('variables').value) : undefined;
+      } catch (error) {
+        $('result').textContent = 'Variables are not valid JSON: ' + error.message;
+        return;
+      }
+      $('result').textContent = 'Running...';
+      try {
+        const response = await fetch(location.pathname, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...authHeaders() },
+          body: JSON.stringify({ query: $('query').value, variables })
+        });
+        $('result').textContent = JSON.stringify(await response.json(), null, 2);
+      } catch (error) {
+        $('result').textContent = 'Request failed: ' + error.message;
+      }
+    };
+
+    $('run').addEventListener('click', run);
+    $('query').addEventListener('keydown', event => {
+      if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) run();
+    });
+    $('schema').addEventListener('click', async () => {
+      const response = await fetch(location.pathname.replace(/\\/$/, '') + '/schema');
+      $('result').textContent = await response.text();
+    });
+  </script>
+</body>
+</html>
+`;
@@ -0,0 +1,450 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLNullableType,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  Kind
+} from 'graphql';
+import Joi from 'joi';
+import { ApiKeyScope } from '../models/apiKey';
+import {
+  Task,
+  TaskListItem,
+  TaskPriority,
+  TaskQuery,
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  ChildDeleteMode
+} from '../models/task';
+import { AuthUser } from '../models/user';
+import { TaskEvent } from '../models/webhook';
+import { TaskRepository } from '../repositories';
+import {
+  validateValue,
+  isUUID,
+  queryParamsSchema,
+  createTaskSchema,
+  updateTaskSchema,
+  deleteTaskQuerySchema
+} from '../middleware/validation';
+import {
+  BlockedTaskError,
+  ConflictError,
+  InvalidSearchQueryError,
+  InvalidTransitionError,
+  PreconditionFailedError,
+  ValidationError
+} from '../utils/errors';
+import { isCursorMode, DEFAULT_CURSOR_LIMIT } from '../utils/cursor';
+import { createTaskCommands } from '../utils/taskCommands';
+import { publishTaskEvents } from '../utils/taskEvents';
+import { buildTaskStats, TaskStats } from '../utils/taskStats';
+import { workflow } from '../utils/workflow';
+
+export interface GraphQLContext {
+  user: AuthUser;
+}
+
+// Errors a client can act on carry a code in their extensions, like the status codes of
+// the REST API; anything else is reported as an internal error
+const clientError = (message: string, code: string, extensions: Record<string, unknown> = {}): GraphQLError =>
+  new GraphQLError(message, { extensions: { code, ...extensions } });
+
+// Check arguments against the same Joi schema as the REST API, so both accept and reject
+// the same inputs
+const validateArgs = <T>(schema: Joi.Schema, input: unknown): T => {
+  const { value, errors } = validateValue<T>(schema, input);
+  if (errors) {
+    throw clientError('Validation error', 'BAD_USER_INPUT', { errors });
+  }
+  return value;
+};
+
+const validateTaskId = (id: string): string => {
+  if (!isUUID(id)) {
+    throw clientError('Invalid task ID format', 'BAD_USER_INPUT');
+  }
+  return id;
+};
+
+// API keys are held to their scopes, as on the REST routes
+const requireScope = ({ user }: GraphQLContext, scope: ApiKeyScope): void => {
+  if (user.scopes && !user.scopes.includes(scope)) {
+    throw clientError(`API key lacks required scope: ${scope}`, 'FORBIDDEN');
+  }
+};
+
+// Translate the errors the REST handlers turn into 4xx responses
+const toClientError = (error: unknown): unknown => {
+  if (error instanceof ValidationError) {
+    return clientError('Validation error', 'BAD_USER_INPUT', { errors: [{ field: error.field, message: error.message }] });
+  }
+  if (error instanceof InvalidSearchQueryError) {
+    return clientError(error.message, 'BAD_USER_INPUT');
+  }
+  if (error instanceof InvalidTransitionError) {
+    return clientError(error.message, 'INVALID_TRANSITION', { allowedStatuses: error.allowed });
+  }
+  if (error instanceof BlockedTaskError) {
+    return clientError(error.message, 'BLOCKED', { blockers: error.blockers.map(({ id, title, status }) => ({ id, title, status })) });
+  }
+  if (error instanceof PreconditionFailedError) {
+    return clientError(error.message, 'PRECONDITION_FAILED', { currentVersion: error.current.version });
+  }
+  if (error instanceof ConflictError) {
+    return clientError(error.message, 'CONFLICT');
+  }
+  return error;
+};
+
+const notFound = (): GraphQLError => clientError('Task not found', 'NOT_FOUND');
+
+// Dates are ISO 8601 strings. Inputs are passed on as they are for the Joi schemas to
+// check and convert.
+const DateTimeType = new GraphQLScalarType({
+  name: 'DateTime',
+  description: 'An ISO 8601 date-time, e.g. 2023-10-27T10:00:00.000Z',
+  serialize: value => (value instanceof Date ? value.toISOString() : value),
+  parseValue: value => value,
+  parseLiteral: ast => (ast.kind === Kind.STRING ? ast.value : undefined)
+});
+
+// Enum types whose values are their names, so they match the REST values
+const toEnumValues = (values: readonly string[]) =>
+  Object.fromEntries(values.map(value => [value, { value }]));
+
+// Built from the workflow, so custom statuses are included
+const TaskStatusType = new GraphQLEnumType({
+  name: 'TaskStatus',
+  values: toEnumValues(workflow.statuses)
+});
+
+const TaskPriorityType = new GraphQLEnumType({
+  name: 'TaskPriority',
+  values: toEnumValues(Object.values(TaskPriority))
+});
+
+const TagMatchType = new GraphQLEnumType({
+  name: 'TagMatch',
+  description: 'Whether tasks need all of the given tags or any of them',
+  values: toEnumValues(['all', 'any'])
+});
+
+const TaskOrderType = new GraphQLEnumType({
+  name: 'TaskOrder',
+  values: toEnumValues(['relevance', 'date'])
+});
+
+const ChildDeleteModeType = new GraphQLEnumType({
+  name: 'ChildDeleteMode',
+  description: 'What deleting a task does to its subtasks',
+  values: toEnumValues(['reject', 'cascade', 'reparent'])
+});
+
+const nonNull = <T extends GraphQLNullableType>(type: T) => new GraphQLNonNull(type);
+// A list of non-null items
+const listOf = <T extends GraphQLNullableType>(type: T) => new GraphQLList(new GraphQLNonNull(type));
+
+const TaskHighlightsType = new GraphQLObjectType({
+  name: 'TaskHighlights',
+  description: 'HTML-escaped task text with search matches wrapped in <mark> tags',
+  fields: {
+    title: { type: nonNull(GraphQLString) },
+    description: { type: nonNull(GraphQLString) }
+  }
+});
+
+const TaskStatusCountType = new GraphQLObjectType({
+  name: 'TaskStatusCount',
+  fields: {
+    status: { type: nonNull(TaskStatusType) },
+    count: { type: nonNull(GraphQLInt) }
+  }
+});
+
+const TaskStatsType = new GraphQLObjectType<TaskStats>({
+  name: 'TaskStats',
+  fields: {
+    total: { type: nonNull(GraphQLInt) },
+    pending: { type: nonNull(GraphQLInt) },
+    inProgress: { type: nonNull(GraphQLInt) },
+    completed: { type: nonNull(GraphQLInt) },
+    byStatus: {
+      type: nonNull(listOf(TaskStatusCountType)),
+      description: 'Counts for every status of the workflow, custom ones included',
+      resolve: stats => Object.entries(stats.byStatus).map(([status, count]) => ({ status, count }))
+    }
+  }
+});
+
+const PaginationType = new GraphQLObjectType({
+  name: 'Pagination',
+  description: 'currentPage and totalPages are set in page mode, the cursors in cursor mode. Newest-first pages of page mode set nextCursor too.',
+  fields: {
+    totalItems: { type: nonNull(GraphQLInt) },
+    itemsPerPage: { type: nonNull(GraphQLInt) },
+    currentPage: { type: GraphQLInt },
+    totalPages: { type: GraphQLInt },
+    nextCursor: { type: GraphQLString },
+    prevCursor: { type: GraphQLString },
+    hasNextPage: { type: GraphQLBoolean },
+    hasPreviousPage: { type: GraphQLBoolean }
+  }
+});
+
+const taskInputFields = {
+  title: { type: GraphQLString },
+  description: { type: GraphQLString },
+  status: { type: TaskStatusType },
+  priority: { type: TaskPriorityType },
+  dueDate: { type: DateTimeType },
+  tags: { type: listOf(GraphQLString) },
+  parentId: { type: GraphQLID },
+  recurrence: { type: GraphQLString, description: 'An iCalendar RRULE such as FREQ=WEEKLY;BYDAY=MO; needs a due date' }
+};
+
+const CreateTaskInputType = new GraphQLInputObjectType({
+  name: 'CreateTaskInput',
+  fields: { ...taskInputFields, title: { type: nonNull(GraphQLString) } }
+});
+
+const UpdateTaskInputType = new GraphQLInputObjectType({
+  name: 'UpdateTaskInput',
+  description: 'tags replaces all tags; addTags and removeTags edit them instead',
+  fields: {
+    ...taskInputFields,
+    addTags: { type: listOf(GraphQLString) },
+    removeTags: { type: listOf(GraphQLString) }
+  }
+});
+
+// The filters and pagination of GET /api/tasks, with the same names and rules
+const taskListArgs: GraphQLFieldConfigArgumentMap = {
+  status: { type: listOf(TaskStatusType) },
+  priority: { type: listOf(TaskPriorityType) },
+  tags: { type: listOf(GraphQLString) },
+  tagMatch: { type: TagMatchType },
+  parentId: { type: GraphQLID },
+  ready: { type: GraphQLBoolean, description: 'Only tasks whose blockers are all COMPLETED, or with false only blocked tasks' },
+  dueBefore: { type: DateTimeType },
+  dueAfter: { type: DateTimeType },
+  search: { type: GraphQLString, description: 'Full-text search expression' },
+  createdFrom: { type: DateTimeType },
+  createdTo: { type: DateTimeType },
+  updatedFrom: { type: DateTimeType },
+  updatedTo: { type: DateTimeType },
+  sort: { type: listOf(GraphQLString), description: 'Fields to sort by, each optionally prefixed with - for descending order' },
+  orderBy: { type: TaskOrderType },
+  page: { type: GraphQLInt },
+  limit: { type: GraphQLInt },
+  after: { type: GraphQLString, description: 'Cursor of the task to list from, exclusive' },
+  before: { type: GraphQLString, description: 'Cursor of the task to list up to, exclusive' }
+};
+
+// Build the GraphQL schema around a task repository
+export const createGraphQLSchema = (taskRepository: TaskRepository): GraphQLSchema => {
+  const { addTaskFromRequest, applyTaskUpdate, trashTask } = createTaskCommands(taskRepository);
+
+  const TaskType: GraphQLObjectType<TaskListItem, GraphQLContext> = new GraphQLObjectType<TaskListItem, GraphQLContext>({
+    name: 'Task',
+    fields: () => ({
+      id: { type: nonNull(GraphQLID) },
+      title: { type: nonNull(GraphQLString) },
+      description: { type: nonNull(GraphQLString) },
+      status: { type: nonNull(TaskStatusType) },
+      priority: { type: nonNull(TaskPriorityType) },
+      dueDate: { type: DateTimeType },
+      tags: { type: nonNull(listOf(GraphQLString)) },
+      parentId: { type: GraphQLID },
+      recurrence: { type: GraphQLString, description: 'RRULE of a recurring task; completing the task creates the next occurrence' },
+      commentCount: { type: nonNull(GraphQLInt), description: 'Comments on the task, replies included' },
+      version: { type: nonNull(GraphQLInt), description: 'Incremented on every change; pass it to mutations to detect lost updates' },
+      createdAt: { type: nonNull(DateTimeType) },
+      updatedAt: { type: nonNull(DateTimeType) },
+      score: { type: GraphQLFloat, description: 'Search relevance, when listing with search' },
+      highlights: { type: TaskHighlightsType, description: 'Search matches, when listing with search' },
+      parent: {
+        type: TaskType,
+        resolve: (task, args, context) =>
+          task.parentId ? taskRepository.getTaskById(task.parentId, context.user.id) : null
+      },
+      children: {
+        type: nonNull(listOf(TaskType)),
+        description: 'Direct subtasks, newest first',
+        resolve: async (task, args, context) =>
+          (await taskRepository.getAllTasks(context.user.id, { parentId: task.id })).tasks
+      },
+      blockers: {
+        type: nonNull(listOf(TaskType)),
+        description: 'Tasks this task is blocked by',
+        resolve: async (task, args, context) => (await taskRepository.getBlockers(task.id, context.user.id)) ?? []
+      },
+      dependents: {
+        type: nonNull(listOf(TaskType)),
+        description: 'Tasks blocked by this task',
+        resolve: async (task, args, context) => (await taskRepository.getDependents(task.id, context.user.id)) ?? []
+      }
+    })
+  });
+
+  const TaskListType = new GraphQLObjectType({
+    name: 'TaskList',
+    fields: {
+      tasks: { type: nonNull(listOf(TaskType)) },
+      total: { type: nonNull(GraphQLInt) },
+      pagination: { type: PaginationType, description: 'Set when paging with page and limit, or with cursors' }
+    }
+  });
+
+  const query = new GraphQLObjectType<unknown, GraphQLContext>({
+    name: 'Query',
+    fields: {
+      tasks: {
+        type: nonNull(TaskListType),
+        description: 'Your tasks, filtered and paginated like GET /api/tasks',
+        args: taskListArgs,
+        resolve: async (source, args, context) => {
+          requireScope(context, ApiKeyScope.TASKS_READ);
+          // A null filter is the same as leaving it out
+          const filters = Object.fromEntries(Object.entries(args).filter(([, value]) => value !== null));
+          const taskQuery = validateArgs<TaskQuery>(queryParamsSchema, filters);
+          const { page, limit } = taskQuery;
+          try {
+            const result = await taskRepository.getAllTasks(context.user.id, taskQuery);
+            let pagination;
+            if (isCursorMode(taskQuery)) {
+              pagination = {
+                itemsPerPage: limit ?? DEFAULT_CURSOR_LIMIT,
+                totalItems: result.total,
+                nextCursor: result.nextCursor,
+                prevCursor: result.prevCursor,
+                hasNextPage: Boolean(result.nextCursor),
+                hasPreviousPage: Boolean(result.prevCursor)
+              };
+            } else if (page && limit) {
+              pagination = {
+                currentPage: result.page,
+                totalPages: result.totalPages,
+                totalItems: result.total,
+                itemsPerPage: limit,
+                ...(result.nextCursor !== undefined && { nextCursor: result.nextCursor })
+              };
+            }
+            return { tasks: result.tasks, total: result.total, pagination };
+          } catch (error) {
+            throw toClientError(error);
+          }
+        }
+      },
+      task: {
+        type: TaskType,
+        args: { id: { type: nonNull(GraphQLID) } },
+        resolve: (source, { id }, context) => {
+          requireScope(context, ApiKeyScope.TASKS_READ);
+          return taskRepository.getTaskById(validateTaskId(id), context.user.id);
+        }
+      },
+      overdueTasks: {
+        type: nonNull(listOf(TaskType)),
+        description: 'Tasks past their due date that are not completed, most urgent first',
+        resolve: (source, args, context) => {
+          requireScope(context, ApiKeyScope.TASKS_READ);
+          return taskRepository.getOverdueTasks(context.user.id, new Date());
+        }
+      },
+      taskStats: {
+        type: nonNull(TaskStatsType),
+        resolve: async (source, args, context) => {
+          requireScope(context, ApiKeyScope.STATS_READ);
+          return buildTaskStats((await taskRepository.getAllTasks(context.user.id)).tasks);
+        }
+      }
+    }
+  });
+
+  const mutation = new GraphQLObjectType<unknown, GraphQLContext>({
+    name: 'Mutation',
+    fields: {
+      createTask: {
+        type: nonNull(TaskType),
+        args: { input: { type: nonNull(CreateTaskInputType) } },
+        resolve: async (source, { input }, context) => {
+          requireScope(context, ApiKeyScope.TASKS_WRITE);
+          const request = validateArgs<CreateTaskRequest>(createTaskSchema, input);
+          try {
+            const events: TaskEvent[] = [];
+            const task = await addTaskFromRequest(request, context.user.id, events);
+            await publishTaskEvents(context.user.id, events);
+            return task;
+          } catch (error) {
+            throw toClientError(error);
+          }
+        }
+      },
+      updateTask: {
+        type: nonNull(TaskType),
+        description: 'Change some fields of a task, like PATCH /api/tasks/{id} with a merge patch',
+        args: {
+          id: { type: nonNull(GraphQLID) },
+          input: { type: nonNull(UpdateTaskInputType) },
+          ignoreBlockers: { type: GraphQLBoolean, defaultValue: false },
+          version: { type: GraphQLInt, description: 'Only update the task if it is still at this version' }
+        },
+        resolve: async (source, { id, input, ignoreBlockers, version }, context) => {
+          requireScope(context, ApiKeyScope.TASKS_WRITE);
+          validateTaskId(id);
+          const updates = validateArgs<UpdateTaskRequest>(updateTaskSchema, input);
+          try {
+            const events: TaskEvent[] = [];
+            const task = await applyTaskUpdate(id, context.user.id, updates, events, ignoreBlockers, version ?? undefined);
+            if (!task) {
+              throw notFound();
+            }
+            await publishTaskEvents(context.user.id, events);
+            return task;
+          } catch (error) {
+            throw toClientError(error);
+          }
+        }
+      },
+      deleteTask: {
+        type: nonNull(TaskType),
+        description: 'Move a task to the trash, returning it as it was',
+        args: {
+          id: { type: nonNull(GraphQLID) },
+          children: { type: ChildDeleteModeType },
+          version: { type: GraphQLInt, description: 'Only delete the task if it is still at this version' }
+        },
+        resolve: async (source, { id, children, version }, context) => {
+          requireScope(context, ApiKeyScope.TASKS_DELETE);
+          validateTaskId(id);
+          const options = validateArgs<{ children: ChildDeleteMode }>(deleteTaskQuerySchema, { children: children ?? undefined });
+          try {
+            const task: Task | undefined = await taskRepository.getTaskById(id, context.user.id);
+            const events: TaskEvent[] = [];
+            if (!task || !(await trashTask(id, context.user.id, options.children, events, version ?? undefined))) {
+              throw notFound();
+            }
+            await publishTaskEvents(context.user.id, events);
+            return task;
+          } catch (error) {
+            throw toClientError(error);
+          }
+        }
+      }
+    }
+  });
+
+  return new GraphQLSchema({ query, mutation });
+};
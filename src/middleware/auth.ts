@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from "express";
+import { config } from "../config";
+import { AuthUser } from "../models/user";
+import { ApiKeyScope } from "../models/apiKey";
+import { verifyToken, hashApiKey } from "../utils/auth";
+import { getActiveApiKeyByHash, getUserById, touchApiKey } from "../utils/database";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// Middleware to require a valid bearer token or X-API-Key header and attach the caller to req.user
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const apiKey = req.header("X-API-Key");
+
+    if (apiKey) {
+      const storedKey = await getActiveApiKeyByHash(hashApiKey(apiKey));
+      const owner = storedKey && (await getUserById(storedKey.userId));
+
+      if (!storedKey || !owner) {
+        return res.status(401).json({
+          success: false,
+          message: "Invalid or revoked API key",
+        });
+      }
+
+      await touchApiKey(storedKey.id);
+
+      req.user = {
+        id: owner.id,
+        email: owner.email,
+        scopes: storedKey.scopes,
+        apiKeyId: storedKey.id,
+      };
+      return next();
+    }
+
+    const header = req.headers.authorization;
+
+    if (!header || !header.startsWith("Bearer ")) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const user = verifyToken(header.slice("Bearer ".length).trim());
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: "Invalid or expired token",
+      });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Middleware to require a scope when the caller authenticated with an API key.
+// Bearer-token callers act as the user themselves and pass every scope check.
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const scopes = req.user?.scopes;
+
+    if (scopes && !scopes.includes(scope)) {
+      return res.status(403).json({
+        success: false,
+        message: `API key lacks required scope: ${scope}`,
+      });
+    }
+
+    next();
+  };
+};
+
+// Middleware to reject API-key callers, for routes only a logged-in user may use
+export const requireUserToken = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.user?.apiKeyId) {
+    return res.status(403).json({
+      success: false,
+      message: "This endpoint requires a user bearer token",
+    });
+  }
+
+  next();
+};
+
+// Middleware to restrict a route to the users listed in ADMIN_EMAILS
+export const requireAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user || !config.adminEmails.includes(req.user.email.toLowerCase())) {
+    return res.status(403).json({
+      success: false,
+      message: "Admin access required",
+    });
+  }
+
+  next();
+};
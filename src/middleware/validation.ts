@@ -1,6 +1,56 @@
 import { Request, Response, NextFunction } from "express";
 import Joi from "joi";
-import { TaskStatus } from "../models/task";
+import { TaskPriority, TaskSort, TASK_SORT_FIELDS } from "../models/task";
+import { ApiKeyScope } from "../models/apiKey";
+import { AuditAction } from "../models/audit";
+import { WebhookEvent } from "../models/webhook";
+import { JobType } from "../models/job";
+import { decodeCursor, isCursorMode } from "../utils/cursor";
+import { parseIfMatch } from "../utils/etag";
+import { parseRecurrenceRule, formatRecurrenceRule } from "../utils/recurrence";
+import { MERGE_PATCH_TYPE, JSON_PATCH_TYPE } from "../utils/patch";
+import { TASK_FILE_TYPES } from "../utils/taskFormats";
+import { workflow } from "../utils/workflow";
+
+// Tag names are stored lowercased so "Work" and "work" are the same tag
+const tagName = Joi.string()
+  .trim()
+  .lowercase()
+  .min(1)
+  .max(50)
+  .pattern(/^[\p{L}\p{N}][\p{L}\p{N}_:.-]*$/u)
+  .messages({
+    "string.empty": "Tag name cannot be empty",
+    "string.max": "Tag name must be less than 50 characters",
+    "string.pattern.base":
+      "Tag names must start with a letter or digit and contain only letters, digits, _, :, . or -",
+  });
+
+const tagList = Joi.array()
+  .items(tagName)
+  .max(20)
+  .unique()
+  .messages({
+    "array.max": "A task may have at most 20 tags",
+    "array.unique": "Tags must not contain duplicates",
+  });
+
+// An RRULE, stored in its canonical form; null removes it
+const recurrenceRule = Joi.string()
+  .max(200)
+  .allow(null)
+  .custom((value, helpers) => {
+    try {
+      return formatRecurrenceRule(parseRecurrenceRule(value));
+    } catch (error) {
+      return helpers.error("recurrence.invalid", { reason: (error as Error).message });
+    }
+  })
+  .messages({
+    "string.empty": "Recurrence cannot be empty; use null to remove it",
+    "string.max": "Recurrence must be less than 200 characters",
+    "recurrence.invalid": "Recurrence is not a valid RRULE: {{#reason}}",
+  });
 
 // Validation schema for creating a new task
 export const createTaskSchema = Joi.object({
@@ -13,13 +63,72 @@ export const createTaskSchema = Joi.object({
     "string.max": "Description must be less than 500 characters",
   }),
   status: Joi.string()
-    .valid(...Object.values(TaskStatus))
+    .valid(...workflow.statuses)
     .optional()
     .messages({
-      "any.only": "Status must be one of: PENDING, COMPLETED, IN_PROGRESS",
+      "any.only": `Status must be one of: ${workflow.statuses.join(", ")}`,
     }),
+  priority: Joi.string()
+    .valid(...Object.values(TaskPriority))
+    .optional()
+    .messages({
+      "any.only": "Priority must be one of: LOW, MEDIUM, HIGH, URGENT",
+    }),
+  dueDate: Joi.date().iso().allow(null).optional().messages({
+    "date.format": "Due date must be an ISO 8601 date",
+  }),
+  tags: tagList.optional(),
+  parentId: Joi.string().guid().allow(null).optional().messages({
+    "string.guid": "Parent ID must be a valid UUID",
+  }),
+  recurrence: recurrenceRule.optional(),
+});
+
+// Validation schema for replacing a task (PUT, and the result of a PATCH): every
+// writable field is required, recurrence too (null for a task that does not repeat)
+export const replaceTaskSchema = createTaskSchema.fork(
+  ["description", "status", "priority", "dueDate", "tags", "parentId", "recurrence"],
+  (schema) => schema.required()
+);
+
+// Validation schema for an application/merge-patch+json body; the patched task is then
+// validated against replaceTaskSchema
+export const mergePatchSchema = Joi.object().unknown().min(1).messages({
+  "object.base": "A merge patch must be a JSON object",
+  "object.min": "A merge patch must change at least one field",
 });
 
+// Validation schema for an application/json-patch+json body
+export const jsonPatchSchema = Joi.array()
+  .items(
+    Joi.object({
+      op: Joi.string().valid("add", "remove", "replace", "move", "copy", "test").required().messages({
+        "any.only": "op must be one of: add, remove, replace, move, copy, test",
+      }),
+      path: Joi.string().allow("").pattern(/^\//).required().messages({
+        "string.pattern.base": "path must be a JSON Pointer such as /title",
+      }),
+      from: Joi.string()
+        .allow("")
+        .pattern(/^\//)
+        .when("op", { is: Joi.valid("move", "copy"), then: Joi.required(), otherwise: Joi.forbidden() })
+        .messages({
+          "string.pattern.base": "from must be a JSON Pointer such as /title",
+        }),
+      value: Joi.any().when("op", {
+        is: Joi.valid("add", "replace", "test"),
+        then: Joi.required(),
+        otherwise: Joi.forbidden(),
+      }),
+    })
+  )
+  .min(1)
+  .required()
+  .messages({
+    "array.base": "A JSON Patch must be an array of operations",
+    "array.min": "A JSON Patch must contain at least one operation",
+  });
+
 // Validation schema for updating a task
 export const updateTaskSchema = Joi.object({
   title: Joi.string().min(1).max(100).optional().messages({
@@ -30,29 +139,486 @@ export const updateTaskSchema = Joi.object({
     "string.max": "Description must be less than 500 characters",
   }),
   status: Joi.string()
-    .valid(...Object.values(TaskStatus))
+    .valid(...workflow.statuses)
     .optional()
     .messages({
-      "any.only": "Status must be one of: PENDING, COMPLETED, IN_PROGRESS",
+      "any.only": `Status must be one of: ${workflow.statuses.join(", ")}`,
     }),
+  priority: Joi.string()
+    .valid(...Object.values(TaskPriority))
+    .optional()
+    .messages({
+      "any.only": "Priority must be one of: LOW, MEDIUM, HIGH, URGENT",
+    }),
+  dueDate: Joi.date().iso().allow(null).optional().messages({
+    "date.format": "Due date must be an ISO 8601 date",
+  }),
+  tags: tagList.optional(),
+  addTags: tagList.optional(),
+  removeTags: tagList.optional(),
+  parentId: Joi.string().guid().allow(null).optional().messages({
+    "string.guid": "Parent ID must be a valid UUID",
+  }),
+  recurrence: recurrenceRule.optional(),
 })
   .min(1)
+  // tags replaces the whole set, so it cannot be combined with incremental changes
+  .oxor("tags", "addTags")
+  .oxor("tags", "removeTags")
   .messages({
     "object.min": "At least one field must be provided for update",
+    "object.oxor": "Only one of {{#peersWithLabels}} may be provided",
+  });
+
+// Joi with a "list" type: an array that also accepts a comma-separated string,
+// so query parameters work as either ?status=A,B or ?status=A&status=B
+const QueryJoi = Joi.extend({
+  type: "list",
+  base: Joi.array(),
+  coerce: {
+    from: "string",
+    method: (value: string) => ({
+      value: value.split(",").map((item) => item.trim()).filter(Boolean),
+    }),
+  },
+});
+
+const sortFieldPattern = new RegExp(`^-?(${TASK_SORT_FIELDS.join("|")})$`);
+
+// Parse "-updatedAt" into { field: "updatedAt", direction: "desc" }
+const toTaskSort = (term: string): TaskSort => ({
+  field: term.replace(/^-/, "") as TaskSort["field"],
+  direction: term.startsWith("-") ? "desc" : "asc",
+});
+
+// End of an inclusive date range; must not precede its start when both are given
+const rangeEnd = (startKey: string) =>
+  Joi.date()
+    .iso()
+    .when(startKey, {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref(startKey)),
+    })
+    .messages({
+      "date.format": "{{#label}} must be an ISO 8601 date",
+      "date.min": `{{#label}} must not be earlier than ${startKey}`,
+    });
+
+// Joi rule that decodes an opaque pagination cursor into its createdAt/id position
+const cursorParam = Joi.string()
+  .max(200)
+  .custom((value, helpers) => decodeCursor(value) ?? helpers.error("any.invalid"))
+  .messages({
+    "any.invalid": "{{#label}} is not a valid cursor",
   });
 
 // Validation schema for query parameters
 export const queryParamsSchema = Joi.object({
   page: Joi.number().integer().min(1).optional(),
   limit: Joi.number().integer().min(1).max(100).optional(),
-  status: Joi.string()
-    .valid(...Object.values(TaskStatus))
+  status: QueryJoi.list()
+    .items(Joi.string().valid(...workflow.statuses))
+    .unique()
+    .optional()
+    .messages({
+      "any.only": `Status must be any of: ${workflow.statuses.join(", ")}`,
+    }),
+  priority: QueryJoi.list()
+    .items(Joi.string().valid(...Object.values(TaskPriority)))
+    .unique()
+    .optional()
+    .messages({
+      "any.only": `Priority must be any of: ${Object.values(TaskPriority).join(", ")}`,
+    }),
+  tags: QueryJoi.list()
+    .items(tagName)
+    .unique()
     .optional(),
+  tagMatch: Joi.string().valid("any", "all").default("all").messages({
+    "any.only": "tagMatch must be one of: any, all",
+  }),
+  parentId: Joi.string().guid().optional().messages({
+    "string.guid": "Parent ID must be a valid UUID",
+  }),
+  ready: Joi.boolean().optional(),
+  dueAfter: Joi.date().iso().optional().messages({
+    "date.format": "{{#label}} must be an ISO 8601 date",
+  }),
+  dueBefore: Joi.date().iso().optional().messages({
+    "date.format": "{{#label}} must be an ISO 8601 date",
+  }),
   search: Joi.string().max(100).optional(),
+  createdFrom: Joi.date().iso().optional().messages({
+    "date.format": "{{#label}} must be an ISO 8601 date",
+  }),
+  createdTo: rangeEnd("createdFrom").optional(),
+  updatedFrom: Joi.date().iso().optional().messages({
+    "date.format": "{{#label}} must be an ISO 8601 date",
+  }),
+  updatedTo: rangeEnd("updatedFrom").optional(),
+  sort: QueryJoi.list()
+    .items(Joi.string().pattern(sortFieldPattern))
+    .min(1)
+    .unique((a: string, b: string) => a.replace(/^-/, "") === b.replace(/^-/, ""))
+    .custom((terms: string[]) => terms.map(toTaskSort))
+    .optional()
+    .messages({
+      "string.pattern.base": `Sort fields must be any of: ${TASK_SORT_FIELDS.join(", ")}, optionally prefixed with - for descending order`,
+      "array.unique": "Each sort field may only be given once",
+    }),
+  orderBy: Joi.string().valid("relevance", "date").optional().messages({
+    "any.only": "orderBy must be one of: relevance, date",
+  }),
+  after: cursorParam.optional(),
+  before: cursorParam.optional(),
+})
+  .oxor("page", "after", "before")
+  .oxor("sort", "orderBy")
+  .custom((value, helpers) => {
+    if (isCursorMode(value) && (value.orderBy === "relevance" || value.sort)) {
+      return helpers.message({
+        custom: "Cursor pagination is ordered by date; sort and orderBy=relevance require page-based pagination",
+      });
+    }
+    // A limit without a page or cursor is the first page
+    return value.limit && !value.page && !isCursorMode(value) ? { ...value, page: 1 } : value;
+  })
+  .messages({
+    "object.oxor": "Only one of {{#peersWithLabels}} may be provided",
+  });
+
+// The task list filters without paging or ordering, for bulk updates and exports
+const taskFilterSchema = queryParamsSchema.fork(
+  ["page", "limit", "sort", "orderBy", "after", "before"],
+  (schema) => schema.forbidden()
+);
+
+// Validation schema for the body of a bulk request; each operation is validated on its
+// own against bulkOperationSchema so that one bad item can be reported without the rest
+export const bulkRequestSchema = Joi.object({
+  mode: Joi.string().valid("all-or-nothing", "best-effort").default("all-or-nothing").messages({
+    "any.only": "mode must be one of: all-or-nothing, best-effort",
+  }),
+  operations: Joi.array().items(Joi.object().unknown()).min(1).max(100).required().messages({
+    "array.min": "At least one operation is required",
+    "array.max": "At most 100 operations may be sent at once",
+    "any.required": "Operations are required",
+  }),
+});
+
+// Validation schema for one operation of a bulk request
+export const bulkOperationSchema = Joi.object({
+  op: Joi.string().valid("create", "update", "delete").required().messages({
+    "any.only": "op must be one of: create, update, delete",
+    "any.required": "op is required",
+  }),
+  id: Joi.string()
+    .guid()
+    .when("op", {
+      switch: [
+        { is: "create", then: Joi.forbidden() },
+        { is: "delete", then: Joi.required() },
+      ],
+    })
+    .messages({
+      "string.guid": "Task ID must be a valid UUID",
+    }),
+  filter: taskFilterSchema.when("op", { not: "update", then: Joi.forbidden() }),
+  data: Joi.when("op", {
+    switch: [
+      { is: "create", then: createTaskSchema.required() },
+      { is: "update", then: updateTaskSchema.required() },
+    ],
+    otherwise: Joi.forbidden(),
+  }),
+  version: Joi.number().integer().min(1).when("op", { is: "create", then: Joi.forbidden() }),
+  children: Joi.string()
+    .valid("reject", "cascade", "reparent")
+    .when("op", { is: "delete", then: Joi.optional().default("reject"), otherwise: Joi.forbidden() })
+    .messages({
+      "any.only": "children must be one of: reject, cascade, reparent",
+    }),
+  ignoreBlockers: Joi.boolean().when("op", { is: "update", otherwise: Joi.forbidden() }),
+})
+  .when(Joi.object({ op: Joi.valid("update") }).unknown(), {
+    then: Joi.object().xor("id", "filter"),
+  })
+  .oxor("filter", "version")
+  .messages({
+    "object.missing": "An update needs either an id or a filter",
+    "object.xor": "An update takes either an id or a filter, not both",
+    "object.oxor": "Only one of {{#peersWithLabels}} may be provided",
+  });
+
+// Validate a value outside of a request body (e.g. one bulk operation or a patched task),
+// returning either the converted value or its errors in the shape validateBody reports
+export const validateValue = <T>(
+  schema: Joi.Schema,
+  input: unknown
+): { value: T; errors?: undefined } | { value?: undefined; errors: { field: string; message: string }[] } => {
+  const { error, value } = schema.validate(input);
+  if (error) {
+    return {
+      errors: error.details.map((detail) => ({
+        field: detail.path.join("."),
+        message: detail.message,
+      })),
+    };
+  }
+  return { value };
+};
+
+// Validation schema for the query parameters of updating a task
+export const updateTaskQuerySchema = Joi.object({
+  ignoreBlockers: Joi.boolean().default(false),
+});
+
+// Validation schema for marking a task as blocked by another
+export const addBlockerSchema = Joi.object({
+  blockerId: Joi.string().guid().required().messages({
+    "string.guid": "Blocker ID must be a valid UUID",
+    "any.required": "Blocker ID is required",
+  }),
+});
+
+// Validation schema for the query parameters of deleting a task
+export const deleteTaskQuerySchema = Joi.object({
+  children: Joi.string().valid("reject", "cascade", "reparent").default("reject").messages({
+    "any.only": "children must be one of: reject, cascade, reparent",
+  }),
+});
+
+// Validation schema for reverting a task to an earlier revision
+export const revertTaskSchema = Joi.object({
+  revision: Joi.number().integer().min(1).required().messages({
+    "any.required": "Revision is required",
+  }),
+});
+
+// Validation schema for the trash listing query parameters
+export const trashQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+// Validation schema for the occurrence preview query parameters
+export const occurrenceQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(10),
+});
+
+// Validation schema for the query parameters of an export
+export const exportQuerySchema = taskFilterSchema.keys({
+  format: Joi.string().valid("csv", "json", "ndjson").default("json").messages({
+    "any.only": "format must be one of: csv, json, ndjson",
+  }),
+});
+
+// Validation schema for the query parameters of a calendar
+export const calendarQuerySchema = taskFilterSchema.keys({
+  events: Joi.boolean().default(false),
+});
+
+// Validation schema for the query parameters of the task event stream. EventSource cannot
+// set headers on its first connection, so lastEventId may also be given as a parameter.
+export const taskEventQuerySchema = taskFilterSchema.keys({
+  lastEventId: Joi.string().max(100).optional(),
+});
+
+// Validation schema for the query parameters of an import
+export const importQuerySchema = Joi.object({
+  dryRun: Joi.boolean().default(false),
+  upsert: Joi.boolean().default(false),
+});
+
+// Validation schema for one task of an import: a create request plus the id to upsert by.
+// The read-only fields of an export are accepted and dropped so exports import as they are.
+export const importTaskSchema = createTaskSchema.keys({
+  id: Joi.string().guid().optional().messages({
+    "string.guid": "ID must be a valid UUID",
+  }),
+  userId: Joi.any().strip(),
+  commentCount: Joi.any().strip(),
+  version: Joi.any().strip(),
+  createdAt: Joi.any().strip(),
+  updatedAt: Joi.any().strip(),
+  deletedAt: Joi.any().strip(),
+});
+
+// Validation schema for the audit feed query parameters
+export const auditQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  action: QueryJoi.list()
+    .items(Joi.string().valid(...Object.values(AuditAction)))
+    .unique()
+    .optional()
+    .messages({
+      "any.only": `Action must be any of: ${Object.values(AuditAction).join(", ")}`,
+    }),
+  taskId: Joi.string().guid().optional().messages({
+    "string.guid": "Task ID must be a valid UUID",
+  }),
+  from: Joi.date().iso().optional().messages({
+    "date.format": "{{#label}} must be an ISO 8601 date",
+  }),
+  to: rangeEnd("from").optional(),
+});
+
+// Validation schema for registering a user
+export const registerSchema = Joi.object({
+  email: Joi.string().email().lowercase().max(254).required().messages({
+    "string.email": "Email must be a valid email address",
+    "any.required": "Email is required",
+  }),
+  password: Joi.string().min(8).max(128).required().messages({
+    "string.min": "Password must be at least 8 characters",
+    "string.max": "Password must be less than 128 characters",
+    "any.required": "Password is required",
+  }),
+  name: Joi.string().min(1).max(100).required().messages({
+    "string.empty": "Name cannot be empty",
+    "string.max": "Name must be less than 100 characters",
+    "any.required": "Name is required",
+  }),
+});
+
+// Validation schema for logging in
+export const loginSchema = Joi.object({
+  email: Joi.string().email().lowercase().required().messages({
+    "string.email": "Email must be a valid email address",
+    "any.required": "Email is required",
+  }),
+  password: Joi.string().required().messages({
+    "any.required": "Password is required",
+  }),
+});
+
+// Validation schema for creating an API key
+export const createApiKeySchema = Joi.object({
+  name: Joi.string().min(1).max(100).required().messages({
+    "string.empty": "Name cannot be empty",
+    "string.max": "Name must be less than 100 characters",
+    "any.required": "Name is required",
+  }),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...Object.values(ApiKeyScope)))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      "any.only": `Scopes must be any of: ${Object.values(ApiKeyScope).join(", ")}`,
+      "array.min": "At least one scope is required",
+      "array.unique": "Scopes must not contain duplicates",
+      "any.required": "Scopes are required",
+    }),
+});
+
+// Validation schema for creating or renaming a tag
+export const tagSchema = Joi.object({
+  name: tagName.required().messages({
+    "any.required": "Name is required",
+  }),
+});
+
+const webhookUrl = Joi.string().uri({ scheme: ["http", "https"] }).max(2048).messages({
+  "string.uri": "URL must be a valid http or https URL",
+  "string.uriCustomScheme": "URL must be a valid http or https URL",
+  "string.max": "URL must be less than 2048 characters",
+});
+
+const webhookEvents = Joi.array()
+  .items(Joi.string().valid(...Object.values(WebhookEvent)))
+  .min(1)
+  .unique()
+  .messages({
+    "any.only": `Events must be any of: ${Object.values(WebhookEvent).join(", ")}`,
+    "array.min": "At least one event is required",
+    "array.unique": "Events must not contain duplicates",
+  });
+
+const webhookSecret = Joi.string().min(16).max(256).messages({
+  "string.min": "Secret must be at least 16 characters",
+  "string.max": "Secret must be less than 256 characters",
+});
+
+// Validation schema for creating a webhook
+export const createWebhookSchema = Joi.object({
+  url: webhookUrl.required().messages({
+    "any.required": "URL is required",
+  }),
+  events: webhookEvents.required().messages({
+    "any.required": "Events are required",
+  }),
+  secret: webhookSecret.optional(),
+  active: Joi.boolean().default(true),
+});
+
+// Validation schema for updating a webhook
+export const updateWebhookSchema = Joi.object({
+  url: webhookUrl.optional(),
+  events: webhookEvents.optional(),
+  secret: webhookSecret.optional(),
+  active: Joi.boolean().optional(),
+})
+  .min(1)
+  .messages({
+    "object.min": "At least one field must be provided for update",
+  });
+
+// Validation schema for the webhook delivery log query parameters
+export const webhookDeliveryQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  status: Joi.string().valid("pending", "succeeded", "failed").optional().messages({
+    "any.only": "Status must be any of: pending, succeeded, failed",
+  }),
+});
+
+const commentBody = Joi.string().trim().min(1).max(2000).messages({
+  "string.empty": "Comment body cannot be empty",
+  "string.max": "Comment body must be less than 2000 characters",
+  "any.required": "Comment body is required",
+});
+
+// Validation schema for adding a comment to a task
+export const createCommentSchema = Joi.object({
+  body: commentBody.required(),
+  parentId: Joi.string().guid().allow(null).optional().messages({
+    "string.guid": "Parent ID must be a valid UUID",
+  }),
+});
+
+// Validation schema for editing a comment
+export const updateCommentSchema = Joi.object({
+  body: commentBody.required(),
+});
+
+// Validation schema for the comment and reply list query parameters
+export const commentQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+// Validation schema for the admin job list query parameters
+export const jobQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  status: Joi.string()
+    .valid("scheduled", "running", "paused", "completed", "failed")
+    .optional()
+    .messages({
+      "any.only": "Status must be any of: scheduled, running, paused, completed, failed",
+    }),
+  type: Joi.string()
+    .valid(...Object.values(JobType))
+    .optional()
+    .messages({
+      "any.only": `Type must be any of: ${Object.values(JobType).join(", ")}`,
+    }),
 });
 
 // Middleware function to validate request body
-export const validateBody = (schema: Joi.ObjectSchema) => {
+export const validateBody = (schema: Joi.Schema) => {
   return (req: Request, res: Response, next: NextFunction) => {
     const { error, value } = schema.validate(req.body);
 
@@ -93,20 +659,64 @@ export const validateQuery = (schema: Joi.ObjectSchema) => {
   };
 };
 
+const uuidRegex =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Whether a value is a UUID, for IDs that do not arrive as route parameters
+export const isUUID = (value: string): boolean => uuidRegex.test(value);
+
+// Middleware factory to validate that a route parameter is a UUID
+export const validateUUIDParam = (param: string, resource: string) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!uuidRegex.test(req.params[param])) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid ${resource} ID format`,
+      });
+    }
+
+    next();
+  };
+};
+
 // Middleware to validate UUID format
-export const validateUUID = (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  const { id } = req.params;
-  const uuidRegex =
-    /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-
-  if (!uuidRegex.test(id)) {
+export const validateUUID = validateUUIDParam("id", "task");
+
+// Middleware to validate a PATCH body against the schema of its content type
+export const validatePatch = (req: Request, res: Response, next: NextFunction) => {
+  if (req.is(MERGE_PATCH_TYPE)) {
+    return validateBody(mergePatchSchema)(req, res, next);
+  }
+  if (req.is(JSON_PATCH_TYPE)) {
+    return validateBody(jsonPatchSchema)(req, res, next);
+  }
+
+  res.set("Accept-Patch", `${MERGE_PATCH_TYPE}, ${JSON_PATCH_TYPE}`);
+  return res.status(415).json({
+    success: false,
+    message: `PATCH requires Content-Type ${MERGE_PATCH_TYPE} or ${JSON_PATCH_TYPE}`,
+  });
+};
+
+// Middleware to reject an import body that is not CSV, JSON or NDJSON
+export const validateImportType = (req: Request, res: Response, next: NextFunction) => {
+  const types = Object.values(TASK_FILE_TYPES);
+  if (req.is(types)) {
+    return next();
+  }
+
+  return res.status(415).json({
+    success: false,
+    message: `Import requires Content-Type ${types.join(", ")}`,
+  });
+};
+
+// Middleware to validate an optional If-Match header on a conditional write
+export const validateIfMatch = (req: Request, res: Response, next: NextFunction) => {
+  if (parseIfMatch(req.get("If-Match")) === null) {
     return res.status(400).json({
       success: false,
-      message: "Invalid task ID format",
+      message: 'If-Match must be "*" or a single ETag returned by this API',
     });
   }
 
@@ -0,0 +1,24 @@
+import { Migration } from '../models/migration';
+
+// Databases created before migrations existed already have this table, hence IF NOT EXISTS
+const migration: Migration = {
+  version: 1,
+  name: 'create_tasks',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        status TEXT NOT NULL,
+        createdAt DATETIME NOT NULL,
+        updatedAt DATETIME NOT NULL
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS tasks');
+  },
+};
+
+export default migration;
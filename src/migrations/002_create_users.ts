@@ -0,0 +1,82 @@
+import bcrypt from 'bcryptjs';
+import { Database } from 'sqlite';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { Migration } from '../models/migration';
+
+// Tasks created before users existed have no owner, so nobody could see them. They are
+// handed to the LEGACY_TASK_OWNER_EMAIL account, which is created with
+// LEGACY_TASK_OWNER_PASSWORD if needed; without one the migration fails rather than
+// orphan them.
+const assignOwnerlessTasks = async (db: Database): Promise<void> => {
+  const { count } = (await db.get<{ count: number }>('SELECT COUNT(*) AS count FROM tasks WHERE userId IS NULL'))!;
+  if (!count) {
+    return;
+  }
+
+  const { legacyTaskOwnerEmail: email, legacyTaskOwnerPassword: password } = config;
+  if (!email) {
+    throw new Error(
+      `${count} existing task(s) have no owner; set LEGACY_TASK_OWNER_EMAIL to the account ` +
+      'they should belong to and run the migrations again'
+    );
+  }
+
+  let owner = await db.get<{ id: string }>('SELECT id FROM users WHERE email = ?', email);
+  if (!owner) {
+    if (!password || password.length < 8) {
+      throw new Error(
+        `No user has the email ${email}; set LEGACY_TASK_OWNER_PASSWORD (at least 8 characters) ` +
+        'to create the account'
+      );
+    }
+    const now = new Date().toISOString();
+    owner = { id: uuidv4() };
+    await db.run(
+      'INSERT INTO users (id, email, name, passwordHash, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)',
+      owner.id,
+      email,
+      email.split('@')[0],
+      await bcrypt.hash(password, 10),
+      now,
+      now
+    );
+  }
+
+  await db.run('UPDATE tasks SET userId = ? WHERE userId IS NULL', owner.id);
+  console.log(`Assigned ${count} existing task(s) to ${email}`);
+};
+
+const migration: Migration = {
+  version: 2,
+  name: 'create_users',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        passwordHash TEXT NOT NULL,
+        createdAt DATETIME NOT NULL,
+        updatedAt DATETIME NOT NULL
+      );
+    `);
+
+    // Databases created before migrations existed may already have the owner column
+    const taskColumns = await db.all<{ name: string }[]>('PRAGMA table_info(tasks)');
+    if (!taskColumns.some(column => column.name === 'userId')) {
+      await db.exec('ALTER TABLE tasks ADD COLUMN userId TEXT');
+    }
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_tasks_userId ON tasks (userId)');
+    await assignOwnerlessTasks(db);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP INDEX IF EXISTS idx_tasks_userId;
+      ALTER TABLE tasks DROP COLUMN userId;
+      DROP TABLE IF EXISTS users;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 3,
+  name: 'create_api_keys',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        keyHash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        createdAt DATETIME NOT NULL,
+        lastUsedAt DATETIME,
+        revokedAt DATETIME
+      );
+      CREATE INDEX IF NOT EXISTS idx_api_keys_userId ON api_keys (userId);
+    `);
+  },
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS api_keys');
+  },
+};
+
+export default migration;
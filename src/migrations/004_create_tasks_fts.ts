@@ -0,0 +1,47 @@
+import { Migration } from '../models/migration';
+
+// Full-text index over task titles and descriptions. The task id is stored unindexed
+// (rather than relying on the implicit rowid, which VACUUM may renumber) and triggers
+// keep the index in sync with every write to the tasks table.
+const migration: Migration = {
+  version: 4,
+  name: 'create_tasks_fts',
+  up: async (db) => {
+    await db.exec(`
+      CREATE VIRTUAL TABLE tasks_fts USING fts5(
+        id UNINDEXED,
+        title,
+        description,
+        prefix = '2 3'
+      );
+
+      INSERT INTO tasks_fts (id, title, description)
+        SELECT id, title, COALESCE(description, '') FROM tasks;
+
+      CREATE TRIGGER tasks_fts_after_insert AFTER INSERT ON tasks BEGIN
+        INSERT INTO tasks_fts (id, title, description)
+          VALUES (new.id, new.title, COALESCE(new.description, ''));
+      END;
+
+      CREATE TRIGGER tasks_fts_after_update AFTER UPDATE OF title, description ON tasks BEGIN
+        UPDATE tasks_fts
+          SET title = new.title, description = COALESCE(new.description, '')
+          WHERE id = old.id;
+      END;
+
+      CREATE TRIGGER tasks_fts_after_delete AFTER DELETE ON tasks BEGIN
+        DELETE FROM tasks_fts WHERE id = old.id;
+      END;
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TRIGGER IF EXISTS tasks_fts_after_insert;
+      DROP TRIGGER IF EXISTS tasks_fts_after_update;
+      DROP TRIGGER IF EXISTS tasks_fts_after_delete;
+      DROP TABLE IF EXISTS tasks_fts;
+    `);
+  },
+};
+
+export default migration;
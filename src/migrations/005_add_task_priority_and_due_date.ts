@@ -0,0 +1,22 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 5,
+  name: 'add_task_priority_and_due_date',
+  up: async (db) => {
+    await db.exec(`
+      ALTER TABLE tasks ADD COLUMN priority TEXT NOT NULL DEFAULT 'MEDIUM';
+      ALTER TABLE tasks ADD COLUMN dueDate DATETIME;
+      CREATE INDEX idx_tasks_userId_dueDate ON tasks (userId, dueDate);
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP INDEX IF EXISTS idx_tasks_userId_dueDate;
+      ALTER TABLE tasks DROP COLUMN dueDate;
+      ALTER TABLE tasks DROP COLUMN priority;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 6,
+  name: 'create_tags',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE tags (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        name TEXT NOT NULL,
+        createdAt DATETIME NOT NULL,
+        updatedAt DATETIME NOT NULL
+      );
+      CREATE UNIQUE INDEX idx_tags_userId_name ON tags (userId, name);
+
+      CREATE TABLE task_tags (
+        taskId TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+        tagId TEXT NOT NULL REFERENCES tags (id) ON DELETE CASCADE,
+        PRIMARY KEY (taskId, tagId)
+      );
+      CREATE INDEX idx_task_tags_tagId ON task_tags (tagId);
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS task_tags;
+      DROP TABLE IF EXISTS tags;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 7,
+  name: 'add_task_parent',
+  up: async (db) => {
+    await db.exec(`
+      ALTER TABLE tasks ADD COLUMN parentId TEXT;
+      CREATE INDEX idx_tasks_parentId ON tasks (parentId);
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP INDEX IF EXISTS idx_tasks_parentId;
+      ALTER TABLE tasks DROP COLUMN parentId;
+    `);
+  },
+};
+
+export default migration;
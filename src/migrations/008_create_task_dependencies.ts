@@ -0,0 +1,24 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 8,
+  name: 'create_task_dependencies',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE task_dependencies (
+        taskId TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+        blockerId TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+        createdAt DATETIME NOT NULL,
+        PRIMARY KEY (taskId, blockerId)
+      );
+      CREATE INDEX idx_task_dependencies_blockerId ON task_dependencies (blockerId);
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS task_dependencies;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 9,
+  name: 'create_task_audit',
+  up: async (db) => {
+    // No foreign key on taskId: the history of a task outlives the task
+    await db.exec(`
+      CREATE TABLE task_audit (
+        id TEXT PRIMARY KEY,
+        taskId TEXT NOT NULL,
+        userId TEXT NOT NULL,
+        action TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        changes TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        createdAt DATETIME NOT NULL
+      );
+      CREATE UNIQUE INDEX idx_task_audit_taskId_revision ON task_audit (taskId, revision);
+      CREATE INDEX idx_task_audit_userId_createdAt ON task_audit (userId, createdAt);
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS task_audit;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 10,
+  name: 'add_task_deleted_at',
+  up: async (db) => {
+    await db.exec(`
+      ALTER TABLE tasks ADD COLUMN deletedAt DATETIME;
+      CREATE INDEX idx_tasks_userId_deletedAt ON tasks (userId, deletedAt);
+    `);
+  },
+  down: async (db) => {
+    // Trashed tasks would otherwise reappear as live tasks
+    await db.exec(`
+      DELETE FROM tasks WHERE deletedAt IS NOT NULL;
+      DROP INDEX IF EXISTS idx_tasks_userId_deletedAt;
+      ALTER TABLE tasks DROP COLUMN deletedAt;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 11,
+  name: 'add_task_version',
+  up: async (db) => {
+    await db.exec(`
+      ALTER TABLE tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      ALTER TABLE tasks DROP COLUMN version;
+    `);
+  },
+};
+
+export default migration;
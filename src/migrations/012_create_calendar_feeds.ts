@@ -0,0 +1,23 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 12,
+  name: 'create_calendar_feeds',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS calendar_feeds (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        tokenHash TEXT NOT NULL UNIQUE,
+        createdAt DATETIME NOT NULL,
+        lastUsedAt DATETIME
+      );
+    `);
+  },
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS calendar_feeds');
+  },
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 13,
+  name: 'create_webhooks',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        url TEXT NOT NULL,
+        events TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        active INTEGER NOT NULL DEFAULT 1,
+        createdAt DATETIME NOT NULL,
+        updatedAt DATETIME NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhooks_userId ON webhooks (userId);
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhookId TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+        eventId TEXT NOT NULL,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        nextAttemptAt DATETIME,
+        lastAttemptAt DATETIME,
+        responseStatus INTEGER,
+        error TEXT,
+        createdAt DATETIME NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhookId ON webhook_deliveries (webhookId, createdAt);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (status, nextAttemptAt);
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS webhook_deliveries;
+      DROP TABLE IF EXISTS webhooks;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 14,
+  name: 'add_task_recurrence',
+  up: async (db) => {
+    await db.exec(`
+      ALTER TABLE tasks ADD COLUMN recurrence TEXT;
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      ALTER TABLE tasks DROP COLUMN recurrence;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 15,
+  name: 'create_jobs',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        runAt DATETIME NOT NULL,
+        intervalSeconds INTEGER,
+        uniqueKey TEXT UNIQUE,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        maxAttempts INTEGER NOT NULL,
+        lastError TEXT,
+        lastRunAt DATETIME,
+        createdAt DATETIME NOT NULL,
+        updatedAt DATETIME NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs (status, runAt);
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS jobs;
+    `);
+  },
+};
+
+export default migration;
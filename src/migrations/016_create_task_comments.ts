@@ -0,0 +1,28 @@
+import { Migration } from '../models/migration';
+
+const migration: Migration = {
+  version: 16,
+  name: 'create_task_comments',
+  up: async (db) => {
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS task_comments (
+        id TEXT PRIMARY KEY,
+        taskId TEXT NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+        parentId TEXT REFERENCES task_comments (id) ON DELETE CASCADE,
+        authorId TEXT NOT NULL,
+        body TEXT NOT NULL,
+        createdAt DATETIME NOT NULL,
+        updatedAt DATETIME NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_task_comments_taskId ON task_comments (taskId, createdAt);
+      CREATE INDEX IF NOT EXISTS idx_task_comments_parentId ON task_comments (parentId, createdAt);
+    `);
+  },
+  down: async (db) => {
+    await db.exec(`
+      DROP TABLE IF EXISTS task_comments;
+    `);
+  },
+};
+
+export default migration;
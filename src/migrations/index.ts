@@ -0,0 +1,40 @@
+import { Migration } from '../models/migration';
+import createTasks from './001_create_tasks';
+import createUsers from './002_create_users';
+import createApiKeys from './003_create_api_keys';
+import createTasksFts from './004_create_tasks_fts';
+import addTaskPriorityAndDueDate from './005_add_task_priority_and_due_date';
+import createTags from './006_create_tags';
+import addTaskParent from './007_add_task_parent';
+import createTaskDependencies from './008_create_task_dependencies';
+import createTaskAudit from './009_create_task_audit';
+import addTaskDeletedAt from './010_add_task_deleted_at';
+import addTaskVersion from './011_add_task_version';
+import createCalendarFeeds from './012_create_calendar_feeds';
+import createWebhooks from './013_create_webhooks';
+import addTaskRecurrence from './014_add_task_recurrence';
+import createJobs from './015_create_jobs';
+import createTaskComments from './016_create_task_comments';
+
+// All known migrations, in the order they must be applied.
+// Add new migrations to the end of this list with the next version number.
+export const migrations: Migration[] = [
+  createTasks,
+  createUsers,
+  createApiKeys,
+  createTasksFts,
+  addTaskPriorityAndDueDate,
+  createTags,
+  addTaskParent,
+  createTaskDependencies,
+  createTaskAudit,
+  addTaskDeletedAt,
+  addTaskVersion,
+  createCalendarFeeds,
+  createWebhooks,
+  addTaskRecurrence,
+  createJobs,
+  createTaskComments,
+];
+
+export const LATEST_VERSION = migrations[migrations.length - 1].version;
@@ -0,0 +1,26 @@
+export enum ApiKeyScope {
+  TASKS_READ = "tasks:read",
+  TASKS_WRITE = "tasks:write",
+  TASKS_DELETE = "tasks:delete",
+  STATS_READ = "stats:read",
+}
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+// API key representation that is safe to return from the API
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+}
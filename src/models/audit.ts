@@ -0,0 +1,57 @@
+import { Task } from './task';
+
+export enum AuditAction {
+  CREATE = "create",
+  UPDATE = "update",
+  DELETE = "delete",
+  RESTORE = "restore",
+  PURGE = "purge",
+}
+
+// Task fields whose changes are recorded in the audit log
+export const AUDITED_FIELDS = ['title', 'description', 'status', 'priority', 'dueDate', 'tags', 'parentId', 'recurrence'] as const;
+export type AuditedField = typeof AUDITED_FIELDS[number];
+
+// The audited fields of a task as JSON values (due dates as ISO strings)
+export type TaskSnapshot = Omit<Pick<Task, AuditedField>, 'dueDate'> & { dueDate: string | null };
+
+export interface AuditChange {
+  field: AuditedField;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// One recorded change to a task. Revisions count up from 1 per task; snapshot is the
+// task as it was after the change (before it, for a deletion).
+export interface AuditEntry {
+  id: string;
+  taskId: string;
+  // The user who made the change
+  userId: string;
+  action: AuditAction;
+  revision: number;
+  changes: AuditChange[];
+  snapshot: TaskSnapshot;
+  createdAt: Date;
+}
+
+// Filters for the audit feed; from/to are inclusive
+export interface AuditQuery {
+  page?: number;
+  limit?: number;
+  action?: AuditAction[];
+  taskId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditLogResult {
+  entries: AuditEntry[];
+  total: number;
+  page?: number;
+  totalPages?: number;
+}
+
+export interface RevertTaskRequest {
+  revision: number;
+}
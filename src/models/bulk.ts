@@ -0,0 +1,50 @@
+import { ChildDeleteMode, CreateTaskRequest, TaskQuery, UpdateTaskRequest } from './task';
+
+// all-or-nothing rolls everything back when any operation fails; best-effort keeps the
+// operations that succeeded and reports the ones that did not
+export type BulkMode = 'all-or-nothing' | 'best-effort';
+
+export interface BulkCreateOperation {
+  op: 'create';
+  data: CreateTaskRequest;
+}
+
+// Updates either one task by id or every task matching a list filter
+export interface BulkUpdateOperation {
+  op: 'update';
+  id?: string;
+  filter?: TaskQuery;
+  data: UpdateTaskRequest;
+  // Apply only if the task is still at this version (like If-Match)
+  version?: number;
+  ignoreBlockers?: boolean;
+}
+
+export interface BulkDeleteOperation {
+  op: 'delete';
+  id: string;
+  children: ChildDeleteMode;
+  version?: number;
+}
+
+export type BulkOperation = BulkCreateOperation | BulkUpdateOperation | BulkDeleteOperation;
+
+export interface BulkRequest {
+  mode: BulkMode;
+  // Validated one by one against bulkOperationSchema
+  operations: unknown[];
+}
+
+// Outcome of one operation. status is the HTTP status the operation would have had on
+// its own endpoint; the remaining fields mirror that endpoint's response body.
+export interface BulkOperationResult {
+  index: number;
+  op: string;
+  success: boolean;
+  status: number;
+  message: string;
+  data?: unknown;
+  errors?: { field: string; message: string }[];
+  allowedStatuses?: string[];
+  blockers?: { id: string; title: string; status: string }[];
+}
@@ -0,0 +1,21 @@
+import { TaskQuery } from './task';
+
+// Secret URL from which calendar apps can subscribe to a user's tasks. Each user has at
+// most one; only the hash of its token is stored.
+export interface CalendarFeed {
+  id: string;
+  userId: string;
+  prefix: string;
+  tokenHash: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+// Calendar feed representation that is safe to return from the API
+export type PublicCalendarFeed = Omit<CalendarFeed, 'tokenHash'>;
+
+// Query of a calendar: the task list filters, plus whether tasks with a due date also
+// appear as events
+export interface CalendarQuery extends TaskQuery {
+  events: boolean;
+}
@@ -0,0 +1,37 @@
+// A comment on a task. Comments form one-level threads: a top-level comment may have
+// replies, and replies cannot be replied to.
+export interface Comment {
+  id: string;
+  taskId: string;
+  // The top-level comment this one replies to, or null for a top-level comment
+  parentId: string | null;
+  // The user who wrote the comment
+  authorId: string;
+  body: string;
+  // Number of replies to a top-level comment; always 0 for a reply
+  replyCount: number;
+  createdAt: Date;
+  // Later than createdAt once the comment has been edited
+  updatedAt: Date;
+}
+
+export interface CreateCommentRequest {
+  body: string;
+  parentId?: string | null;
+}
+
+export interface UpdateCommentRequest {
+  body: string;
+}
+
+export interface CommentQuery {
+  page?: number;
+  limit?: number;
+}
+
+export interface CommentListResult {
+  comments: Comment[];
+  total: number;
+  page?: number;
+  totalPages?: number;
+}
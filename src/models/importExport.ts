@@ -0,0 +1,30 @@
+import { BulkOperationResult } from './bulk';
+import { CreateTaskRequest, TaskQuery } from './task';
+
+// File formats tasks can be exported to and imported from
+export type TaskFileFormat = 'csv' | 'json' | 'ndjson';
+
+// Query of an export: the task list filters plus the format to write
+export interface ExportQuery extends TaskQuery {
+  format: TaskFileFormat;
+}
+
+export interface ImportQuery {
+  // Validate and apply every row, then roll everything back
+  dryRun: boolean;
+  // Update the task named by a row's id if it exists, else create it under that id
+  upsert: boolean;
+}
+
+// One task of an import file, after validation
+export interface ImportTaskRequest extends CreateTaskRequest {
+  id?: string;
+}
+
+// Outcome of one row of an import. row is the 1-based position of the task in the file
+// (a CSV header is not counted); the other fields mirror BulkOperationResult.
+export interface ImportRowResult extends Omit<BulkOperationResult, 'index' | 'op' | 'data'> {
+  row: number;
+  action?: 'create' | 'update';
+  id?: string;
+}
@@ -0,0 +1,68 @@
+import { Task } from './task';
+
+// Kinds of background job
+export enum JobType {
+  // Recurring: queue a reminder for every task coming due
+  DUE_DATE_REMINDERS = "due-date-reminders",
+  // Recurring: raise the priority of tasks left IN_PROGRESS for too long
+  ESCALATE_STALE_TASKS = "escalate-stale-tasks",
+  // One-off: tell a user about one of their tasks through the notification sink
+  SEND_NOTIFICATION = "send-notification",
+}
+
+// scheduled jobs wait for runAt and running ones are being worked on. paused jobs are
+// skipped until resumed. completed and failed jobs are done, failed ones having run out of
+// attempts; recurring jobs never complete.
+export type JobStatus = 'scheduled' | 'running' | 'paused' | 'completed' | 'failed';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  // Input of the job, stored as JSON
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  // When the job runs next (for a finished job, when it was last due)
+  runAt: Date;
+  // Seconds between the runs of a recurring job; null for a one-off job
+  intervalSeconds: number | null;
+  // A job with a unique key is queued at most once, e.g. the reminder of one due date
+  uniqueKey: string | null;
+  // Failed attempts since the job last succeeded
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  lastRunAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobQuery {
+  page?: number;
+  limit?: number;
+  status?: JobStatus;
+  type?: JobType;
+}
+
+export type NotificationKind = 'reminder' | 'escalation';
+
+// Payload of a send-notification job. A reminder is for one due date and is dropped if
+// the task has moved to another one in the meantime.
+export interface NotificationJobPayload {
+  kind: NotificationKind;
+  userId: string;
+  taskId: string;
+  dueDate?: string;
+}
+
+// A message for a user about one of their tasks
+export interface Notification {
+  kind: NotificationKind;
+  user: { id: string; email: string; name: string };
+  task: Task;
+  subject: string;
+  text: string;
+}
+
+// Where notifications go: the server log, an HTTP endpoint, or a local SMTP stand-in that
+// writes each message to a file instead of sending it
+export type NotificationSinkType = 'log' | 'webhook' | 'smtp';
@@ -0,0 +1,22 @@
+import { Database } from 'sqlite';
+
+// A single schema change. Versions must be unique and increase with every new migration.
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => Promise<void>;
+  down: (db: Database) => Promise<void>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+}
@@ -0,0 +1,26 @@
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+// A BYDAY entry: a weekday (0 = Sunday) with, in a monthly rule, an optional ordinal
+// such as 1 for the first or -1 for the last of that weekday in the month
+export interface RecurrenceWeekday {
+  weekday: number;
+  ordinal?: number;
+}
+
+// The supported subset of an iCalendar (RFC 5545) RRULE. A recurring task stores its
+// rule as text; the task's due date is the start of the series, and COUNT includes the
+// task itself.
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  // Days of the month, negative ones counting back from the last day
+  byMonthDay?: number[];
+  count?: number;
+  // Inclusive end of the series
+  until?: Date;
+}
+
+export interface OccurrenceQuery {
+  limit: number;
+}
@@ -0,0 +1,20 @@
+export interface Tag {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A tag together with the number of tasks it is attached to
+export interface TagWithUsage extends Tag {
+  usageCount: number;
+}
+
+export interface CreateTagRequest {
+  name: string;
+}
+
+export interface RenameTagRequest {
+  name: string;
+}
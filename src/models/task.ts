@@ -1,26 +1,196 @@
+// Built-in statuses. The workflow configuration may add custom ones, so a task's
+// status is typed as a plain string.
 export enum TaskStatus {
   PENDING = "PENDING",
   COMPLETED = "COMPLETED",
   IN_PROGRESS = "IN_PROGRESS",
 }
 
+export enum TaskPriority {
+  LOW = "LOW",
+  MEDIUM = "MEDIUM",
+  HIGH = "HIGH",
+  URGENT = "URGENT",
+}
+
+// Relative urgency of each priority, used when ordering by priority
+export const TASK_PRIORITY_RANK: Record<TaskPriority, number> = {
+  [TaskPriority.LOW]: 0,
+  [TaskPriority.MEDIUM]: 1,
+  [TaskPriority.HIGH]: 2,
+  [TaskPriority.URGENT]: 3,
+};
+
 export interface Task {
   id: string;
   title: string;
   description: string;
-  status: TaskStatus;
+  status: string;
+  priority: TaskPriority;
+  dueDate: Date | null;
+  // Names of the tags attached to the task, alphabetically
+  tags: string[];
+  // The task this one is a subtask of, or null for a top-level task
+  parentId: string | null;
+  // RRULE of a recurring task, e.g. FREQ=WEEKLY;BYDAY=MO. The due date is the start of
+  // the series; completing the task creates the next occurrence, which takes over the rule.
+  recurrence: string | null;
+  // Comments on the task, replies included; maintained by the repository, not writable
+  commentCount: number;
+  userId: string;
+  // Incremented on every change; exposed as the task's ETag
+  version: number;
   createdAt: Date;
   updatedAt: Date;
+  // When the task was moved to the trash; null for a live task
+  deletedAt: Date | null;
 }
 
 export interface CreateTaskRequest {
   title: string;
   description: string;
-  status?: TaskStatus;
+  status?: string;
+  priority?: TaskPriority;
+  dueDate?: Date | null;
+  tags?: string[];
+  parentId?: string | null;
+  recurrence?: string | null;
+}
+
+// Incremental tag edits; tags on an update replaces the whole set instead
+export interface TaskTagChanges {
+  addTags?: string[];
+  removeTags?: string[];
 }
 
-export interface UpdateTaskRequest {
+export interface UpdateTaskRequest extends TaskTagChanges {
   title?: string;
   description?: string;
-  status?: TaskStatus;
+  status?: string;
+  priority?: TaskPriority;
+  dueDate?: Date | null;
+  tags?: string[];
+  parentId?: string | null;
+  recurrence?: string | null;
+}
+
+// Every writable field of a task, as PUT requires them. Completing a recurring task by PUT
+// with its recurrence continues the series; with a null recurrence the series ends.
+export interface ReplaceTaskRequest {
+  title: string;
+  description: string;
+  status: string;
+  priority: TaskPriority;
+  dueDate: Date | null;
+  tags: string[];
+  parentId: string | null;
+  recurrence: string | null;
+}
+
+export interface AddBlockerRequest {
+  blockerId: string;
+}
+
+// Changes a repository applies to a stored task
+export type TaskUpdate = Partial<Task> & TaskTagChanges;
+
+export type TagMatch = 'any' | 'all';
+
+// What deleting a task does to its subtasks: refuse while it has any, trash the whole
+// subtree, or move the children up to the deleted task's parent
+export type ChildDeleteMode = 'reject' | 'cascade' | 'reparent';
+
+// Completion of a task's descendants (not counting the task itself)
+export interface TaskProgress {
+  total: number;
+  completed: number;
+  // Whole-number percentage of completed descendants; null without descendants
+  percent: number | null;
+}
+
+// A task with its progress rollup and nested subtasks
+export interface TaskNode extends Task {
+  progress: TaskProgress;
+  children: TaskNode[];
+}
+
+export type TaskOrder = 'relevance' | 'date';
+
+// Fields the task list can be sorted by
+export const TASK_SORT_FIELDS = ['createdAt', 'updatedAt', 'title', 'status', 'priority', 'dueDate'] as const;
+export type TaskSortField = typeof TASK_SORT_FIELDS[number];
+
+export interface TaskSort {
+  field: TaskSortField;
+  direction: 'asc' | 'desc';
+}
+
+// Position of a task in the default createdAt DESC, id DESC ordering
+export interface TaskCursor {
+  createdAt: string;
+  id: string;
+}
+
+// Filters and pagination accepted when listing tasks.
+// status and priority match any of the given values; tags match all of the given tags
+// unless tagMatch is 'any'. parentId lists the direct subtasks of a task. ready keeps
+// tasks whose blockers are all COMPLETED (false: tasks with an incomplete blocker). created/updated ranges are inclusive;
+// dueBefore/dueAfter are exclusive and leave out tasks without a due date.
+// search is a full-text expression; orderBy defaults to relevance when searching.
+// sort takes precedence over orderBy; without either, tasks are newest first.
+// Pagination is either page-based (page + limit) or cursor-based (after/before + limit,
+// always ordered by creation date); the two modes are mutually exclusive.
+export interface TaskQuery {
+  page?: number;
+  limit?: number;
+  status?: string[];
+  priority?: TaskPriority[];
+  tags?: string[];
+  tagMatch?: TagMatch;
+  parentId?: string;
+  ready?: boolean;
+  dueBefore?: Date;
+  dueAfter?: Date;
+  search?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  sort?: TaskSort[];
+  orderBy?: TaskOrder;
+  after?: TaskCursor;
+  before?: TaskCursor;
+}
+
+// Search hit markup for a task: HTML-escaped text with matched terms wrapped in <mark> tags
+export interface TaskHighlights {
+  title: string;
+  description: string;
+}
+
+// A task as returned by a listing; search results also carry highlights and a relevance score
+export interface TaskListItem extends Task {
+  highlights?: TaskHighlights;
+  score?: number;
+}
+
+// Query of the task event stream: the task list filters and the event to resume after
+export interface TaskEventQuery extends TaskQuery {
+  lastEventId?: string;
+}
+
+export interface TrashQuery {
+  page?: number;
+  limit?: number;
+}
+
+export interface TaskListResult {
+  tasks: TaskListItem[];
+  total: number;
+  page?: number;
+  totalPages?: number;
+  // Cursor mode only: opaque cursors for the adjacent pages, null at either end. Pages of
+  // page mode in newest-first order carry a nextCursor too, to go on in cursor mode.
+  nextCursor?: string | null;
+  prevCursor?: string | null;
 }
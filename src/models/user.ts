@@ -0,0 +1,34 @@
+import { ApiKeyScope } from './apiKey';
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// User representation that is safe to return from the API
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  name: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+// Identity attached to authenticated requests by the auth middleware.
+// scopes and apiKeyId are only set when the caller authenticated with an API key;
+// bearer-token callers have unrestricted access to their own resources.
+export interface AuthUser {
+  id: string;
+  email: string;
+  scopes?: ApiKeyScope[];
+  apiKeyId?: string;
+}
@@ -0,0 +1,77 @@
+import { Task } from './task';
+
+// Task changes a webhook can subscribe to
+export enum WebhookEvent {
+  TASK_CREATED = "task.created",
+  TASK_UPDATED = "task.updated",
+  // Sent along with task.updated when a task's status becomes COMPLETED
+  TASK_COMPLETED = "task.completed",
+  TASK_DELETED = "task.deleted",
+  // Sent for a task taken out of the trash and for each subtask restored with it
+  TASK_RESTORED = "task.restored",
+}
+
+// Event type of the test delivery sent by the ping endpoint
+export const PING_EVENT = 'ping';
+
+export interface Webhook {
+  id: string;
+  userId: string;
+  url: string;
+  events: WebhookEvent[];
+  // Key of the HMAC signature on every delivery
+  secret: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Webhook representation that is safe to return from the API
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: WebhookEvent[];
+  // Generated when not given
+  secret?: string;
+  active?: boolean;
+}
+
+export type UpdateWebhookRequest = Partial<CreateWebhookRequest>;
+
+// pending deliveries are waiting for their first attempt or a retry; failed ones ran out
+// of attempts
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One event queued for one webhook, with the outcome of its latest attempt
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  // Shared by every delivery of the same event, redeliveries included
+  eventId: string;
+  event: string;
+  // The JSON body sent to the webhook
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: Date;
+}
+
+// A task change made by a request, published to webhooks and event streams once the
+// change is saved
+export interface TaskEvent {
+  type: WebhookEvent;
+  task: Task;
+  // The task before an update
+  previous?: Task;
+}
+
+export interface WebhookDeliveryQuery {
+  page?: number;
+  limit?: number;
+  status?: WebhookDeliveryStatus;
+}
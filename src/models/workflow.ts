@@ -0,0 +1,21 @@
+// Contents of a workflow file (JSON). Every field is optional and falls back to the
+// built-in workflow.
+export interface WorkflowConfig {
+  // Custom statuses in addition to the built-in PENDING, IN_PROGRESS and COMPLETED
+  statuses?: string[];
+  // Statuses a task may be created with
+  initialStatuses?: string[];
+  // Status of a task created without one; must be an initial status
+  defaultStatus?: string;
+  // Allowed moves: status -> statuses it may change to. Replaces the built-in
+  // transitions as a whole; statuses without an entry are final.
+  transitions?: Record<string, string[]>;
+}
+
+// The resolved workflow the API enforces
+export interface Workflow {
+  statuses: string[];
+  initialStatuses: string[];
+  defaultStatus: string;
+  transitions: Record<string, string[]>;
+}
@@ -0,0 +1,247 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Task, TaskPriority, TaskStatus } from '../../models/task';
+import { AuditAction } from '../../models/audit';
+import { ConflictError, PreconditionFailedError, ValidationError } from '../../utils/errors';
+import { decodeCursor } from '../../utils/cursor';
+import { getDatabase, initializeDatabase } from '../../utils/database';
+import { closeTestDatabase, TASK_STORES } from '../../__tests__/helpers';
+import { createTaskRepository, TaskRepository } from '..';
+
+const OWNER = 'owner';
+const STRANGER = 'stranger';
+
+// A task as addTask takes it; each one a millisecond newer than the last so orderings
+// by creation time are predictable
+let clock = Date.parse('2026-01-01T00:00:00.000Z');
+const newTask = (overrides: Partial<Task> = {}): Task => {
+  const now = new Date(clock++);
+  return {
+    id: uuidv4(),
+    title: 'Task',
+    description: '',
+    status: TaskStatus.PENDING,
+    priority: TaskPriority.MEDIUM,
+    dueDate: null,
+    tags: [],
+    parentId: null,
+    recurrence: null,
+    commentCount: 0,
+    userId: OWNER,
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+    ...overrides
+  };
+};
+
+// The same behaviour is expected of every implementation of the interface
+describe.each(TASK_STORES)('%s task repository', store => {
+  let repository: TaskRepository;
+
+  beforeEach(async () => {
+    await initializeDatabase();
+    repository = createTaskRepository(store, getDatabase());
+  });
+
+  afterEach(closeTestDatabase);
+
+  describe('tasks', () => {
+    it('stores a task and finds it only for its owner', async () => {
+      const task = await repository.addTask(newTask({ title: 'Write tests', tags: ['b', 'a'] }));
+
+      expect(task).toMatchObject({ title: 'Write tests', tags: ['a', 'b'], version: 1 });
+      expect(await repository.getTaskById(task.id, OWNER)).toEqual(task);
+      expect(await repository.getTaskById(task.id, STRANGER)).toBeUndefined();
+    });
+
+    it('refuses a duplicate id, even for another user', async () => {
+      const task = await repository.addTask(newTask());
+      await expect(repository.addTask(newTask({ id: task.id, userId: STRANGER }))).rejects.toThrow(ConflictError);
+    });
+
+    it('bumps the version on update and enforces the expected version', async () => {
+      const task = await repository.addTask(newTask());
+
+      const updated = await repository.updateTask(task.id, OWNER, { title: 'Renamed' }, 1);
+      expect(updated).toMatchObject({ title: 'Renamed', version: 2 });
+      await expect(repository.updateTask(task.id, OWNER, { title: 'Stale' }, 1)).rejects.toThrow(PreconditionFailedError);
+      expect(await repository.updateTask(task.id, STRANGER, { title: 'Not yours' })).toBeUndefined();
+    });
+
+    it('edits tags incrementally', async () => {
+      const task = await repository.addTask(newTask({ tags: ['home', 'urgent'] }));
+
+      const updated = await repository.updateTask(task.id, OWNER, { addTags: ['errand'], removeTags: ['urgent'] });
+      expect(updated!.tags).toEqual(['errand', 'home']);
+      expect((await repository.getTags(OWNER)).map(({ name, usageCount }) => ({ name, usageCount })))
+        .toEqual(expect.arrayContaining([{ name: 'errand', usageCount: 1 }, { name: 'home', usageCount: 1 }]));
+    });
+
+    it('rolls back every change of a failed transaction', async () => {
+      const task = await repository.addTask(newTask({ title: 'Before' }));
+
+      await expect(repository.transaction(async () => {
+        await repository.updateTask(task.id, OWNER, { title: 'During' });
+        await repository.addTask(newTask({ title: 'Added' }));
+        throw new Error('abort');
+      })).rejects.toThrow('abort');
+
+      expect((await repository.getTaskById(task.id, OWNER))!.title).toBe('Before');
+      expect(await repository.getTaskCount(OWNER)).toBe(1);
+    });
+  });
+
+  describe('listing', () => {
+    it('filters by status, priority and tags', async () => {
+      await repository.addTask(newTask({ title: 'a', tags: ['x', 'y'] }));
+      await repository.addTask(newTask({ title: 'b', tags: ['x'], status: TaskStatus.COMPLETED }));
+      await repository.addTask(newTask({ title: 'c', priority: TaskPriority.HIGH }));
+      await repository.addTask(newTask({ title: 'd', userId: STRANGER, tags: ['x'] }));
+
+      const titles = async (query: object) =>
+        (await repository.getAllTasks(OWNER, query)).tasks.map(task => task.title).sort();
+
+      expect(await titles({ tags: ['x'] })).toEqual(['a', 'b']);
+      expect(await titles({ tags: ['x', 'y'] })).toEqual(['a']);
+      expect(await titles({ tags: ['y', 'z'], tagMatch: 'any' })).toEqual(['a']);
+      expect(await titles({ status: [TaskStatus.COMPLETED] })).toEqual(['b']);
+      expect(await titles({ priority: [TaskPriority.HIGH] })).toEqual(['c']);
+    });
+
+    it('pages through tasks with cursors, newest first', async () => {
+      for (const title of ['1', '2', '3', '4', '5']) {
+        await repository.addTask(newTask({ title }));
+      }
+
+      // A cursor past every task starts at the newest one
+      const first = await repository.getAllTasks(OWNER, { limit: 2, after: { createdAt: '9999-12-31T00:00:00.000Z', id: '' } });
+      expect(first.tasks.map(task => task.title)).toEqual(['5', '4']);
+
+      const second = await repository.getAllTasks(OWNER, { limit: 2, after: decodeCursor(first.nextCursor!) });
+      expect(second.tasks.map(task => task.title)).toEqual(['3', '2']);
+
+      const back = await repository.getAllTasks(OWNER, { limit: 2, before: decodeCursor(second.prevCursor!) });
+      expect(back.tasks.map(task => task.title)).toEqual(['5', '4']);
+    });
+
+    it('ranks search hits and highlights them as escaped HTML', async () => {
+      await repository.addTask(newTask({ title: '<b>groceries</b> & more', description: 'buy groceries' }));
+      await repository.addTask(newTask({ title: 'Unrelated', description: 'groceries mentioned once' }));
+      await repository.addTask(newTask({ title: 'Nothing here' }));
+
+      const { tasks } = await repository.getAllTasks(OWNER, { search: 'groceries', orderBy: 'relevance' });
+
+      expect(tasks.map(task => task.title)).toEqual(['<b>groceries</b> & more', 'Unrelated']);
+      expect(tasks[0].highlights!.title).toBe('&lt;b&gt;<mark>groceries</mark>&lt;/b&gt; &amp; more');
+      expect(tasks[0].score).toBeGreaterThan(tasks[1].score!);
+    });
+
+    it('lists overdue tasks that are not completed', async () => {
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      await repository.addTask(newTask({ title: 'late', dueDate: yesterday }));
+      await repository.addTask(newTask({ title: 'done', dueDate: yesterday, status: TaskStatus.COMPLETED }));
+      await repository.addTask(newTask({ title: 'later', dueDate: new Date(Date.now() + 60 * 60 * 1000) }));
+
+      expect((await repository.getOverdueTasks(OWNER, new Date())).map(task => task.title)).toEqual(['late']);
+    });
+  });
+
+  describe('hierarchy and dependencies', () => {
+    it('rejects a parent that would create a cycle', async () => {
+      const parent = await repository.addTask(newTask());
+      const child = await repository.addTask(newTask({ parentId: parent.id }));
+
+      await expect(repository.updateTask(parent.id, OWNER, { parentId: child.id })).rejects.toThrow(ValidationError);
+      expect((await repository.getSubtree(parent.id, OWNER)).map(task => task.id)).toEqual([parent.id, child.id]);
+    });
+
+    it('rejects a dependency cycle', async () => {
+      const first = await repository.addTask(newTask());
+      const second = await repository.addTask(newTask());
+
+      expect(await repository.addBlocker(second.id, first.id, OWNER)).toBe(true);
+      await expect(repository.addBlocker(first.id, second.id, OWNER)).rejects.toThrow(ValidationError);
+      expect((await repository.getBlockers(second.id, OWNER))!.map(task => task.id)).toEqual([first.id]);
+      expect((await repository.getDependents(first.id, OWNER))!.map(task => task.id)).toEqual([second.id]);
+    });
+  });
+
+  describe('trash', () => {
+    it('refuses to trash a task with subtasks unless told what to do with them', async () => {
+      const parent = await repository.addTask(newTask());
+      await repository.addTask(newTask({ parentId: parent.id }));
+
+      await expect(repository.deleteTask(parent.id, OWNER, 'reject')).rejects.toThrow(ConflictError);
+    });
+
+    it('restores a task with the subtasks trashed along with it', async () => {
+      const parent = await repository.addTask(newTask({ title: 'parent' }));
+      const child = await repository.addTask(newTask({ title: 'child', parentId: parent.id }));
+
+      expect(await repository.deleteTask(parent.id, OWNER, 'cascade')).toBe(true);
+      expect(await repository.getTaskById(child.id, OWNER)).toBeUndefined();
+      expect((await repository.getTrash(OWNER)).total).toBe(2);
+
+      const restored = await repository.restoreTask(parent.id, OWNER);
+      expect(restored).toMatchObject({ id: parent.id, deletedAt: null, version: parent.version + 2 });
+      expect(await repository.getTaskById(child.id, OWNER)).toMatchObject({ parentId: parent.id, deletedAt: null });
+      expect(await repository.restoreTask(parent.id, OWNER)).toBeUndefined();
+    });
+
+    it('restores a subtask whose parent is gone as a top-level task', async () => {
+      const parent = await repository.addTask(newTask());
+      const child = await repository.addTask(newTask({ parentId: parent.id }));
+
+      await repository.deleteTask(child.id, OWNER);
+      await repository.deleteTask(parent.id, OWNER);
+
+      expect(await repository.restoreTask(child.id, OWNER)).toMatchObject({ parentId: null });
+    });
+
+    it('purges trashed tasks for good', async () => {
+      const task = await repository.addTask(newTask());
+      await repository.deleteTask(task.id, OWNER);
+
+      expect(await repository.purgeTask(task.id, OWNER)).toBe(true);
+      expect((await repository.getTrash(OWNER)).total).toBe(0);
+      expect(await repository.restoreTask(task.id, OWNER)).toBeUndefined();
+    });
+  });
+
+  describe('audit log', () => {
+    it('records every change with its revision', async () => {
+      const task = await repository.addTask(newTask({ title: 'v1' }));
+      await repository.updateTask(task.id, OWNER, { title: 'v2' });
+      await repository.deleteTask(task.id, OWNER);
+      await repository.restoreTask(task.id, OWNER);
+
+      const history = await repository.getTaskHistory(task.id, OWNER);
+      expect(history.map(entry => [entry.revision, entry.action])).toEqual([
+        [1, AuditAction.CREATE],
+        [2, AuditAction.UPDATE],
+        [3, AuditAction.DELETE],
+        [4, AuditAction.RESTORE]
+      ]);
+      expect((await repository.getTaskRevision(task.id, OWNER, 1))!.snapshot.title).toBe('v1');
+      expect(await repository.getTaskHistory(task.id, STRANGER)).toEqual([]);
+    });
+  });
+
+  describe('comments', () => {
+    it('threads replies and counts them on the task', async () => {
+      const task = await repository.addTask(newTask());
+
+      const comment = await repository.addComment(task.id, OWNER, { body: 'First' });
+      await repository.addComment(task.id, OWNER, { body: 'Reply', parentId: comment!.id });
+
+      expect((await repository.getComments(task.id, OWNER))!.comments.map(c => c.body)).toEqual(['First']);
+      expect((await repository.getCommentReplies(comment!.id, task.id, OWNER))!.comments.map(c => c.body)).toEqual(['Reply']);
+      expect((await repository.getTaskById(task.id, OWNER))!.commentCount).toBe(2);
+      expect(await repository.addComment(task.id, STRANGER, { body: 'Intruder' })).toBeUndefined();
+
+      expect(await repository.deleteComment(comment!.id, task.id, OWNER)).toBe(true);
+      expect((await repository.getTaskById(task.id, OWNER))!.commentCount).toBe(0);
+    });
+  });
+});
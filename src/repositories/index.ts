@@ -0,0 +1,19 @@
+import { Database } from 'sqlite';
+import { TaskStore } from '../config';
+import { TaskRepository } from './taskRepository';
+import { createSqliteTaskRepository } from './sqliteTaskRepository';
+import { createMemoryTaskRepository } from './memoryTaskRepository';
+
+export { TaskRepository } from './taskRepository';
+export { createSqliteTaskRepository } from './sqliteTaskRepository';
+export { createMemoryTaskRepository } from './memoryTaskRepository';
+
+// Build the task repository for the configured store
+export const createTaskRepository = (store: TaskStore, db: Database): TaskRepository => {
+  switch (store) {
+    case 'memory':
+      return createMemoryTaskRepository();
+    case 'sqlite':
+      return createSqliteTaskRepository(db);
+  }
+};
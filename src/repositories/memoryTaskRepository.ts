@@ -0,0 +1,918 @@
+import {
+  Task,
+  TaskStatus,
+  TASK_PRIORITY_RANK,
+  TaskQuery,
+  TaskSort,
+  TaskSortField,
+  TaskListItem,
+  TaskListResult,
+  TaskUpdate,
+  TrashQuery,
+  ChildDeleteMode
+} from '../models/task';
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { Tag, TagWithUsage } from '../models/tag';
+import { Comment, CommentQuery, CommentListResult, CreateCommentRequest } from '../models/comment';
+import { ConflictError, ValidationError, PreconditionFailedError } from '../utils/errors';
+import { createAuditEntry } from '../utils/audit';
+import { AuditAction, AuditEntry, AuditQuery, AuditLogResult } from '../models/audit';
+import { parseSearchQuery, matchSearchQuery } from '../utils/textSearch';
+import { isCursorMode, getCursors, DEFAULT_CURSOR_LIMIT } from '../utils/cursor';
+import { TaskRepository } from './taskRepository';
+
+// Copy a task so callers can never mutate the stored instance
+const cloneTask = (task: Task): Task => ({
+  ...task,
+  dueDate: task.dueDate ? new Date(task.dueDate) : null,
+  createdAt: new Date(task.createdAt),
+  updatedAt: new Date(task.updatedAt),
+  deletedAt: task.deletedAt ? new Date(task.deletedAt) : null
+});
+
+// Replace the contents of a map in place
+const restoreMap = <K, V>(target: Map<K, V>, source: Map<K, V>): void => {
+  target.clear();
+  source.forEach((value, key) => target.set(key, value));
+};
+
+// Copy a map of sets deeply enough that later edits to either copy stay separate
+const copySets = <K, V>(source: Map<K, Set<V>>): Map<K, Set<V>> =>
+  new Map([...source].map(([key, values]) => [key, new Set(values)]));
+
+// Comments are stored without their reply counts, which are worked out on reads
+type StoredComment = Omit<Comment, 'replyCount'>;
+
+const cloneAuditEntry = (entry: AuditEntry): AuditEntry => JSON.parse(JSON.stringify(entry), (key, value) =>
+  key === 'createdAt' ? new Date(value) : value
+);
+
+// Compare positions in the createdAt DESC, id DESC ordering (negative sorts a first)
+const compareNewestFirst = (
+  a: { createdAt: Date | string; id: string },
+  b: { createdAt: Date | string; id: string }
+): number => {
+  const byDate = new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  return byDate || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+};
+
+// Comparable value of a sort field, matching the SQLite store: titles ignore case,
+// priorities sort by rank and missing due dates sort first
+const sortValue = (task: Task, field: TaskSortField): string | number => {
+  switch (field) {
+    case 'title':
+      return task.title.toLowerCase();
+    case 'priority':
+      return TASK_PRIORITY_RANK[task.priority];
+    case 'dueDate':
+      return task.dueDate ? task.dueDate.getTime() : -Infinity;
+    case 'createdAt':
+    case 'updatedAt':
+      return task[field].getTime();
+    default:
+      return task[field];
+  }
+};
+
+// Compare two tasks by a list of sort fields
+const compareBySort = (sort: TaskSort[], a: Task, b: Task): number => {
+  for (const { field, direction } of sort) {
+    const left = sortValue(a, field);
+    const right = sortValue(b, field);
+    const result = left < right ? -1 : left > right ? 1 : 0;
+    if (result !== 0) {
+      return direction === 'asc' ? result : -result;
+    }
+  }
+  return 0;
+};
+
+const STREAM_BATCH_SIZE = 500;
+
+// Task repository that keeps everything in process memory. Data is lost on restart,
+// which makes it suitable for tests and throwaway local runs.
+export const createMemoryTaskRepository = (): TaskRepository => {
+  const tasks = new Map<string, Task>();
+  const tags = new Map<string, Tag>();
+  // Tag ids attached to each task id; stored tasks keep an empty tags array
+  const taskTags = new Map<string, Set<string>>();
+  // Blocker ids of each task id, in the order they were added
+  const blockers = new Map<string, Set<string>>();
+  // Audit entries of all tasks, oldest first
+  const auditLog: AuditEntry[] = [];
+  // Comments by id, in the order they were added
+  const comments = new Map<string, StoredComment>();
+
+  const isLive = (task: Task): boolean => task.deletedAt === null;
+
+  // A live task of the user; trashed tasks are only reachable through findTrashed
+  const findOwned = (id: string, userId: string): Task | undefined => {
+    const task = tasks.get(id);
+    return task && task.userId === userId && isLive(task) ? task : undefined;
+  };
+
+  const findTrashed = (id: string, userId: string): Task | undefined => {
+    const task = tasks.get(id);
+    return task && task.userId === userId && !isLive(task) ? task : undefined;
+  };
+
+  const findTagByName = (userId: string, name: string): Tag | undefined =>
+    [...tags.values()].find(tag => tag.userId === userId && tag.name === name);
+
+  const tagNames = (taskId: string): string[] =>
+    [...(taskTags.get(taskId) ?? [])].map(tagId => tags.get(tagId)!.name).sort();
+
+  const commentCount = (taskId: string): number =>
+    [...comments.values()].filter(comment => comment.taskId === taskId).length;
+
+  // Clone a stored task and fill in its tag names and comment count
+  const toTask = (task: Task): Task => ({
+    ...cloneTask(task),
+    tags: tagNames(task.id),
+    commentCount: commentCount(task.id)
+  });
+
+  // Create any of the named tags the user does not have yet and return all their ids
+  const ensureTags = (userId: string, names: string[]): string[] =>
+    names.map(name => {
+      const existing = findTagByName(userId, name);
+      if (existing) {
+        return existing.id;
+      }
+      const now = new Date();
+      const tag: Tag = { id: uuidv4(), userId, name, createdAt: now, updatedAt: now };
+      tags.set(tag.id, tag);
+      return tag.id;
+    });
+
+  // Drop a task together with its tags, comments and dependencies in either direction
+  const removeTask = (id: string): void => {
+    taskTags.delete(id);
+    comments.forEach((comment, commentId) => {
+      if (comment.taskId === id) {
+        comments.delete(commentId);
+      }
+    });
+    blockers.delete(id);
+    blockers.forEach(blockerIds => blockerIds.delete(id));
+    tasks.delete(id);
+  };
+
+  // Append an audit entry for a change to a task as its next revision
+  const recordAudit = (action: AuditAction, before: Task | null, after: Task | null): void => {
+    const taskId = (after ?? before)!.id;
+    const revision = auditLog.filter(entry => entry.taskId === taskId).length + 1;
+    const entry = createAuditEntry(action, before, after, revision);
+    if (entry) {
+      auditLog.push(entry);
+    }
+  };
+
+  const isReady = (id: string): boolean =>
+    [...(blockers.get(id) ?? [])]
+      .map(blockerId => tasks.get(blockerId)!)
+      .every(blocker => !isLive(blocker) || blocker.status === TaskStatus.COMPLETED);
+
+  const getChildren = (id: string, includeTrashed = false): Task[] =>
+    [...tasks.values()].filter(task => task.parentId === id && (includeTrashed || isLive(task)));
+
+  // Ids of a task and its live descendants (or, with includeTrashed, all of its
+  // descendants), parents before their children
+  const getSubtreeIds = (id: string, includeTrashed = false): string[] => {
+    const ids = [id];
+    for (let i = 0; i < ids.length; i++) {
+      ids.push(...getChildren(ids[i], includeTrashed).map(child => child.id));
+    }
+    return ids;
+  };
+
+  // A parent must be another of the user's tasks and must not sit below the task itself
+  const assertValidParent = (id: string, userId: string, parentId: string): void => {
+    if (!findOwned(parentId, userId)) {
+      throw new ValidationError('parentId', 'Parent task not found');
+    }
+    if (getSubtreeIds(id).includes(parentId)) {
+      throw new ValidationError('parentId', 'A task cannot be moved under itself or one of its subtasks');
+    }
+  };
+
+  const getTaskById = async (id: string, userId: string): Promise<Task | undefined> => {
+    const task = findOwned(id, userId);
+    return task ? toTask(task) : undefined;
+  };
+
+  const getAllTasks = async (
+    userId: string,
+    query: TaskQuery = {}
+  ): Promise<TaskListResult> => {
+    const {
+      page,
+      limit,
+      status,
+      priority,
+      tags: tagFilter,
+      tagMatch,
+      parentId,
+      ready,
+      dueBefore,
+      dueAfter,
+      search,
+      createdFrom,
+      createdTo,
+      updatedFrom,
+      updatedTo,
+      sort,
+      orderBy,
+      after,
+      before
+    } = query;
+    const cursorMode = isCursorMode(query);
+    const searchQuery = search ? parseSearchQuery(search) : undefined;
+
+    const matching = [...tasks.values()]
+      .filter(task => task.userId === userId && isLive(task))
+      .filter(task => !status?.length || status.some(value => value.toUpperCase() === task.status))
+      .filter(task =>
+        (!createdFrom || task.createdAt >= createdFrom) &&
+        (!createdTo || task.createdAt <= createdTo) &&
+        (!updatedFrom || task.updatedAt >= updatedFrom) &&
+        (!updatedTo || task.updatedAt <= updatedTo)
+      )
+      .filter(task => !priority?.length || priority.includes(task.priority))
+      .filter(task => !parentId || task.parentId === parentId)
+      .filter(task => ready === undefined || isReady(task.id) === ready)
+      .filter(task => {
+        if (!tagFilter?.length) {
+          return true;
+        }
+        const names = tagNames(task.id);
+        return tagMatch === 'any'
+          ? tagFilter.some(name => names.includes(name))
+          : tagFilter.every(name => names.includes(name));
+      })
+      .filter(task =>
+        (!dueAfter || (task.dueDate !== null && task.dueDate > dueAfter)) &&
+        (!dueBefore || (task.dueDate !== null && task.dueDate < dueBefore))
+      )
+      .reduce<TaskListItem[]>((items, task) => {
+        if (!searchQuery) {
+          items.push(toTask(task));
+          return items;
+        }
+        const match = matchSearchQuery(searchQuery, task.title, task.description || '');
+        if (match) {
+          items.push({ ...toTask(task), ...match });
+        }
+        return items;
+      }, [])
+      // Explicit sort fields win; otherwise order by relevance when searching unless date
+      // order or cursor mode applies, else newest first
+      .sort((a, b) => {
+        if (sort?.length && !cursorMode) {
+          return compareBySort(sort, a, b) || compareNewestFirst(a, b);
+        }
+        return (searchQuery && orderBy !== 'date' && !cursorMode ? b.score! - a.score! : 0) ||
+          compareNewestFirst(a, b);
+      });
+
+    const total = matching.length;
+
+    if (cursorMode) {
+      const pageSize = limit ?? DEFAULT_CURSOR_LIMIT;
+      let pageTasks: TaskListItem[];
+      let hasMore: boolean;
+
+      if (before) {
+        const newer = matching.filter(task => compareNewestFirst(task, before) < 0);
+        pageTasks = newer.slice(-pageSize);
+        hasMore = newer.length > pageSize;
+      } else {
+        const older = after ? matching.filter(task => compareNewestFirst(task, after) > 0) : matching;
+        pageTasks = older.slice(0, pageSize);
+        hasMore = older.length > pageSize;
+      }
+
+      return {
+        tasks: pageTasks,
+        total,
+        ...getCursors(pageTasks, query, hasMore),
+      };
+    }
+
+    if (page && limit) {
+      const offset = (page - 1) * limit;
+      const pageTasks = matching.slice(offset, offset + limit);
+      const newestFirst = !sort?.length && (!searchQuery || orderBy === 'date');
+      return {
+        tasks: pageTasks,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        ...(newestFirst && { nextCursor: getCursors(pageTasks, {}, offset + limit < total).nextCursor }),
+      };
+    }
+
+    return { tasks: matching, total };
+  };
+
+  // Everything is in memory already, so batches are just slices of the filtered list
+  const streamTasks = async (
+    userId: string,
+    query: TaskQuery,
+    onBatch: (tasks: Task[]) => Promise<void>
+  ): Promise<number> => {
+    const { page, limit, sort, orderBy, after, before, ...filters } = query;
+    const { tasks: matching } = await getAllTasks(userId, { ...filters, orderBy: 'date' });
+    for (let start = 0; start < matching.length; start += STREAM_BATCH_SIZE) {
+      await onBatch(matching.slice(start, start + STREAM_BATCH_SIZE).map(({ score, highlights, ...task }) => task));
+    }
+    return matching.length;
+  };
+
+  const addTask = async (task: Task): Promise<Task> => {
+    if (tasks.has(task.id)) {
+      throw new ConflictError('A task with this ID already exists');
+    }
+    if (task.parentId) {
+      assertValidParent(task.id, task.userId, task.parentId);
+    }
+    tasks.set(task.id, { ...cloneTask(task), tags: [] });
+    taskTags.set(task.id, new Set(ensureTags(task.userId, task.tags)));
+    const createdTask = toTask(task);
+    recordAudit(AuditAction.CREATE, null, createdTask);
+    return createdTask;
+  };
+
+  const updateTask = async (
+    id: string,
+    userId: string,
+    updates: TaskUpdate,
+    expectedVersion?: number
+  ): Promise<Task | undefined> => {
+    const existingTask = findOwned(id, userId);
+    if (!existingTask) {
+      return undefined;
+    }
+    if (expectedVersion !== undefined && existingTask.version !== expectedVersion) {
+      throw new PreconditionFailedError(toTask(existingTask));
+    }
+    if (updates.parentId) {
+      assertValidParent(id, userId, updates.parentId);
+    }
+
+    const updatedTask: Task = { ...existingTask, version: existingTask.version + 1, updatedAt: new Date() };
+    if (updates.title !== undefined) {
+      updatedTask.title = updates.title;
+    }
+    if (updates.description !== undefined) {
+      updatedTask.description = updates.description;
+    }
+    if (updates.status !== undefined) {
+      updatedTask.status = updates.status;
+    }
+    if (updates.priority !== undefined) {
+      updatedTask.priority = updates.priority;
+    }
+    if (updates.dueDate !== undefined) {
+      updatedTask.dueDate = updates.dueDate;
+    }
+    if (updates.parentId !== undefined) {
+      updatedTask.parentId = updates.parentId;
+    }
+    if (updates.recurrence !== undefined) {
+      updatedTask.recurrence = updates.recurrence;
+    }
+
+    const tagIds = updates.tags !== undefined ? new Set<string>() : new Set(taskTags.get(id));
+    ensureTags(userId, [...(updates.tags ?? []), ...(updates.addTags ?? [])]).forEach(tagId => tagIds.add(tagId));
+    (updates.removeTags ?? []).forEach(name => {
+      const tag = findTagByName(userId, name);
+      if (tag) {
+        tagIds.delete(tag.id);
+      }
+    });
+
+    const previousTask = toTask(existingTask);
+    tasks.set(id, updatedTask);
+    taskTags.set(id, tagIds);
+    const savedTask = toTask(updatedTask);
+    recordAudit(AuditAction.UPDATE, previousTask, savedTask);
+    return savedTask;
+  };
+
+  const deleteTask = async (
+    id: string,
+    userId: string,
+    childMode: ChildDeleteMode = 'reject',
+    expectedVersion?: number
+  ): Promise<boolean> => {
+    const task = findOwned(id, userId);
+    if (!task) {
+      return false;
+    }
+
+    const children = getChildren(id);
+    if (children.length > 0 && childMode === 'reject') {
+      throw new ConflictError(`Task has ${children.length} subtask(s); delete them first or choose another children mode`);
+    }
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new PreconditionFailedError(toTask(task));
+    }
+
+    const now = new Date();
+    if (childMode === 'reparent') {
+      children.forEach(child => {
+        const before = toTask(child);
+        tasks.set(child.id, { ...child, parentId: task.parentId, version: child.version + 1, updatedAt: now });
+        recordAudit(AuditAction.UPDATE, before, toTask(tasks.get(child.id)!));
+      });
+    }
+
+    // A cascade trashes the whole subtree with the same timestamp so it can be restored together
+    const trashedIds = childMode === 'cascade' ? getSubtreeIds(id) : [id];
+    trashedIds.forEach(trashedId => {
+      const trashed = tasks.get(trashedId)!;
+      recordAudit(AuditAction.DELETE, toTask(trashed), null);
+      tasks.set(trashedId, { ...trashed, version: trashed.version + 1, deletedAt: now });
+    });
+    return true;
+  };
+
+  const getTrash = async (userId: string, query: TrashQuery = {}): Promise<TaskListResult> => {
+    const { page, limit } = query;
+    const matching = [...tasks.values()]
+      .filter(task => task.userId === userId && !isLive(task))
+      .sort((a, b) =>
+        b.deletedAt!.getTime() - a.deletedAt!.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+      )
+      .map(toTask);
+    const total = matching.length;
+
+    if (page && limit) {
+      const offset = (page - 1) * limit;
+      return {
+        tasks: matching.slice(offset, offset + limit),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    }
+
+    return { tasks: matching, total };
+  };
+
+  const restoreTask = async (id: string, userId: string): Promise<Task | undefined> => {
+    const task = findTrashed(id, userId);
+    if (!task) {
+      return undefined;
+    }
+
+    const deletedAt = task.deletedAt!.getTime();
+    const restoredIds = getSubtreeIds(id, true)
+      .filter(subtaskId => tasks.get(subtaskId)!.deletedAt?.getTime() === deletedAt);
+    // A task whose parent is no longer live comes back as a top-level task
+    const parentId = task.parentId && findOwned(task.parentId, userId) ? task.parentId : null;
+    const now = new Date();
+    restoredIds.forEach(restoredId => {
+      const restored = tasks.get(restoredId)!;
+      tasks.set(restoredId, {
+        ...restored,
+        ...(restoredId === id && { parentId }),
+        version: restored.version + 1,
+        updatedAt: now,
+        deletedAt: null
+      });
+    });
+
+    restoredIds.forEach(restoredId => recordAudit(AuditAction.RESTORE, null, toTask(tasks.get(restoredId)!)));
+    return toTask(tasks.get(id)!);
+  };
+
+  // Permanently delete trashed tasks with their descendants, recording each in the audit log
+  const purge = (ids: string[]): number => {
+    const doomedIds = new Set(
+      ids.flatMap(id => getSubtreeIds(id, true)).filter(subtaskId => !isLive(tasks.get(subtaskId)!))
+    );
+    // Live subtasks (restored on their own) stay behind as top-level tasks
+    tasks.forEach((task, taskId) => {
+      if (isLive(task) && task.parentId && doomedIds.has(task.parentId)) {
+        tasks.set(taskId, { ...task, parentId: null, version: task.version + 1 });
+      }
+    });
+    doomedIds.forEach(doomedId => {
+      recordAudit(AuditAction.PURGE, toTask(tasks.get(doomedId)!), null);
+      removeTask(doomedId);
+    });
+    return doomedIds.size;
+  };
+
+  const purgeTask = async (id: string, userId: string): Promise<boolean> => {
+    if (!findTrashed(id, userId)) {
+      return false;
+    }
+    purge([id]);
+    return true;
+  };
+
+  const purgeTrash = async (options: { deletedBefore?: Date; userId?: string } = {}): Promise<number> => {
+    const { deletedBefore, userId } = options;
+    return purge(
+      [...tasks.values()]
+        .filter(task =>
+          !isLive(task) &&
+          (!userId || task.userId === userId) &&
+          (!deletedBefore || task.deletedAt! < deletedBefore)
+        )
+        .map(task => task.id)
+    );
+  };
+
+  const getSubtree = async (id: string, userId: string): Promise<Task[]> => {
+    if (!findOwned(id, userId)) {
+      return [];
+    }
+    return getSubtreeIds(id).map(subtaskId => toTask(tasks.get(subtaskId)!));
+  };
+
+  const getBlockers = async (id: string, userId: string): Promise<Task[] | undefined> => {
+    if (!findOwned(id, userId)) {
+      return undefined;
+    }
+    return [...(blockers.get(id) ?? [])]
+      .map(blockerId => tasks.get(blockerId)!)
+      .filter(isLive)
+      .map(toTask);
+  };
+
+  const getDependents = async (id: string, userId: string): Promise<Task[] | undefined> => {
+    if (!findOwned(id, userId)) {
+      return undefined;
+    }
+    return [...blockers.entries()]
+      .filter(([, blockerIds]) => blockerIds.has(id))
+      .map(([taskId]) => tasks.get(taskId)!)
+      .filter(isLive)
+      .map(toTask);
+  };
+
+  const addBlocker = async (id: string, blockerId: string, userId: string): Promise<boolean> => {
+    if (!findOwned(id, userId)) {
+      return false;
+    }
+    if (!findOwned(blockerId, userId)) {
+      throw new ValidationError('blockerId', 'Blocking task not found');
+    }
+    if (blockerId === id) {
+      throw new ValidationError('blockerId', 'A task cannot block itself');
+    }
+    // The new edge closes a cycle if the blocker already (transitively) waits on the task
+    const upstream = new Set(blockers.get(blockerId));
+    for (const taskId of upstream) {
+      blockers.get(taskId)?.forEach(next => upstream.add(next));
+    }
+    if (upstream.has(id)) {
+      throw new ValidationError('blockerId', 'Dependency would create a cycle');
+    }
+    blockers.set(id, (blockers.get(id) ?? new Set()).add(blockerId));
+    return true;
+  };
+
+  const removeBlocker = async (id: string, blockerId: string, userId: string): Promise<boolean> => {
+    if (!findOwned(id, userId)) {
+      return false;
+    }
+    return blockers.get(id)?.delete(blockerId) ?? false;
+  };
+
+  const getTaskHistory = async (id: string, userId: string): Promise<AuditEntry[]> => {
+    return auditLog.filter(entry => entry.taskId === id && entry.userId === userId).map(cloneAuditEntry);
+  };
+
+  const getTaskRevision = async (id: string, userId: string, revision: number): Promise<AuditEntry | undefined> => {
+    const entry = auditLog.find(candidate =>
+      candidate.taskId === id && candidate.userId === userId && candidate.revision === revision
+    );
+    return entry ? cloneAuditEntry(entry) : undefined;
+  };
+
+  const getAuditLog = async (userId: string, query: AuditQuery = {}): Promise<AuditLogResult> => {
+    const { page, limit, action, taskId, from, to } = query;
+    const matching = auditLog
+      .filter(entry =>
+        entry.userId === userId &&
+        (!action?.length || action.includes(entry.action)) &&
+        (!taskId || entry.taskId === taskId) &&
+        (!from || entry.createdAt >= from) &&
+        (!to || entry.createdAt <= to)
+      )
+      .reverse();
+    const total = matching.length;
+
+    if (page && limit) {
+      const offset = (page - 1) * limit;
+      return {
+        entries: matching.slice(offset, offset + limit).map(cloneAuditEntry),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    }
+
+    return { entries: matching.map(cloneAuditEntry), total };
+  };
+
+  const getOverdueTasks = async (userId: string, asOf: Date): Promise<Task[]> => {
+    return [...tasks.values()]
+      .filter(task =>
+        task.userId === userId &&
+        isLive(task) &&
+        task.status !== TaskStatus.COMPLETED &&
+        task.dueDate !== null &&
+        task.dueDate < asOf
+      )
+      .sort((a, b) =>
+        TASK_PRIORITY_RANK[b.priority] - TASK_PRIORITY_RANK[a.priority] ||
+        a.dueDate!.getTime() - b.dueDate!.getTime() ||
+        (a.id < b.id ? -1 : 1)
+      )
+      .map(toTask);
+  };
+
+  const getTasksDueBetween = async (from: Date, to: Date): Promise<Task[]> => {
+    return [...tasks.values()]
+      .filter(task =>
+        isLive(task) &&
+        task.status !== TaskStatus.COMPLETED &&
+        task.dueDate !== null &&
+        task.dueDate >= from &&
+        task.dueDate < to
+      )
+      .sort((a, b) => a.dueDate!.getTime() - b.dueDate!.getTime() || (a.id < b.id ? -1 : 1))
+      .map(toTask);
+  };
+
+  const getStaleTasks = async (status: string, updatedBefore: Date): Promise<Task[]> => {
+    return [...tasks.values()]
+      .filter(task => isLive(task) && task.status === status && task.updatedAt < updatedBefore)
+      .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime() || (a.id < b.id ? -1 : 1))
+      .map(toTask);
+  };
+
+  const getTaskCount = async (userId?: string): Promise<number> => {
+    return [...tasks.values()].filter(task => isLive(task) && (!userId || task.userId === userId)).length;
+  };
+
+  const clearAllTasks = async (): Promise<void> => {
+    tasks.clear();
+    taskTags.clear();
+    blockers.clear();
+    auditLog.length = 0;
+    comments.clear();
+  };
+
+  // Whether the current call chain runs inside a transaction
+  const activeTransaction = new AsyncLocalStorage<boolean>();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Calls from outside a transaction wait for the pending one to finish, so its rollback
+  // can never undo their writes and they never see its uncommitted changes
+  const queued = <A extends unknown[], R>(method: (...args: A) => Promise<R>) =>
+    (...args: A): Promise<R> => {
+      if (activeTransaction.getStore()) {
+        return method(...args);
+      }
+      const run = queue.catch(() => undefined).then(() => method(...args));
+      queue = run;
+      return run;
+    };
+
+  // Stored tasks, tags and comments are replaced rather than mutated, so copying the maps
+  // (and the sets inside them) is enough to roll back. A nested transaction rolls back only
+  // its own changes.
+  const transaction = async <T>(work: () => Promise<T>): Promise<T> => {
+    const saved = {
+      tasks: new Map(tasks),
+      tags: new Map(tags),
+      taskTags: copySets(taskTags),
+      blockers: copySets(blockers),
+      comments: new Map(comments),
+      auditLength: auditLog.length
+    };
+    try {
+      return await activeTransaction.run(true, work);
+    } catch (error) {
+      restoreMap(tasks, saved.tasks);
+      restoreMap(tags, saved.tags);
+      restoreMap(taskTags, saved.taskTags);
+      restoreMap(blockers, saved.blockers);
+      restoreMap(comments, saved.comments);
+      auditLog.length = saved.auditLength;
+      throw error;
+    }
+  };
+
+  const getTags = async (userId: string): Promise<TagWithUsage[]> => {
+    return [...tags.values()]
+      .filter(tag => tag.userId === userId)
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+      .map(tag => ({
+        ...tag,
+        usageCount: [...taskTags.entries()]
+          .filter(([taskId, tagIds]) => isLive(tasks.get(taskId)!) && tagIds.has(tag.id))
+          .length
+      }));
+  };
+
+  const createTag = async (userId: string, name: string): Promise<Tag> => {
+    if (findTagByName(userId, name)) {
+      throw new ConflictError(`Tag "${name}" already exists`);
+    }
+    const now = new Date();
+    const tag: Tag = { id: uuidv4(), userId, name, createdAt: now, updatedAt: now };
+    tags.set(tag.id, tag);
+    return { ...tag };
+  };
+
+  const renameTag = async (id: string, userId: string, name: string): Promise<Tag | undefined> => {
+    const tag = tags.get(id);
+    if (!tag || tag.userId !== userId) {
+      return undefined;
+    }
+    const existing = findTagByName(userId, name);
+    if (existing && existing.id !== id) {
+      throw new ConflictError(`Tag "${name}" already exists`);
+    }
+    const renamed: Tag = { ...tag, name, updatedAt: new Date() };
+    tags.set(id, renamed);
+    return { ...renamed };
+  };
+
+  const deleteTag = async (id: string, userId: string): Promise<boolean> => {
+    const tag = tags.get(id);
+    if (!tag || tag.userId !== userId) {
+      return false;
+    }
+    taskTags.forEach(tagIds => tagIds.delete(id));
+    return tags.delete(id);
+  };
+
+  const toComment = (comment: StoredComment): Comment => ({
+    ...comment,
+    replyCount: [...comments.values()].filter(reply => reply.parentId === comment.id).length,
+    createdAt: new Date(comment.createdAt),
+    updatedAt: new Date(comment.updatedAt)
+  });
+
+  // A comment of a live task of the user
+  const findComment = (id: string, taskId: string, userId: string): StoredComment | undefined => {
+    const comment = comments.get(id);
+    return comment && comment.taskId === taskId && findOwned(taskId, userId) ? comment : undefined;
+  };
+
+  // Comments matching a filter, oldest first (the order they were added), paged when page
+  // and limit are given
+  const listComments = (
+    filter: (comment: StoredComment) => boolean,
+    { page, limit }: CommentQuery
+  ): CommentListResult => {
+    const matching = [...comments.values()].filter(filter);
+    const total = matching.length;
+
+    if (page && limit) {
+      const offset = (page - 1) * limit;
+      return {
+        comments: matching.slice(offset, offset + limit).map(toComment),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    }
+
+    return { comments: matching.map(toComment), total };
+  };
+
+  const getComments = async (
+    taskId: string,
+    userId: string,
+    query: CommentQuery = {}
+  ): Promise<CommentListResult | undefined> => {
+    if (!findOwned(taskId, userId)) {
+      return undefined;
+    }
+    return listComments(comment => comment.taskId === taskId && comment.parentId === null, query);
+  };
+
+  const getComment = async (id: string, taskId: string, userId: string): Promise<Comment | undefined> => {
+    const comment = findComment(id, taskId, userId);
+    return comment ? toComment(comment) : undefined;
+  };
+
+  const getCommentReplies = async (
+    id: string,
+    taskId: string,
+    userId: string,
+    query: CommentQuery = {}
+  ): Promise<CommentListResult | undefined> => {
+    if (!findComment(id, taskId, userId)) {
+      return undefined;
+    }
+    return listComments(comment => comment.parentId === id, query);
+  };
+
+  const addComment = async (
+    taskId: string,
+    userId: string,
+    { body, parentId }: CreateCommentRequest
+  ): Promise<Comment | undefined> => {
+    if (!findOwned(taskId, userId)) {
+      return undefined;
+    }
+    if (parentId) {
+      const parent = comments.get(parentId);
+      if (!parent || parent.taskId !== taskId) {
+        throw new ValidationError('parentId', 'Parent comment not found');
+      }
+      if (parent.parentId) {
+        throw new ValidationError('parentId', 'Replies cannot be replied to; reply to the top-level comment instead');
+      }
+    }
+
+    const now = new Date();
+    const comment: StoredComment = {
+      id: uuidv4(),
+      taskId,
+      parentId: parentId ?? null,
+      authorId: userId,
+      body,
+      createdAt: now,
+      updatedAt: now
+    };
+    comments.set(comment.id, comment);
+    return toComment(comment);
+  };
+
+  const updateComment = async (
+    id: string,
+    taskId: string,
+    userId: string,
+    body: string
+  ): Promise<Comment | undefined> => {
+    const comment = findComment(id, taskId, userId);
+    if (!comment) {
+      return undefined;
+    }
+    const updated: StoredComment = { ...comment, body, updatedAt: new Date() };
+    comments.set(id, updated);
+    return toComment(updated);
+  };
+
+  const deleteComment = async (id: string, taskId: string, userId: string): Promise<boolean> => {
+    if (!findComment(id, taskId, userId)) {
+      return false;
+    }
+    comments.forEach((comment, commentId) => {
+      if (comment.parentId === id) {
+        comments.delete(commentId);
+      }
+    });
+    return comments.delete(id);
+  };
+
+  return {
+    getAllTasks: queued(getAllTasks),
+    streamTasks,
+    getTaskById: queued(getTaskById),
+    addTask: queued(addTask),
+    updateTask: queued(updateTask),
+    deleteTask: queued(deleteTask),
+    getTrash: queued(getTrash),
+    restoreTask: queued(restoreTask),
+    purgeTask: queued(purgeTask),
+    purgeTrash: queued(purgeTrash),
+    getSubtree: queued(getSubtree),
+    getBlockers: queued(getBlockers),
+    getDependents: queued(getDependents),
+    addBlocker: queued(addBlocker),
+    removeBlocker: queued(removeBlocker),
+    getTaskHistory: queued(getTaskHistory),
+    getTaskRevision: queued(getTaskRevision),
+    getAuditLog: queued(getAuditLog),
+    getOverdueTasks: queued(getOverdueTasks),
+    getTasksDueBetween: queued(getTasksDueBetween),
+    getStaleTasks: queued(getStaleTasks),
+    getTaskCount: queued(getTaskCount),
+    clearAllTasks: queued(clearAllTasks),
+    transaction: queued(transaction),
+    getTags: queued(getTags),
+    createTag: queued(createTag),
+    renameTag: queued(renameTag),
+    deleteTag: queued(deleteTag),
+    getComments: queued(getComments),
+    getComment: queued(getComment),
+    getCommentReplies: queued(getCommentReplies),
+    addComment: queued(addComment),
+    updateComment: queued(updateComment),
+    deleteComment: queued(deleteComment),
+  };
+};
@@ -0,0 +1,1215 @@
+import { Database } from 'sqlite';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Task,
+  TaskStatus,
+  TASK_PRIORITY_RANK,
+  TaskQuery,
+  TaskSort,
+  TaskSortField,
+  TaskListItem,
+  TaskListResult,
+  TaskUpdate,
+  TrashQuery,
+  ChildDeleteMode
+} from '../models/task';
+import { Tag, TagWithUsage } from '../models/tag';
+import { Comment, CommentQuery, CommentListResult, CreateCommentRequest } from '../models/comment';
+import {
+  InvalidSearchQueryError,
+  ConflictError,
+  ValidationError,
+  PreconditionFailedError
+} from '../utils/errors';
+import { withTransaction } from '../utils/transaction';
+import { createAuditEntry } from '../utils/audit';
+import { AuditAction, AuditEntry, AuditQuery, AuditLogResult } from '../models/audit';
+import { MATCH_OPEN, MATCH_CLOSE, toHighlightHtml } from '../utils/textSearch';
+import { isCursorMode, getCursors, DEFAULT_CURSOR_LIMIT } from '../utils/cursor';
+import { TaskRepository } from './taskRepository';
+
+// A tasks table row; tags live in the task_tags join table and comments in task_comments
+type TaskRow = Omit<Task, 'tags' | 'commentCount'>;
+
+// Convert Date strings back to Date objects (sqlite stores DATETIME as string)
+const toTask = (row: TaskRow): Task => ({
+  ...row,
+  tags: [],
+  commentCount: 0,
+  dueDate: row.dueDate ? new Date(row.dueDate) : null,
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt),
+  deletedAt: row.deletedAt ? new Date(row.deletedAt) : null
+});
+
+// A tasks row of a listing; full-text queries add the relevance score and highlights
+type TaskListRow = TaskRow & { score?: number; titleHighlight?: string; descriptionHighlight?: string };
+
+// Errors of the sqlite3 driver carry SQLite's result code
+type SqliteError = Error & { code?: string };
+
+const hasSqliteCode = (error: unknown, code: string): error is SqliteError =>
+  error instanceof Error && (error as SqliteError).code === code;
+
+// Attach search highlights and score to a row returned by a full-text query
+const toTaskListItem = ({ titleHighlight, descriptionHighlight, score, ...row }: TaskListRow): TaskListItem => {
+  const task: TaskListItem = toTask(row);
+  if (score !== undefined) {
+    task.score = score;
+    task.highlights = { title: toHighlightHtml(titleHighlight!), description: toHighlightHtml(descriptionHighlight!) };
+  }
+  return task;
+};
+
+// FTS5 rejects malformed MATCH expressions at query time (syntax errors, unterminated
+// strings, unknown column filters); when a search is involved, surface those as client errors
+const runSearch = async <T>(search: string | undefined, query: () => Promise<T>): Promise<T> => {
+  try {
+    return await query();
+  } catch (error) {
+    if (search && hasSqliteCode(error, 'SQLITE_ERROR')) {
+      throw new InvalidSearchQueryError(`Invalid search query: ${error.message.replace(/^SQLITE_ERROR: /, '')}`);
+    }
+    throw error;
+  }
+};
+
+// Numeric urgency of tasks.priority so priorities sort by rank rather than alphabetically
+const PRIORITY_RANK_SQL = `CASE tasks.priority ${Object.entries(TASK_PRIORITY_RANK)
+  .map(([priority, rank]) => `WHEN '${priority}' THEN ${rank}`)
+  .join(' ')} END`;
+
+// Whitelisted SQL expressions for each sortable field; user input never reaches the SQL text
+const SORT_COLUMNS: Record<TaskSortField, string> = {
+  createdAt: 'tasks.createdAt',
+  updatedAt: 'tasks.updatedAt',
+  title: 'tasks.title COLLATE NOCASE',
+  status: 'tasks.status',
+  priority: PRIORITY_RANK_SQL,
+  dueDate: 'tasks.dueDate',
+};
+
+// Build an ORDER BY list from sort fields, falling back to newest first and then id for ties
+const buildSortClause = (sort: TaskSort[]): string => {
+  const terms = sort.map(({ field, direction }) => `${SORT_COLUMNS[field]} ${direction === 'asc' ? 'ASC' : 'DESC'}`);
+  if (!sort.some(({ field }) => field === 'createdAt')) {
+    terms.push('tasks.createdAt DESC');
+  }
+  terms.push('tasks.id DESC');
+  return terms.join(', ');
+};
+
+const placeholders = (values: unknown[]): string => values.map(() => '?').join(', ');
+
+// FROM and WHERE clauses selecting a user's live tasks that match the filters of a list query
+const buildTaskFilter = (
+  userId: string,
+  query: TaskQuery
+): { from: string; where: string; params: (string | number)[] } => {
+  const {
+    status,
+    priority,
+    tags,
+    tagMatch,
+    parentId,
+    ready,
+    dueBefore,
+    dueAfter,
+    search,
+    createdFrom,
+    createdTo,
+    updatedFrom,
+    updatedTo
+  } = query;
+  let from = 'FROM tasks';
+  let where = 'WHERE tasks.userId = ? AND tasks.deletedAt IS NULL';
+  const params: (string | number)[] = [userId];
+
+  if (status?.length) {
+    where += ` AND tasks.status IN (${status.map(() => '?').join(', ')})`;
+    params.push(...status.map(value => value.toUpperCase()));
+  }
+
+  if (priority?.length) {
+    where += ` AND tasks.priority IN (${priority.map(() => '?').join(', ')})`;
+    params.push(...priority);
+  }
+
+  if (tags?.length) {
+    // All-of matching requires every requested tag to be among the task's tags
+    where += ` AND tasks.id IN (
+      SELECT task_tags.taskId FROM task_tags
+      JOIN tags ON tags.id = task_tags.tagId
+      WHERE tags.userId = ? AND tags.name IN (${placeholders(tags)})
+      GROUP BY task_tags.taskId
+      ${tagMatch === 'any' ? '' : 'HAVING COUNT(DISTINCT tags.id) = ?'}
+    )`;
+    params.push(userId, ...tags);
+    if (tagMatch !== 'any') {
+      params.push(tags.length);
+    }
+  }
+
+  if (parentId) {
+    where += ' AND tasks.parentId = ?';
+    params.push(parentId);
+  }
+
+  if (ready !== undefined) {
+    where += ` AND ${ready ? 'NOT ' : ''}EXISTS (
+      SELECT 1 FROM task_dependencies
+      JOIN tasks AS blockers ON blockers.id = task_dependencies.blockerId
+      WHERE task_dependencies.taskId = tasks.id AND blockers.deletedAt IS NULL AND blockers.status != ?
+    )`;
+    params.push(TaskStatus.COMPLETED);
+  }
+
+  const dateRanges: [string, Date | undefined, string][] = [
+    ['tasks.createdAt', createdFrom, '>='],
+    ['tasks.createdAt', createdTo, '<='],
+    ['tasks.updatedAt', updatedFrom, '>='],
+    ['tasks.updatedAt', updatedTo, '<='],
+    ['tasks.dueDate', dueAfter, '>'],
+    ['tasks.dueDate', dueBefore, '<'],
+  ];
+  dateRanges.forEach(([column, date, operator]) => {
+    if (date) {
+      where += ` AND ${column} ${operator} ?`;
+      params.push(date.toISOString());
+    }
+  });
+
+  if (search) {
+    from += ' JOIN tasks_fts ON tasks_fts.id = tasks.id';
+    where += ' AND tasks_fts MATCH ?';
+    params.push(search);
+  }
+
+  return { from, where, params };
+};
+
+// A tags row, with its dates as stored
+type TagRow = Omit<Tag, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string };
+
+const toTag = (row: TagRow): Tag => ({
+  ...row,
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt)
+});
+
+// A task_comments row selected with COMMENT_COLUMNS
+type CommentRow = Omit<Comment, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string };
+
+const toComment = (row: CommentRow): Comment => ({
+  ...row,
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt)
+});
+
+// Columns of a comment, with the number of replies to it
+const COMMENT_COLUMNS = `task_comments.*,
+  (SELECT COUNT(*) FROM task_comments AS replies WHERE replies.parentId = task_comments.id) AS replyCount`;
+
+// A task_audit row: changes and snapshot are stored as JSON
+type AuditRow = Omit<AuditEntry, 'changes' | 'snapshot' | 'createdAt'> & {
+  changes: string;
+  snapshot: string;
+  createdAt: string;
+};
+
+const toAuditEntry = (row: AuditRow): AuditEntry => ({
+  ...row,
+  changes: JSON.parse(row.changes),
+  snapshot: JSON.parse(row.snapshot),
+  createdAt: new Date(row.createdAt)
+});
+
+// Rows fetched per query when streaming tasks
+const STREAM_BATCH_SIZE = 500;
+
+const isUniqueViolation = (error: unknown): boolean =>
+  hasSqliteCode(error, 'SQLITE_CONSTRAINT') && /UNIQUE/.test(error.message);
+
+// Task repository backed by the SQLite `tasks` table
+export const createSqliteTaskRepository = (db: Database): TaskRepository => {
+  // Fill in the tag names and comment counts of each task, with a query for each
+  const withDetails = async <T extends Task>(tasks: T[]): Promise<T[]> => {
+    if (!tasks.length) {
+      return tasks;
+    }
+    const ids = tasks.map(task => task.id);
+    const rows = await db.all<{ taskId: string; name: string }[]>(
+      `SELECT task_tags.taskId, tags.name FROM task_tags
+       JOIN tags ON tags.id = task_tags.tagId
+       WHERE task_tags.taskId IN (${placeholders(ids)})
+       ORDER BY tags.name`,
+      ids
+    );
+    const byTask = new Map<string, string[]>();
+    rows.forEach(({ taskId, name }) => byTask.set(taskId, [...(byTask.get(taskId) ?? []), name]));
+    const counts = await db.all<{ taskId: string; count: number }[]>(
+      `SELECT taskId, COUNT(*) AS count FROM task_comments WHERE taskId IN (${placeholders(ids)}) GROUP BY taskId`,
+      ids
+    );
+    const commentCounts = new Map(counts.map(({ taskId, count }) => [taskId, count]));
+    return tasks.map(task => ({
+      ...task,
+      tags: byTask.get(task.id) ?? [],
+      commentCount: commentCounts.get(task.id) ?? 0
+    }));
+  };
+
+  // Create any of the named tags the user does not have yet and return all their ids
+  const ensureTags = async (userId: string, names: string[]): Promise<string[]> => {
+    if (!names.length) {
+      return [];
+    }
+    const now = new Date().toISOString();
+    for (const name of names) {
+      await db.run(
+        'INSERT OR IGNORE INTO tags (id, userId, name, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+        uuidv4(),
+        userId,
+        name,
+        now,
+        now
+      );
+    }
+    const rows = await db.all<{ id: string }[]>(
+      `SELECT id FROM tags WHERE userId = ? AND name IN (${placeholders(names)})`,
+      [userId, ...names]
+    );
+    return rows.map(row => row.id);
+  };
+
+  const attachTags = async (taskId: string, userId: string, names: string[]): Promise<void> => {
+    const tagIds = await ensureTags(userId, names);
+    for (const tagId of tagIds) {
+      await db.run('INSERT OR IGNORE INTO task_tags (taskId, tagId) VALUES (?, ?)', taskId, tagId);
+    }
+  };
+
+  const detachTags = async (taskId: string, userId: string, names: string[]): Promise<void> => {
+    if (!names.length) {
+      return;
+    }
+    await db.run(
+      `DELETE FROM task_tags WHERE taskId = ? AND tagId IN (
+         SELECT id FROM tags WHERE userId = ? AND name IN (${placeholders(names)})
+       )`,
+      [taskId, userId, ...names]
+    );
+  };
+
+  // Ids of a live task and its live descendants (or, with includeTrashed, of any task and
+  // all of its descendants), parents before their children
+  const getSubtreeIds = async (id: string, userId?: string, includeTrashed = false): Promise<string[]> => {
+    const live = includeTrashed ? '' : 'AND tasks.deletedAt IS NULL';
+    const rows = await db.all<{ id: string }[]>(
+      `WITH RECURSIVE subtree (id, depth) AS (
+         SELECT id, 0 FROM tasks WHERE id = ? ${userId ? 'AND userId = ?' : ''} ${live}
+         UNION ALL
+         SELECT tasks.id, subtree.depth + 1 FROM tasks JOIN subtree ON tasks.parentId = subtree.id ${live}
+       )
+       SELECT id FROM subtree ORDER BY depth`,
+      userId ? [id, userId] : [id]
+    );
+    return rows.map(row => row.id);
+  };
+
+  // A parent must be another of the user's tasks and must not sit below the task itself
+  const assertValidParent = async (id: string, userId: string, parentId: string): Promise<void> => {
+    const parent = await db.get(
+      'SELECT id FROM tasks WHERE id = ? AND userId = ? AND deletedAt IS NULL',
+      parentId,
+      userId
+    );
+    if (!parent) {
+      throw new ValidationError('parentId', 'Parent task not found');
+    }
+    if ((await getSubtreeIds(id)).includes(parentId)) {
+      throw new ValidationError('parentId', 'A task cannot be moved under itself or one of its subtasks');
+    }
+  };
+
+  // Append an audit entry for a change to a task as its next revision
+  const recordAudit = async (action: AuditAction, before: Task | null, after: Task | null): Promise<void> => {
+    const { revision } = (await db.get<{ revision: number }>(
+      'SELECT COALESCE(MAX(revision), 0) + 1 AS revision FROM task_audit WHERE taskId = ?',
+      (after ?? before)!.id
+    ))!;
+    const entry = createAuditEntry(action, before, after, revision);
+    if (!entry) {
+      return;
+    }
+    await db.run(
+      `INSERT INTO task_audit (id, taskId, userId, action, revision, changes, snapshot, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      entry.id,
+      entry.taskId,
+      entry.userId,
+      entry.action,
+      entry.revision,
+      JSON.stringify(entry.changes),
+      JSON.stringify(entry.snapshot),
+      entry.createdAt.toISOString()
+    );
+  };
+
+  const getTaskById = async (id: string, userId: string): Promise<Task | undefined> => {
+    const task = await db.get<TaskRow>(
+      'SELECT * FROM tasks WHERE id = ? AND userId = ? AND deletedAt IS NULL',
+      id,
+      userId
+    );
+    return task ? (await withDetails([toTask(task)]))[0] : undefined;
+  };
+
+  const getAllTasks = async (
+    userId: string,
+    query: TaskQuery = {}
+  ): Promise<TaskListResult> => {
+    const { page, limit, search, sort, orderBy, after, before } = query;
+    const filter = buildTaskFilter(userId, query);
+    const { from, params } = filter;
+    let { where } = filter;
+
+    // Get total count first
+    const totalResult = await runSearch(search, () => db.get<{ total: number }>(`SELECT COUNT(*) as total ${from} ${where}`, params));
+    const total = totalResult ? totalResult.total : 0;
+
+    // Search hits carry a relevance score (bm25 weights title matches above description
+    // matches; it is negative, lower is better) plus highlighted title and description snippet
+    const columns = search
+      ? `tasks.*,
+         -bm25(tasks_fts, 0.0, 10.0, 5.0) AS score,
+         highlight(tasks_fts, 1, '${MATCH_OPEN}', '${MATCH_CLOSE}') AS titleHighlight,
+         snippet(tasks_fts, 2, '${MATCH_OPEN}', '${MATCH_CLOSE}', '…', 16) AS descriptionHighlight`
+      : 'tasks.*';
+
+    if (isCursorMode(query)) {
+      // Keyset pagination over (createdAt, id): stable while tasks are inserted and
+      // as cheap for deep pages as for the first one. Paging backwards walks the
+      // ordering in reverse and flips the page afterwards.
+      const pageSize = limit ?? DEFAULT_CURSOR_LIMIT;
+      const cursor = after ?? before;
+      const comparison = before ? '>' : '<';
+      const direction = before ? 'ASC' : 'DESC';
+
+      if (cursor) {
+        where += ` AND (tasks.createdAt ${comparison} ? OR (tasks.createdAt = ? AND tasks.id ${comparison} ?))`;
+        params.push(cursor.createdAt, cursor.createdAt, cursor.id);
+      }
+
+      const rows = await runSearch(search, () => db.all<TaskListRow[]>(
+        `SELECT ${columns} ${from} ${where} ORDER BY tasks.createdAt ${direction}, tasks.id ${direction} LIMIT ?`,
+        [...params, pageSize + 1]
+      ));
+
+      const hasMore = rows.length > pageSize;
+      const pageRows = rows.slice(0, pageSize);
+      if (before) {
+        pageRows.reverse();
+      }
+
+      return {
+        tasks: await withDetails(pageRows.map(toTaskListItem)),
+        total,
+        ...getCursors(pageRows.map(toTask), query, hasMore),
+      };
+    }
+
+    // Explicit sort fields win; otherwise order by relevance when searching unless date
+    // order was requested, else newest first
+    const newestFirst = !sort?.length && (!search || orderBy === 'date');
+    let order: string;
+    if (sort?.length) {
+      order = `ORDER BY ${buildSortClause(sort)}`;
+    } else if (search && orderBy !== 'date') {
+      order = 'ORDER BY score DESC, tasks.createdAt DESC, tasks.id DESC';
+    } else {
+      order = 'ORDER BY tasks.createdAt DESC, tasks.id DESC';
+    }
+
+    let sql = `SELECT ${columns} ${from} ${where} ${order}`;
+
+    // Apply pagination if provided
+    if (page && limit) {
+      const offset = (page - 1) * limit;
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(limit, offset);
+    }
+
+    const rows = await runSearch(search, () => db.all<TaskListRow[]>(sql, params));
+    const formattedTasks = await withDetails(rows.map(toTaskListItem));
+
+    if (page && limit) {
+      return {
+        tasks: formattedTasks,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        ...(newestFirst && { nextCursor: getCursors(formattedTasks, {}, page * limit < total).nextCursor }),
+      };
+    }
+
+    return { tasks: formattedTasks, total };
+  };
+
+  const streamTasks = async (
+    userId: string,
+    query: TaskQuery,
+    onBatch: (tasks: Task[]) => Promise<void>
+  ): Promise<number> => {
+    const { from, where, params } = buildTaskFilter(userId, query);
+    let count = 0;
+    let last: Task | undefined;
+
+    // Walk the createdAt/id ordering a batch at a time, like cursor pagination, so only
+    // one batch of rows is in memory however many tasks match
+    do {
+      const keyset = last
+        ? ' AND (tasks.createdAt < ? OR (tasks.createdAt = ? AND tasks.id < ?))'
+        : '';
+      const keysetParams = last
+        ? [last.createdAt.toISOString(), last.createdAt.toISOString(), last.id]
+        : [];
+      const rows = await runSearch(query.search, () => db.all<TaskRow[]>(
+        `SELECT tasks.* ${from} ${where}${keyset} ORDER BY tasks.createdAt DESC, tasks.id DESC LIMIT ?`,
+        [...params, ...keysetParams, STREAM_BATCH_SIZE]
+      ));
+      if (!rows.length) {
+        break;
+      }
+
+      const tasks = await withDetails(rows.map(toTask));
+      await onBatch(tasks);
+      count += tasks.length;
+      last = rows.length === STREAM_BATCH_SIZE ? tasks[tasks.length - 1] : undefined;
+    } while (last);
+
+    return count;
+  };
+
+  const addTask = async (task: Task): Promise<Task> => {
+    const createdTask = { ...task, tags: [...task.tags].sort() };
+    await withTransaction(db, async () => {
+      if (task.parentId) {
+        await assertValidParent(task.id, task.userId, task.parentId);
+      }
+      try {
+        await db.run(
+          `INSERT INTO tasks (id, title, description, status, priority, dueDate, parentId, recurrence, userId, version, createdAt, updatedAt)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          task.id,
+          task.title,
+          task.description,
+          task.status,
+          task.priority,
+          task.dueDate ? task.dueDate.toISOString() : null,
+          task.parentId,
+          task.recurrence,
+          task.userId,
+          task.version,
+          task.createdAt.toISOString(),
+          task.updatedAt.toISOString()
+        );
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError('A task with this ID already exists');
+        }
+        throw error;
+      }
+      await attachTags(task.id, task.userId, task.tags);
+      await recordAudit(AuditAction.CREATE, null, createdTask);
+    });
+    return createdTask;
+  };
+
+  const updateTask = async (
+    id: string,
+    userId: string,
+    updates: TaskUpdate,
+    expectedVersion?: number
+  ): Promise<Task | undefined> => {
+    return withTransaction(db, async () => {
+      const existingTask = await getTaskById(id, userId);
+      if (!existingTask) {
+        return undefined;
+      }
+      if (updates.parentId) {
+        await assertValidParent(id, userId, updates.parentId);
+      }
+
+      const updatedTask = {
+        ...existingTask,
+        ...updates,
+        updatedAt: new Date(),
+      };
+
+      const setClauses: string[] = [];
+      const params: (string | null)[] = [];
+
+      if (updates.title !== undefined) {
+        setClauses.push('title = ?');
+        params.push(updatedTask.title);
+      }
+      if (updates.description !== undefined) {
+        setClauses.push('description = ?');
+        params.push(updatedTask.description);
+      }
+      if (updates.status !== undefined) {
+        setClauses.push('status = ?');
+        params.push(updatedTask.status);
+      }
+      if (updates.priority !== undefined) {
+        setClauses.push('priority = ?');
+        params.push(updatedTask.priority);
+      }
+      if (updates.dueDate !== undefined) {
+        setClauses.push('dueDate = ?');
+        params.push(updatedTask.dueDate ? updatedTask.dueDate.toISOString() : null);
+      }
+      if (updates.parentId !== undefined) {
+        setClauses.push('parentId = ?');
+        params.push(updatedTask.parentId);
+      }
+      if (updates.recurrence !== undefined) {
+        setClauses.push('recurrence = ?');
+        params.push(updatedTask.recurrence);
+      }
+      setClauses.push('updatedAt = ?', 'version = version + 1');
+      params.push(updatedTask.updatedAt.toISOString());
+
+      // The version check is part of the write so a concurrent update cannot slip in between
+      let query = `UPDATE tasks SET ${setClauses.join(', ')} WHERE id = ? AND userId = ?`;
+      params.push(id, userId);
+      if (expectedVersion !== undefined) {
+        query += ' AND version = ?';
+        params.push(String(expectedVersion));
+      }
+
+      const result = await db.run(query, params);
+      if (!result.changes) {
+        throw new PreconditionFailedError(existingTask);
+      }
+
+      if (updates.tags !== undefined) {
+        await db.run('DELETE FROM task_tags WHERE taskId = ?', id);
+        await attachTags(id, userId, updates.tags);
+      }
+      await attachTags(id, userId, updates.addTags ?? []);
+      await detachTags(id, userId, updates.removeTags ?? []);
+
+      // Retrieve the updated task to return the full object
+      const savedTask = await getTaskById(id, userId);
+      await recordAudit(AuditAction.UPDATE, existingTask, savedTask!);
+      return savedTask;
+    });
+  };
+
+  const deleteTask = async (
+    id: string,
+    userId: string,
+    childMode: ChildDeleteMode = 'reject',
+    expectedVersion?: number
+  ): Promise<boolean> => {
+    return withTransaction(db, async () => {
+      const task = await getTaskById(id, userId);
+      if (!task) {
+        return false;
+      }
+
+      const children = await withDetails(
+        (await db.all<TaskRow[]>('SELECT * FROM tasks WHERE parentId = ? AND deletedAt IS NULL', id)).map(toTask)
+      );
+      if (children.length > 0 && childMode === 'reject') {
+        throw new ConflictError(`Task has ${children.length} subtask(s); delete them first or choose another children mode`);
+      }
+
+      const now = new Date();
+      const trashedTasks = childMode === 'cascade' ? await getSubtree(id, userId) : [task];
+      // Trash the task itself first, checking its version in the same statement
+      const result = await db.run(
+        `UPDATE tasks SET deletedAt = ?, version = version + 1 WHERE id = ? AND userId = ?
+         ${expectedVersion !== undefined ? 'AND version = ?' : ''}`,
+        [now.toISOString(), id, userId, ...(expectedVersion !== undefined ? [expectedVersion] : [])]
+      );
+      if (!result.changes) {
+        throw new PreconditionFailedError(task);
+      }
+
+      if (childMode === 'reparent' && children.length > 0) {
+        await db.run(
+          'UPDATE tasks SET parentId = ?, updatedAt = ?, version = version + 1 WHERE parentId = ? AND deletedAt IS NULL',
+          task.parentId,
+          now.toISOString(),
+          id
+        );
+        for (const child of children) {
+          await recordAudit(AuditAction.UPDATE, child, { ...child, parentId: task.parentId, updatedAt: now });
+        }
+      }
+
+      // A cascade trashes the whole subtree with the same timestamp so it can be restored together
+      const ids = trashedTasks.map(trashed => trashed.id).filter(trashedId => trashedId !== id);
+      if (ids.length) {
+        await db.run(
+          `UPDATE tasks SET deletedAt = ?, version = version + 1 WHERE id IN (${placeholders(ids)})`,
+          [now.toISOString(), ...ids]
+        );
+      }
+      for (const trashed of trashedTasks) {
+        await recordAudit(AuditAction.DELETE, trashed, null);
+      }
+      return true;
+    });
+  };
+
+  const getTrash = async (userId: string, query: TrashQuery = {}): Promise<TaskListResult> => {
+    const { page, limit } = query;
+    const { total } = (await db.get<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM tasks WHERE userId = ? AND deletedAt IS NOT NULL',
+      userId
+    ))!;
+
+    let sql = 'SELECT * FROM tasks WHERE userId = ? AND deletedAt IS NOT NULL ORDER BY deletedAt DESC, id DESC';
+    const params: (string | number)[] = [userId];
+    if (page && limit) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(limit, (page - 1) * limit);
+    }
+    const rows = await db.all<TaskRow[]>(sql, params);
+
+    return {
+      tasks: await withDetails(rows.map(toTask)),
+      total,
+      ...(page && limit ? { page, totalPages: Math.ceil(total / limit) } : {}),
+    };
+  };
+
+  // Trashed tasks by id, with their tags
+  const getTrashedTasks = async (ids: string[]): Promise<Task[]> => {
+    const rows = await db.all<TaskRow[]>(
+      `SELECT * FROM tasks WHERE id IN (${placeholders(ids)}) AND deletedAt IS NOT NULL`,
+      ids
+    );
+    return withDetails(rows.map(toTask));
+  };
+
+  const restoreTask = async (id: string, userId: string): Promise<Task | undefined> => {
+    return withTransaction(db, async () => {
+      const task = await db.get<TaskRow>(
+        'SELECT * FROM tasks WHERE id = ? AND userId = ? AND deletedAt IS NOT NULL',
+        id,
+        userId
+      );
+      if (!task) {
+        return undefined;
+      }
+
+      const trashedWith = (await getTrashedTasks(await getSubtreeIds(id, userId, true)))
+        .filter(trashed => trashed.deletedAt!.getTime() === new Date(task.deletedAt!).getTime());
+      const ids = trashedWith.map(trashed => trashed.id);
+      // A task whose parent is no longer live comes back as a top-level task
+      const parentId = task.parentId && (await getTaskById(task.parentId, userId)) ? task.parentId : null;
+      await db.run(
+        `UPDATE tasks SET deletedAt = NULL, version = version + 1, updatedAt = ?,
+           parentId = CASE WHEN id = ? THEN ? ELSE parentId END
+         WHERE id IN (${placeholders(ids)})`,
+        [new Date().toISOString(), id, parentId, ...ids]
+      );
+
+      for (const trashed of trashedWith) {
+        await recordAudit(AuditAction.RESTORE, null, (await getTaskById(trashed.id, userId))!);
+      }
+      return getTaskById(id, userId);
+    });
+  };
+
+  // Permanently delete trashed tasks with their descendants, recording each in the audit log
+  const purge = async (ids: string[]): Promise<number> => {
+    const subtreeIds = new Set<string>();
+    for (const id of ids) {
+      (await getSubtreeIds(id, undefined, true)).forEach(subtaskId => subtreeIds.add(subtaskId));
+    }
+    if (!subtreeIds.size) {
+      return 0;
+    }
+    const doomed = await getTrashedTasks([...subtreeIds]);
+    const doomedIds = doomed.map(task => task.id);
+    // Live subtasks (restored on their own) stay behind as top-level tasks
+    await db.run(
+      `UPDATE tasks SET parentId = NULL, version = version + 1
+       WHERE parentId IN (${placeholders(doomedIds)}) AND deletedAt IS NULL`,
+      doomedIds
+    );
+    await db.run(`DELETE FROM tasks WHERE id IN (${placeholders(doomedIds)})`, doomedIds);
+    for (const task of doomed) {
+      await recordAudit(AuditAction.PURGE, task, null);
+    }
+    return doomed.length;
+  };
+
+  const purgeTask = async (id: string, userId: string): Promise<boolean> => {
+    return withTransaction(db, async () => {
+      const task = await db.get(
+        'SELECT id FROM tasks WHERE id = ? AND userId = ? AND deletedAt IS NOT NULL',
+        id,
+        userId
+      );
+      if (!task) {
+        return false;
+      }
+      await purge([id]);
+      return true;
+    });
+  };
+
+  const purgeTrash = async (options: { deletedBefore?: Date; userId?: string } = {}): Promise<number> => {
+    const { deletedBefore, userId } = options;
+    return withTransaction(db, async () => {
+      let sql = 'SELECT id FROM tasks WHERE deletedAt IS NOT NULL';
+      const params: string[] = [];
+      if (userId) {
+        sql += ' AND userId = ?';
+        params.push(userId);
+      }
+      if (deletedBefore) {
+        sql += ' AND deletedAt < ?';
+        params.push(deletedBefore.toISOString());
+      }
+      const rows = await db.all<{ id: string }[]>(sql, params);
+      return purge(rows.map(row => row.id));
+    });
+  };
+
+  const getSubtree = async (id: string, userId: string): Promise<Task[]> => {
+    const ids = await getSubtreeIds(id, userId);
+    if (!ids.length) {
+      return [];
+    }
+    const rows = await db.all<TaskRow[]>(`SELECT * FROM tasks WHERE id IN (${placeholders(ids)})`, ids);
+    const byId = new Map(rows.map(row => [row.id, toTask(row)]));
+    return withDetails(ids.map(subtaskId => byId.get(subtaskId)!));
+  };
+
+  // Tasks at the other end of a task's dependencies, in the order they were added
+  const getRelatedTasks = async (
+    id: string,
+    userId: string,
+    column: 'taskId' | 'blockerId'
+  ): Promise<Task[] | undefined> => {
+    if (!(await getTaskById(id, userId))) {
+      return undefined;
+    }
+    const other = column === 'taskId' ? 'blockerId' : 'taskId';
+    const rows = await db.all<TaskRow[]>(
+      `SELECT tasks.* FROM task_dependencies
+       JOIN tasks ON tasks.id = task_dependencies.${other}
+       WHERE task_dependencies.${column} = ? AND tasks.deletedAt IS NULL
+       ORDER BY task_dependencies.createdAt, tasks.id`,
+      id
+    );
+    return withDetails(rows.map(toTask));
+  };
+
+  const getBlockers = (id: string, userId: string): Promise<Task[] | undefined> =>
+    getRelatedTasks(id, userId, 'taskId');
+
+  const getDependents = (id: string, userId: string): Promise<Task[] | undefined> =>
+    getRelatedTasks(id, userId, 'blockerId');
+
+  const addBlocker = async (id: string, blockerId: string, userId: string): Promise<boolean> => {
+    return withTransaction(db, async () => {
+      if (!(await getTaskById(id, userId))) {
+        return false;
+      }
+      if (!(await getTaskById(blockerId, userId))) {
+        throw new ValidationError('blockerId', 'Blocking task not found');
+      }
+      if (blockerId === id) {
+        throw new ValidationError('blockerId', 'A task cannot block itself');
+      }
+      // The new edge closes a cycle if the blocker already (transitively) waits on the task
+      const cycle = await db.get(
+        `WITH RECURSIVE upstream (id) AS (
+           SELECT blockerId FROM task_dependencies WHERE taskId = ?
+           UNION
+           SELECT task_dependencies.blockerId FROM task_dependencies
+           JOIN upstream ON task_dependencies.taskId = upstream.id
+         )
+         SELECT 1 FROM upstream WHERE id = ?`,
+        blockerId,
+        id
+      );
+      if (cycle) {
+        throw new ValidationError('blockerId', 'Dependency would create a cycle');
+      }
+      await db.run(
+        'INSERT OR IGNORE INTO task_dependencies (taskId, blockerId, createdAt) VALUES (?, ?, ?)',
+        id,
+        blockerId,
+        new Date().toISOString()
+      );
+      return true;
+    });
+  };
+
+  const removeBlocker = async (id: string, blockerId: string, userId: string): Promise<boolean> => {
+    const result = await db.run(
+      `DELETE FROM task_dependencies
+       WHERE taskId = (SELECT id FROM tasks WHERE id = ? AND userId = ? AND deletedAt IS NULL) AND blockerId = ?`,
+      id,
+      userId,
+      blockerId
+    );
+    return (result.changes ?? 0) > 0;
+  };
+
+  const getTaskHistory = async (id: string, userId: string): Promise<AuditEntry[]> => {
+    const rows = await db.all<AuditRow[]>(
+      'SELECT * FROM task_audit WHERE taskId = ? AND userId = ? ORDER BY revision',
+      id,
+      userId
+    );
+    return rows.map(toAuditEntry);
+  };
+
+  const getTaskRevision = async (id: string, userId: string, revision: number): Promise<AuditEntry | undefined> => {
+    const row = await db.get<AuditRow>(
+      'SELECT * FROM task_audit WHERE taskId = ? AND userId = ? AND revision = ?',
+      id,
+      userId,
+      revision
+    );
+    return row ? toAuditEntry(row) : undefined;
+  };
+
+  const getAuditLog = async (userId: string, query: AuditQuery = {}): Promise<AuditLogResult> => {
+    const { page, limit, action, taskId, from, to } = query;
+
+    let where = 'WHERE userId = ?';
+    const params: (string | number)[] = [userId];
+    if (action?.length) {
+      where += ` AND action IN (${placeholders(action)})`;
+      params.push(...action);
+    }
+    if (taskId) {
+      where += ' AND taskId = ?';
+      params.push(taskId);
+    }
+    if (from) {
+      where += ' AND createdAt >= ?';
+      params.push(from.toISOString());
+    }
+    if (to) {
+      where += ' AND createdAt <= ?';
+      params.push(to.toISOString());
+    }
+
+    const { total } = (await db.get<{ total: number }>(`SELECT COUNT(*) AS total FROM task_audit ${where}`, params))!;
+
+    let sql = `SELECT * FROM task_audit ${where} ORDER BY createdAt DESC, rowid DESC`;
+    if (page && limit) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(limit, (page - 1) * limit);
+    }
+    const rows = await db.all<AuditRow[]>(sql, params);
+
+    return {
+      entries: rows.map(toAuditEntry),
+      total,
+      ...(page && limit ? { page, totalPages: Math.ceil(total / limit) } : {}),
+    };
+  };
+
+  const getOverdueTasks = async (userId: string, asOf: Date): Promise<Task[]> => {
+    const tasks = await db.all<TaskRow[]>(
+      `SELECT * FROM tasks
+       WHERE userId = ? AND deletedAt IS NULL AND status != ? AND dueDate IS NOT NULL AND dueDate < ?
+       ORDER BY ${PRIORITY_RANK_SQL} DESC, dueDate ASC, id ASC`,
+      userId,
+      TaskStatus.COMPLETED,
+      asOf.toISOString()
+    );
+    return withDetails(tasks.map(toTask));
+  };
+
+  const getTasksDueBetween = async (from: Date, to: Date): Promise<Task[]> => {
+    const tasks = await db.all<TaskRow[]>(
+      `SELECT * FROM tasks
+       WHERE deletedAt IS NULL AND status != ? AND dueDate >= ? AND dueDate < ?
+       ORDER BY dueDate ASC, id ASC`,
+      TaskStatus.COMPLETED,
+      from.toISOString(),
+      to.toISOString()
+    );
+    return withDetails(tasks.map(toTask));
+  };
+
+  const getStaleTasks = async (status: string, updatedBefore: Date): Promise<Task[]> => {
+    const tasks = await db.all<TaskRow[]>(
+      `SELECT * FROM tasks
+       WHERE deletedAt IS NULL AND status = ? AND updatedAt < ?
+       ORDER BY updatedAt ASC, id ASC`,
+      status,
+      updatedBefore.toISOString()
+    );
+    return withDetails(tasks.map(toTask));
+  };
+
+  const getTaskCount = async (userId?: string): Promise<number> => {
+    const result = userId
+      ? await db.get('SELECT COUNT(*) as total FROM tasks WHERE userId = ? AND deletedAt IS NULL', userId)
+      : await db.get('SELECT COUNT(*) as total FROM tasks WHERE deletedAt IS NULL');
+    return result ? result.total : 0;
+  };
+
+  const clearAllTasks = async (): Promise<void> => {
+    await db.run('DELETE FROM tasks');
+    await db.run('DELETE FROM task_audit');
+  };
+
+  const transaction = <T>(work: () => Promise<T>): Promise<T> => withTransaction(db, work);
+
+  const getTags = async (userId: string): Promise<TagWithUsage[]> => {
+    const rows = await db.all<(TagRow & { usageCount: number })[]>(
+      `SELECT tags.*, COUNT(task_tags.taskId) AS usageCount FROM tags
+       LEFT JOIN task_tags ON task_tags.tagId = tags.id
+         AND task_tags.taskId IN (SELECT id FROM tasks WHERE deletedAt IS NULL)
+       WHERE tags.userId = ?
+       GROUP BY tags.id
+       ORDER BY tags.name`,
+      userId
+    );
+    return rows.map(row => ({ ...toTag(row), usageCount: row.usageCount }));
+  };
+
+  const createTag = async (userId: string, name: string): Promise<Tag> => {
+    const now = new Date();
+    const tag: Tag = { id: uuidv4(), userId, name, createdAt: now, updatedAt: now };
+    try {
+      await db.run(
+        'INSERT INTO tags (id, userId, name, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+        tag.id,
+        tag.userId,
+        tag.name,
+        now.toISOString(),
+        now.toISOString()
+      );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`Tag "${name}" already exists`);
+      }
+      throw error;
+    }
+    return tag;
+  };
+
+  const renameTag = async (id: string, userId: string, name: string): Promise<Tag | undefined> => {
+    try {
+      const result = await db.run(
+        'UPDATE tags SET name = ?, updatedAt = ? WHERE id = ? AND userId = ?',
+        name,
+        new Date().toISOString(),
+        id,
+        userId
+      );
+      if (!result.changes) {
+        return undefined;
+      }
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`Tag "${name}" already exists`);
+      }
+      throw error;
+    }
+    const row = await db.get<TagRow>('SELECT * FROM tags WHERE id = ?', id);
+    return toTag(row!);
+  };
+
+  const deleteTag = async (id: string, userId: string): Promise<boolean> => {
+    return withTransaction(db, async () => {
+      const tag = await db.get<{ id: string }>('SELECT id FROM tags WHERE id = ? AND userId = ?', id, userId);
+      if (!tag) {
+        return false;
+      }
+      await db.run('DELETE FROM task_tags WHERE tagId = ?', id);
+      await db.run('DELETE FROM tags WHERE id = ?', id);
+      return true;
+    });
+  };
+
+  // Comments are only reachable through a live task of the user
+  const hasLiveTask = async (taskId: string, userId: string): Promise<boolean> =>
+    Boolean(await db.get<{ id: string }>(
+      'SELECT id FROM tasks WHERE id = ? AND userId = ? AND deletedAt IS NULL',
+      taskId,
+      userId
+    ));
+
+  // Comments matching a condition, oldest first, paged when page and limit are given
+  const listComments = async (
+    where: string,
+    params: string[],
+    { page, limit }: CommentQuery
+  ): Promise<CommentListResult> => {
+    const { total } = (await db.get<{ total: number }>(`SELECT COUNT(*) AS total FROM task_comments WHERE ${where}`, params))!;
+
+    let sql = `SELECT ${COMMENT_COLUMNS} FROM task_comments WHERE ${where} ORDER BY createdAt ASC, id ASC`;
+    const sqlParams: (string | number)[] = [...params];
+    if (page && limit) {
+      sql += ' LIMIT ? OFFSET ?';
+      sqlParams.push(limit, (page - 1) * limit);
+    }
+    const comments = (await db.all<CommentRow[]>(sql, sqlParams)).map(toComment);
+
+    return page && limit
+      ? { comments, total, page, totalPages: Math.ceil(total / limit) }
+      : { comments, total };
+  };
+
+  const getComments = async (
+    taskId: string,
+    userId: string,
+    query: CommentQuery = {}
+  ): Promise<CommentListResult | undefined> => {
+    if (!(await hasLiveTask(taskId, userId))) {
+      return undefined;
+    }
+    return listComments('taskId = ? AND parentId IS NULL', [taskId], query);
+  };
+
+  const getComment = async (id: string, taskId: string, userId: string): Promise<Comment | undefined> => {
+    if (!(await hasLiveTask(taskId, userId))) {
+      return undefined;
+    }
+    const row = await db.get<CommentRow>(`SELECT ${COMMENT_COLUMNS} FROM task_comments WHERE id = ? AND taskId = ?`, id, taskId);
+    return row ? toComment(row) : undefined;
+  };
+
+  const getCommentReplies = async (
+    id: string,
+    taskId: string,
+    userId: string,
+    query: CommentQuery = {}
+  ): Promise<CommentListResult | undefined> => {
+    if (!(await getComment(id, taskId, userId))) {
+      return undefined;
+    }
+    return listComments('parentId = ?', [id], query);
+  };
+
+  const addComment = async (
+    taskId: string,
+    userId: string,
+    { body, parentId }: CreateCommentRequest
+  ): Promise<Comment | undefined> => {
+    if (!(await hasLiveTask(taskId, userId))) {
+      return undefined;
+    }
+    if (parentId) {
+      const parent = await db.get<{ parentId: string | null }>(
+        'SELECT parentId FROM task_comments WHERE id = ? AND taskId = ?',
+        parentId,
+        taskId
+      );
+      if (!parent) {
+        throw new ValidationError('parentId', 'Parent comment not found');
+      }
+      if (parent.parentId) {
+        throw new ValidationError('parentId', 'Replies cannot be replied to; reply to the top-level comment instead');
+      }
+    }
+
+    const now = new Date();
+    const comment: Comment = {
+      id: uuidv4(),
+      taskId,
+      parentId: parentId ?? null,
+      authorId: userId,
+      body,
+      replyCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    await db.run(
+      `INSERT INTO task_comments (id, taskId, parentId, authorId, body, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      comment.id,
+      comment.taskId,
+      comment.parentId,
+      comment.authorId,
+      comment.body,
+      now.toISOString(),
+      now.toISOString()
+    );
+    return comment;
+  };
+
+  const updateComment = async (
+    id: string,
+    taskId: string,
+    userId: string,
+    body: string
+  ): Promise<Comment | undefined> => {
+    if (!(await hasLiveTask(taskId, userId))) {
+      return undefined;
+    }
+    const result = await db.run(
+      'UPDATE task_comments SET body = ?, updatedAt = ? WHERE id = ? AND taskId = ?',
+      body,
+      new Date().toISOString(),
+      id,
+      taskId
+    );
+    return result.changes ? getComment(id, taskId, userId) : undefined;
+  };
+
+  // Replies go with the comment through ON DELETE CASCADE
+  const deleteComment = async (id: string, taskId: string, userId: string): Promise<boolean> => {
+    if (!(await hasLiveTask(taskId, userId))) {
+      return false;
+    }
+    const result = await db.run('DELETE FROM task_comments WHERE id = ? AND taskId = ?', id, taskId);
+    return Boolean(result.changes);
+  };
+
+  return {
+    getAllTasks,
+    streamTasks,
+    getTaskById,
+    addTask,
+    updateTask,
+    deleteTask,
+    getTrash,
+    restoreTask,
+    purgeTask,
+    purgeTrash,
+    getSubtree,
+    getBlockers,
+    getDependents,
+    addBlocker,
+    removeBlocker,
+    getTaskHistory,
+    getTaskRevision,
+    getAuditLog,
+    getOverdueTasks,
+    getTasksDueBetween,
+    getStaleTasks,
+    getTaskCount,
+    clearAllTasks,
+    transaction,
+    getTags,
+    createTag,
+    renameTag,
+    deleteTag,
+    getComments,
+    getComment,
+    getCommentReplies,
+    addComment,
+    updateComment,
+    deleteComment,
+  };
+};
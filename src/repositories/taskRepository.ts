@@ -0,0 +1,105 @@
+import { Task, TaskQuery, TrashQuery, TaskListResult, TaskUpdate, ChildDeleteMode } from '../models/task';
+import { Tag, TagWithUsage } from '../models/tag';
+import { AuditEntry, AuditQuery, AuditLogResult } from '../models/audit';
+import { Comment, CommentQuery, CommentListResult, CreateCommentRequest } from '../models/comment';
+
+// Storage abstraction for tasks. Every lookup is scoped to the owning user so an
+// implementation can never leak one user's tasks to another. Every create, update and
+// delete of a task is recorded in the audit log as part of the same write.
+// Deleted tasks go to the trash; apart from the trash methods, every method behaves as
+// if trashed tasks did not exist. The comments of a trashed task are kept, out of reach,
+// until it is restored, and deleted when it is purged.
+export interface TaskRepository {
+  // Get all tasks owned by a user with optional pagination and filtering
+  getAllTasks(userId: string, query?: TaskQuery): Promise<TaskListResult>;
+  // Pass every task matching the filters of a list query to onBatch, newest first, a
+  // batch at a time so that a large result set is never held in memory at once. Paging
+  // and sort options are ignored. Returns how many tasks were passed on.
+  streamTasks(userId: string, query: TaskQuery, onBatch: (tasks: Task[]) => Promise<void>): Promise<number>;
+  // Get task by ID, scoped to its owner
+  getTaskById(id: string, userId: string): Promise<Task | undefined>;
+  // Add new task, creating any of its tags that do not exist yet.
+  // Throws ValidationError if the parent task does not exist, and ConflictError if any
+  // task (of any user, trashed or not) already has its ID.
+  addTask(task: Task): Promise<Task>;
+  // Update task by ID, returning undefined if the user has no such task.
+  // tags replaces the task's tags; addTags/removeTags edit them incrementally.
+  // Throws ValidationError if the new parent is missing or would create a cycle, and
+  // PreconditionFailedError if expectedVersion is given and the task has moved past it.
+  updateTask(id: string, userId: string, updates: TaskUpdate, expectedVersion?: number): Promise<Task | undefined>;
+  // Move a task to the trash, returning whether a task was found. childMode decides what
+  // happens to its subtasks; 'reject' throws ConflictError if there are any.
+  // Throws PreconditionFailedError like updateTask.
+  deleteTask(
+    id: string,
+    userId: string,
+    childMode?: ChildDeleteMode,
+    expectedVersion?: number
+  ): Promise<boolean>;
+  // Get a user's trashed tasks, most recently deleted first
+  getTrash(userId: string, query?: TrashQuery): Promise<TaskListResult>;
+  // Take a task out of the trash along with the subtasks trashed with it. A task whose
+  // parent is gone becomes a top-level task. Undefined if the task is not in the trash.
+  restoreTask(id: string, userId: string): Promise<Task | undefined>;
+  // Permanently delete a trashed task and its subtasks, returning whether one was found
+  purgeTask(id: string, userId: string): Promise<boolean>;
+  // Permanently delete trashed tasks, optionally only those trashed before a date and
+  // only those of one user. Returns how many tasks were purged.
+  purgeTrash(options?: { deletedBefore?: Date; userId?: string }): Promise<number>;
+  // Get a task and all of its descendants, parents before children; empty if not found
+  getSubtree(id: string, userId: string): Promise<Task[]>;
+  // Get the tasks blocking a task; undefined if the user has no such task
+  getBlockers(id: string, userId: string): Promise<Task[] | undefined>;
+  // Get the tasks blocked by a task; undefined if the user has no such task
+  getDependents(id: string, userId: string): Promise<Task[] | undefined>;
+  // Record that a task is blocked by another, returning false if the task does not exist.
+  // Adding an existing dependency is a no-op. Throws ValidationError if the blocker is
+  // missing, is the task itself, or already depends on the task (directly or not).
+  addBlocker(id: string, blockerId: string, userId: string): Promise<boolean>;
+  // Remove a dependency, returning whether one was removed
+  removeBlocker(id: string, blockerId: string, userId: string): Promise<boolean>;
+  // Get the audit entries of a task, oldest revision first; empty if there are none
+  getTaskHistory(id: string, userId: string): Promise<AuditEntry[]>;
+  // Get one audit entry of a task by revision number
+  getTaskRevision(id: string, userId: string, revision: number): Promise<AuditEntry | undefined>;
+  // Get a user's audit entries across all tasks, newest first
+  getAuditLog(userId: string, query?: AuditQuery): Promise<AuditLogResult>;
+  // Get a user's non-completed tasks whose due date has passed, most urgent first
+  getOverdueTasks(userId: string, asOf: Date): Promise<Task[]>;
+  // Get the non-completed tasks of every user due from one time (inclusive) to another
+  // (exclusive), soonest first; for background jobs that act on behalf of all users
+  getTasksDueBetween(from: Date, to: Date): Promise<Task[]>;
+  // Get the tasks of every user that are in a status and have not changed since a time,
+  // least recently changed first; for background jobs like getTasksDueBetween
+  getStaleTasks(status: string, updatedBefore: Date): Promise<Task[]>;
+  // Get total count of tasks, optionally for a single user
+  getTaskCount(userId?: string): Promise<number>;
+  // Clear all tasks (useful for testing)
+  clearAllTasks(): Promise<void>;
+  // Run work atomically: if it throws, every change it made through this repository is
+  // undone. Calls may be nested; a failing inner call only undoes its own changes.
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+
+  // Get a user's tags with how many tasks use each, alphabetically
+  getTags(userId: string): Promise<TagWithUsage[]>;
+  // Create a tag; throws ConflictError if the user already has a tag with that name
+  createTag(userId: string, name: string): Promise<Tag>;
+  // Rename a tag; throws ConflictError if the new name is taken by another tag
+  renameTag(id: string, userId: string, name: string): Promise<Tag | undefined>;
+  // Delete a tag and detach it from every task
+  deleteTag(id: string, userId: string): Promise<boolean>;
+
+  // Get the top-level comments of a task, oldest first; undefined if the user has no such task
+  getComments(taskId: string, userId: string, query?: CommentQuery): Promise<CommentListResult | undefined>;
+  // Get a comment of a task, scoped to the task's owner
+  getComment(id: string, taskId: string, userId: string): Promise<Comment | undefined>;
+  // Get the replies to a comment, oldest first; undefined if there is no such comment
+  getCommentReplies(id: string, taskId: string, userId: string, query?: CommentQuery): Promise<CommentListResult | undefined>;
+  // Add a comment by the task's owner, returning undefined if the user has no such task.
+  // Throws ValidationError if parentId is not a top-level comment of the same task.
+  addComment(taskId: string, userId: string, request: CreateCommentRequest): Promise<Comment | undefined>;
+  // Change the body of a comment
+  updateComment(id: string, taskId: string, userId: string, body: string): Promise<Comment | undefined>;
+  // Delete a comment along with its replies, returning whether one was found
+  deleteComment(id: string, taskId: string, userId: string): Promise<boolean>;
+}
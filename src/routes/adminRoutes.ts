@@ -0,0 +1,301 @@
+import express from "express";
+import {
+  getJobsController,
+  getJobController,
+  pauseJobController,
+  resumeJobController,
+  retryJobController,
+} from "../controllers/jobController";
+import { validateQuery, validateUUIDParam, jobQuerySchema } from "../middleware/validation";
+import { authenticate, requireUserToken, requireAdmin } from "../middleware/auth";
+
+const router = express.Router();
+
+// Only logged-in users listed in ADMIN_EMAILS may manage background jobs
+router.use(authenticate, requireUserToken, requireAdmin);
+
+const validateJobId = validateUUIDParam("id", "job");
+
+/**
+ * @swagger
+ * /admin/jobs:
+ *   get:
+ *     summary: List background jobs
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Every job in the queue, newest first. Jobs are kept in the database, so they
+ *       survive restarts; a job that was running when the server stopped runs again on
+ *       the next start.
+ *
+ *       Two recurring jobs scan for work: `due-date-reminders` every minute queues a
+ *       reminder for each task due within `REMINDER_LEAD_MINUTES`, and
+ *       `escalate-stale-tasks` every ten minutes raises the priority of tasks left
+ *       IN_PROGRESS without changes for `ESCALATION_HOURS`. Each reminder or escalation
+ *       notice is a `send-notification` job, delivered through `NOTIFICATION_SINK`.
+ *
+ *       A job that fails is retried with exponential backoff (30 seconds, doubling) until
+ *       it has been attempted `JOB_MAX_ATTEMPTS` times, when it is marked failed.
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of jobs per page
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [scheduled, running, paused, completed, failed]
+ *         description: Only jobs with this status
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [due-date-reminders, escalate-stale-tasks, send-notification]
+ *         description: Only jobs of this type
+ *     responses:
+ *       200:
+ *         description: Jobs retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Jobs retrieved successfully"
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Job'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *                 total:
+ *                   type: integer
+ *                   example: 42
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/jobs", validateQuery(jobQuerySchema), getJobsController);
+
+/**
+ * @swagger
+ * /admin/jobs/{id}:
+ *   get:
+ *     summary: Get a background job
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the job
+ *     responses:
+ *       200:
+ *         description: Job retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Job retrieved successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/Job'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/jobs/:id", validateJobId, getJobController);
+
+/**
+ * @swagger
+ * /admin/jobs/{id}/pause:
+ *   post:
+ *     summary: Pause a background job
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Stops a scheduled job from running until it is resumed. Pausing a recurring scan
+ *       stops its reminders or escalations altogether; it stays paused across restarts.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the job
+ *     responses:
+ *       200:
+ *         description: Job paused successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Job paused successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/Job'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The job is not scheduled (e.g. it is running or already finished)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/jobs/:id/pause", validateJobId, pauseJobController);
+
+/**
+ * @swagger
+ * /admin/jobs/{id}/resume:
+ *   post:
+ *     summary: Resume a paused background job
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     description: The job is scheduled again; if it fell due while paused it runs right away.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the job
+ *     responses:
+ *       200:
+ *         description: Job resumed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Job resumed successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/Job'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The job is not paused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/jobs/:id/resume", validateJobId, resumeJobController);
+
+/**
+ * @swagger
+ * /admin/jobs/{id}/retry:
+ *   post:
+ *     summary: Retry a background job
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Runs a failed job again with a fresh set of attempts, or runs a scheduled job
+ *       right away instead of waiting for its next run or retry.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the job
+ *     responses:
+ *       202:
+ *         description: Job retry queued successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Job retry queued successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/Job'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The job is neither failed nor scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/jobs/:id/retry", validateJobId, retryJobController);
+
+export default router;
@@ -0,0 +1,143 @@
+import express from "express";
+import {
+  createApiKey,
+  getApiKeys,
+  revokeApiKeyController,
+} from "../controllers/apiKeyController";
+import {
+  validateBody,
+  validateUUIDParam,
+  createApiKeySchema,
+} from "../middleware/validation";
+import { authenticate, requireUserToken } from "../middleware/auth";
+
+const router = express.Router();
+
+// API keys can only be managed by a logged-in user, never by another API key
+router.use(authenticate, requireUserToken);
+
+/**
+ * @swagger
+ * /keys:
+ *   post:
+ *     summary: Create a scoped API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Creates an API key for service-to-service access. The plain-text key is only
+ *       returned in this response; send it in the `X-API-Key` header.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateApiKeyRequest'
+ *           example:
+ *             name: "CI bot"
+ *             scopes: ["tasks:read", "tasks:write"]
+ *     responses:
+ *       201:
+ *         description: API key created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "API key created successfully. Store the key now, it will not be shown again"
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ApiKey'
+ *                     - type: object
+ *                       properties:
+ *                         key:
+ *                           type: string
+ *                           example: "tmk_3q2-7wEvAbCdEfGhIjKlMnOpQrStUvWxYz0123456789"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/", validateBody(createApiKeySchema), createApiKey);
+
+/**
+ * @swagger
+ * /keys:
+ *   get:
+ *     summary: List your API keys
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "API keys retrieved successfully"
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/", getApiKeys);
+
+/**
+ * @swagger
+ * /keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the API key
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.delete("/:id", validateUUIDParam("id", "API key"), revokeApiKeyController);
+
+export default router;
@@ -0,0 +1,103 @@
+import express from "express";
+import { createAuditController } from "../controllers/auditController";
+import { TaskRepository } from "../repositories";
+import { validateQuery, auditQuerySchema } from "../middleware/validation";
+import { authenticate, requireScope } from "../middleware/auth";
+import { ApiKeyScope } from "../models/apiKey";
+
+// Build the /api/audit router around a task repository
+export const createAuditRoutes = (taskRepository: TaskRepository) => {
+  const router = express.Router();
+  const { getAuditLogController } = createAuditController(taskRepository);
+
+  // Callers only ever see the audit entries of their own tasks
+  router.use(authenticate);
+
+  /**
+   * @swagger
+   * /audit:
+   *   get:
+   *     summary: Get the audit feed of all your tasks
+   *     tags: [Audit]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Every create, update and delete of one of your tasks, newest first. Entries of
+   *       deleted tasks are kept.
+   *     parameters:
+   *       - $ref: '#/components/parameters/PageNumber'
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *         description: Number of entries per page
+   *       - in: query
+   *         name: action
+   *         schema:
+   *           type: array
+   *           items:
+   *             $ref: '#/components/schemas/AuditAction'
+   *         style: form
+   *         explode: false
+   *         description: Only entries with one of these actions
+   *       - in: query
+   *         name: taskId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Only entries of this task
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only entries recorded at or after this time
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only entries recorded at or before this time
+   *     responses:
+   *       200:
+   *         description: Audit log retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Audit log retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/AuditEntry'
+   *                 pagination:
+   *                   $ref: '#/components/schemas/Pagination'
+   *                 total:
+   *                   type: integer
+   *                   example: 42
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateQuery(auditQuerySchema),
+    getAuditLogController
+  );
+
+  return router;
+};
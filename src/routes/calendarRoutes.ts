@@ -0,0 +1,253 @@
+import express from "express";
+import { createCalendarController } from "../controllers/calendarController";
+import { TaskRepository } from "../repositories";
+import { validateQuery, calendarQuerySchema } from "../middleware/validation";
+import { authenticate, requireScope, requireUserToken } from "../middleware/auth";
+import { ApiKeyScope } from "../models/apiKey";
+
+// Build the /api/calendar router around a task repository
+export const createCalendarRoutes = (taskRepository: TaskRepository) => {
+  const router = express.Router();
+  const {
+    getCalendarController,
+    getFeedCalendarController,
+    getFeedController,
+    createFeedController,
+    deleteFeedController,
+  } = createCalendarController(taskRepository);
+
+  /**
+   * @swagger
+   * /calendar/tasks.ics:
+   *   get:
+   *     summary: Get your tasks as an iCalendar file
+   *     tags: [Calendar]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Renders the caller's tasks, newest first, as an iCalendar (RFC 5545) document with
+   *       one VTODO per task. Takes every filter of `GET /tasks` but no paging or sorting.
+   *
+   *       - `UID` is derived from the task id, so calendar apps keep track of a task across
+   *         refreshes; `LAST-MODIFIED` is its `updatedAt` and `SEQUENCE` its `version` - 1.
+   *       - `STATUS` is NEEDS-ACTION for PENDING, IN-PROCESS for IN_PROGRESS and COMPLETED
+   *         for COMPLETED; custom workflow statuses are NEEDS-ACTION.
+   *       - `PRIORITY` is 1 for URGENT, 3 for HIGH, 5 for MEDIUM and 9 for LOW; tags become
+   *         `CATEGORIES` and a parent task a `RELATED-TO` of the parent's VTODO.
+   *
+   *       With `events=true`, each task with a due date also gets a VEVENT at that time, for
+   *       calendar apps that do not show VTODOs.
+   *
+   *       Calendar apps that cannot send an `Authorization` header can subscribe through a
+   *       calendar feed URL instead (see `POST /calendar/feed`).
+   *     parameters:
+   *       - in: query
+   *         name: events
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Add a VEVENT on the due date of each task that has one
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *         description: Comma-separated statuses to include
+   *       - in: query
+   *         name: tags
+   *         schema:
+   *           type: string
+   *         description: Comma-separated tag names to include (see `tagMatch` on `GET /tasks`)
+   *     responses:
+   *       200:
+   *         description: The tasks as an iCalendar document
+   *         content:
+   *           text/calendar:
+   *             schema:
+   *               type: string
+   *             example: |
+   *               BEGIN:VCALENDAR
+   *               VERSION:2.0
+   *               PRODID:-//Task Management API//Tasks//EN
+   *               CALSCALE:GREGORIAN
+   *               X-WR-CALNAME:Tasks
+   *               BEGIN:VTODO
+   *               UID:a1b2c3d4-e5f6-7890-1234-567890abcdef@task-management-api
+   *               DTSTAMP:20231027T100000Z
+   *               CREATED:20231027T100000Z
+   *               LAST-MODIFIED:20231027T100000Z
+   *               SEQUENCE:0
+   *               SUMMARY:Buy groceries
+   *               STATUS:NEEDS-ACTION
+   *               PRIORITY:5
+   *               DUE:20231028T170000Z
+   *               END:VTODO
+   *               END:VCALENDAR
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/tasks.ics",
+    authenticate,
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateQuery(calendarQuerySchema),
+    getCalendarController
+  );
+
+  /**
+   * @swagger
+   * /calendar/feed:
+   *   get:
+   *     summary: Get your calendar feed
+   *     tags: [Calendar]
+   *     security:
+   *       - bearerAuth: []
+   *     description: The feed's URL is only shown when the feed is created.
+   *     responses:
+   *       200:
+   *         description: Calendar feed retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Calendar feed retrieved successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/CalendarFeed'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get("/feed", authenticate, requireUserToken, getFeedController);
+
+  /**
+   * @swagger
+   * /calendar/feed:
+   *   post:
+   *     summary: Create a calendar feed URL
+   *     tags: [Calendar]
+   *     security:
+   *       - bearerAuth: []
+   *     description: |
+   *       Creates a secret URL serving `GET /calendar/tasks.ics` for you without any other
+   *       credentials, for subscribing from calendar apps. The URL takes the same query
+   *       parameters, so filters can be added to it. It is only returned in this response;
+   *       creating a feed again replaces the URL, and the old one stops working.
+   *     responses:
+   *       201:
+   *         description: Calendar feed created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Calendar feed created successfully. Store the URL now, it will not be shown again"
+   *                 data:
+   *                   allOf:
+   *                     - $ref: '#/components/schemas/CalendarFeed'
+   *                     - type: object
+   *                       properties:
+   *                         url:
+   *                           type: string
+   *                           example: "http://localhost:3000/api/calendar/tmc_Zx8-4kQpAbCdEfGhIjKlMnOpQrStUvWxYz0123456789.ics"
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.post("/feed", authenticate, requireUserToken, createFeedController);
+
+  /**
+   * @swagger
+   * /calendar/feed:
+   *   delete:
+   *     summary: Delete your calendar feed
+   *     tags: [Calendar]
+   *     security:
+   *       - bearerAuth: []
+   *     description: The feed's URL stops working at once.
+   *     responses:
+   *       200:
+   *         description: Calendar feed deleted successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/SuccessResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.delete("/feed", authenticate, requireUserToken, deleteFeedController);
+
+  /**
+   * @swagger
+   * /calendar/{token}.ics:
+   *   get:
+   *     summary: Subscribe to your tasks from a calendar app
+   *     tags: [Calendar]
+   *     security: []
+   *     description: |
+   *       The calendar feed URL returned by `POST /calendar/feed`. The token in the URL is
+   *       the only credential; it serves the same document as `GET /calendar/tasks.ics` and
+   *       takes the same query parameters.
+   *     parameters:
+   *       - in: path
+   *         name: token
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: The secret token of the feed
+   *       - in: query
+   *         name: events
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Add a VEVENT on the due date of each task that has one
+   *     responses:
+   *       200:
+   *         description: The tasks as an iCalendar document
+   *         content:
+   *           text/calendar:
+   *             schema:
+   *               type: string
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/:token.ics",
+    validateQuery(calendarQuerySchema),
+    getFeedCalendarController
+  );
+
+  return router;
+};
@@ -0,0 +1,374 @@
+import express from "express";
+import { createCommentController } from "../controllers/commentController";
+import { TaskRepository } from "../repositories";
+import {
+  validateBody,
+  validateQuery,
+  validateUUIDParam,
+  createCommentSchema,
+  updateCommentSchema,
+  commentQuerySchema,
+} from "../middleware/validation";
+import { authenticate, requireScope } from "../middleware/auth";
+import { ApiKeyScope } from "../models/apiKey";
+
+// Build the /api/tasks/:id/comments router around a task repository
+export const createCommentRoutes = (taskRepository: TaskRepository) => {
+  // The task id comes from the path the router is mounted at
+  const router = express.Router({ mergeParams: true });
+  const {
+    getTaskCommentsController,
+    getTaskCommentController,
+    getCommentRepliesController,
+    createTaskCommentController,
+    updateTaskCommentController,
+    deleteTaskCommentController,
+  } = createCommentController(taskRepository);
+
+  const validateTaskId = validateUUIDParam("id", "task");
+  const validateCommentId = validateUUIDParam("commentId", "comment");
+
+  // Comments are reached through their task, so the task's scopes apply
+  router.use(authenticate, validateTaskId);
+
+  /**
+   * @swagger
+   * /tasks/{id}/comments:
+   *   get:
+   *     summary: List the comments on a task
+   *     tags: [Comments]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Top-level comments, oldest first. Each carries its `replyCount`; list the replies
+   *       to a comment with `GET /tasks/{id}/comments/{commentId}/replies`.
+   *
+   *       The comments of a task in the trash are kept but cannot be reached until the task
+   *       is restored; purging the task deletes them.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *       - $ref: '#/components/parameters/PageNumber'
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *         description: Number of comments per page
+   *     responses:
+   *       200:
+   *         description: Comments retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Comments retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Comment'
+   *                 pagination:
+   *                   $ref: '#/components/schemas/Pagination'
+   *                 total:
+   *                   type: integer
+   *                   example: 3
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateQuery(commentQuerySchema),
+    getTaskCommentsController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/comments:
+   *   post:
+   *     summary: Comment on a task
+   *     tags: [Comments]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       Adds a top-level comment, or with `parentId` a reply to one. Threads are one level
+   *       deep: replying to a reply is a validation error.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateCommentRequest'
+   *           example:
+   *             body: "Waiting on the design review before starting on this."
+   *     responses:
+   *       201:
+   *         description: Comment created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Comment created successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Comment'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.post(
+    "/",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateBody(createCommentSchema),
+    createTaskCommentController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/comments/{commentId}:
+   *   get:
+   *     summary: Get a comment
+   *     tags: [Comments]
+   *     x-required-scope: tasks:read
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *       - in: path
+   *         name: commentId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the comment
+   *     responses:
+   *       200:
+   *         description: Comment retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Comment retrieved successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Comment'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/:commentId",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateCommentId,
+    getTaskCommentController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/comments/{commentId}/replies:
+   *   get:
+   *     summary: List the replies to a comment
+   *     tags: [Comments]
+   *     x-required-scope: tasks:read
+   *     description: Replies to a top-level comment, oldest first. A reply has no replies of its own.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *       - in: path
+   *         name: commentId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the comment
+   *       - $ref: '#/components/parameters/PageNumber'
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *         description: Number of replies per page
+   *     responses:
+   *       200:
+   *         description: Replies retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Replies retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Comment'
+   *                 pagination:
+   *                   $ref: '#/components/schemas/Pagination'
+   *                 total:
+   *                   type: integer
+   *                   example: 1
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/:commentId/replies",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateCommentId,
+    validateQuery(commentQuerySchema),
+    getCommentRepliesController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/comments/{commentId}:
+   *   put:
+   *     summary: Edit a comment
+   *     tags: [Comments]
+   *     x-required-scope: tasks:write
+   *     description: Replaces the body of the comment; its updatedAt shows it was edited.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *       - in: path
+   *         name: commentId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the comment
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/UpdateCommentRequest'
+   *           example:
+   *             body: "Design review is done; starting tomorrow."
+   *     responses:
+   *       200:
+   *         description: Comment updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Comment updated successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Comment'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.put(
+    "/:commentId",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateCommentId,
+    validateBody(updateCommentSchema),
+    updateTaskCommentController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/comments/{commentId}:
+   *   delete:
+   *     summary: Delete a comment
+   *     tags: [Comments]
+   *     x-required-scope: tasks:write
+   *     description: Deletes the comment along with its replies.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *       - in: path
+   *         name: commentId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the comment
+   *     responses:
+   *       200:
+   *         description: Comment deleted successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/SuccessResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.delete(
+    "/:commentId",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateCommentId,
+    deleteTaskCommentController
+  );
+
+  return router;
+};
@@ -0,0 +1,111 @@
+import express from "express";
+import { createGraphQLController } from "../controllers/graphqlController";
+import { TaskRepository } from "../repositories";
+import { authenticate } from "../middleware/auth";
+
+// Build the /graphql router around a task repository
+export const createGraphQLRoutes = (taskRepository: TaskRepository) => {
+  const router = express.Router();
+  const { executeGraphQLController, getPlaygroundController, getSchemaController } =
+    createGraphQLController(taskRepository);
+
+  /**
+   * @swagger
+   * /graphql:
+   *   servers:
+   *     - url: http://localhost:5000
+   *       description: Development server
+   *     - url: https://api.taskmanagement.com
+   *       description: Production server
+   *   post:
+   *     summary: Run a GraphQL query or mutation
+   *     tags: [GraphQL]
+   *     description: |
+   *       Queries `tasks` (with every filter and the pagination of `GET /api/tasks`),
+   *       `task`, `overdueTasks` and `taskStats`; tasks resolve their `parent`, `children`,
+   *       `blockers` and `dependents`. Mutations `createTask`, `updateTask` and `deleteTask`
+   *       follow the same validation, workflow and blocker rules as the REST routes, and
+   *       API keys need the same scopes. Operations may nest fields at most
+   *       `GRAPHQL_MAX_DEPTH` (default 10) levels deep.
+   *
+   *       Responses take the standard GraphQL form `{ "data", "errors" }`. Errors carry a
+   *       `code` extension: `BAD_USER_INPUT` (with the `errors` of a REST validation error),
+   *       `NOT_FOUND`, `FORBIDDEN`, `INVALID_TRANSITION`, `BLOCKED`, `PRECONDITION_FAILED`,
+   *       `CONFLICT` or `INTERNAL_SERVER_ERROR`. The schema is at `GET /graphql/schema`.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               query:
+   *                 type: string
+   *               variables:
+   *                 type: object
+   *               operationName:
+   *                 type: string
+   *             required: [query]
+   *           example:
+   *             query: "query { tasks(status: [PENDING], page: 1, limit: 5) { total tasks { id title } } }"
+   *     responses:
+   *       200:
+   *         description: The operation ran; errors of single fields are listed in errors
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 data:
+   *                   type: object
+   *                   nullable: true
+   *                 errors:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *       400:
+   *         description: The request or query could not be run, e.g. a syntax error or a query nested too deeply
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   *   get:
+   *     summary: GraphQL playground
+   *     tags: [GraphQL]
+   *     security: []
+   *     description: A page for writing and running GraphQL operations in the browser.
+   *     responses:
+   *       200:
+   *         description: The playground page
+   *         content:
+   *           text/html:
+   *             schema:
+   *               type: string
+   */
+  router.post("/", authenticate, executeGraphQLController);
+  router.get("/", getPlaygroundController);
+
+  /**
+   * @swagger
+   * /graphql/schema:
+   *   servers:
+   *     - url: http://localhost:5000
+   *       description: Development server
+   *     - url: https://api.taskmanagement.com
+   *       description: Production server
+   *   get:
+   *     summary: Get the GraphQL schema
+   *     tags: [GraphQL]
+   *     security: []
+   *     responses:
+   *       200:
+   *         description: The schema in the GraphQL schema language
+   *         content:
+   *           text/plain:
+   *             schema:
+   *               type: string
+   */
+  router.get("/schema", getSchemaController);
+
+  return router;
+};
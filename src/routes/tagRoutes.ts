@@ -0,0 +1,218 @@
+import express from "express";
+import { createTagController } from "../controllers/tagController";
+import { TaskRepository } from "../repositories";
+import {
+  validateBody,
+  validateUUIDParam,
+  tagSchema,
+} from "../middleware/validation";
+import { authenticate, requireScope } from "../middleware/auth";
+import { ApiKeyScope } from "../models/apiKey";
+
+// Build the /api/tags router around a task repository
+export const createTagRoutes = (taskRepository: TaskRepository) => {
+  const router = express.Router();
+  const {
+    getTagsController,
+    createTag,
+    renameTagController,
+    deleteTagController,
+  } = createTagController(taskRepository);
+
+  const validateTagId = validateUUIDParam("id", "tag");
+
+  // Tags belong to the authenticated caller, like their tasks
+  router.use(authenticate);
+
+  /**
+   * @swagger
+   * /tags:
+   *   get:
+   *     summary: List your tags with usage counts
+   *     tags: [Tags]
+   *     x-required-scope: tasks:read
+   *     responses:
+   *       200:
+   *         description: Tags retrieved successfully, ordered by name
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Tags retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/TagWithUsage'
+   *                 total:
+   *                   type: integer
+   *                   example: 3
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get("/", requireScope(ApiKeyScope.TASKS_READ), getTagsController);
+
+  /**
+   * @swagger
+   * /tags:
+   *   post:
+   *     summary: Create a tag
+   *     tags: [Tags]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       Tags are also created automatically when a task is saved with a tag name
+   *       that does not exist yet. Names are case-insensitive and stored in lower case.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/TagRequest'
+   *           example:
+   *             name: "work"
+   *     responses:
+   *       201:
+   *         description: Tag created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Tag created successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Tag'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       409:
+   *         $ref: '#/components/responses/Conflict'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.post(
+    "/",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateBody(tagSchema),
+    createTag
+  );
+
+  /**
+   * @swagger
+   * /tags/{id}:
+   *   put:
+   *     summary: Rename a tag
+   *     tags: [Tags]
+   *     x-required-scope: tasks:write
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the tag
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/TagRequest'
+   *           example:
+   *             name: "office"
+   *     responses:
+   *       200:
+   *         description: Tag renamed successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Tag renamed successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Tag'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         $ref: '#/components/responses/Conflict'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.put(
+    "/:id",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateTagId,
+    validateBody(tagSchema),
+    renameTagController
+  );
+
+  /**
+   * @swagger
+   * /tags/{id}:
+   *   delete:
+   *     summary: Delete a tag
+   *     tags: [Tags]
+   *     x-required-scope: tasks:delete
+   *     description: Deletes the tag and removes it from every task carrying it. The tasks themselves are kept.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the tag
+   *     responses:
+   *       200:
+   *         description: Tag deleted successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/SuccessResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.delete(
+    "/:id",
+    requireScope(ApiKeyScope.TASKS_DELETE),
+    validateTagId,
+    deleteTagController
+  );
+
+  return router;
+};
@@ -1,473 +1,2123 @@
 import express from "express";
-import {
-  createTask,
-  getAllTasksController,
-  getTaskByIdController,
-  updateTaskController,
-  deleteTaskController,
-  getTaskStats,
-} from "../controllers/taskController";
+import { createTaskController } from "../controllers/taskController";
+import { createTaskEventController } from "../controllers/taskEventController";
+import { TaskRepository } from "../repositories";
 import {
   validateBody,
   validateQuery,
   validateUUID,
+  validateUUIDParam,
+  validateIfMatch,
   createTaskSchema,
-  updateTaskSchema,
+  replaceTaskSchema,
+  validatePatch,
   queryParamsSchema,
+  deleteTaskQuerySchema,
+  updateTaskQuerySchema,
+  addBlockerSchema,
+  revertTaskSchema,
+  occurrenceQuerySchema,
+  trashQuerySchema,
+  bulkRequestSchema,
+  exportQuerySchema,
+  taskEventQuerySchema,
+  importQuerySchema,
+  validateImportType,
 } from "../middleware/validation";
+import { authenticate, requireScope } from "../middleware/auth";
+import { ApiKeyScope } from "../models/apiKey";
 
-const router = express.Router();
+// Build the /api/tasks router around a task repository
+export const createTaskRoutes = (taskRepository: TaskRepository) => {
+  const router = express.Router();
+  const {
+    createTask,
+    getAllTasksController,
+    getOverdueTasksController,
+    getTaskByIdController,
+    getTaskChildrenController,
+    getTaskSubtreeController,
+    getTaskBlockersController,
+    getTaskDependentsController,
+    addTaskBlockerController,
+    removeTaskBlockerController,
+    getTaskHistoryController,
+    revertTaskController,
+    updateTaskController,
+    patchTaskController,
+    getTaskOccurrencesController,
+    skipTaskOccurrenceController,
+    endTaskRecurrenceController,
+    deleteTaskController,
+    bulkTasksController,
+    exportTasksController,
+    importTasksController,
+    getTrashController,
+    restoreTaskController,
+    purgeTaskController,
+    emptyTrashController,
+    getTaskStats,
+  } = createTaskController(taskRepository);
+  const { streamTaskEventsController } = createTaskEventController(taskRepository);
 
-/**
- * @swagger
- * /tasks:
- *   post:
- *     summary: Create a new task
- *     tags: [Tasks]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreateTaskRequest'
- *           examples:
- *             basic:
- *               summary: Basic task creation
- *               value:
- *                 title: "Complete project documentation"
- *                 description: "Write comprehensive documentation for the API"
- *                 status: "PENDING"
- *             minimal:
- *               summary: Minimal task (title only)
- *               value:
- *                 title: "Review code changes"
- *     responses:
- *       201:
- *         description: Task created successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Task created successfully"
- *                 data:
- *                   $ref: '#/components/schemas/Task'
- *       400:
- *         description: Validation error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- *             example:
- *               success: false
- *               message: "Validation failed"
- *               errors:
- *                 - field: "title"
- *                   message: "Title is required"
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- */
-router.post("/", validateBody(createTaskSchema), createTask);
+  // Every task route requires an authenticated caller
+  router.use(authenticate);
 
-/**
- * @swagger
- * /tasks:
- *   get:
- *     summary: Get all tasks with pagination and filtering
- *     tags: [Tasks]
- *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           minimum: 1
- *           default: 1
- *         description: Page number for pagination
- *         example: 1
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           minimum: 1
- *           maximum: 100
- *           default: 10
- *         description: Number of tasks per page
- *         example: 10
- *       - in: query
- *         name: status
- *         schema:
- *           $ref: '#/components/schemas/TaskStatus'
- *         description: Filter tasks by status
- *         example: "PENDING"
- *       - in: query
- *         name: search
- *         schema:
- *           type: string
- *         description: Search tasks by title or description
- *         example: "groceries"
- *       - in: query
- *         name: sortBy
- *         schema:
- *           type: string
- *           enum: [createdAt, updatedAt, title, status]
- *           default: createdAt
- *         description: Field to sort by
- *         example: "createdAt"
- *       - in: query
- *         name: sortOrder
- *         schema:
- *           type: string
- *           enum: [asc, desc]
- *           default: desc
- *         description: Sort order
- *         example: "desc"
- *     responses:
- *       200:
- *         description: Tasks retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Tasks retrieved successfully"
- *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Task'
- *                 pagination:
- *                   $ref: '#/components/schemas/Pagination'
- *             examples:
- *               success:
- *                 summary: Successful response with tasks
- *                 value:
- *                   success: true
- *                   message: "Tasks retrieved successfully"
- *                   data:
- *                     - id: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
- *                       title: "Buy groceries"
- *                       description: "Milk, eggs, bread, and fruits"
- *                       status: "PENDING"
- *                       createdAt: "2023-10-27T10:00:00.000Z"
- *                       updatedAt: "2023-10-27T10:00:00.000Z"
- *                   pagination:
- *                     currentPage: 1
- *                     totalPages: 3
- *                     totalItems: 25
- *                     itemsPerPage: 10
- *       400:
- *         description: Invalid query parameters
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- */
-router.get("/", validateQuery(queryParamsSchema), getAllTasksController);
+  /**
+   * @swagger
+   * /tasks:
+   *   post:
+   *     summary: Create a new task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:write
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateTaskRequest'
+   *           examples:
+   *             basic:
+   *               summary: Basic task creation
+   *               value:
+   *                 title: "Complete project documentation"
+   *                 description: "Write comprehensive documentation for the API"
+   *                 status: "PENDING"
+   *                 priority: "HIGH"
+   *                 dueDate: "2023-11-03T17:00:00.000Z"
+   *                 tags: ["work", "docs"]
+   *             minimal:
+   *               summary: Minimal task (title only)
+   *               value:
+   *                 title: "Review code changes"
+   *     responses:
+   *       201:
+   *         description: Task created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task created successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Task'
+   *       400:
+   *         description: Validation error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             example:
+   *               success: false
+   *               message: "Validation failed"
+   *               errors:
+   *                 - field: "title"
+   *                   message: "Title is required"
+   *       409:
+   *         description: The workflow does not allow creating tasks with this status
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             example:
+   *               success: false
+   *               message: "Tasks cannot be created with status COMPLETED"
+   *               allowedStatuses: ["PENDING", "IN_PROGRESS"]
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   */
+  router.post(
+    "/",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateBody(createTaskSchema),
+    createTask
+  );
 
-/**
- * @swagger
- * /tasks/stats:
- *   get:
- *     summary: Get task statistics
- *     tags: [Tasks]
- *     description: Retrieve statistics about tasks including total count and count by status
- *     responses:
- *       200:
- *         description: Task statistics retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Task statistics retrieved successfully"
- *                 data:
- *                   $ref: '#/components/schemas/TaskStats'
- *             examples:
- *               success:
- *                 summary: Successful statistics response
- *                 value:
- *                   success: true
- *                   message: "Task statistics retrieved successfully"
- *                   data:
- *                     total: 15
- *                     pending: 5
- *                     inProgress: 7
- *                     completed: 3
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- */
-router.get("/stats", getTaskStats);
+  /**
+   * @swagger
+   * /tasks:
+   *   get:
+   *     summary: Get all tasks with pagination and filtering
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:read
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *         description: Page number for pagination
+   *         example: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *         description: |
+   *           Number of tasks per page. Given without `page`, `after` or `before` it
+   *           returns page 1. Pages in newest-first order (no `sort`, and no relevance
+   *           order) include `pagination.nextCursor`, which starts cursor-based pagination.
+   *         example: 10
+   *       - in: query
+   *         name: after
+   *         schema:
+   *           type: string
+   *         description: |
+   *           Opaque cursor (`pagination.nextCursor` of a previous response) returning the
+   *           page after it. Cursor pages are always ordered by creation date, newest first,
+   *           and are stable while tasks are being added. Cannot be combined with `page` or `before`.
+   *       - in: query
+   *         name: before
+   *         schema:
+   *           type: string
+   *         description: |
+   *           Opaque cursor (`pagination.prevCursor` of a previous response) returning the
+   *           page before it. Cannot be combined with `page` or `after`.
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: array
+   *           items:
+   *             $ref: '#/components/schemas/TaskStatus'
+   *         style: form
+   *         explode: false
+   *         description: |
+   *           Filter tasks by one or more statuses, comma-separated
+   *           (`status=PENDING,IN_PROGRESS`) or repeated (`status=PENDING&status=IN_PROGRESS`)
+   *         example: ["PENDING", "IN_PROGRESS"]
+   *       - in: query
+   *         name: search
+   *         schema:
+   *           type: string
+   *           maxLength: 100
+   *         description: |
+   *           Full-text search over title and description. Supports "quoted phrases",
+   *           prefix* matching and the AND, OR and NOT operators (upper case), e.g.
+   *           `"weekly report" OR invoic*`. Results include highlighted matches.
+   *         example: "groceries"
+   *       - in: query
+   *         name: orderBy
+   *         schema:
+   *           type: string
+   *           enum: [relevance, date]
+   *         description: |
+   *           Ordering of search results: by relevance (default when `search` is set)
+   *           or by creation date, newest first.
+   *         example: "relevance"
+   *       - in: query
+   *         name: priority
+   *         schema:
+   *           type: array
+   *           items:
+   *             $ref: '#/components/schemas/TaskPriority'
+   *         style: form
+   *         explode: false
+   *         description: Filter tasks by one or more priorities
+   *         example: ["HIGH", "URGENT"]
+   *       - in: query
+   *         name: tags
+   *         schema:
+   *           type: array
+   *           items:
+   *             type: string
+   *         style: form
+   *         explode: false
+   *         description: Filter tasks by tag names, comma-separated or repeated
+   *         example: ["work", "urgent"]
+   *       - in: query
+   *         name: tagMatch
+   *         schema:
+   *           type: string
+   *           enum: [all, any]
+   *           default: all
+   *         description: |
+   *           Whether tasks must carry all of the given `tags` (default) or any of them
+   *       - in: query
+   *         name: parentId
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Only the direct subtasks of this task
+   *       - in: query
+   *         name: ready
+   *         schema:
+   *           type: boolean
+   *         description: |
+   *           `true` keeps tasks whose blockers are all COMPLETED (or that have none);
+   *           `false` keeps tasks still waiting on an incomplete blocker
+   *       - in: query
+   *         name: dueAfter
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only tasks due strictly after this time (tasks without a due date are excluded)
+   *       - in: query
+   *         name: dueBefore
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only tasks due strictly before this time (tasks without a due date are excluded)
+   *         example: "2023-11-01T00:00:00.000Z"
+   *       - in: query
+   *         name: createdFrom
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only tasks created at or after this time
+   *         example: "2023-10-01T00:00:00.000Z"
+   *       - in: query
+   *         name: createdTo
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only tasks created at or before this time
+   *         example: "2023-10-31T23:59:59.999Z"
+   *       - in: query
+   *         name: updatedFrom
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only tasks last updated at or after this time
+   *       - in: query
+   *         name: updatedTo
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *         description: Only tasks last updated at or before this time
+   *       - $ref: '#/components/parameters/Sort'
+   *     responses:
+   *       200:
+   *         description: Tasks retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Tasks retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/TaskListItem'
+   *                 pagination:
+   *                   oneOf:
+   *                     - $ref: '#/components/schemas/Pagination'
+   *                     - $ref: '#/components/schemas/CursorPagination'
+   *             examples:
+   *               success:
+   *                 summary: Successful response with tasks
+   *                 value:
+   *                   success: true
+   *                   message: "Tasks retrieved successfully"
+   *                   data:
+   *                     - id: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   *                       title: "Buy groceries"
+   *                       description: "Milk, eggs, bread, and fruits"
+   *                       status: "PENDING"
+   *                       createdAt: "2023-10-27T10:00:00.000Z"
+   *                       updatedAt: "2023-10-27T10:00:00.000Z"
+   *                   pagination:
+   *                     currentPage: 1
+   *                     totalPages: 3
+   *                     totalItems: 25
+   *                     itemsPerPage: 10
+   *               cursor:
+   *                 summary: Cursor-paginated response
+   *                 value:
+   *                   success: true
+   *                   message: "Tasks retrieved successfully"
+   *                   data:
+   *                     - id: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   *                       title: "Buy groceries"
+   *                       description: "Milk, eggs, bread, and fruits"
+   *                       status: "PENDING"
+   *                       createdAt: "2023-10-27T10:00:00.000Z"
+   *                       updatedAt: "2023-10-27T10:00:00.000Z"
+   *                   pagination:
+   *                     itemsPerPage: 10
+   *                     totalItems: 25
+   *                     nextCursor: "WyIyMDIzLTEwLTI3VDEwOjAwOjAwLjAwMFoiLCJhMWIyYzNkNCJd"
+   *                     prevCursor: null
+   *                     hasNextPage: true
+   *                     hasPreviousPage: false
+   *       400:
+   *         description: Invalid query parameters
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   */
+  router.get(
+    "/",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateQuery(queryParamsSchema),
+    getAllTasksController
+  );
 
-/**
- * @swagger
- * /tasks/{id}:
- *   get:
- *     summary: Get a task by ID
- *     tags: [Tasks]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: The unique identifier of the task
- *         example: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
- *     responses:
- *       200:
- *         description: Task retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Task retrieved successfully"
- *                 data:
- *                   $ref: '#/components/schemas/Task'
- *             examples:
- *               success:
- *                 summary: Successful task retrieval
- *                 value:
- *                   success: true
- *                   message: "Task retrieved successfully"
- *                   data:
- *                     id: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
- *                     title: "Buy groceries"
- *                     description: "Milk, eggs, bread, and fruits"
- *                     status: "PENDING"
- *                     createdAt: "2023-10-27T10:00:00.000Z"
- *                     updatedAt: "2023-10-27T10:00:00.000Z"
- *       400:
- *         description: Invalid UUID format
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- *             example:
- *               success: false
- *               message: "Invalid UUID format"
- *               errors: null
- *       404:
- *         description: Task not found
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- *             example:
- *               success: false
- *               message: "Task not found"
- *               errors: null
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- */
-router.get("/:id", validateUUID, getTaskByIdController);
+  /**
+   * @swagger
+   * /tasks/stats:
+   *   get:
+   *     summary: Get task statistics
+   *     tags: [Tasks]
+   *     x-required-scope: stats:read
+   *     description: Retrieve statistics about tasks including total count and count by status
+   *     responses:
+   *       200:
+   *         description: Task statistics retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task statistics retrieved successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/TaskStats'
+   *             examples:
+   *               success:
+   *                 summary: Successful statistics response
+   *                 value:
+   *                   success: true
+   *                   message: "Task statistics retrieved successfully"
+   *                   data:
+   *                     total: 15
+   *                     pending: 5
+   *                     inProgress: 7
+   *                     completed: 3
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   */
+  router.get("/stats", requireScope(ApiKeyScope.STATS_READ), getTaskStats);
 
-/**
- * @swagger
- * /tasks/{id}:
- *   put:
- *     summary: Update a task by ID
- *     tags: [Tasks]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: The unique identifier of the task
- *         example: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/UpdateTaskRequest'
- *           examples:
- *             fullUpdate:
- *               summary: Update all fields
- *               value:
- *                 title: "Buy groceries and cook dinner"
- *                 description: "Milk, eggs, bread, fruits, and ingredients for pasta"
- *                 status: "IN_PROGRESS"
- *             statusOnly:
- *               summary: Update status only
- *               value:
- *                 status: "COMPLETED"
- *             titleAndDescription:
- *               summary: Update title and description
- *               value:
- *                 title: "Updated task title"
- *                 description: "Updated task description"
- *     responses:
- *       200:
- *         description: Task updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Task updated successfully"
- *                 data:
- *                   $ref: '#/components/schemas/Task'
- *       400:
- *         description: Validation error or invalid UUID
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- *             examples:
- *               validationError:
- *                 summary: Validation error
- *                 value:
- *                   success: false
- *                   message: "Validation failed"
- *                   errors:
- *                     - field: "title"
- *                       message: "Title must be between 1 and 100 characters"
- *               invalidUUID:
- *                 summary: Invalid UUID
- *                 value:
- *                   success: false
- *                   message: "Invalid UUID format"
- *                   errors: null
- *       404:
- *         description: Task not found
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- *             example:
- *               success: false
- *               message: "Task not found"
- *               errors: null
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- */
-router.put(
-  "/:id",
-  validateUUID,
-  validateBody(updateTaskSchema),
-  updateTaskController
-);
+  /**
+   * @swagger
+   * /tasks/overdue:
+   *   get:
+   *     summary: Get overdue tasks
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Tasks that are not COMPLETED and whose due date has passed, ordered by urgency:
+   *       highest priority first, then the longest overdue.
+   *     responses:
+   *       200:
+   *         description: Overdue tasks retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Overdue tasks retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Task'
+   *                 total:
+   *                   type: number
+   *                   example: 2
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/overdue",
+    requireScope(ApiKeyScope.TASKS_READ),
+    getOverdueTasksController
+  );
+
+  /**
+   * @swagger
+   * /tasks/bulk:
+   *   post:
+   *     summary: Create, update and delete many tasks at once
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       Runs up to 100 operations in order inside a single transaction. Each operation is
+   *       validated like the body of its own endpoint and follows the same rules (status
+   *       workflow, blockers, subtask handling on delete, `version` works like `If-Match`).
+   *       Delete operations also need the `tasks:delete` scope; with an API key that lacks
+   *       it they fail with status 403.
+   *
+   *       - `all-or-nothing` (default): if any operation is invalid or fails, nothing is
+   *         changed and the response carries the failing operation with its status code.
+   *       - `best-effort`: operations that fail are rolled back on their own and reported;
+   *         the rest are kept.
+   *
+   *       An update takes either an `id` or a `filter` with the same fields as the task list
+   *       query (without paging or sorting) and then applies to every matching task.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/BulkRequest'
+   *           examples:
+   *             closeSprint:
+   *               summary: Complete every task tagged sprint-12
+   *               value:
+   *                 operations:
+   *                   - op: update
+   *                     filter:
+   *                       tags: ["sprint-12"]
+   *                     data:
+   *                       status: COMPLETED
+   *                     ignoreBlockers: true
+   *             mixed:
+   *               summary: Create, update and delete in one go
+   *               value:
+   *                 mode: best-effort
+   *                 operations:
+   *                   - op: create
+   *                     data:
+   *                       title: "Write release notes"
+   *                   - op: update
+   *                     id: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   *                     version: 3
+   *                     data:
+   *                       priority: HIGH
+   *                   - op: delete
+   *                     id: "b2c3d4e5-f6a7-4890-9234-567890abcdef"
+   *                     children: cascade
+   *     responses:
+   *       200:
+   *         description: Operations ran; in best-effort mode some may have failed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/BulkResponse'
+   *       400:
+   *         description: The request or, in all-or-nothing mode, one of its operations is invalid
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/BulkResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         description: The API key lacks tasks:write or, in all-or-nothing mode, a delete operation needs tasks:delete
+   *         content:
+   *           application/json:
+   *             schema:
+   *               oneOf:
+   *                 - $ref: '#/components/schemas/ErrorResponse'
+   *                 - $ref: '#/components/schemas/BulkResponse'
+   *       404:
+   *         description: All-or-nothing mode and an operation's task was not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/BulkResponse'
+   *       409:
+   *         description: All-or-nothing mode and an operation conflicted (workflow, blockers or subtasks)
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/BulkResponse'
+   *       412:
+   *         description: All-or-nothing mode and an operation's version was stale
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/BulkResponse'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.post(
+    "/bulk",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateBody(bulkRequestSchema),
+    bulkTasksController
+  );
+
+  /**
+   * @swagger
+   * /tasks/export:
+   *   get:
+   *     summary: Export tasks as CSV, JSON or NDJSON
+   *     tags: [Import/Export]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Downloads the caller's tasks, newest first, as a file attachment. Takes every filter
+   *       of `GET /tasks` (`status`, `priority`, `tags`, `tagMatch`, `parentId`, `ready`,
+   *       `search`, and the due, created and updated date ranges) but no paging or sorting:
+   *       all matching tasks are exported. The file is streamed as tasks are read, so large
+   *       exports start at once and use little memory.
+   *
+   *       - `json`: an array of tasks as returned by `GET /tasks/{id}`
+   *       - `ndjson`: one task per line
+   *       - `csv`: a header row, then one row per task with columns id, title, description,
+   *         status, priority, dueDate, tags, parentId, createdAt and updatedAt; tags are joined
+   *         with commas in one cell. A cell starting with `=`, `+`, `-`, `@`, a tab or a carriage
+   *         return, possibly after some `'`, gets one more leading `'` so spreadsheets do not run
+   *         it as a formula
+   *     parameters:
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [csv, json, ndjson]
+   *           default: json
+   *         description: File format of the export
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *         description: Comma-separated statuses to export
+   *       - in: query
+   *         name: tags
+   *         schema:
+   *           type: string
+   *         description: Comma-separated tag names to export (see `tagMatch` on `GET /tasks`)
+   *       - in: query
+   *         name: search
+   *         schema:
+   *           type: string
+   *         description: Full-text search expression, as on `GET /tasks`
+   *     responses:
+   *       200:
+   *         description: The exported tasks
+   *         headers:
+   *           Content-Disposition:
+   *             schema:
+   *               type: string
+   *             description: 'attachment; filename="tasks-YYYY-MM-DD.<format>"'
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/Task'
+   *           application/x-ndjson:
+   *             schema:
+   *               type: string
+   *             example: |
+   *               {"id":"a1b2c3d4-e5f6-7890-1234-567890abcdef","title":"Buy groceries","status":"PENDING"}
+   *           text/csv:
+   *             schema:
+   *               type: string
+   *             example: |
+   *               id,title,description,status,priority,dueDate,tags,parentId,createdAt,updatedAt
+   *               a1b2c3d4-e5f6-7890-1234-567890abcdef,Buy groceries,,PENDING,MEDIUM,,"home,errands",,2023-10-27T10:00:00.000Z,2023-10-27T10:00:00.000Z
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/export",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateQuery(exportQuerySchema),
+    exportTasksController
+  );
+
+  /**
+   * @swagger
+   * /tasks/events:
+   *   get:
+   *     summary: Stream live task changes
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       A Server-Sent Events stream of the caller's task changes as they are saved, for
+   *       use with `EventSource`. Each event is named `task.created`, `task.updated`,
+   *       `task.deleted` or `task.restored`, and its data is JSON of the form
+   *       `{ "id", "type", "createdAt", "data": { "task" } }`, like a webhook delivery; the
+   *       task of a `task.deleted` event is the task as it was before it was deleted.
+   *
+   *       Takes every filter of `GET /tasks` but no paging or sorting. An update is sent
+   *       when the task matches the filters before or after it, so clients also learn
+   *       when a task leaves their view.
+   *
+   *       A comment is sent every `EVENT_HEARTBEAT_SECONDS` (15 by default) to keep the
+   *       connection open. Clients reconnecting with the `Last-Event-ID` header, or the
+   *       `lastEventId` parameter, first get the events they missed from a log of the
+   *       latest `EVENT_LOG_SIZE` events. When some of them are no longer in the log, or
+   *       the server has restarted since, a `reset` event is sent instead and the client
+   *       should reload its tasks.
+   *     parameters:
+   *       - in: header
+   *         name: Last-Event-ID
+   *         schema:
+   *           type: string
+   *         description: Id of the last event received, to resume after
+   *       - in: query
+   *         name: lastEventId
+   *         schema:
+   *           type: string
+   *         description: Same as the Last-Event-ID header, which wins when both are given
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *         description: Comma-separated statuses to stream changes of
+   *       - in: query
+   *         name: tags
+   *         schema:
+   *           type: string
+   *         description: Comma-separated tag names to stream changes of (see `tagMatch` on `GET /tasks`)
+   *       - in: query
+   *         name: search
+   *         schema:
+   *           type: string
+   *         description: Full-text search expression, as on `GET /tasks`
+   *     responses:
+   *       200:
+   *         description: The event stream
+   *         content:
+   *           text/event-stream:
+   *             schema:
+   *               type: string
+   *             example: |
+   *               retry: 3000
+   *
+   *               id: lq3k8x2a-7
+   *               event: task.updated
+   *               data: {"id":"lq3k8x2a-7","type":"task.updated","createdAt":"2023-10-27T10:05:00.000Z","data":{"task":{"id":"a1b2c3d4-e5f6-7890-1234-567890abcdef","title":"Buy groceries","status":"IN_PROGRESS"}}}
+   *
+   *               : heartbeat
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/events",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateQuery(taskEventQuerySchema),
+    streamTaskEventsController
+  );
+
+  /**
+   * @swagger
+   * /tasks/import:
+   *   post:
+   *     summary: Import tasks from CSV, JSON or NDJSON
+   *     tags: [Import/Export]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       The format is taken from the Content-Type and matches the export formats, so an
+   *       export can be imported as it is. Each task is validated like the body of
+   *       `POST /tasks` and follows the same rules; the read-only fields of an export
+   *       (`userId`, `version`, `createdAt`, `updatedAt`, `deletedAt`) are ignored. In a CSV
+   *       only the `title` column is required and an empty cell counts as a missing field, and
+   *       the `'` the export puts in front of formula-like cells is removed again.
+   *
+   *       Every row is reported with its outcome. Rows that fail are skipped and the others
+   *       are saved, unless `dryRun` is set: then every row is checked against the current
+   *       data exactly as a real import would, and nothing is saved. Other changes wait
+   *       until an import has finished, so a dry run never undoes them.
+   *
+   *       Without `upsert` every row creates a new task and `id` is ignored. With `upsert`,
+   *       a row whose `id` names one of your tasks updates that task with the fields the row
+   *       gives; a row with any other `id` creates the task under that ID. Upsert keeps
+   *       `parentId` references of an export valid when it is imported again.
+   *     parameters:
+   *       - in: query
+   *         name: dryRun
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Validate the import and report every row without saving anything
+   *       - in: query
+   *         name: upsert
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Update or create tasks by the `id` of each row
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: array
+   *             items:
+   *               $ref: '#/components/schemas/CreateTaskRequest'
+   *         application/x-ndjson:
+   *           schema:
+   *             type: string
+   *           example: |
+   *             {"title":"Buy groceries","tags":["home"]}
+   *             {"title":"File taxes","priority":"HIGH","dueDate":"2024-04-15T00:00:00.000Z"}
+   *         text/csv:
+   *           schema:
+   *             type: string
+   *           example: |
+   *             title,priority,tags
+   *             Buy groceries,LOW,"home,errands"
+   *             File taxes,HIGH,
+   *     responses:
+   *       200:
+   *         description: Import (or dry run) completed; see each row for its outcome
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ImportResponse'
+   *       400:
+   *         description: Invalid query parameters, an empty import, or a body that cannot be read
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       415:
+   *         description: The Content-Type is not text/csv, application/json or application/x-ndjson
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.post(
+    "/import",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateImportType,
+    express.text({ type: ["text/csv", "application/x-ndjson"], limit: "10mb" }),
+    validateQuery(importQuerySchema),
+    importTasksController
+  );
+
+  /**
+   * @swagger
+   * /tasks/trash:
+   *   get:
+   *     summary: List trashed tasks
+   *     tags: [Trash]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Tasks you deleted, most recently deleted first. Trashed tasks are purged for good
+   *       once they are older than the server's retention period (`TRASH_RETENTION_DAYS`).
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 20
+   *     responses:
+   *       200:
+   *         description: Trash retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Trash retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Task'
+   *                 pagination:
+   *                   $ref: '#/components/schemas/Pagination'
+   *                 total:
+   *                   type: integer
+   *                   example: 2
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   *   delete:
+   *     summary: Empty the trash
+   *     tags: [Trash]
+   *     x-required-scope: tasks:delete
+   *     description: Permanently deletes every task in your trash. This cannot be undone.
+   *     responses:
+   *       200:
+   *         description: Trash emptied successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Trash emptied successfully"
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     purged:
+   *                       type: integer
+   *                       example: 3
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/trash",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateQuery(trashQuerySchema),
+    getTrashController
+  );
+  router.delete(
+    "/trash",
+    requireScope(ApiKeyScope.TASKS_DELETE),
+    emptyTrashController
+  );
+
+  /**
+   * @swagger
+   * /tasks/trash/{id}/restore:
+   *   post:
+   *     summary: Restore a trashed task
+   *     tags: [Trash]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       Moves the task back to the task list together with the subtasks that were
+   *       trashed along with it. If its parent is no longer live the task is restored
+   *       as a top-level task. A `task.restored` event is sent for every restored task.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the trashed task
+   *     responses:
+   *       200:
+   *         description: Task restored successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task restored successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Task'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.post(
+    "/trash/:id/restore",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateUUID,
+    restoreTaskController
+  );
+
+  /**
+   * @swagger
+   * /tasks/trash/{id}:
+   *   delete:
+   *     summary: Permanently delete a trashed task
+   *     tags: [Trash]
+   *     x-required-scope: tasks:delete
+   *     description: Purges the task and its trashed subtasks. This cannot be undone.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the trashed task
+   *     responses:
+   *       200:
+   *         description: Task permanently deleted
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/SuccessResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.delete(
+    "/trash/:id",
+    requireScope(ApiKeyScope.TASKS_DELETE),
+    validateUUID,
+    purgeTaskController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}:
+   *   get:
+   *     summary: Get a task by ID
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:read
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the task
+   *         example: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   *     responses:
+   *       200:
+   *         description: Task retrieved successfully
+   *         headers:
+   *           ETag:
+   *             $ref: '#/components/headers/ETag'
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task retrieved successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Task'
+   *             examples:
+   *               success:
+   *                 summary: Successful task retrieval
+   *                 value:
+   *                   success: true
+   *                   message: "Task retrieved successfully"
+   *                   data:
+   *                     id: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   *                     title: "Buy groceries"
+   *                     description: "Milk, eggs, bread, and fruits"
+   *                     status: "PENDING"
+   *                     createdAt: "2023-10-27T10:00:00.000Z"
+   *                     updatedAt: "2023-10-27T10:00:00.000Z"
+   *       400:
+   *         description: Invalid UUID format
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             example:
+   *               success: false
+   *               message: "Invalid UUID format"
+   *               errors: null
+   *       404:
+   *         description: Task not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             example:
+   *               success: false
+   *               message: "Task not found"
+   *               errors: null
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   */
+  router.get(
+    "/:id",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateUUID,
+    getTaskByIdController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/children:
+   *   get:
+   *     summary: Get the direct subtasks of a task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Lists the tasks whose `parentId` is this task. Each subtask carries a `progress`
+   *       rollup of its own descendants.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *     responses:
+   *       200:
+   *         description: Subtasks retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Subtasks retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     allOf:
+   *                       - $ref: '#/components/schemas/Task'
+   *                       - type: object
+   *                         properties:
+   *                           progress:
+   *                             $ref: '#/components/schemas/TaskProgress'
+   *                 total:
+   *                   type: integer
+   *                   example: 2
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/:id/children",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateUUID,
+    getTaskChildrenController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/subtree:
+   *   get:
+   *     summary: Get a task with all of its subtasks nested under it
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Returns the task with `children` nested recursively. Every node has a `progress`
+   *       rollup counting how many of its descendants are COMPLETED.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *     responses:
+   *       200:
+   *         description: Task subtree retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task subtree retrieved successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/TaskNode'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/:id/subtree",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateUUID,
+    getTaskSubtreeController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/blockers:
+   *   get:
+   *     summary: List the tasks blocking a task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:read
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *     responses:
+   *       200:
+   *         description: Blockers retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Blockers retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Task'
+   *                 total:
+   *                   type: integer
+   *                   example: 1
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/:id/blockers",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateUUID,
+    getTaskBlockersController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/blockers:
+   *   post:
+   *     summary: Mark a task as blocked by another task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       The task cannot be moved to IN_PROGRESS or COMPLETED until the blocker is COMPLETED.
+   *       Adding a dependency that already exists has no effect; one that would make a task
+   *       (indirectly) wait on itself is rejected with 400.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               blockerId:
+   *                 type: string
+   *                 format: uuid
+   *             required: [blockerId]
+   *           example:
+   *             blockerId: "b2c3d4e5-f6a7-4890-9234-567890abcdef"
+   *     responses:
+   *       201:
+   *         description: Blocker added; returns all blockers of the task
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Blocker added successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Task'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.post(
+    "/:id/blockers",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateUUID,
+    validateBody(addBlockerSchema),
+    addTaskBlockerController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/blockers/{blockerId}:
+   *   delete:
+   *     summary: Remove a blocker from a task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:write
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *       - in: path
+   *         name: blockerId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The blocking task to remove
+   *     responses:
+   *       200:
+   *         description: Blocker removed successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/SuccessResponse'
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.delete(
+    "/:id/blockers/:blockerId",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateUUID,
+    validateUUIDParam("blockerId", "blocker"),
+    removeTaskBlockerController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/dependents:
+   *   get:
+   *     summary: List the tasks blocked by a task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:read
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *     responses:
+   *       200:
+   *         description: Dependents retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Dependents retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Task'
+   *                 total:
+   *                   type: integer
+   *                   example: 1
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/:id/dependents",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateUUID,
+    getTaskDependentsController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/history:
+   *   get:
+   *     summary: Get the change history of a task
+   *     tags: [Audit]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Every recorded create, update and delete of the task, oldest revision first.
+   *       The history of a deleted task remains available.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *     responses:
+   *       200:
+   *         description: Task history retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task history retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/AuditEntry'
+   *                 total:
+   *                   type: integer
+   *                   example: 3
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/:id/history",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateUUID,
+    getTaskHistoryController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/revert:
+   *   post:
+   *     summary: Revert a task to an earlier revision
+   *     tags: [Audit]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       Restores the task's title, description, status, priority, due date, tags and parent
+   *       to their values at the given revision. The revert is recorded as a new revision and
+   *       follows the rules of any update: the status change must be allowed by the workflow,
+   *       a blocked task cannot be started or completed, and completing a recurring task
+   *       creates its next occurrence.
+   *     parameters:
+   *       - $ref: '#/components/parameters/IfMatch'
+   *       - $ref: '#/components/parameters/TaskId'
+   *       - in: query
+   *         name: ignoreBlockers
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Allow moving the task to IN_PROGRESS or COMPLETED even though a blocker is incomplete
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               revision:
+   *                 type: integer
+   *                 minimum: 1
+   *             required: [revision]
+   *           example:
+   *             revision: 2
+   *     responses:
+   *       200:
+   *         description: Task reverted successfully
+   *         headers:
+   *           ETag:
+   *             $ref: '#/components/headers/ETag'
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task reverted to revision 2"
+   *                 data:
+   *                   $ref: '#/components/schemas/Task'
+   *                 nextOccurrence:
+   *                   $ref: '#/components/schemas/Task'
+   *                   description: The task created for the next occurrence, when the revert completed a recurring task
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         description: The workflow does not allow moving back to the revision's status, or the task is blocked
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *       412:
+   *         $ref: '#/components/responses/PreconditionFailed'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.post(
+    "/:id/revert",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateUUID,
+    validateIfMatch,
+    validateQuery(updateTaskQuerySchema),
+    validateBody(revertTaskSchema),
+    revertTaskController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/occurrences:
+   *   get:
+   *     summary: Preview the occurrences of a recurring task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:read
+   *     description: |
+   *       Due dates of the series from the task on: the task's own due date first, then
+   *       the dates its `recurrence` rule generates, up to `limit` or the end of the series.
+   *     parameters:
+   *       - $ref: '#/components/parameters/TaskId'
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *         description: How many occurrences to list at most
+   *     responses:
+   *       200:
+   *         description: The upcoming occurrences
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Occurrences retrieved successfully"
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     type: string
+   *                     format: date-time
+   *                   example: ["2024-02-05T09:00:00.000Z", "2024-02-12T09:00:00.000Z"]
+   *       400:
+   *         description: Invalid query parameters, or the task is not recurring
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.get(
+    "/:id/occurrences",
+    requireScope(ApiKeyScope.TASKS_READ),
+    validateUUID,
+    validateQuery(occurrenceQuerySchema),
+    getTaskOccurrencesController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/skip:
+   *   post:
+   *     summary: Skip an occurrence of a recurring task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       Moves the task on to the next occurrence of its series without completing it or
+   *       creating a task. Its due date becomes the next date, and a `COUNT` in its rule
+   *       goes down by one. The last occurrence cannot be skipped.
+   *     parameters:
+   *       - $ref: '#/components/parameters/IfMatch'
+   *       - $ref: '#/components/parameters/TaskId'
+   *     responses:
+   *       200:
+   *         description: Occurrence skipped; returns the task
+   *         headers:
+   *           ETag:
+   *             $ref: '#/components/headers/ETag'
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Occurrence skipped successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Task'
+   *       400:
+   *         description: The task is not recurring
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         description: The task is the last occurrence of its series
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *       412:
+   *         $ref: '#/components/responses/PreconditionFailed'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.post(
+    "/:id/skip",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateUUID,
+    validateIfMatch,
+    skipTaskOccurrenceController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}/recurrence:
+   *   delete:
+   *     summary: End the series of a recurring task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       Removes the task's `recurrence`. The task stays as it is, but completing it no
+   *       longer creates a next occurrence.
+   *     parameters:
+   *       - $ref: '#/components/parameters/IfMatch'
+   *       - $ref: '#/components/parameters/TaskId'
+   *     responses:
+   *       200:
+   *         description: Series ended; returns the task
+   *         headers:
+   *           ETag:
+   *             $ref: '#/components/headers/ETag'
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Series ended successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Task'
+   *       400:
+   *         description: The task is not recurring
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       412:
+   *         $ref: '#/components/responses/PreconditionFailed'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.delete(
+    "/:id/recurrence",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateUUID,
+    validateIfMatch,
+    endTaskRecurrenceController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}:
+   *   put:
+   *     summary: Replace a task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       Replaces every writable field of the task; all of them are required, `recurrence`
+   *       too (null for a task that does not repeat). Use PATCH to change only some fields.
+   *
+   *       Completing a recurring task ends its part in the series: the task loses its
+   *       `recurrence`, and a copy of it is created for the next occurrence, carrying the rule
+   *       sent on. The copy is returned as `nextOccurrence`; there is none after the last
+   *       occurrence, nor when `recurrence` is sent as null.
+   *
+   *       Send the task's ETag in `If-Match` to make the update conditional: if someone
+   *       else changed the task since you fetched it, the update is refused with 412 and
+   *       the current task. Without `If-Match` the update always applies.
+   *     parameters:
+   *       - $ref: '#/components/parameters/IfMatch'
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the task
+   *         example: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   *       - in: query
+   *         name: ignoreBlockers
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Allow moving the task to IN_PROGRESS or COMPLETED even though a blocker is incomplete
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ReplaceTaskRequest'
+   *           example:
+   *             title: "Buy groceries and cook dinner"
+   *             description: "Milk, eggs, bread, fruits, and ingredients for pasta"
+   *             status: "IN_PROGRESS"
+   *             priority: "MEDIUM"
+   *             dueDate: null
+   *             tags: ["home"]
+   *             parentId: null
+   *             recurrence: null
+   *     responses:
+   *       200:
+   *         description: Task updated successfully
+   *         headers:
+   *           ETag:
+   *             $ref: '#/components/headers/ETag'
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task updated successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Task'
+   *                 nextOccurrence:
+   *                   $ref: '#/components/schemas/Task'
+   *                   description: The task created for the next occurrence, when the update completed a recurring task
+   *       400:
+   *         description: Validation error or invalid UUID
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             examples:
+   *               validationError:
+   *                 summary: Validation error
+   *                 value:
+   *                   success: false
+   *                   message: "Validation failed"
+   *                   errors:
+   *                     - field: "title"
+   *                       message: "Title must be between 1 and 100 characters"
+   *               invalidUUID:
+   *                 summary: Invalid UUID
+   *                 value:
+   *                   success: false
+   *                   message: "Invalid UUID format"
+   *                   errors: null
+   *       404:
+   *         description: Task not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             example:
+   *               success: false
+   *               message: "Task not found"
+   *               errors: null
+   *       409:
+   *         description: The workflow does not allow the status change, or the task is blocked by incomplete tasks
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             examples:
+   *               illegalTransition:
+   *                 summary: Status change not allowed by the workflow
+   *                 value:
+   *                   success: false
+   *                   message: "Cannot move a task from COMPLETED to PENDING"
+   *                   allowedStatuses: ["IN_PROGRESS"]
+   *               blocked:
+   *                 summary: Task has incomplete blockers
+   *                 value:
+   *                   success: false
+   *                   message: "Task is blocked by 1 incomplete task(s); pass ignoreBlockers=true to override"
+   *                   blockers:
+   *                     - id: "b2c3d4e5-f6a7-4890-9234-567890abcdef"
+   *                       title: "Order parts"
+   *                       status: "PENDING"
+   *       412:
+   *         $ref: '#/components/responses/PreconditionFailed'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   */
+  router.put(
+    "/:id",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateUUID,
+    validateIfMatch,
+    validateQuery(updateTaskQuerySchema),
+    validateBody(replaceTaskSchema),
+    updateTaskController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}:
+   *   patch:
+   *     summary: Partially update a task
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:write
+   *     description: |
+   *       Accepts a JSON Merge Patch (`application/merge-patch+json`) or a JSON Patch
+   *       (`application/json-patch+json`) of the task's writable fields. The patched task
+   *       must be valid as a PUT body. A failing JSON Patch `test` operation aborts the
+   *       whole patch with a 409. Other content types get a 415 with an `Accept-Patch` header.
+   *     parameters:
+   *       - $ref: '#/components/parameters/IfMatch'
+   *       - $ref: '#/components/parameters/TaskId'
+   *       - in: query
+   *         name: ignoreBlockers
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Allow moving the task to IN_PROGRESS or COMPLETED even though a blocker is incomplete
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/merge-patch+json:
+   *           schema:
+   *             $ref: '#/components/schemas/MergePatch'
+   *           examples:
+   *             startAndClearDueDate:
+   *               summary: Start the task and clear its due date
+   *               value:
+   *                 status: "IN_PROGRESS"
+   *                 dueDate: null
+   *         application/json-patch+json:
+   *           schema:
+   *             $ref: '#/components/schemas/JsonPatch'
+   *           examples:
+   *             conditionalStart:
+   *               summary: Start the task only if it is still PENDING, and tag it
+   *               value:
+   *                 - op: test
+   *                   path: /status
+   *                   value: PENDING
+   *                 - op: replace
+   *                   path: /status
+   *                   value: IN_PROGRESS
+   *                 - op: add
+   *                   path: /tags/-
+   *                   value: urgent
+   *     responses:
+   *       200:
+   *         description: Task updated successfully
+   *         headers:
+   *           ETag:
+   *             $ref: '#/components/headers/ETag'
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task updated successfully"
+   *                 data:
+   *                   $ref: '#/components/schemas/Task'
+   *                 nextOccurrence:
+   *                   $ref: '#/components/schemas/Task'
+   *                   description: The task created for the next occurrence, when the update completed a recurring task
+   *       400:
+   *         $ref: '#/components/responses/BadRequest'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   *       409:
+   *         description: A test operation failed, the workflow does not allow the status change, or the task is blocked
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             example:
+   *               success: false
+   *               message: 'Test failed for path "/status"'
+   *               path: "/status"
+   *       412:
+   *         $ref: '#/components/responses/PreconditionFailed'
+   *       415:
+   *         description: The body is neither a merge patch nor a JSON Patch
+   *         headers:
+   *           Accept-Patch:
+   *             schema:
+   *               type: string
+   *             example: "application/merge-patch+json, application/json-patch+json"
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *       500:
+   *         $ref: '#/components/responses/InternalServerError'
+   */
+  router.patch(
+    "/:id",
+    requireScope(ApiKeyScope.TASKS_WRITE),
+    validateUUID,
+    validateIfMatch,
+    validateQuery(updateTaskQuerySchema),
+    validatePatch,
+    patchTaskController
+  );
+
+  /**
+   * @swagger
+   * /tasks/{id}:
+   *   delete:
+   *     summary: Move a task to the trash
+   *     tags: [Tasks]
+   *     x-required-scope: tasks:delete
+   *     description: |
+   *       Deleted tasks go to the trash, where they can be restored or purged for good.
+   *       Trashed tasks are hidden from every other task endpoint and from the statistics.
+   *       Like updates, deletes can be made conditional with `If-Match`.
+   *     parameters:
+   *       - $ref: '#/components/parameters/IfMatch'
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: The unique identifier of the task to delete
+   *         example: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   *       - in: query
+   *         name: children
+   *         schema:
+   *           type: string
+   *           enum: [reject, cascade, reparent]
+   *           default: reject
+   *         description: |
+   *           What to do with the task's subtasks: `reject` refuses to delete a task that
+   *           has any (409), `cascade` trashes the whole subtree and `reparent` moves the
+   *           direct subtasks up to the deleted task's parent.
+   *     responses:
+   *       200:
+   *         description: Task moved to trash
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 message:
+   *                   type: string
+   *                   example: "Task moved to trash"
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     deletedTaskId:
+   *                       type: string
+   *                       format: uuid
+   *                       example: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   *             examples:
+   *               success:
+   *                 summary: Successful deletion
+   *                 value:
+   *                   success: true
+   *                   message: "Task moved to trash"
+   *                   data:
+   *                     deletedTaskId: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
+   *       400:
+   *         description: Invalid UUID format
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             example:
+   *               success: false
+   *               message: "Invalid UUID format"
+   *               errors: null
+   *       404:
+   *         description: Task not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             example:
+   *               success: false
+   *               message: "Task not found"
+   *               errors: null
+   *       409:
+   *         description: The task has subtasks and children=reject
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   *             example:
+   *               success: false
+   *               message: "Task has 2 subtask(s); delete them first or choose another children mode"
+   *       412:
+   *         $ref: '#/components/responses/PreconditionFailed'
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   *       500:
+   *         description: Internal server error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/ErrorResponse'
+   */
+  router.delete(
+    "/:id",
+    requireScope(ApiKeyScope.TASKS_DELETE),
+    validateUUID,
+    validateIfMatch,
+    validateQuery(deleteTaskQuerySchema),
+    deleteTaskController
+  );
 
-/**
- * @swagger
- * /tasks/{id}:
- *   delete:
- *     summary: Delete a task by ID
- *     tags: [Tasks]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
- *         description: The unique identifier of the task to delete
- *         example: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
- *     responses:
- *       200:
- *         description: Task deleted successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Task deleted successfully"
- *                 data:
- *                   type: object
- *                   properties:
- *                     deletedTaskId:
- *                       type: string
- *                       format: uuid
- *                       example: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
- *             examples:
- *               success:
- *                 summary: Successful deletion
- *                 value:
- *                   success: true
- *                   message: "Task deleted successfully"
- *                   data:
- *                     deletedTaskId: "a1b2c3d4-e5f6-7890-1234-567890abcdef"
- *       400:
- *         description: Invalid UUID format
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- *             example:
- *               success: false
- *               message: "Invalid UUID format"
- *               errors: null
- *       404:
- *         description: Task not found
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- *             example:
- *               success: false
- *               message: "Task not found"
- *               errors: null
- *       500:
- *         description: Internal server error
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
- */
-router.delete("/:id", validateUUID, deleteTaskController);
+  return router;
+};
 
-export default router;
\ No newline at end of file
+export default createTaskRoutes;
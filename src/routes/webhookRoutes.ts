@@ -0,0 +1,446 @@
+import express from "express";
+import {
+  createWebhookController,
+  getWebhooksController,
+  getWebhookController,
+  updateWebhookController,
+  deleteWebhookController,
+  getWebhookDeliveriesController,
+  redeliverWebhookController,
+  pingWebhookController,
+} from "../controllers/webhookController";
+import {
+  validateBody,
+  validateQuery,
+  validateUUIDParam,
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveryQuerySchema,
+} from "../middleware/validation";
+import { authenticate, requireUserToken } from "../middleware/auth";
+
+const router = express.Router();
+
+// Like API keys, webhooks can only be managed by a logged-in user
+router.use(authenticate, requireUserToken);
+
+const validateWebhookId = validateUUIDParam("id", "webhook");
+
+/**
+ * @swagger
+ * /webhooks:
+ *   post:
+ *     summary: Subscribe a URL to task events
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       The URL must not be, or resolve to, a loopback, link-local or private network
+ *       address (unless `WEBHOOK_ALLOW_PRIVATE_URLS` is set); this is checked again on
+ *       every delivery.
+ *
+ *       Each event is POSTed to the URL as JSON of the form
+ *       `{ "id", "type", "createdAt", "data": { "task" } }`, where the task of a
+ *       task.deleted event is the task as it was before it was deleted.
+ *
+ *       Deliveries carry `X-Webhook-Event`, `X-Webhook-Delivery`, `X-Webhook-Timestamp`
+ *       and `X-Webhook-Signature` headers. The signature is `sha256=` followed by the hex
+ *       HMAC-SHA256, keyed by the webhook secret, of the timestamp, a `.` and the raw
+ *       body. Receivers should recompute it and reject stale timestamps.
+ *
+ *       A delivery succeeds on any 2xx response within 10 seconds. Otherwise it is
+ *       retried with exponential backoff (`WEBHOOK_RETRY_DELAY_SECONDS`, doubling) until
+ *       it has been attempted `WEBHOOK_MAX_ATTEMPTS` times, when it is marked failed.
+ *
+ *       The secret is only returned in this response.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateWebhookRequest'
+ *           example:
+ *             url: "https://example.com/hooks/tasks"
+ *             events: ["task.created", "task.completed"]
+ *     responses:
+ *       201:
+ *         description: Webhook created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Webhook created successfully. Store the secret now, it will not be shown again"
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Webhook'
+ *                     - type: object
+ *                       properties:
+ *                         secret:
+ *                           type: string
+ *                           example: "whsec_Q2xhdWRlV2ViaG9va1NlY3JldEV4YW1wbGUxMjM0NTY"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/", validateBody(createWebhookSchema), createWebhookController);
+
+/**
+ * @swagger
+ * /webhooks:
+ *   get:
+ *     summary: List your webhooks
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhooks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Webhooks retrieved successfully"
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Webhook'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/", getWebhooksController);
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   get:
+ *     summary: Get a webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the webhook
+ *     responses:
+ *       200:
+ *         description: Webhook retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Webhook retrieved successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   put:
+ *     summary: Update a webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Changes the URL, events, secret or active flag. Deliveries already queued go to
+ *       the new URL, signed with the new secret. Deactivating a webhook holds its pending
+ *       deliveries until it is activated again.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the webhook
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/CreateWebhookRequest'
+ *             required: []
+ *           example:
+ *             active: false
+ *     responses:
+ *       200:
+ *         description: Webhook updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Webhook updated successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Delete a webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Deletes the webhook along with its delivery log and pending deliveries.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the webhook
+ *     responses:
+ *       200:
+ *         description: Webhook deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/:id", validateWebhookId, getWebhookController);
+router.put("/:id", validateWebhookId, validateBody(updateWebhookSchema), updateWebhookController);
+router.delete("/:id", validateWebhookId, deleteWebhookController);
+
+/**
+ * @swagger
+ * /webhooks/{id}/deliveries:
+ *   get:
+ *     summary: Get the delivery log of a webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Every delivery queued for the webhook, newest first, with the outcome of its latest attempt.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the webhook
+ *       - $ref: '#/components/parameters/PageNumber'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of deliveries per page
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, succeeded, failed]
+ *         description: Only deliveries with this status
+ *     responses:
+ *       200:
+ *         description: Webhook deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Webhook deliveries retrieved successfully"
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *                 total:
+ *                   type: integer
+ *                   example: 42
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get(
+  "/:id/deliveries",
+  validateWebhookId,
+  validateQuery(webhookDeliveryQuerySchema),
+  getWebhookDeliveriesController
+);
+
+/**
+ * @swagger
+ * /webhooks/{id}/deliveries/{deliveryId}/redeliver:
+ *   post:
+ *     summary: Redeliver an event
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Queues the event of a delivery to be sent again, with a fresh set of attempts.
+ *       The redelivery is a new entry in the delivery log with the same event id and
+ *       payload, so receivers can recognise events they have already handled.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the webhook
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the delivery to repeat
+ *     responses:
+ *       202:
+ *         description: Webhook redelivery queued successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Webhook redelivery queued successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookDelivery'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+  "/:id/deliveries/:deliveryId/redeliver",
+  validateWebhookId,
+  validateUUIDParam("deliveryId", "delivery"),
+  redeliverWebhookController
+);
+
+/**
+ * @swagger
+ * /webhooks/{id}/ping:
+ *   post:
+ *     summary: Send a test event
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Queues a signed `ping` event, whatever events the webhook subscribes to, to check
+ *       the receiver. Its outcome appears in the delivery log.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The unique identifier of the webhook
+ *     responses:
+ *       202:
+ *         description: Webhook ping queued successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Webhook ping queued successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookDelivery'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/:id/ping", validateWebhookId, pingWebhookController);
+
+export default router;
@@ -1,5 +1,9 @@
 import swaggerJsdoc from 'swagger-jsdoc';
-import { TaskStatus } from './models/task'; // Import TaskStatus for schema definition
+import { TaskStatus, TaskPriority, TASK_SORT_FIELDS } from './models/task'; // Import TaskStatus for schema definition
+import { ApiKeyScope } from './models/apiKey';
+import { workflow } from './utils/workflow';
+import { AuditAction, AUDITED_FIELDS } from './models/audit';
+import { WebhookEvent } from './models/webhook';
 
 const options = {
   definition: {
@@ -12,14 +16,48 @@ const options = {
         
         ## Features
         - Create, read, update, and delete tasks
-        - Filter and search tasks
-        - Pagination support
+        - Filter tasks and full-text search them with ranked, highlighted results
+        - Page-based and cursor-based pagination
+        - Due dates, priorities and an overdue view
+        - Tags, subtasks and "blocked by" dependencies
+        - Change history, an audit feed and reverting to earlier revisions
         - Task statistics
         - Input validation
         - Error handling
         
         ## Base URL
         All API endpoints are prefixed with \`/api\`
+
+        ## Authentication
+        Register or log in via \`/api/auth\` to obtain a bearer token, then send it as
+        \`Authorization: Bearer <token>\`. Use the "Authorize" button to try endpoints here.
+        Tasks are private to the user who created them.
+
+        Services and scripts can instead send a scoped API key (created via \`/api/keys\`)
+        in the \`X-API-Key\` header. Each task endpoint lists the scope it requires in
+        \`x-required-scope\`; a key without that scope receives a 403.
+
+        ## Status workflow
+        Status changes follow the configured workflow. Creating a task with a status that is
+        not an initial status, or moving it to a status not reachable from its current one,
+        returns a 409 listing the permitted statuses in \`allowedStatuses\`.
+        Current transitions: ${Object.entries(workflow.transitions)
+          .map(([from, to]) => `\`${from}\` → ${to.length ? to.map(status => `\`${status}\``).join(', ') : '(final)'}`)
+          .join('; ')}.
+
+        ## Updating tasks
+        \`PUT /api/tasks/{id}\` replaces a task: every writable field (\`title\`, \`description\`,
+        \`status\`, \`priority\`, \`dueDate\`, \`tags\`, \`parentId\`) must be sent. For partial
+        changes use \`PATCH /api/tasks/{id}\` with either
+        - \`application/merge-patch+json\` (RFC 7386): send only the fields to change;
+          \`null\` clears an optional field, or
+        - \`application/json-patch+json\` (RFC 6902): a list of operations on the task's
+          fields, e.g. \`{"op": "add", "path": "/tags/-", "value": "urgent"}\`. A \`test\`
+          operation that does not match aborts the whole patch with a 409, which makes
+          conditional edits possible without an ETag.
+
+        Any other content type gets a 415. Either way the patched task must be valid as a
+        \`PUT\` body, and the workflow, blocker and \`If-Match\` rules of \`PUT\` apply.
         
         ## Response Format
         All responses follow a consistent format:
@@ -56,10 +94,23 @@ const options = {
       schemas: {
         TaskStatus: {
           type: 'string',
-          enum: Object.values(TaskStatus),
-          description: 'The status of a task.',
+          enum: workflow.statuses,
+          description: 'The status of a task. Besides the built-in statuses, the workflow configuration may define custom ones.',
           example: TaskStatus.PENDING,
         },
+        TaskPriority: {
+          type: 'string',
+          enum: Object.values(TaskPriority),
+          description: 'How urgent a task is.',
+          example: TaskPriority.MEDIUM,
+        },
+        Recurrence: {
+          type: 'string',
+          nullable: true,
+          maxLength: 200,
+          description: 'An iCalendar RRULE that makes the task recur; requires a due date, which starts the series. Supports FREQ (DAILY, WEEKLY or MONTHLY), INTERVAL, BYDAY (with ordinals such as -1FR in monthly rules), BYMONTHDAY, COUNT (counting this task) and UNTIL. Stored in a canonical form; null for a one-off task.',
+          example: 'FREQ=WEEKLY;BYDAY=MO,TH;COUNT=8',
+        },
         Task: {
           type: 'object',
           properties: {
@@ -76,194 +127,1333 @@ const options = {
               minLength: 1,
               maxLength: 100,
             },
-            description: {
+            description: {
+              type: 'string',
+              nullable: true,
+              description: 'A detailed description of the task.',
+              example: 'Milk, eggs, bread, and fruits.',
+              maxLength: 500,
+            },
+            status: {
+              $ref: '#/components/schemas/TaskStatus',
+            },
+            priority: {
+              $ref: '#/components/schemas/TaskPriority',
+            },
+            dueDate: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the task is due, if it has a deadline.',
+              example: '2023-11-03T17:00:00.000Z',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Names of the tags attached to the task, in alphabetical order.',
+              example: ['work', 'docs'],
+            },
+            parentId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'The task this one is a subtask of; null for a top-level task.',
+              example: 'b2c3d4e5-f6a7-4890-9234-567890abcdef',
+            },
+            recurrence: {
+              $ref: '#/components/schemas/Recurrence',
+            },
+            commentCount: {
+              type: 'integer',
+              minimum: 0,
+              readOnly: true,
+              description: 'Number of comments on the task, replies included.',
+              example: 2,
+            },
+            userId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'The identifier of the user who owns the task.',
+              example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'The date and time when the task was created.',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'The date and time when the task was last updated.',
+              example: '2023-10-27T11:30:00.000Z',
+            },
+            version: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Incremented on every change to the task; also returned as the ETag header.',
+              example: 3,
+            },
+            deletedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the task was moved to the trash; null for a live task.',
+              example: null,
+            },
+          },
+          required: ['id', 'title', 'status', 'priority', 'dueDate', 'tags', 'parentId', 'recurrence', 'commentCount', 'userId', 'version', 'createdAt', 'updatedAt', 'deletedAt'],
+        },
+        TaskListItem: {
+          allOf: [
+            { $ref: '#/components/schemas/Task' },
+            {
+              type: 'object',
+              properties: {
+                score: {
+                  type: 'number',
+                  description: 'Relevance of the task to the search query (higher is better). Only present when searching.',
+                  example: 4.2,
+                },
+                highlights: {
+                  type: 'object',
+                  description: 'HTML-escaped task text with matched terms wrapped in <mark> tags. Only present when searching.',
+                  properties: {
+                    title: {
+                      type: 'string',
+                      example: 'Buy <mark>groceries</mark>',
+                    },
+                    description: {
+                      type: 'string',
+                      example: '…list for the <mark>groceries</mark> run on Saturday',
+                    },
+                  },
+                },
+              },
+            },
+          ],
+        },
+        CreateTaskRequest: {
+          type: 'object',
+          properties: {
+            title: {
+              type: 'string',
+              description: 'The title of the task.',
+              example: 'Plan vacation',
+              minLength: 1,
+              maxLength: 100,
+            },
+            description: {
+              type: 'string',
+              description: 'Optional description of the task.',
+              example: 'Research destinations and book flights.',
+              maxLength: 500,
+            },
+            status: {
+              $ref: '#/components/schemas/TaskStatus',
+              description: 'Initial status of the task (defaults to PENDING).',
+            },
+            priority: {
+              $ref: '#/components/schemas/TaskPriority',
+              description: 'Priority of the task (defaults to MEDIUM).',
+            },
+            dueDate: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Optional deadline for the task.',
+              example: '2023-11-03T17:00:00.000Z',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Tag names to attach; tags that do not exist yet are created.',
+              maxItems: 20,
+              example: ['work', 'docs'],
+            },
+            parentId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Makes the task a subtask of another of your tasks.',
+              example: 'b2c3d4e5-f6a7-4890-9234-567890abcdef',
+            },
+            recurrence: {
+              $ref: '#/components/schemas/Recurrence',
+            },
+          },
+          required: ['title'],
+          additionalProperties: false,
+        },
+        ReplaceTaskRequest: {
+          type: 'object',
+          description: 'Every writable field of a task, as PUT requires them.',
+          properties: {
+            title: { type: 'string', minLength: 1, maxLength: 100, example: 'Finalize vacation plans' },
+            description: { type: 'string', maxLength: 500, example: 'Confirm hotel bookings and activities.' },
+            status: { $ref: '#/components/schemas/TaskStatus' },
+            priority: { $ref: '#/components/schemas/TaskPriority' },
+            dueDate: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              example: '2023-11-10T17:00:00.000Z',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: 20,
+              example: ['work'],
+            },
+            parentId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              example: null,
+            },
+            recurrence: {
+              $ref: '#/components/schemas/Recurrence',
+            },
+          },
+          required: ['title', 'description', 'status', 'priority', 'dueDate', 'tags', 'parentId', 'recurrence'],
+          additionalProperties: false,
+        },
+        MergePatch: {
+          type: 'object',
+          description: 'JSON Merge Patch (RFC 7386) of the writable task fields; null clears description, dueDate, tags, parentId or recurrence.',
+          minProperties: 1,
+          example: { status: 'IN_PROGRESS', dueDate: null },
+        },
+        JsonPatch: {
+          type: 'array',
+          description: 'JSON Patch (RFC 6902) applied to the writable task fields.',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['op', 'path'],
+            properties: {
+              op: { type: 'string', enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+              path: { type: 'string', description: 'JSON Pointer to the target, e.g. /title or /tags/0', example: '/title' },
+              from: { type: 'string', description: 'Source pointer of move and copy', example: '/description' },
+              value: { description: 'Value for add, replace and test' },
+            },
+          },
+          example: [
+            { op: 'test', path: '/status', value: 'PENDING' },
+            { op: 'replace', path: '/status', value: 'IN_PROGRESS' },
+            { op: 'add', path: '/tags/-', value: 'urgent' },
+          ],
+        },
+        UpdateTaskRequest: {
+          type: 'object',
+          properties: {
+            title: {
+              type: 'string',
+              description: 'New title for the task.',
+              example: 'Finalize vacation plans',
+              minLength: 1,
+              maxLength: 100,
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+              description: 'New description for the task.',
+              example: 'Confirm hotel bookings and activities.',
+              maxLength: 500,
+            },
+            status: {
+              $ref: '#/components/schemas/TaskStatus',
+              description: 'New status for the task.',
+            },
+            priority: {
+              $ref: '#/components/schemas/TaskPriority',
+              description: 'New priority for the task.',
+            },
+            dueDate: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'New deadline for the task; null removes it.',
+              example: '2023-11-10T17:00:00.000Z',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: 20,
+              description: 'Replaces all tags of the task. Cannot be combined with addTags or removeTags.',
+              example: ['work'],
+            },
+            addTags: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: 20,
+              description: 'Tag names to attach in addition to the current ones.',
+              example: ['urgent'],
+            },
+            removeTags: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: 20,
+              description: 'Tag names to detach from the task.',
+              example: ['someday'],
+            },
+            parentId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Moves the task under another task; null makes it a top-level task. The new parent must exist and must not be one of its subtasks.',
+              example: 'b2c3d4e5-f6a7-4890-9234-567890abcdef',
+            },
+            recurrence: {
+              $ref: '#/components/schemas/Recurrence',
+              description: 'New rule for the task; null makes it a one-off task.',
+            },
+          },
+          minProperties: 1,
+          additionalProperties: false,
+        },
+        User: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'The unique identifier of the user.',
+              example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+            },
+            email: {
+              type: 'string',
+              format: 'email',
+              description: 'The email address used to log in.',
+              example: 'jane@example.com',
+            },
+            name: {
+              type: 'string',
+              description: 'The display name of the user.',
+              example: 'Jane Doe',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'The date and time when the user registered.',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'The date and time when the user was last updated.',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+          },
+          required: ['id', 'email', 'name', 'createdAt', 'updatedAt'],
+        },
+        RegisterRequest: {
+          type: 'object',
+          properties: {
+            email: {
+              type: 'string',
+              format: 'email',
+              example: 'jane@example.com',
+              maxLength: 254,
+            },
+            password: {
+              type: 'string',
+              format: 'password',
+              example: 'correct-horse-battery',
+              minLength: 8,
+              maxLength: 128,
+            },
+            name: {
+              type: 'string',
+              example: 'Jane Doe',
+              minLength: 1,
+              maxLength: 100,
+            },
+          },
+          required: ['email', 'password', 'name'],
+          additionalProperties: false,
+        },
+        LoginRequest: {
+          type: 'object',
+          properties: {
+            email: {
+              type: 'string',
+              format: 'email',
+              example: 'jane@example.com',
+            },
+            password: {
+              type: 'string',
+              format: 'password',
+              example: 'correct-horse-battery',
+            },
+          },
+          required: ['email', 'password'],
+          additionalProperties: false,
+        },
+        AuthResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: true,
+            },
+            message: {
+              type: 'string',
+              example: 'Login successful',
+            },
+            data: {
+              type: 'object',
+              properties: {
+                user: {
+                  $ref: '#/components/schemas/User',
+                },
+                token: {
+                  type: 'string',
+                  description: 'Signed bearer token to send in the Authorization header',
+                  example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+                },
+                expiresIn: {
+                  type: 'string',
+                  description: 'Token lifetime',
+                  example: '24h',
+                },
+              },
+            },
+          },
+          required: ['success', 'message', 'data'],
+        },
+        ApiKeyScope: {
+          type: 'string',
+          enum: Object.values(ApiKeyScope),
+          description: 'A permission granted to an API key.',
+          example: ApiKeyScope.TASKS_READ,
+        },
+        ApiKey: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'The unique identifier of the API key.',
+              example: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+            },
+            userId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'The identifier of the user who owns the key.',
+              example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+            },
+            name: {
+              type: 'string',
+              description: 'A label describing what the key is used for.',
+              example: 'CI bot',
+            },
+            prefix: {
+              type: 'string',
+              description: 'The first characters of the key, for identification.',
+              example: 'tmk_3q2-7wEv',
+            },
+            scopes: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ApiKeyScope',
+              },
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+            lastUsedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the key last authenticated a request.',
+              example: '2023-10-28T08:15:00.000Z',
+            },
+            revokedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the key was revoked, if it has been.',
+              example: null,
+            },
+          },
+          required: ['id', 'userId', 'name', 'prefix', 'scopes', 'createdAt'],
+        },
+        CalendarFeed: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              example: '9b2e6c1d-4f3a-4e8b-a1c2-3d4e5f6a7b8c',
+            },
+            userId: {
+              type: 'string',
+              format: 'uuid',
+              example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+            },
+            prefix: {
+              type: 'string',
+              description: 'The first characters of the feed token, for identification.',
+              example: 'tmc_Zx8-4kQp',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+            lastUsedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When a calendar app last fetched the feed.',
+              example: '2023-10-28T08:15:00.000Z',
+            },
+          },
+          required: ['id', 'userId', 'prefix', 'createdAt'],
+        },
+        WebhookEvent: {
+          type: 'string',
+          enum: Object.values(WebhookEvent),
+          description: 'A task change a webhook can subscribe to. task.completed is sent along with task.updated.',
+          example: WebhookEvent.TASK_CREATED,
+        },
+        Webhook: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              example: '5c1f9e2a-7b3d-4c8e-9f0a-1b2c3d4e5f6a',
+            },
+            userId: {
+              type: 'string',
+              format: 'uuid',
+              example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+            },
+            url: {
+              type: 'string',
+              format: 'uri',
+              description: 'Where events are POSTed.',
+              example: 'https://example.com/hooks/tasks',
+            },
+            events: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/WebhookEvent',
+              },
+            },
+            active: {
+              type: 'boolean',
+              description: 'Inactive webhooks receive no new events; their pending deliveries wait until reactivated.',
+              example: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+          },
+          required: ['id', 'userId', 'url', 'events', 'active', 'createdAt', 'updatedAt'],
+        },
+        CreateWebhookRequest: {
+          type: 'object',
+          properties: {
+            url: {
+              type: 'string',
+              format: 'uri',
+              description: 'An http or https URL.',
+              example: 'https://example.com/hooks/tasks',
+              maxLength: 2048,
+            },
+            events: {
+              type: 'array',
+              minItems: 1,
+              uniqueItems: true,
+              items: {
+                $ref: '#/components/schemas/WebhookEvent',
+              },
+            },
+            secret: {
+              type: 'string',
+              description: 'Key of the delivery signatures. Generated when not given.',
+              minLength: 16,
+              maxLength: 256,
+            },
+            active: {
+              type: 'boolean',
+              default: true,
+            },
+          },
+          required: ['url', 'events'],
+          additionalProperties: false,
+        },
+        WebhookDelivery: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Sent in the X-Webhook-Delivery header.',
+              example: '0d6e3c2b-1a4f-4b7e-8c9d-2e3f4a5b6c7d',
+            },
+            webhookId: {
+              type: 'string',
+              format: 'uuid',
+              example: '5c1f9e2a-7b3d-4c8e-9f0a-1b2c3d4e5f6a',
+            },
+            eventId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Identifies the event; the same for every delivery of it, redeliveries included.',
+              example: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d',
+            },
+            event: {
+              type: 'string',
+              example: 'task.created',
+            },
+            payload: {
+              type: 'object',
+              description: 'The body sent to the webhook.',
+              example: {
+                id: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d',
+                type: 'task.created',
+                createdAt: '2023-10-27T10:00:00.000Z',
+                data: { task: { id: '3fa85f64-5717-4562-b3fc-2c963f66afa6', title: 'Complete project documentation' } },
+              },
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'succeeded', 'failed'],
+              description: 'pending deliveries await their first attempt or a retry; failed ones ran out of attempts.',
+            },
+            attempts: {
+              type: 'integer',
+              example: 1,
+            },
+            nextAttemptAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            lastAttemptAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            responseStatus: {
+              type: 'integer',
+              nullable: true,
+              description: 'HTTP status of the latest response, if any.',
+              example: 200,
+            },
+            error: {
+              type: 'string',
+              nullable: true,
+              description: 'Why the latest attempt failed.',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+          },
+          required: ['id', 'webhookId', 'eventId', 'event', 'payload', 'status', 'attempts', 'createdAt'],
+        },
+        Job: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              example: '9b2c4d6e-8f0a-4b1c-9d2e-3f4a5b6c7d8e',
+            },
+            type: {
+              type: 'string',
+              enum: ['due-date-reminders', 'escalate-stale-tasks', 'send-notification'],
+              description: 'due-date-reminders and escalate-stale-tasks are recurring scans; send-notification jobs deliver one reminder or escalation notice each.',
+              example: 'send-notification',
+            },
+            payload: {
+              type: 'object',
+              description: 'Input of the job.',
+              example: {
+                kind: 'reminder',
+                userId: '5c1f9e2a-7b3d-4c8e-9f0a-1b2c3d4e5f6a',
+                taskId: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+                dueDate: '2023-12-31T23:59:59.000Z',
+              },
+            },
+            status: {
+              type: 'string',
+              enum: ['scheduled', 'running', 'paused', 'completed', 'failed'],
+              description: 'failed jobs ran out of attempts; recurring jobs never complete.',
+            },
+            runAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the job runs next, or for a finished job when it was last due.',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+            intervalSeconds: {
+              type: 'integer',
+              nullable: true,
+              description: 'Seconds between the runs of a recurring job; null for a one-off job.',
+              example: null,
+            },
+            uniqueKey: {
+              type: 'string',
+              nullable: true,
+              description: 'A job with a unique key is queued at most once.',
+              example: 'reminder:3fa85f64-5717-4562-b3fc-2c963f66afa6:2023-12-31T23:59:59.000Z',
+            },
+            attempts: {
+              type: 'integer',
+              description: 'Failed attempts since the job last succeeded.',
+              example: 0,
+            },
+            maxAttempts: {
+              type: 'integer',
+              example: 5,
+            },
+            lastError: {
+              type: 'string',
+              nullable: true,
+              description: 'Why the latest failed attempt failed.',
+            },
+            lastRunAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2023-10-27T10:00:00.000Z',
+            },
+          },
+          required: ['id', 'type', 'payload', 'status', 'runAt', 'attempts', 'maxAttempts', 'createdAt', 'updatedAt'],
+        },
+        CreateApiKeyRequest: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              example: 'CI bot',
+              minLength: 1,
+              maxLength: 100,
+            },
+            scopes: {
+              type: 'array',
+              minItems: 1,
+              uniqueItems: true,
+              items: {
+                $ref: '#/components/schemas/ApiKeyScope',
+              },
+            },
+          },
+          required: ['name', 'scopes'],
+          additionalProperties: false,
+        },
+        ErrorResponse: {
+          type: 'object',
+          properties: {
+            success: {
+              type: 'boolean',
+              example: false,
+              description: 'Indicates if the request was successful',
+            },
+            message: {
+              type: 'string',
+              example: 'Internal server error',
+              description: 'Human-readable error message',
+            },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: {
+                    type: 'string',
+                    example: 'title',
+                    description: 'The field that caused the validation error',
+                  },
+                  message: {
+                    type: 'string',
+                    example: 'Title cannot be empty',
+                    description: 'Detailed error message for the field',
+                  },
+                },
+                required: ['field', 'message'],
+              },
+              nullable: true,
+              description: 'Array of validation errors (only present for validation failures)',
+            },
+          },
+          required: ['success', 'message'],
+        },
+        Pagination: {
+          type: 'object',
+          properties: {
+            currentPage: {
+              type: 'number',
+              example: 1,
+              minimum: 1,
+              description: 'Current page number',
+            },
+            totalPages: {
+              type: 'number',
+              example: 5,
+              minimum: 0,
+              description: 'Total number of pages',
+            },
+            totalItems: {
+              type: 'number',
+              example: 50,
+              minimum: 0,
+              description: 'Total number of items across all pages',
+            },
+            itemsPerPage: {
+              type: 'number',
+              example: 10,
+              minimum: 1,
+              maximum: 100,
+              description: 'Number of items per page',
+            },
+            hasNextPage: {
+              type: 'boolean',
+              example: true,
+              description: 'Indicates if there is a next page',
+            },
+            hasPreviousPage: {
+              type: 'boolean',
+              example: false,
+              description: 'Indicates if there is a previous page',
+            },
+            nextCursor: {
+              type: 'string',
+              nullable: true,
+              example: 'WyIyMDIzLTEwLTI3VDEwOjAwOjAwLjAwMFoiLCJhMWIyYzNkNCJd',
+              description: 'Set on pages in newest-first order: pass as `after` to continue with cursor pagination; null on the last page',
+            },
+          },
+          required: ['currentPage', 'totalPages', 'totalItems', 'itemsPerPage'],
+        },
+        CursorPagination: {
+          type: 'object',
+          properties: {
+            itemsPerPage: {
+              type: 'number',
+              example: 10,
+              minimum: 1,
+              maximum: 100,
+              description: 'Number of items per page',
+            },
+            totalItems: {
+              type: 'number',
+              example: 50,
+              minimum: 0,
+              description: 'Total number of items matching the filters',
+            },
+            nextCursor: {
+              type: 'string',
+              nullable: true,
+              example: 'WyIyMDIzLTEwLTI3VDEwOjAwOjAwLjAwMFoiLCJhMWIyYzNkNCJd',
+              description: 'Pass as `after` to get the next (older) page; null on the last page',
+            },
+            prevCursor: {
+              type: 'string',
+              nullable: true,
+              example: null,
+              description: 'Pass as `before` to get the previous (newer) page; null on the first page',
+            },
+            hasNextPage: {
+              type: 'boolean',
+              example: true,
+              description: 'Indicates if there is a next page',
+            },
+            hasPreviousPage: {
+              type: 'boolean',
+              example: false,
+              description: 'Indicates if there is a previous page',
+            },
+          },
+          required: ['itemsPerPage', 'totalItems', 'nextCursor', 'prevCursor'],
+        },
+        BulkRequest: {
+          type: 'object',
+          required: ['operations'],
+          properties: {
+            mode: {
+              type: 'string',
+              enum: ['all-or-nothing', 'best-effort'],
+              default: 'all-or-nothing',
+            },
+            operations: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 100,
+              items: { $ref: '#/components/schemas/BulkOperation' },
+            },
+          },
+        },
+        BulkOperation: {
+          type: 'object',
+          required: ['op'],
+          properties: {
+            op: { type: 'string', enum: ['create', 'update', 'delete'] },
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Task to update or delete. Updates take either id or filter.',
+            },
+            filter: {
+              type: 'object',
+              description: 'Update every task matching these task list filters (status, priority, tags, tagMatch, parentId, ready, search, date ranges).',
+              example: { search: 'release', status: ['IN_PROGRESS'] },
+            },
+            data: {
+              description: 'Body of the create or update; validated like POST /tasks or PUT /tasks/{id}.',
+              oneOf: [
+                { $ref: '#/components/schemas/CreateTaskRequest' },
+                { $ref: '#/components/schemas/UpdateTaskRequest' },
+              ],
+            },
+            version: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Apply an update or delete by id only if the task is still at this version.',
+            },
+            children: {
+              type: 'string',
+              enum: ['reject', 'cascade', 'reparent'],
+              default: 'reject',
+              description: 'Subtask handling of a delete.',
+            },
+            ignoreBlockers: {
+              type: 'boolean',
+              default: false,
+              description: 'Allow an update to start or complete tasks with incomplete blockers.',
+            },
+          },
+        },
+        BulkOperationResult: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer', example: 0 },
+            op: { type: 'string', example: 'update' },
+            success: { type: 'boolean', example: true },
+            status: {
+              type: 'integer',
+              description: 'HTTP status the operation would have had on its own endpoint',
+              example: 200,
+            },
+            message: { type: 'string', example: 'Task updated successfully' },
+            data: {
+              description: 'The created or updated task, the tasks updated by a filter, or the deleted task id',
+            },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+            allowedStatuses: { type: 'array', items: { type: 'string' } },
+            blockers: { type: 'array', items: { type: 'object' } },
+          },
+        },
+        BulkResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            message: { type: 'string', example: 'Bulk operations completed successfully' },
+            data: {
+              type: 'object',
+              properties: {
+                mode: { type: 'string', enum: ['all-or-nothing', 'best-effort'] },
+                succeeded: { type: 'integer', example: 3 },
+                failed: { type: 'integer', example: 0 },
+                results: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/BulkOperationResult' },
+                },
+              },
+            },
+          },
+        },
+        ImportRowResult: {
+          type: 'object',
+          properties: {
+            row: {
+              type: 'integer',
+              description: '1-based position of the task in the file; a CSV header is not counted',
+              example: 1,
+            },
+            action: { type: 'string', enum: ['create', 'update'] },
+            id: { type: 'string', format: 'uuid', description: 'ID of the task created or updated' },
+            success: { type: 'boolean', example: true },
+            status: {
+              type: 'integer',
+              description: 'HTTP status creating or updating the task on its own would have had',
+              example: 201,
+            },
+            message: { type: 'string', example: 'Task created successfully' },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+            allowedStatuses: { type: 'array', items: { type: 'string' } },
+            blockers: { type: 'array', items: { type: 'object' } },
+          },
+        },
+        ImportResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            message: { type: 'string', example: 'Import completed with 0 failure(s)' },
+            data: {
+              type: 'object',
+              properties: {
+                dryRun: { type: 'boolean', example: false },
+                total: { type: 'integer', example: 2 },
+                created: { type: 'integer', example: 2 },
+                updated: { type: 'integer', example: 0 },
+                failed: { type: 'integer', example: 0 },
+                results: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/ImportRowResult' },
+                },
+              },
+            },
+          },
+        },
+        TaskStats: {
+          type: 'object',
+          properties: {
+            total: {
+              type: 'number',
+              example: 10,
+              minimum: 0,
+              description: 'Total number of tasks',
+            },
+            pending: {
+              type: 'number',
+              example: 3,
+              minimum: 0,
+              description: 'Number of tasks with PENDING status',
+            },
+            inProgress: {
+              type: 'number',
+              example: 4,
+              minimum: 0,
+              description: 'Number of tasks with IN_PROGRESS status',
+            },
+            completed: {
+              type: 'number',
+              example: 3,
+              minimum: 0,
+              description: 'Number of tasks with COMPLETED status',
+            },
+            byStatus: {
+              type: 'object',
+              additionalProperties: { type: 'integer' },
+              description: 'Number of tasks in each status of the configured workflow',
+              example: { PENDING: 3, IN_PROGRESS: 4, COMPLETED: 3 },
+            },
+            completionRate: {
+              type: 'number',
+              example: 30.0,
+              minimum: 0,
+              maximum: 100,
+              description: 'Percentage of completed tasks',
+            },
+          },
+          required: ['total', 'pending', 'inProgress', 'completed'],
+        },
+        TaskProgress: {
+          type: 'object',
+          description: 'Completion rollup over all descendants of a task (the task itself is not counted).',
+          properties: {
+            total: {
+              type: 'integer',
+              minimum: 0,
+              example: 4,
+            },
+            completed: {
+              type: 'integer',
+              minimum: 0,
+              example: 3,
+            },
+            percent: {
+              type: 'integer',
+              nullable: true,
+              minimum: 0,
+              maximum: 100,
+              description: 'Rounded percentage of completed descendants; null when there are none.',
+              example: 75,
+            },
+          },
+          required: ['total', 'completed', 'percent'],
+        },
+        TaskNode: {
+          allOf: [
+            { $ref: '#/components/schemas/Task' },
+            {
+              type: 'object',
+              properties: {
+                progress: {
+                  $ref: '#/components/schemas/TaskProgress',
+                },
+                children: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/TaskNode',
+                  },
+                },
+              },
+            },
+          ],
+        },
+        AuditAction: {
+          type: 'string',
+          enum: Object.values(AuditAction),
+          description: 'The kind of change an audit entry records.',
+          example: AuditAction.UPDATE,
+        },
+        AuditEntry: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              example: 'c3d4e5f6-a7b8-4901-8234-567890abcdef',
+            },
+            taskId: {
+              type: 'string',
+              format: 'uuid',
+              example: 'a1b2c3d4-e5f6-7890-1234-567890abcdef',
+            },
+            userId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'The user who made the change.',
+              example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+            },
+            action: {
+              $ref: '#/components/schemas/AuditAction',
+            },
+            revision: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Per-task revision number, counting up from 1.',
+              example: 2,
+            },
+            changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: {
+                    type: 'string',
+                    enum: [...AUDITED_FIELDS],
+                  },
+                  oldValue: {
+                    nullable: true,
+                    example: 'PENDING',
+                  },
+                  newValue: {
+                    nullable: true,
+                    example: 'IN_PROGRESS',
+                  },
+                },
+              },
+            },
+            snapshot: {
+              type: 'object',
+              description: 'The audited fields of the task after the change (before it, for a deletion).',
+              example: {
+                title: 'Buy groceries',
+                description: '',
+                status: 'IN_PROGRESS',
+                priority: 'MEDIUM',
+                dueDate: null,
+                tags: ['home'],
+                parentId: null,
+                recurrence: null,
+              },
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              example: '2023-10-27T11:30:00.000Z',
+            },
+          },
+          required: ['id', 'taskId', 'userId', 'action', 'revision', 'changes', 'snapshot', 'createdAt'],
+        },
+        Tag: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              example: '9b2f6a4e-1c3d-4e5f-8a7b-6c5d4e3f2a1b',
+            },
+            name: {
               type: 'string',
-              nullable: true,
-              description: 'A detailed description of the task.',
-              example: 'Milk, eggs, bread, and fruits.',
-              maxLength: 500,
+              description: 'Lower-case tag name, unique per user.',
+              example: 'work',
             },
-            status: {
-              $ref: '#/components/schemas/TaskStatus',
+            userId: {
+              type: 'string',
+              format: 'uuid',
+              example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
             },
             createdAt: {
               type: 'string',
               format: 'date-time',
-              description: 'The date and time when the task was created.',
               example: '2023-10-27T10:00:00.000Z',
             },
             updatedAt: {
               type: 'string',
               format: 'date-time',
-              description: 'The date and time when the task was last updated.',
-              example: '2023-10-27T11:30:00.000Z',
+              example: '2023-10-27T10:00:00.000Z',
             },
           },
-          required: ['id', 'title', 'status', 'createdAt', 'updatedAt'],
+          required: ['id', 'name', 'userId', 'createdAt', 'updatedAt'],
         },
-        CreateTaskRequest: {
+        TagWithUsage: {
+          allOf: [
+            { $ref: '#/components/schemas/Tag' },
+            {
+              type: 'object',
+              properties: {
+                usageCount: {
+                  type: 'integer',
+                  minimum: 0,
+                  description: 'Number of tasks carrying the tag.',
+                  example: 5,
+                },
+              },
+            },
+          ],
+        },
+        TagRequest: {
           type: 'object',
           properties: {
-            title: {
+            name: {
               type: 'string',
-              description: 'The title of the task.',
-              example: 'Plan vacation',
               minLength: 1,
-              maxLength: 100,
-            },
-            description: {
-              type: 'string',
-              description: 'Optional description of the task.',
-              example: 'Research destinations and book flights.',
-              maxLength: 500,
-            },
-            status: {
-              $ref: '#/components/schemas/TaskStatus',
-              description: 'Initial status of the task (defaults to PENDING).',
+              maxLength: 50,
+              description: 'Tag name; starts with a letter or digit and may contain _, :, . and -.',
+              example: 'work',
             },
           },
-          required: ['title'],
+          required: ['name'],
           additionalProperties: false,
         },
-        UpdateTaskRequest: {
+        Comment: {
           type: 'object',
           properties: {
-            title: {
+            id: {
               type: 'string',
-              description: 'New title for the task.',
-              example: 'Finalize vacation plans',
-              minLength: 1,
-              maxLength: 100,
+              format: 'uuid',
+              example: '6d7e8f9a-0b1c-4d2e-8f3a-4b5c6d7e8f9a',
             },
-            description: {
+            taskId: {
+              type: 'string',
+              format: 'uuid',
+              example: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+            },
+            parentId: {
               type: 'string',
+              format: 'uuid',
               nullable: true,
-              description: 'New description for the task.',
-              example: 'Confirm hotel bookings and activities.',
-              maxLength: 500,
+              description: 'The top-level comment this one replies to; null for a top-level comment.',
+              example: null,
             },
-            status: {
-              $ref: '#/components/schemas/TaskStatus',
-              description: 'New status for the task.',
+            authorId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'The user who wrote the comment.',
+              example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
             },
-          },
-          minProperties: 1,
-          additionalProperties: false,
-        },
-        ErrorResponse: {
-          type: 'object',
-          properties: {
-            success: {
-              type: 'boolean',
-              example: false,
-              description: 'Indicates if the request was successful',
+            body: {
+              type: 'string',
+              example: 'Waiting on the design review before starting on this.',
             },
-            message: {
+            replyCount: {
+              type: 'integer',
+              minimum: 0,
+              description: 'Number of replies; always 0 for a reply.',
+              example: 1,
+            },
+            createdAt: {
               type: 'string',
-              example: 'Internal server error',
-              description: 'Human-readable error message',
+              format: 'date-time',
+              example: '2023-10-27T10:00:00.000Z',
             },
-            errors: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  field: {
-                    type: 'string',
-                    example: 'title',
-                    description: 'The field that caused the validation error',
-                  },
-                  message: {
-                    type: 'string',
-                    example: 'Title cannot be empty',
-                    description: 'Detailed error message for the field',
-                  },
-                },
-                required: ['field', 'message'],
-              },
-              nullable: true,
-              description: 'Array of validation errors (only present for validation failures)',
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Later than createdAt once the comment has been edited.',
+              example: '2023-10-27T10:00:00.000Z',
             },
           },
-          required: ['success', 'message'],
+          required: ['id', 'taskId', 'parentId', 'authorId', 'body', 'replyCount', 'createdAt', 'updatedAt'],
         },
-        Pagination: {
+        CreateCommentRequest: {
           type: 'object',
           properties: {
-            currentPage: {
-              type: 'number',
-              example: 1,
-              minimum: 1,
-              description: 'Current page number',
-            },
-            totalPages: {
-              type: 'number',
-              example: 5,
-              minimum: 0,
-              description: 'Total number of pages',
-            },
-            totalItems: {
-              type: 'number',
-              example: 50,
-              minimum: 0,
-              description: 'Total number of items across all pages',
-            },
-            itemsPerPage: {
-              type: 'number',
-              example: 10,
-              minimum: 1,
-              maximum: 100,
-              description: 'Number of items per page',
-            },
-            hasNextPage: {
-              type: 'boolean',
-              example: true,
-              description: 'Indicates if there is a next page',
+            body: {
+              type: 'string',
+              minLength: 1,
+              maxLength: 2000,
+              example: 'Waiting on the design review before starting on this.',
             },
-            hasPreviousPage: {
-              type: 'boolean',
-              example: false,
-              description: 'Indicates if there is a previous page',
+            parentId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'A top-level comment of the same task to reply to. Replies cannot be replied to.',
             },
           },
-          required: ['currentPage', 'totalPages', 'totalItems', 'itemsPerPage'],
+          required: ['body'],
+          additionalProperties: false,
         },
-        TaskStats: {
+        UpdateCommentRequest: {
           type: 'object',
           properties: {
-            total: {
-              type: 'number',
-              example: 10,
-              minimum: 0,
-              description: 'Total number of tasks',
-            },
-            pending: {
-              type: 'number',
-              example: 3,
-              minimum: 0,
-              description: 'Number of tasks with PENDING status',
-            },
-            inProgress: {
-              type: 'number',
-              example: 4,
-              minimum: 0,
-              description: 'Number of tasks with IN_PROGRESS status',
-            },
-            completed: {
-              type: 'number',
-              example: 3,
-              minimum: 0,
-              description: 'Number of tasks with COMPLETED status',
-            },
-            completionRate: {
-              type: 'number',
-              example: 30.0,
-              minimum: 0,
-              maximum: 100,
-              description: 'Percentage of completed tasks',
+            body: {
+              type: 'string',
+              minLength: 1,
+              maxLength: 2000,
+              example: 'Design review is done; starting tomorrow.',
             },
           },
-          required: ['total', 'pending', 'inProgress', 'completed'],
+          required: ['body'],
+          additionalProperties: false,
         },
         SuccessResponse: {
           type: 'object',
@@ -286,6 +1476,20 @@ const options = {
           required: ['success', 'message'],
         },
       },
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Token obtained from /auth/login or /auth/register',
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'Scoped API key created via /keys',
+        },
+      },
       responses: {
         BadRequest: {
           description: 'Bad Request - Invalid input or validation error',
@@ -297,6 +1501,34 @@ const options = {
             }
           }
         },
+        Unauthorized: {
+          description: 'Unauthorized - Missing, invalid or expired bearer token',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/ErrorResponse'
+              },
+              example: {
+                success: false,
+                message: 'Authentication required'
+              }
+            }
+          }
+        },
+        Forbidden: {
+          description: 'Forbidden - The API key lacks the scope required by this endpoint',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/ErrorResponse'
+              },
+              example: {
+                success: false,
+                message: 'API key lacks required scope: tasks:delete'
+              }
+            }
+          }
+        },
         NotFound: {
           description: 'Not Found - Resource does not exist',
           content: {
@@ -307,6 +1539,38 @@ const options = {
             }
           }
         },
+        Conflict: {
+          description: 'Conflict - The request clashes with an existing resource',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/ErrorResponse'
+              },
+              example: {
+                success: false,
+                message: 'Tag "work" already exists'
+              }
+            }
+          }
+        },
+        PreconditionFailed: {
+          description: 'Precondition Failed - The task changed since the ETag in If-Match was issued',
+          headers: {
+            ETag: { $ref: '#/components/headers/ETag' }
+          },
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  success: { type: 'boolean', example: false },
+                  message: { type: 'string', example: 'Task has been modified since it was last retrieved' },
+                  data: { $ref: '#/components/schemas/Task' }
+                }
+              }
+            }
+          }
+        },
         InternalServerError: {
           description: 'Internal Server Error',
           content: {
@@ -318,7 +1582,22 @@ const options = {
           }
         },
       },
+      headers: {
+        ETag: {
+          description: 'Current version of the task; send it back in If-Match to make a write conditional',
+          schema: { type: 'string' },
+          example: '"3"'
+        }
+      },
       parameters: {
+        IfMatch: {
+          name: 'If-Match',
+          in: 'header',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Apply the change only if the task still has this ETag; "*" matches any version',
+          example: '"3"'
+        },
         TaskId: {
           name: 'id',
           in: 'path',
@@ -355,9 +1634,14 @@ const options = {
           name: 'status',
           in: 'query',
           schema: {
-            $ref: '#/components/schemas/TaskStatus'
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/TaskStatus'
+            }
           },
-          description: 'Filter tasks by status'
+          style: 'form',
+          explode: false,
+          description: 'Filter tasks by one or more statuses'
         },
         SearchQuery: {
           name: 'search',
@@ -369,29 +1653,42 @@ const options = {
           },
           description: 'Search tasks by title or description'
         },
-        SortBy: {
-          name: 'sortBy',
-          in: 'query',
-          schema: {
-            type: 'string',
-            enum: ['createdAt', 'updatedAt', 'title', 'status'],
-            default: 'createdAt'
-          },
-          description: 'Field to sort by'
-        },
-        SortOrder: {
-          name: 'sortOrder',
+        Sort: {
+          name: 'sort',
           in: 'query',
           schema: {
-            type: 'string',
-            enum: ['asc', 'desc'],
-            default: 'desc'
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: TASK_SORT_FIELDS.flatMap(field => [field, `-${field}`]),
+            },
           },
-          description: 'Sort order (ascending or descending)'
+          style: 'form',
+          explode: false,
+          description: 'Comma-separated sort fields, each optionally prefixed with - for descending order '
+            + '(e.g. `-updatedAt,title`). Defaults to `-createdAt`. Cannot be combined with `orderBy` '
+            + 'or cursor pagination.',
+          example: ['-updatedAt', 'title'],
         }
       },
     },
+    security: [
+      {
+        bearerAuth: [],
+      },
+      {
+        apiKeyAuth: [],
+      },
+    ],
     tags: [
+      {
+        name: 'Auth',
+        description: 'User registration, login and token issuance',
+      },
+      {
+        name: 'API Keys',
+        description: 'Scoped API keys for service-to-service integrations',
+      },
       {
         name: 'Tasks',
         description: 'Operations related to task management',
@@ -400,6 +1697,42 @@ const options = {
           url: 'https://docs.taskmanagement.com/tasks'
         }
       },
+      {
+        name: 'Comments',
+        description: 'Discussion threads on tasks',
+      },
+      {
+        name: 'Tags',
+        description: 'Labels for grouping and filtering tasks',
+      },
+      {
+        name: 'Trash',
+        description: 'Deleted tasks awaiting restore or permanent deletion',
+      },
+      {
+        name: 'Import/Export',
+        description: 'Moving tasks in and out as CSV, JSON or NDJSON files',
+      },
+      {
+        name: 'Calendar',
+        description: 'Tasks as iCalendar documents and subscribable calendar feeds',
+      },
+      {
+        name: 'Webhooks',
+        description: 'Signed HTTP callbacks on task changes, with a delivery log and redelivery',
+      },
+      {
+        name: 'GraphQL',
+        description: 'A GraphQL API over tasks and their statistics, with a playground',
+      },
+      {
+        name: 'Audit',
+        description: 'Change history of tasks and reverting to earlier revisions',
+      },
+      {
+        name: 'Admin',
+        description: 'Background jobs (due-date reminders, escalations and notifications), for admins only',
+      },
       {
         name: 'Statistics',
         description: 'Task statistics and analytics',
@@ -0,0 +1,70 @@
+type AuthModule = typeof import('../auth');
+
+// Load the auth module afresh under an environment, the way a new process would
+const loadAuth = (env: { JWT_SECRET?: string; NODE_ENV?: string }): AuthModule => {
+  const saved = { JWT_SECRET: process.env.JWT_SECRET, NODE_ENV: process.env.NODE_ENV };
+  const set = (name: 'JWT_SECRET' | 'NODE_ENV', value: string | undefined) => {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  };
+  set('JWT_SECRET', env.JWT_SECRET);
+  set('NODE_ENV', env.NODE_ENV);
+  try {
+    let auth: AuthModule | undefined;
+    jest.isolateModules(() => {
+      auth = jest.requireActual<AuthModule>('../auth');
+    });
+    return auth!;
+  } finally {
+    set('JWT_SECRET', saved.JWT_SECRET);
+    set('NODE_ENV', saved.NODE_ENV);
+  }
+};
+
+const user = { id: 'user-1', email: 'user@example.com' };
+
+describe('JWT secret', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([['production'], ['test'], [undefined]])('is required when NODE_ENV is %s', nodeEnv => {
+    expect(() => loadAuth({ NODE_ENV: nodeEnv })).toThrow('JWT_SECRET must be set');
+  });
+
+  it('signs and verifies tokens with the configured secret', () => {
+    const auth = loadAuth({ JWT_SECRET: 'configured-secret', NODE_ENV: 'production' });
+    const again = loadAuth({ JWT_SECRET: 'configured-secret', NODE_ENV: 'production' });
+
+    expect(again.verifyToken(auth.signToken(user))).toEqual(user);
+    expect(loadAuth({ JWT_SECRET: 'other-secret' }).verifyToken(auth.signToken(user))).toBeUndefined();
+  });
+
+  it('is random per process in development', () => {
+    const first = loadAuth({ NODE_ENV: 'development' });
+    const second = loadAuth({ NODE_ENV: 'development' });
+
+    expect(first.verifyToken(first.signToken(user))).toEqual(user);
+    expect(second.verifyToken(first.signToken(user))).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('JWT_SECRET is not set'));
+  });
+});
+
+describe('API keys', () => {
+  it('are stored by a hash that identifies them', () => {
+    const { generateApiKey, hashApiKey } = loadAuth({ JWT_SECRET: 'configured-secret' });
+    const { key, prefix, keyHash } = generateApiKey();
+
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).not.toContain(key);
+    expect(generateApiKey().key).not.toBe(key);
+  });
+});
@@ -0,0 +1,87 @@
+import { Express } from 'express';
+import { closeTestDatabase, createTask, createTestApp, registerUser, TestUser } from '../../__tests__/helpers';
+import { config } from '../../config';
+import { JobType, Notification } from '../../models/job';
+import { TaskStatus } from '../../models/task';
+import { TaskRepository } from '../../repositories';
+import { getJobs } from '../database';
+import { createJob, createJobHandlers } from '../jobs';
+import { NotificationSink } from '../notifications';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('background jobs', () => {
+  let app: Express;
+  let taskRepository: TaskRepository;
+  let user: TestUser;
+  let sent: Notification[];
+  let handlers: ReturnType<typeof createJobHandlers>;
+
+  const sink: NotificationSink = {
+    send: async notification => {
+      sent.push(notification);
+    }
+  };
+
+  beforeAll(async () => {
+    ({ app, taskRepository } = await createTestApp());
+    user = await registerUser(app);
+    handlers = createJobHandlers(taskRepository, sink);
+  });
+
+  afterAll(closeTestDatabase);
+
+  beforeEach(() => {
+    sent = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const notificationJobs = async () =>
+    (await getJobs({ type: JobType.SEND_NOTIFICATION, limit: 100 })).jobs;
+
+  it('queues one reminder per due date for tasks coming due', async () => {
+    const task = await createTask(app, user, {
+      title: 'Due soon',
+      dueDate: new Date(Date.now() + config.reminderLeadMinutes * 60 * 1000 / 2).toISOString()
+    });
+
+    await handlers[JobType.DUE_DATE_REMINDERS](createJob(JobType.DUE_DATE_REMINDERS, {}));
+    await handlers[JobType.DUE_DATE_REMINDERS](createJob(JobType.DUE_DATE_REMINDERS, {}));
+
+    const reminders = (await notificationJobs()).filter(job => job.payload.taskId === task.id);
+    expect(reminders).toHaveLength(1);
+
+    await handlers[JobType.SEND_NOTIFICATION](reminders[0]);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ kind: 'reminder', user: { id: user.id }, subject: 'Reminder: "Due soon" is due soon' });
+  });
+
+  it('drops a reminder for a task completed since it was queued', async () => {
+    const task = await createTask(app, user, {
+      title: 'Done early',
+      dueDate: new Date(Date.now() + config.reminderLeadMinutes * 60 * 1000 / 2).toISOString()
+    });
+    await handlers[JobType.DUE_DATE_REMINDERS](createJob(JobType.DUE_DATE_REMINDERS, {}));
+    await taskRepository.updateTask(task.id, user.id, { status: TaskStatus.COMPLETED });
+
+    const [reminder] = (await notificationJobs()).filter(job => job.payload.taskId === task.id);
+    await handlers[JobType.SEND_NOTIFICATION](reminder);
+    expect(sent).toEqual([]);
+  });
+
+  it('escalates tasks left in progress too long', async () => {
+    const task = await createTask(app, user, { title: 'Stuck', status: 'IN_PROGRESS', priority: 'HIGH' });
+    const later = Date.now() + (config.escalationHours + 1) * HOUR_MS;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+
+    await handlers[JobType.ESCALATE_STALE_TASKS](createJob(JobType.ESCALATE_STALE_TASKS, {}));
+
+    const escalated = await taskRepository.getTaskById(task.id, user.id);
+    expect(escalated).toMatchObject({ priority: 'URGENT', version: 2 });
+    const [notification] = (await notificationJobs()).filter(job => job.payload.taskId === task.id);
+    expect(notification.payload).toMatchObject({ kind: 'escalation', userId: user.id });
+  });
+});
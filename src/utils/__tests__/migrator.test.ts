@@ -0,0 +1,47 @@
+import { Database } from 'sqlite';
+import { LATEST_VERSION, migrations } from '../../migrations';
+import { openDatabase } from '../database';
+import { getCurrentVersion, getMigrationStatus, migrateDown, migrateUp } from '../migrator';
+
+describe('migrations', () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = await openDatabase();
+  });
+
+  afterEach(() => db.close());
+
+  it('bring a new database up to the latest version', async () => {
+    expect(await migrateUp(db)).toHaveLength(migrations.length);
+    expect(await getCurrentVersion(db)).toBe(LATEST_VERSION);
+    expect((await getMigrationStatus(db)).every(status => status.applied)).toBe(true);
+    expect(await migrateUp(db)).toEqual([]);
+  });
+
+  it('apply up to a target version', async () => {
+    await migrateUp(db, 3);
+    expect(await getCurrentVersion(db)).toBe(3);
+  });
+
+  it('roll every migration back and apply them again', async () => {
+    await migrateUp(db);
+
+    expect(await migrateDown(db, migrations.length)).toHaveLength(migrations.length);
+    expect(await getCurrentVersion(db)).toBe(0);
+    await migrateUp(db);
+    expect(await getCurrentVersion(db)).toBe(LATEST_VERSION);
+  });
+
+  it('refuse a database newer than the code', async () => {
+    await migrateUp(db);
+    await db.run(
+      'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+      LATEST_VERSION + 1,
+      'from_the_future',
+      new Date().toISOString()
+    );
+
+    await expect(migrateUp(db)).rejects.toThrow('newer than the latest known migration');
+  });
+});
@@ -0,0 +1,31 @@
+import { getNextOccurrence, getOccurrences, parseRecurrenceRule } from '../recurrence';
+
+describe('recurrence rules', () => {
+  const start = new Date('2026-01-05T09:00:00.000Z'); // a Monday
+
+  it('lists occurrences at the time of day of the first one', () => {
+    expect(getOccurrences(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,WE'), start, 4).map(date => date.toISOString()))
+      .toEqual([
+        '2026-01-05T09:00:00.000Z',
+        '2026-01-07T09:00:00.000Z',
+        '2026-01-12T09:00:00.000Z',
+        '2026-01-14T09:00:00.000Z'
+      ]);
+  });
+
+  it('counts COUNT down as the series goes on and ends it at zero', () => {
+    const next = getNextOccurrence('FREQ=DAILY;COUNT=2', start);
+
+    expect(next!.dueDate.toISOString()).toBe('2026-01-06T09:00:00.000Z');
+    expect(next!.recurrence).toContain('COUNT=1');
+    expect(getNextOccurrence(next!.recurrence, next!.dueDate)).toBeUndefined();
+  });
+
+  it('stops after UNTIL', () => {
+    expect(getOccurrences(parseRecurrenceRule('FREQ=DAILY;UNTIL=20260107T000000Z'), start, 10)).toHaveLength(2);
+  });
+
+  it('rejects rules it cannot follow', () => {
+    expect(() => parseRecurrenceRule('FREQ=SOMETIMES')).toThrow();
+  });
+});
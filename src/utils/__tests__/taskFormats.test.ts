@@ -0,0 +1,70 @@
+import { Task, TaskPriority, TaskStatus } from '../../models/task';
+import { InvalidImportError } from '../errors';
+import { createTaskEncoder, parseTaskFile } from '../taskFormats';
+
+const task = (overrides: Partial<Task>): Task => ({
+  id: '6f1f7f59-6a43-4a5e-9d8f-3f7b1b8a2c11',
+  title: 'Task',
+  description: '',
+  status: TaskStatus.PENDING,
+  priority: TaskPriority.MEDIUM,
+  dueDate: null,
+  tags: [],
+  parentId: null,
+  recurrence: null,
+  commentCount: 0,
+  userId: 'user-1',
+  version: 1,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+  deletedAt: null,
+  ...overrides
+});
+
+const toCsv = (tasks: Task[]): string => {
+  const encoder = createTaskEncoder('csv');
+  return encoder.start + tasks.map((each, index) => encoder.encode(each, index)).join('') + encoder.end;
+};
+
+// Cells of the first data row of an import, by column
+const importFirstRow = (csv: string) => {
+  const [row] = parseTaskFile(csv, 'csv');
+  return 'value' in row ? row.value as Record<string, unknown> : undefined;
+};
+
+describe('CSV export', () => {
+  it('quotes cells with delimiters, quotes and line breaks', () => {
+    const csv = toCsv([task({ title: 'a, "b"', description: 'line\nbreak', tags: ['x', 'y'] })]);
+    expect(csv.split('\r\n')[1]).toContain(',"a, ""b""","line\nbreak",PENDING,MEDIUM,,"x,y",');
+  });
+
+  it.each(['=SUM(A1:A2)', '+1', '-1', '@cmd', '\tindented', '\rreturn'])(
+    'neutralizes the formula-like cell %j and restores it on import',
+    title => {
+      const csv = toCsv([task({ title })]);
+      expect(csv).toContain(`'${title}`);
+      expect(importFirstRow(csv)!.title).toBe(title);
+    }
+  );
+
+  it('round-trips cells that already start with a quote', () => {
+    for (const title of ["'=already quoted", "'plain quote", "''=twice"]) {
+      expect(importFirstRow(toCsv([task({ title })]))!.title).toBe(title);
+    }
+  });
+
+  it('leaves ordinary cells alone', () => {
+    expect(toCsv([task({ title: 'Plain title' })])).toContain(',Plain title,');
+  });
+});
+
+describe('CSV import', () => {
+  it('splits tags and leaves empty cells out', () => {
+    expect(importFirstRow('title,description,tags\r\nTask,,"a, b"\r\n')).toEqual({ title: 'Task', tags: ['a', 'b'] });
+  });
+
+  it('rejects unknown columns and files without a title column', () => {
+    expect(() => parseTaskFile('title,owner\r\nTask,me\r\n', 'csv')).toThrow(InvalidImportError);
+    expect(() => parseTaskFile('description\r\nText\r\n', 'csv')).toThrow(InvalidImportError);
+  });
+});
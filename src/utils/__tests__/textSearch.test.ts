@@ -0,0 +1,46 @@
+import { InvalidSearchQueryError } from '../errors';
+import { matchSearchQuery, parseSearchQuery, toHighlightHtml, MATCH_CLOSE, MATCH_OPEN } from '../textSearch';
+
+const match = (query: string, title: string, description = '') =>
+  matchSearchQuery(parseSearchQuery(query), title, description);
+
+describe('search queries', () => {
+  it('matches words, prefixes and phrases', () => {
+    expect(match('milk', 'Buy milk')).toBeDefined();
+    expect(match('mil*', 'Buy milk')).toBeDefined();
+    expect(match('mil', 'Buy milk')).toBeUndefined();
+    expect(match('"buy milk"', 'Buy milk today')).toBeDefined();
+    expect(match('"milk buy"', 'Buy milk today')).toBeUndefined();
+  });
+
+  it('combines terms with AND, OR, NOT and parentheses', () => {
+    expect(match('milk eggs', 'milk', 'eggs')).toBeDefined();
+    expect(match('milk AND bread', 'milk')).toBeUndefined();
+    expect(match('bread OR milk', 'milk')).toBeDefined();
+    expect(match('milk NOT eggs', 'milk', 'eggs')).toBeUndefined();
+    expect(match('(bread OR milk) NOT eggs', 'milk')).toBeDefined();
+  });
+
+  it('scores title matches above description matches', () => {
+    expect(match('milk', 'milk')!.score).toBeGreaterThan(match('milk', 'other', 'milk')!.score);
+  });
+
+  it.each(['"unterminated', 'milk AND', '(milk', 'title:milk'])('rejects %s', query => {
+    expect(() => parseSearchQuery(query)).toThrow(InvalidSearchQueryError);
+  });
+});
+
+describe('highlights', () => {
+  it('mark matches in HTML-escaped text', () => {
+    expect(match('milk', '<img src=x onerror="alert(1)"> milk & \'eggs\'')!.highlights.title)
+      .toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>milk</mark> &amp; &#39;eggs&#39;');
+  });
+
+  it('leave out matches of NOT branches', () => {
+    expect(match('milk NOT eggs', 'milk bread')!.highlights.title).toBe('<mark>milk</mark> bread');
+  });
+
+  it('turn SQLite match markers into marks after escaping', () => {
+    expect(toHighlightHtml(`<b>${MATCH_OPEN}milk${MATCH_CLOSE}</b>`)).toBe('&lt;b&gt;<mark>milk</mark>&lt;/b&gt;');
+  });
+});
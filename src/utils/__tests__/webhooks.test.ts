@@ -0,0 +1,119 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Webhook, WebhookDelivery } from '../../models/webhook';
+import { ValidationError } from '../errors';
+import { assertPublicWebhookUrl, attemptDelivery, createDelivery, isPrivateAddress, signPayload } from '../webhooks';
+
+jest.mock('../database', () => ({
+  recordWebhookAttempt: jest.fn(),
+  addWebhookDeliveries: jest.fn(),
+  getSubscribedWebhooks: jest.fn()
+}));
+
+const webhookAt = (url: string): Webhook => ({
+  id: 'webhook-1',
+  userId: 'user-1',
+  url,
+  events: [],
+  secret: 'webhook-secret-0123456789',
+  active: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const delivery = (): WebhookDelivery => createDelivery('webhook-1', 'event-1', 'task.created', '{"id":"event-1"}');
+
+describe('webhook destinations', () => {
+  it.each([
+    '127.0.0.1',
+    '127.255.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '::1',
+    '::',
+    'fe80::1',
+    'fd00::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1'
+  ])('treat %s as private', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700::1111'])('treat %s as public', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it.each([
+    'http://localhost:5000/hook',
+    'http://127.0.0.1/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://2130706433/hook',
+    'http://0x7f.1/hook'
+  ])('are refused at registration for %s', async url => {
+    await expect(assertPublicWebhookUrl(url)).rejects.toThrow(ValidationError);
+  });
+
+  it('are accepted at registration for public addresses', async () => {
+    await expect(assertPublicWebhookUrl('https://93.184.216.34/hook')).resolves.toBeUndefined();
+  });
+});
+
+describe('webhook deliveries', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each(['http://127.0.0.1:9/hook', 'http://localhost:9/hook'])('are never sent to %s', async url => {
+    const { recordWebhookAttempt } = jest.requireMock('../database');
+
+    await attemptDelivery(delivery(), webhookAt(url));
+
+    expect(recordWebhookAttempt).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ status: 'pending', responseStatus: null, error: expect.stringMatching(/private address/) })
+    );
+  });
+
+  it('are signed and sent to private addresses when allowed', async () => {
+    const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk)).on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+    try {
+      await jest.isolateModulesAsync(async () => {
+        const webhooks: typeof import('../webhooks') = await import('../webhooks');
+        const { recordWebhookAttempt } = jest.requireMock('../database');
+
+        await webhooks.attemptDelivery(delivery(), webhookAt(`http://127.0.0.1:${port}/hook`));
+
+        expect(recordWebhookAttempt).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ status: 'succeeded', responseStatus: 204, error: null })
+        );
+      });
+    } finally {
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+      server.close();
+    }
+
+    const [{ headers, body }] = received;
+    expect(body).toBe('{"id":"event-1"}');
+    expect(headers['x-webhook-signature'])
+      .toBe(signPayload('webhook-secret-0123456789', Number(headers['x-webhook-timestamp']), body));
+  });
+});
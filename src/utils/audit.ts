@@ -0,0 +1,51 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Task } from '../models/task';
+import { AuditAction, AuditChange, AuditEntry, AUDITED_FIELDS, TaskSnapshot } from '../models/audit';
+
+export const toSnapshot = (task: Task): TaskSnapshot => ({
+  title: task.title,
+  description: task.description,
+  status: task.status,
+  priority: task.priority,
+  dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+  tags: [...task.tags],
+  parentId: task.parentId,
+  recurrence: task.recurrence
+});
+
+// Fields that differ between two states of a task; a missing state counts as all-null
+export const diffSnapshots = (before: TaskSnapshot | null, after: TaskSnapshot | null): AuditChange[] =>
+  AUDITED_FIELDS
+    .map(field => ({
+      field,
+      oldValue: before ? before[field] : null,
+      newValue: after ? after[field] : null
+    }))
+    .filter(({ oldValue, newValue }) => JSON.stringify(oldValue) !== JSON.stringify(newValue));
+
+// Build the audit entry for a change from before to after (null when the task did not
+// exist on that side). Returns undefined for an update that changed no audited field.
+export const createAuditEntry = (
+  action: AuditAction,
+  before: Task | null,
+  after: Task | null,
+  revision: number
+): AuditEntry | undefined => {
+  const beforeSnapshot = before ? toSnapshot(before) : null;
+  const afterSnapshot = after ? toSnapshot(after) : null;
+  const changes = diffSnapshots(beforeSnapshot, afterSnapshot);
+  if (action === AuditAction.UPDATE && !changes.length) {
+    return undefined;
+  }
+  const task = (after ?? before)!;
+  return {
+    id: uuidv4(),
+    taskId: task.id,
+    userId: task.userId,
+    action,
+    revision,
+    changes,
+    snapshot: (afterSnapshot ?? beforeSnapshot)!,
+    createdAt: new Date()
+  };
+};
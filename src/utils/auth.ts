@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { AuthUser } from '../models/user';
+
+// Outside development a missing secret is fatal. In development each process signs with
+// its own random secret, so tokens stop working when the server restarts.
+const resolveJwtSecret = (): string => {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+  if (process.env.NODE_ENV !== 'development') {
+    throw new Error('JWT_SECRET must be set (or run with NODE_ENV=development to use a random secret)');
+  }
+  console.warn('JWT_SECRET is not set; signing tokens with a random secret for this process');
+  return crypto.randomBytes(32).toString('hex');
+};
+
+const JWT_SECRET = resolveJwtSecret();
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
+const BCRYPT_ROUNDS = 10;
+const API_KEY_PREFIX = 'tmk_';
+const CALENDAR_TOKEN_PREFIX = 'tmc_';
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+// Hash a plain-text password for storage
+export const hashPassword = async (password: string): Promise<string> => {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+};
+
+// Compare a plain-text password against a stored hash
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  return bcrypt.compare(password, passwordHash);
+};
+
+// Issue a signed bearer token for a user
+export const signToken = (user: AuthUser): string => {
+  return jwt.sign({ email: user.email }, JWT_SECRET, {
+    subject: user.id,
+    expiresIn: JWT_EXPIRES_IN as jwt.SignOptions['expiresIn'],
+  });
+};
+
+// Verify a bearer token and return the identity it carries, or undefined if invalid/expired
+export const verifyToken = (token: string): AuthUser | undefined => {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    if (!payload.sub || typeof payload.email !== 'string') {
+      return undefined;
+    }
+    return { id: payload.sub, email: payload.email };
+  } catch {
+    return undefined;
+  }
+};
+
+export const getTokenExpiry = (): string => JWT_EXPIRES_IN;
+
+// API keys are high-entropy random secrets, so a fast SHA-256 digest is enough to
+// store them safely and still allows looking a key up by its hash.
+export const hashApiKey = (key: string): string => {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+// Generate a new API key. The plain-text key is only ever returned here; callers
+// persist the hash and the short prefix used to identify the key in listings.
+export const generateApiKey = (): { key: string; prefix: string; keyHash: string } => {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return {
+    key,
+    prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+    keyHash: hashApiKey(key),
+  };
+};
+
+// Calendar feed tokens are random secrets like API keys and are hashed the same way
+export const hashCalendarToken = hashApiKey;
+
+// Generate a new calendar feed token. As with API keys, only the hash and a short prefix
+// are persisted.
+export const generateCalendarToken = (): { token: string; prefix: string; tokenHash: string } => {
+  const token = `${CALENDAR_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    prefix: token.slice(0, CALENDAR_TOKEN_PREFIX.length + 8),
+    tokenHash: hashCalendarToken(token),
+  };
+};
+
+// Generate a signing secret for a webhook. Unlike API keys it is stored as is, since
+// deliveries are signed with it.
+export const generateWebhookSecret = (): string =>
+  `${WEBHOOK_SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
@@ -0,0 +1,53 @@
+import { TaskCursor, TaskQuery } from '../models/task';
+
+// Encode a task's position in the createdAt/id ordering as an opaque cursor
+export const encodeCursor = (task: { createdAt: Date; id: string }): string => {
+  return Buffer.from(JSON.stringify([task.createdAt.toISOString(), task.id])).toString('base64url');
+};
+
+// Decode a cursor produced by encodeCursor; undefined if it is malformed
+export const decodeCursor = (cursor: string): TaskCursor | undefined => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === 'string' &&
+      typeof decoded[1] === 'string' &&
+      !Number.isNaN(Date.parse(decoded[0]))
+    ) {
+      return { createdAt: new Date(decoded[0]).toISOString(), id: decoded[1] };
+    }
+  } catch {
+    // Fall through to undefined
+  }
+  return undefined;
+};
+
+// A listing is cursor-paginated when a cursor is given. A limit alone asks for page 1 of
+// page-based pagination, whose newest-first pages carry a nextCursor to continue from.
+export const isCursorMode = ({ after, before }: TaskQuery): boolean => {
+  return Boolean(after || before);
+};
+
+export const DEFAULT_CURSOR_LIMIT = 10;
+
+// Build the cursors for a page of tasks fetched in cursor mode. hasMore says whether
+// the store found another task beyond the page in the direction of travel.
+export const getCursors = (
+  tasks: { createdAt: Date; id: string }[],
+  { after, before }: TaskQuery,
+  hasMore: boolean
+): { nextCursor: string | null; prevCursor: string | null } => {
+  const first = tasks[0];
+  const last = tasks[tasks.length - 1];
+  // Paging backwards from a cursor means the cursor's task (and so a next page) exists,
+  // and likewise paging forwards from a cursor means a previous page exists
+  const hasNext = before ? true : hasMore;
+  const hasPrevious = before ? hasMore : Boolean(after);
+
+  return {
+    nextCursor: hasNext && last ? encodeCursor(last) : null,
+    prevCursor: hasPrevious && first ? encodeCursor(first) : null,
+  };
+};
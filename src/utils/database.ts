@@ -1,181 +1,506 @@
 import sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
-import { Task, TaskStatus } from '../models/task';
+import { config } from '../config';
+import { User } from '../models/user';
+import { ApiKey } from '../models/apiKey';
+import { CalendarFeed } from '../models/calendar';
+import { Webhook, WebhookDelivery, WebhookDeliveryQuery } from '../models/webhook';
+import { Job, JobQuery, JobStatus } from '../models/job';
+import { assertSchemaNotNewer, migrateUp, getCurrentVersion } from './migrator';
+import { queueStatements } from './transaction';
 
 let db: Database;
 
-const DB_PATH = './tasks.db'; // SQLite database file
+const DB_PATH = config.dbPath; // SQLite database file
+
+// Open a connection to the SQLite database file without touching its schema
+export const openDatabase = async (): Promise<Database> => {
+  const connection = await open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+  // SQLite leaves foreign key enforcement (and ON DELETE CASCADE) off by default
+  await connection.exec('PRAGMA foreign_keys = ON');
+  return queueStatements(connection);
+};
+
+// Get the open connection; only valid after initializeDatabase has resolved
+export const getDatabase = (): Database => {
+  if (!db) {
+    throw new Error('Database has not been initialized');
+  }
+  return db;
+};
 
 export const initializeDatabase = async (): Promise<void> => {
   try {
-    db = await open({
-      filename: DB_PATH,
-      driver: sqlite3.Database
-    });
+    db = await openDatabase();
 
     console.log(`Connected to SQLite database at ${DB_PATH}`);
 
-    await db.exec(`
-      CREATE TABLE IF NOT EXISTS tasks (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        description TEXT,
-        status TEXT NOT NULL,
-        createdAt DATETIME NOT NULL,
-        updatedAt DATETIME NOT NULL
-      );
-    `);
-    console.log('Tasks table ensured to exist.');
+    await assertSchemaNotNewer(db);
+    const applied = await migrateUp(db);
+    console.log(
+      applied.length
+        ? `Applied ${applied.length} migration(s); schema is at version ${await getCurrentVersion(db)}.`
+        : `Database schema is up to date (version ${await getCurrentVersion(db)}).`
+    );
   } catch (error) {
     console.error('Error initializing database:', error);
     process.exit(1); // Exit if database cannot be initialized
   }
 };
 
-// Get all tasks with optional pagination and filtering
-export const getAllTasks = async (
-  page?: number,
-  limit?: number,
-  status?: string,
-  search?: string
-): Promise<{
-  tasks: Task[];
-  total: number;
-  page?: number;
-  totalPages?: number;
-}> => {
-  let query = 'SELECT * FROM tasks WHERE 1=1';
-  const params: (string | number)[] = [];
-
-  if (status) {
-    query += ' AND status = ?';
-    params.push(status.toUpperCase());
+// Get user by email (used for login and duplicate checks)
+export const getUserByEmail = async (email: string): Promise<User | undefined> => {
+  const user = await db.get<User>('SELECT * FROM users WHERE email = ?', email.toLowerCase());
+  if (user) {
+    return {
+      ...user,
+      createdAt: new Date(user.createdAt),
+      updatedAt: new Date(user.updatedAt)
+    };
   }
+  return undefined;
+};
 
-  if (search) {
-    query += ' AND title LIKE ?';
-    params.push(`%${search}%`);
+// Get user by ID
+export const getUserById = async (id: string): Promise<User | undefined> => {
+  const user = await db.get<User>('SELECT * FROM users WHERE id = ?', id);
+  if (user) {
+    return {
+      ...user,
+      createdAt: new Date(user.createdAt),
+      updatedAt: new Date(user.updatedAt)
+    };
   }
+  return undefined;
+};
 
-  // Get total count first
-  const countQuery = query.replace('SELECT *', 'SELECT COUNT(*) as total');
-  const totalResult = await db.get(countQuery, params);
-  const total = totalResult ? totalResult.total : 0;
+// Add new user
+export const addUser = async (user: User): Promise<User> => {
+  await db.run(
+    'INSERT INTO users (id, email, name, passwordHash, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)',
+    user.id,
+    user.email,
+    user.name,
+    user.passwordHash,
+    user.createdAt.toISOString(),
+    user.updatedAt.toISOString()
+  );
+  return user;
+};
 
-  // Order by createdAt (newest first)
-  query += ' ORDER BY createdAt DESC';
+// A raw api_keys row: scopes are stored as JSON and dates as strings
+type ApiKeyRow = Omit<ApiKey, 'scopes' | 'createdAt' | 'lastUsedAt' | 'revokedAt'> & {
+  scopes: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+};
 
-  // Apply pagination if provided
-  if (page && limit) {
-    const offset = (page - 1) * limit;
-    query += ' LIMIT ? OFFSET ?';
-    params.push(limit, offset);
-  }
+// Convert a raw api_keys row into an ApiKey
+const toApiKey = (row: ApiKeyRow): ApiKey => ({
+  ...row,
+  scopes: JSON.parse(row.scopes),
+  createdAt: new Date(row.createdAt),
+  lastUsedAt: row.lastUsedAt ? new Date(row.lastUsedAt) : null,
+  revokedAt: row.revokedAt ? new Date(row.revokedAt) : null
+});
 
-  const tasks = await db.all<Task[]>(query, params);
+// Add new API key (only the hash of the secret is stored)
+export const addApiKey = async (apiKey: ApiKey): Promise<ApiKey> => {
+  await db.run(
+    'INSERT INTO api_keys (id, userId, name, prefix, keyHash, scopes, createdAt, lastUsedAt, revokedAt) VALUES (?, ?, ?, ?, ?, ?, ?, NULL, NULL)',
+    apiKey.id,
+    apiKey.userId,
+    apiKey.name,
+    apiKey.prefix,
+    apiKey.keyHash,
+    JSON.stringify(apiKey.scopes),
+    apiKey.createdAt.toISOString()
+  );
+  return apiKey;
+};
 
-  // Convert Date strings back to Date objects if necessary (sqlite stores DATETIME as string)
-  const formattedTasks = tasks.map(task => ({
-    ...task,
-    createdAt: new Date(task.createdAt),
-    updatedAt: new Date(task.updatedAt)
-  }));
+// Get all API keys owned by a user, newest first
+export const getApiKeysByUser = async (userId: string): Promise<ApiKey[]> => {
+  const rows = await db.all<ApiKeyRow[]>('SELECT * FROM api_keys WHERE userId = ? ORDER BY createdAt DESC', userId);
+  return rows.map(toApiKey);
+};
 
+// Get an active (non-revoked) API key by the hash of its secret
+export const getActiveApiKeyByHash = async (keyHash: string): Promise<ApiKey | undefined> => {
+  const row = await db.get<ApiKeyRow>('SELECT * FROM api_keys WHERE keyHash = ? AND revokedAt IS NULL', keyHash);
+  return row ? toApiKey(row) : undefined;
+};
 
-  if (page && limit) {
-    return {
-      tasks: formattedTasks,
-      total,
-      page,
-      totalPages: Math.ceil(total / limit),
-    };
-  }
+// Record that an API key was just used
+export const touchApiKey = async (id: string): Promise<void> => {
+  await db.run('UPDATE api_keys SET lastUsedAt = ? WHERE id = ?', new Date().toISOString(), id);
+};
 
-  return { tasks: formattedTasks, total };
+// Revoke an API key, scoped to its owner
+export const revokeApiKey = async (id: string, userId: string): Promise<boolean> => {
+  const result = await db.run(
+    'UPDATE api_keys SET revokedAt = ? WHERE id = ? AND userId = ? AND revokedAt IS NULL',
+    new Date().toISOString(),
+    id,
+    userId
+  );
+  return (result.changes ?? 0) > 0;
 };
 
-// Get task by ID
-export const getTaskById = async (id: string): Promise<Task | undefined> => {
-  const task = await db.get<Task>('SELECT * FROM tasks WHERE id = ?', id);
-  if (task) {
-    return {
-      ...task,
-      createdAt: new Date(task.createdAt),
-      updatedAt: new Date(task.updatedAt)
-    };
-  }
-  return undefined;
+// A raw calendar_feeds row, with its dates as stored
+type CalendarFeedRow = Omit<CalendarFeed, 'createdAt' | 'lastUsedAt'> & { createdAt: string; lastUsedAt: string | null };
+
+const toCalendarFeed = (row: CalendarFeedRow): CalendarFeed => ({
+  ...row,
+  createdAt: new Date(row.createdAt),
+  lastUsedAt: row.lastUsedAt ? new Date(row.lastUsedAt) : null
+});
+
+// Store a user's calendar feed, replacing the one they had (only the hash of the token is stored)
+export const replaceCalendarFeed = async (feed: CalendarFeed): Promise<CalendarFeed> => {
+  await db.run(
+    'INSERT OR REPLACE INTO calendar_feeds (id, userId, prefix, tokenHash, createdAt, lastUsedAt) VALUES (?, ?, ?, ?, ?, NULL)',
+    feed.id,
+    feed.userId,
+    feed.prefix,
+    feed.tokenHash,
+    feed.createdAt.toISOString()
+  );
+  return feed;
+};
+
+// Get a user's calendar feed
+export const getCalendarFeedByUser = async (userId: string): Promise<CalendarFeed | undefined> => {
+  const row = await db.get<CalendarFeedRow>('SELECT * FROM calendar_feeds WHERE userId = ?', userId);
+  return row ? toCalendarFeed(row) : undefined;
+};
+
+// Get a calendar feed by the hash of its token
+export const getCalendarFeedByHash = async (tokenHash: string): Promise<CalendarFeed | undefined> => {
+  const row = await db.get<CalendarFeedRow>('SELECT * FROM calendar_feeds WHERE tokenHash = ?', tokenHash);
+  return row ? toCalendarFeed(row) : undefined;
+};
+
+// Record that a calendar feed was just fetched
+export const touchCalendarFeed = async (id: string): Promise<void> => {
+  await db.run('UPDATE calendar_feeds SET lastUsedAt = ? WHERE id = ?', new Date().toISOString(), id);
+};
+
+// Delete a user's calendar feed, returning whether they had one
+export const deleteCalendarFeed = async (userId: string): Promise<boolean> => {
+  const result = await db.run('DELETE FROM calendar_feeds WHERE userId = ?', userId);
+  return (result.changes ?? 0) > 0;
+};
+
+// A raw webhooks row: events are stored as JSON, active as 0 or 1 and dates as strings
+type WebhookRow = Omit<Webhook, 'events' | 'active' | 'createdAt' | 'updatedAt'> & {
+  events: string;
+  active: number;
+  createdAt: string;
+  updatedAt: string;
 };
 
-// Add new task
-export const addTask = async (task: Task): Promise<Task> => {
+// A raw webhook_deliveries row, with its dates as stored
+type WebhookDeliveryRow = Omit<WebhookDelivery, 'nextAttemptAt' | 'lastAttemptAt' | 'createdAt'> & {
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string;
+};
+
+const toWebhook = (row: WebhookRow): Webhook => ({
+  ...row,
+  events: JSON.parse(row.events),
+  active: Boolean(row.active),
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt)
+});
+
+const toWebhookDelivery = (row: WebhookDeliveryRow): WebhookDelivery => ({
+  ...row,
+  nextAttemptAt: row.nextAttemptAt ? new Date(row.nextAttemptAt) : null,
+  lastAttemptAt: row.lastAttemptAt ? new Date(row.lastAttemptAt) : null,
+  createdAt: new Date(row.createdAt)
+});
+
+// Add new webhook subscription
+export const addWebhook = async (webhook: Webhook): Promise<Webhook> => {
   await db.run(
-    'INSERT INTO tasks (id, title, description, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)',
-    task.id,
-    task.title,
-    task.description,
-    task.status,
-    task.createdAt.toISOString(),
-    task.updatedAt.toISOString()
-  );
-  return task;
-};
-
-// Update task by ID
-// Changed return type from Promise<Task | null> to Promise<Task | undefined>
-export const updateTask = async (id: string, updates: Partial<Task>): Promise<Task | undefined> => {
-  const existingTask = await getTaskById(id);
-  if (!existingTask) {
-    return undefined; // Return undefined if task not found, matching getTaskById's return type
+    'INSERT INTO webhooks (id, userId, url, events, secret, active, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    webhook.id,
+    webhook.userId,
+    webhook.url,
+    JSON.stringify(webhook.events),
+    webhook.secret,
+    webhook.active ? 1 : 0,
+    webhook.createdAt.toISOString(),
+    webhook.updatedAt.toISOString()
+  );
+  return webhook;
+};
+
+// Get all webhooks owned by a user, oldest first
+export const getWebhooksByUser = async (userId: string): Promise<Webhook[]> => {
+  const rows = await db.all<WebhookRow[]>('SELECT * FROM webhooks WHERE userId = ? ORDER BY createdAt, id', userId);
+  return rows.map(toWebhook);
+};
+
+// Get a webhook by ID, scoped to its owner
+export const getWebhookById = async (id: string, userId: string): Promise<Webhook | undefined> => {
+  const row = await db.get<WebhookRow>('SELECT * FROM webhooks WHERE id = ? AND userId = ?', id, userId);
+  return row ? toWebhook(row) : undefined;
+};
+
+// Update a webhook, scoped to its owner
+export const updateWebhook = async (
+  id: string,
+  userId: string,
+  updates: Partial<Pick<Webhook, 'url' | 'events' | 'secret' | 'active'>>
+): Promise<Webhook | undefined> => {
+  const existing = await getWebhookById(id, userId);
+  if (!existing) {
+    return undefined;
   }
+  const updated: Webhook = { ...existing, ...updates, updatedAt: new Date() };
+  await db.run(
+    'UPDATE webhooks SET url = ?, events = ?, secret = ?, active = ?, updatedAt = ? WHERE id = ?',
+    updated.url,
+    JSON.stringify(updated.events),
+    updated.secret,
+    updated.active ? 1 : 0,
+    updated.updatedAt.toISOString(),
+    id
+  );
+  return updated;
+};
 
-  const updatedTask = {
-    ...existingTask,
-    ...updates,
-    updatedAt: new Date(),
-  };
+// Delete a webhook and its deliveries, scoped to its owner
+export const deleteWebhook = async (id: string, userId: string): Promise<boolean> => {
+  const result = await db.run('DELETE FROM webhooks WHERE id = ? AND userId = ?', id, userId);
+  return (result.changes ?? 0) > 0;
+};
 
-  const setClauses: string[] = [];
-  const params: (string | Date)[] = [];
+// Get a user's active webhooks subscribed to an event
+export const getSubscribedWebhooks = async (userId: string, event: string): Promise<Webhook[]> => {
+  const rows = await db.all<WebhookRow[]>(
+    `SELECT * FROM webhooks
+     WHERE userId = ? AND active = 1 AND EXISTS (SELECT 1 FROM json_each(webhooks.events) WHERE value = ?)
+     ORDER BY createdAt, id`,
+    userId,
+    event
+  );
+  return rows.map(toWebhook);
+};
 
-  if (updates.title !== undefined) {
-    setClauses.push('title = ?');
-    params.push(updatedTask.title);
+// Queue webhook deliveries
+export const addWebhookDeliveries = async (deliveries: WebhookDelivery[]): Promise<void> => {
+  for (const delivery of deliveries) {
+    await db.run(
+      `INSERT INTO webhook_deliveries
+         (id, webhookId, eventId, event, payload, status, attempts, nextAttemptAt, lastAttemptAt, responseStatus, error, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      delivery.id,
+      delivery.webhookId,
+      delivery.eventId,
+      delivery.event,
+      delivery.payload,
+      delivery.status,
+      delivery.attempts,
+      delivery.nextAttemptAt ? delivery.nextAttemptAt.toISOString() : null,
+      delivery.lastAttemptAt ? delivery.lastAttemptAt.toISOString() : null,
+      delivery.responseStatus,
+      delivery.error,
+      delivery.createdAt.toISOString()
+    );
   }
-  if (updates.description !== undefined) {
-    setClauses.push('description = ?');
-    params.push(updatedTask.description);
+};
+
+// Get the deliveries of a webhook, newest first, optionally only those with a status
+export const getWebhookDeliveries = async (
+  webhookId: string,
+  { page = 1, limit = 20, status }: WebhookDeliveryQuery = {}
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> => {
+  let where = 'WHERE webhookId = ?';
+  const params: (string | number)[] = [webhookId];
+  if (status) {
+    where += ' AND status = ?';
+    params.push(status);
   }
-  if (updates.status !== undefined) {
-    setClauses.push('status = ?');
-    params.push(updatedTask.status);
+
+  const { total } = (await db.get<{ total: number }>(`SELECT COUNT(*) AS total FROM webhook_deliveries ${where}`, params))!;
+  const rows = await db.all<WebhookDeliveryRow[]>(
+    `SELECT * FROM webhook_deliveries ${where} ORDER BY createdAt DESC, id DESC LIMIT ? OFFSET ?`,
+    [...params, limit, (page - 1) * limit]
+  );
+  return { deliveries: rows.map(toWebhookDelivery), total };
+};
+
+// Get one delivery of a webhook
+export const getWebhookDelivery = async (id: string, webhookId: string): Promise<WebhookDelivery | undefined> => {
+  const row = await db.get<WebhookDeliveryRow>(
+    'SELECT * FROM webhook_deliveries WHERE id = ? AND webhookId = ?',
+    id,
+    webhookId
+  );
+  return row ? toWebhookDelivery(row) : undefined;
+};
+
+// Get pending deliveries due by a time, the longest waiting first, with their webhooks
+export const getDueWebhookDeliveries = async (
+  dueBy: Date,
+  limit: number
+): Promise<{ delivery: WebhookDelivery; webhook: Webhook }[]> => {
+  const rows = await db.all<WebhookDeliveryRow[]>(
+    `SELECT * FROM webhook_deliveries
+     WHERE status = 'pending' AND nextAttemptAt <= ?
+       AND webhookId IN (SELECT id FROM webhooks WHERE active = 1)
+     ORDER BY nextAttemptAt, id
+     LIMIT ?`,
+    dueBy.toISOString(),
+    limit
+  );
+  if (!rows.length) {
+    return [];
   }
-  setClauses.push('updatedAt = ?');
-  params.push(updatedTask.updatedAt.toISOString());
 
-  const query = `UPDATE tasks SET ${setClauses.join(', ')} WHERE id = ?`;
-  params.push(id);
+  const webhookIds = [...new Set(rows.map(row => row.webhookId))];
+  const webhookRows = await db.all<WebhookRow[]>(
+    `SELECT * FROM webhooks WHERE id IN (${webhookIds.map(() => '?').join(', ')})`,
+    webhookIds
+  );
+  const webhooks = new Map(webhookRows.map(row => [row.id, toWebhook(row)]));
+  return rows.map(row => ({ delivery: toWebhookDelivery(row), webhook: webhooks.get(row.webhookId)! }));
+};
 
-  await db.run(query, params);
+// Record the outcome of a delivery attempt
+export const recordWebhookAttempt = async (
+  id: string,
+  outcome: Pick<WebhookDelivery, 'status' | 'attempts' | 'nextAttemptAt' | 'lastAttemptAt' | 'responseStatus' | 'error'>
+): Promise<void> => {
+  await db.run(
+    `UPDATE webhook_deliveries
+     SET status = ?, attempts = ?, nextAttemptAt = ?, lastAttemptAt = ?, responseStatus = ?, error = ?
+     WHERE id = ?`,
+    outcome.status,
+    outcome.attempts,
+    outcome.nextAttemptAt ? outcome.nextAttemptAt.toISOString() : null,
+    outcome.lastAttemptAt ? outcome.lastAttemptAt.toISOString() : null,
+    outcome.responseStatus,
+    outcome.error,
+    id
+  );
+};
 
-  // Retrieve the updated task to return the full object
-  return getTaskById(id);
+// A raw jobs row: the payload is stored as JSON and dates as strings
+type JobRow = Omit<Job, 'payload' | 'runAt' | 'lastRunAt' | 'createdAt' | 'updatedAt'> & {
+  payload: string;
+  runAt: string;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
 };
 
-// Delete task by ID
-export const deleteTask = async (id: string): Promise<boolean> => {
-  const result = await db.run('DELETE FROM tasks WHERE id = ?', id);
-  // Safely access result.changes, defaulting to 0 if undefined
+const toJob = (row: JobRow): Job => ({
+  ...row,
+  payload: JSON.parse(row.payload),
+  runAt: new Date(row.runAt),
+  lastRunAt: row.lastRunAt ? new Date(row.lastRunAt) : null,
+  createdAt: new Date(row.createdAt),
+  updatedAt: new Date(row.updatedAt)
+});
+
+// Queue a job, returning false if a job with its unique key already exists
+export const addJob = async (job: Job): Promise<boolean> => {
+  const result = await db.run(
+    `INSERT OR IGNORE INTO jobs
+       (id, type, payload, status, runAt, intervalSeconds, uniqueKey, attempts, maxAttempts, lastError, lastRunAt, createdAt, updatedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    job.id,
+    job.type,
+    JSON.stringify(job.payload),
+    job.status,
+    job.runAt.toISOString(),
+    job.intervalSeconds,
+    job.uniqueKey,
+    job.attempts,
+    job.maxAttempts,
+    job.lastError,
+    job.lastRunAt ? job.lastRunAt.toISOString() : null,
+    job.createdAt.toISOString(),
+    job.updatedAt.toISOString()
+  );
   return (result.changes ?? 0) > 0;
 };
 
-// Get total count of tasks
-export const getTaskCount = async (): Promise<number> => {
-  const result = await db.get('SELECT COUNT(*) as total FROM tasks');
-  return result ? result.total : 0;
+// Get jobs, newest first, optionally only those with a status or of a type
+export const getJobs = async (
+  { page = 1, limit = 20, status, type }: JobQuery = {}
+): Promise<{ jobs: Job[]; total: number }> => {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (status) {
+    conditions.push('status = ?');
+    params.push(status);
+  }
+  if (type) {
+    conditions.push('type = ?');
+    params.push(type);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const { total } = (await db.get<{ total: number }>(`SELECT COUNT(*) AS total FROM jobs ${where}`, params))!;
+  const rows = await db.all<JobRow[]>(
+    `SELECT * FROM jobs ${where} ORDER BY createdAt DESC, id DESC LIMIT ? OFFSET ?`,
+    [...params, limit, (page - 1) * limit]
+  );
+  return { jobs: rows.map(toJob), total };
+};
+
+// Get a job by ID
+export const getJobById = async (id: string): Promise<Job | undefined> => {
+  const row = await db.get<JobRow>('SELECT * FROM jobs WHERE id = ?', id);
+  return row ? toJob(row) : undefined;
+};
+
+// Get scheduled jobs due by a time, the longest waiting first
+export const getDueJobs = async (dueBy: Date, limit: number): Promise<Job[]> => {
+  const rows = await db.all<JobRow[]>(
+    `SELECT * FROM jobs WHERE status = 'scheduled' AND runAt <= ? ORDER BY runAt, id LIMIT ?`,
+    dueBy.toISOString(),
+    limit
+  );
+  return rows.map(toJob);
+};
+
+// Change a job only while it is in one of the given statuses, returning the changed job,
+// or undefined if there is no such job or it is in another status
+export const updateJob = async (
+  id: string,
+  fromStatuses: JobStatus[],
+  changes: Partial<Pick<Job, 'status' | 'runAt' | 'attempts' | 'lastError' | 'lastRunAt'>>
+): Promise<Job | undefined> => {
+  const columns = Object.keys(changes) as (keyof typeof changes)[];
+  const values = columns.map(column => {
+    const value = changes[column];
+    return value instanceof Date ? value.toISOString() : value ?? null;
+  });
+  const result = await db.run(
+    `UPDATE jobs SET ${[...columns, 'updatedAt'].map(column => `${column} = ?`).join(', ')}
+     WHERE id = ? AND status IN (${fromStatuses.map(() => '?').join(', ')})`,
+    [...values, new Date().toISOString(), id, ...fromStatuses]
+  );
+  return (result.changes ?? 0) > 0 ? getJobById(id) : undefined;
 };
 
-// Clear all tasks (useful for testing)
-export const clearAllTasks = async (): Promise<void> => {
-  await db.run('DELETE FROM tasks');
+// Put jobs that were running when the server stopped without finishing them back in the
+// queue, returning how many there were
+export const requeueRunningJobs = async (): Promise<number> => {
+  const result = await db.run(
+    `UPDATE jobs SET status = 'scheduled', updatedAt = ? WHERE status = 'running'`,
+    new Date().toISOString()
+  );
+  return result.changes ?? 0;
 };
@@ -0,0 +1,82 @@
+import { Task } from '../models/task';
+
+// Errors thrown by the data layer that controllers translate into client errors
+
+// The search expression could not be parsed (e.g. unbalanced quotes or a dangling operator)
+export class InvalidSearchQueryError extends Error {
+  constructor(message = 'Invalid search query') {
+    super(message);
+    this.name = 'InvalidSearchQueryError';
+  }
+}
+
+// The change would clash with existing data (e.g. a duplicate name)
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+// A conditional write whose expected version no longer matches; carries the task as it
+// is now so the caller can merge and retry
+export class PreconditionFailedError extends Error {
+  constructor(public readonly current: Task) {
+    super('Task has been modified since it was last retrieved');
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+// A task cannot be started or completed while some of its blockers are incomplete
+export class BlockedTaskError extends Error {
+  constructor(public readonly blockers: Task[]) {
+    super(`Task is blocked by ${blockers.length} incomplete task(s); pass ignoreBlockers=true to override`);
+    this.name = 'BlockedTaskError';
+  }
+}
+
+// A patch document that cannot be applied to the task (e.g. a path that does not exist)
+export class InvalidPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPatchError';
+  }
+}
+
+// A JSON Patch test operation did not match the task's current value
+export class PatchTestFailedError extends Error {
+  constructor(public readonly path: string) {
+    super(`Test failed for path "${path}"`);
+    this.name = 'PatchTestFailedError';
+  }
+}
+
+// A status change the workflow does not allow; from is null when creating a task
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly from: string | null,
+    public readonly to: string,
+    public readonly allowed: string[]
+  ) {
+    super(from === null ? `Tasks cannot be created with status ${to}` : `Cannot move a task from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+// A field passed schema validation but is invalid against stored data (e.g. it refers
+// to a missing record); reported like a schema validation error
+export class ValidationError extends Error {
+  constructor(public readonly field: string, message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+// An import body that cannot be read as a whole (e.g. malformed CSV); problems with single
+// rows are reported per row instead
+export class InvalidImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImportError';
+  }
+}
@@ -0,0 +1,17 @@
+import { Task } from '../models/task';
+
+// A task's entity tag is its version as a strong ETag, e.g. "3"
+export const toETag = (task: Task): string => `"${task.version}"`;
+
+const ETAG_PATTERN = /^"(\d+)"$/;
+
+// The version an If-Match header requires: undefined when the header is absent or "*"
+// (any current version), null when it is not "*" or a single ETag issued by this API
+export const parseIfMatch = (header: string | undefined): number | undefined | null => {
+  const value = header?.trim();
+  if (!value || value === '*') {
+    return undefined;
+  }
+  const match = ETAG_PATTERN.exec(value);
+  return match ? Number(match[1]) : null;
+};
@@ -0,0 +1,105 @@
+import { Task, TaskPriority, TaskStatus } from '../models/task';
+import { TaskEncoder } from './taskFormats';
+
+export const CALENDAR_TYPE = 'text/calendar';
+
+// VTODO status of each built-in task status; custom workflow statuses count as NEEDS-ACTION
+const TODO_STATUS: Record<string, string> = {
+  [TaskStatus.PENDING]: 'NEEDS-ACTION',
+  [TaskStatus.IN_PROGRESS]: 'IN-PROCESS',
+  [TaskStatus.COMPLETED]: 'COMPLETED',
+};
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const TODO_PRIORITY: Record<TaskPriority, number> = {
+  [TaskPriority.URGENT]: 1,
+  [TaskPriority.HIGH]: 3,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+// Escape a TEXT value (RFC 5545 section 3.3.11)
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// A UTC DATE-TIME value, e.g. 20231027T100000Z
+const formatDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Fold a content line into lines of at most 75 octets, continuation lines starting with a
+// space, without splitting a multi-byte character
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return `${parts.join('\r\n ')}\r\n`;
+};
+
+const toLines = (lines: (string | undefined)[]): string =>
+  lines.filter((line): line is string => line !== undefined).map(foldLine).join('');
+
+// UIDs are derived from the task id so calendar apps recognise a task across refreshes
+const todoUid = (id: string): string => `${id}@task-management-api`;
+const eventUid = (id: string): string => `${id}-due@task-management-api`;
+
+const toTodo = (task: Task): string => toLines([
+  'BEGIN:VTODO',
+  `UID:${todoUid(task.id)}`,
+  `DTSTAMP:${formatDateTime(task.updatedAt)}`,
+  `CREATED:${formatDateTime(task.createdAt)}`,
+  `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+  // Each update of a task is a new revision of its entry
+  `SEQUENCE:${task.version - 1}`,
+  `SUMMARY:${escapeText(task.title)}`,
+  task.description ? `DESCRIPTION:${escapeText(task.description)}` : undefined,
+  `STATUS:${TODO_STATUS[task.status] ?? 'NEEDS-ACTION'}`,
+  task.status === TaskStatus.COMPLETED ? 'PERCENT-COMPLETE:100' : undefined,
+  `PRIORITY:${TODO_PRIORITY[task.priority]}`,
+  task.dueDate ? `DUE:${formatDateTime(task.dueDate)}` : undefined,
+  task.tags.length ? `CATEGORIES:${task.tags.map(escapeText).join(',')}` : undefined,
+  task.parentId ? `RELATED-TO;RELTYPE=PARENT:${todoUid(task.parentId)}` : undefined,
+  'END:VTODO',
+]);
+
+// The due date as a point-in-time event that does not block time in free/busy lookups
+const toEvent = (task: Task): string => toLines([
+  'BEGIN:VEVENT',
+  `UID:${eventUid(task.id)}`,
+  `DTSTAMP:${formatDateTime(task.updatedAt)}`,
+  `CREATED:${formatDateTime(task.createdAt)}`,
+  `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+  `SEQUENCE:${task.version - 1}`,
+  `DTSTART:${formatDateTime(task.dueDate!)}`,
+  // The due date starts the series, so the task's rule applies as it is
+  task.recurrence ? `RRULE:${task.recurrence}` : undefined,
+  `SUMMARY:${escapeText(`Due: ${task.title}`)}`,
+  task.description ? `DESCRIPTION:${escapeText(task.description)}` : undefined,
+  task.tags.length ? `CATEGORIES:${task.tags.map(escapeText).join(',')}` : undefined,
+  `RELATED-TO:${todoUid(task.id)}`,
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+]);
+
+// Writes tasks as an iCalendar (RFC 5545) document with a VTODO per task and, when events
+// is set, a VEVENT on the due date of each task that has one
+export const createCalendarEncoder = ({ events }: { events: boolean }): TaskEncoder => ({
+  start: toLines([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Task Management API//Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Tasks',
+  ]),
+  encode: task => toTodo(task) + (events && task.dueDate ? toEvent(task) : ''),
+  end: toLines(['END:VCALENDAR']),
+});
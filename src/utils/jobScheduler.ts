@@ -0,0 +1,76 @@
+import { Job, JobType } from '../models/job';
+import { getDueJobs, updateJob } from './database';
+
+const BATCH_SIZE = 10;
+// Wait before the first retry of a failed job; doubles with every retry
+const RETRY_DELAY_MS = 30 * 1000;
+
+export type JobHandler = (job: Job) => Promise<void>;
+export type JobHandlers = Record<JobType, JobHandler>;
+
+// Run due jobs every intervalMs, a batch at a time. Jobs live in the database, so the
+// queue survives restarts. A job that throws is retried with exponential backoff until it
+// runs out of attempts; a recurring job that succeeds is scheduled again after its interval.
+// Returns a function that stops the scheduler, resolving once running jobs have finished.
+export const startJobScheduler = (handlers: JobHandlers, intervalMs = 1000): (() => Promise<void>) => {
+  // The tick in progress, if any; ticks never overlap so no job runs twice at once
+  let running: Promise<void> | undefined;
+  let stopped = false;
+
+  const runJob = async (job: Job): Promise<void> => {
+    // The job may have been paused since it was fetched
+    const claimed = await updateJob(job.id, ['scheduled'], { status: 'running', lastRunAt: new Date() });
+    if (!claimed) {
+      return;
+    }
+
+    try {
+      await handlers[job.type](claimed);
+      await updateJob(job.id, ['running'], job.intervalSeconds === null
+        ? { status: 'completed', attempts: 0, lastError: null }
+        : {
+          status: 'scheduled',
+          runAt: new Date(Date.now() + job.intervalSeconds * 1000),
+          attempts: 0,
+          lastError: null
+        });
+    } catch (error) {
+      console.error(`Error running ${job.type} job ${job.id}:`, error);
+      const attempts = job.attempts + 1;
+      const gaveUp = attempts >= job.maxAttempts;
+      await updateJob(job.id, ['running'], {
+        status: gaveUp ? 'failed' : 'scheduled',
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        ...(!gaveUp && { runAt: new Date(Date.now() + RETRY_DELAY_MS * 2 ** (attempts - 1)) })
+      });
+    }
+  };
+
+  const tick = async (): Promise<void> => {
+    try {
+      let due = await getDueJobs(new Date(), BATCH_SIZE);
+      while (due.length && !stopped) {
+        await Promise.all(due.map(runJob));
+        due = due.length < BATCH_SIZE ? [] : await getDueJobs(new Date(), BATCH_SIZE);
+      }
+    } catch (error) {
+      console.error('Error running background jobs:', error);
+    } finally {
+      running = undefined;
+    }
+  };
+
+  // Do not keep the process alive just for the scheduler
+  const timer = setInterval(() => {
+    if (!running && !stopped) {
+      running = tick();
+    }
+  }, intervalMs).unref();
+
+  return async () => {
+    stopped = true;
+    clearInterval(timer);
+    await running;
+  };
+};
@@ -0,0 +1,156 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { Job, JobType, Notification, NotificationJobPayload, NotificationKind } from '../models/job';
+import { Task, TaskPriority, TaskStatus, TASK_PRIORITY_RANK } from '../models/task';
+import { User } from '../models/user';
+import { TaskRepository } from '../repositories';
+import { addJob, getUserById } from './database';
+import { PreconditionFailedError } from './errors';
+import { JobHandlers } from './jobScheduler';
+import { NotificationSink } from './notifications';
+import { toUpdateEvents } from './taskCommands';
+import { publishTaskEvents } from './taskEvents';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const REMINDER_SCAN_SECONDS = 60;
+const ESCALATION_SCAN_SECONDS = 10 * 60;
+
+const PRIORITIES = (Object.keys(TASK_PRIORITY_RANK) as TaskPriority[])
+  .sort((a, b) => TASK_PRIORITY_RANK[a] - TASK_PRIORITY_RANK[b]);
+
+// A new job, due now unless runAt is given
+export const createJob = (
+  type: JobType,
+  payload: Record<string, unknown>,
+  options: { runAt?: Date; intervalSeconds?: number; uniqueKey?: string } = {}
+): Job => {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    type,
+    payload,
+    status: 'scheduled',
+    runAt: options.runAt ?? now,
+    intervalSeconds: options.intervalSeconds ?? null,
+    uniqueKey: options.uniqueKey ?? null,
+    attempts: 0,
+    maxAttempts: config.jobMaxAttempts,
+    lastError: null,
+    lastRunAt: null,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Queue the recurring scans on first start; existing ones are kept as they are, so a
+// paused scan stays paused across restarts
+export const scheduleRecurringJobs = async (): Promise<void> => {
+  await addJob(createJob(JobType.DUE_DATE_REMINDERS, {}, {
+    intervalSeconds: REMINDER_SCAN_SECONDS,
+    uniqueKey: JobType.DUE_DATE_REMINDERS
+  }));
+  await addJob(createJob(JobType.ESCALATE_STALE_TASKS, {}, {
+    intervalSeconds: ESCALATION_SCAN_SECONDS,
+    uniqueKey: JobType.ESCALATE_STALE_TASKS
+  }));
+};
+
+const buildNotification = (kind: NotificationKind, user: User, task: Task): Notification => {
+  const details = [
+    `Task: ${task.title}`,
+    `Status: ${task.status}`,
+    `Priority: ${task.priority}`,
+    `Due: ${task.dueDate ? task.dueDate.toISOString() : 'no due date'}`,
+    `ID: ${task.id}`
+  ];
+  const [subject, summary] = kind === 'reminder'
+    ? [`Reminder: "${task.title}" is due soon`, `Your task "${task.title}" is due at ${task.dueDate?.toISOString()}.`]
+    : [
+      `Escalated: "${task.title}" is ${task.priority}`,
+      `Your task "${task.title}" has been ${TaskStatus.IN_PROGRESS} without changes for over ${config.escalationHours} hour(s), so its priority is now ${task.priority}.`
+    ];
+
+  return {
+    kind,
+    user: { id: user.id, email: user.email, name: user.name },
+    task,
+    subject,
+    text: [`Hi ${user.name},`, '', summary, '', ...details].join('\n')
+  };
+};
+
+// What each type of job does
+export const createJobHandlers = (taskRepository: TaskRepository, sink: NotificationSink): JobHandlers => {
+  // The unique key stops a notification from being queued twice by later scans
+  const queueNotification = (payload: NotificationJobPayload, uniqueKey: string): Promise<boolean> =>
+    addJob(createJob(JobType.SEND_NOTIFICATION, { ...payload }, { uniqueKey }));
+
+  // Remind owners of tasks coming due within the lead time, once per due date
+  const queueReminders = async (): Promise<void> => {
+    const now = Date.now();
+    const tasks = await taskRepository.getTasksDueBetween(
+      new Date(now),
+      new Date(now + config.reminderLeadMinutes * MINUTE_MS)
+    );
+    for (const task of tasks) {
+      const dueDate = task.dueDate!.toISOString();
+      await queueNotification(
+        { kind: 'reminder', userId: task.userId, taskId: task.id, dueDate },
+        `reminder:${task.id}:${dueDate}`
+      );
+    }
+  };
+
+  // Raise the priority of tasks left IN_PROGRESS too long by one level (URGENT ones stay
+  // URGENT) and tell their owners. Escalating counts as a change, so a task still stuck is
+  // escalated again after another escalation period.
+  const escalateStaleTasks = async (): Promise<void> => {
+    const tasks = await taskRepository.getStaleTasks(
+      TaskStatus.IN_PROGRESS,
+      new Date(Date.now() - config.escalationHours * HOUR_MS)
+    );
+    for (const task of tasks) {
+      const priority = PRIORITIES[Math.min(TASK_PRIORITY_RANK[task.priority] + 1, PRIORITIES.length - 1)];
+      let escalated: Task | undefined;
+      try {
+        // Only if nobody changed the task since it was found; it is no longer stale then
+        escalated = await taskRepository.updateTask(task.id, task.userId, { priority }, task.version);
+      } catch (error) {
+        if (error instanceof PreconditionFailedError) {
+          continue;
+        }
+        throw error;
+      }
+      if (!escalated) {
+        continue;
+      }
+
+      await publishTaskEvents(task.userId, toUpdateEvents(task, escalated));
+      await queueNotification(
+        { kind: 'escalation', userId: task.userId, taskId: task.id },
+        `escalation:${task.id}:${escalated.version}`
+      );
+    }
+  };
+
+  const sendNotification = async (job: Job): Promise<void> => {
+    const { kind, userId, taskId, dueDate } = job.payload as unknown as NotificationJobPayload;
+    const [user, task] = await Promise.all([getUserById(userId), taskRepository.getTaskById(taskId, userId)]);
+    // Nothing to tell about a deleted task, nor a reminder for a task done or rescheduled
+    // since the reminder was queued
+    if (!user || !task) {
+      return;
+    }
+    if (kind === 'reminder' && (task.status === TaskStatus.COMPLETED || task.dueDate?.toISOString() !== dueDate)) {
+      return;
+    }
+    await sink.send(buildNotification(kind, user, task));
+  };
+
+  return {
+    [JobType.DUE_DATE_REMINDERS]: queueReminders,
+    [JobType.ESCALATE_STALE_TASKS]: escalateStaleTasks,
+    [JobType.SEND_NOTIFICATION]: sendNotification
+  };
+};
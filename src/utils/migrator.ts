@@ -0,0 +1,133 @@
+import { Database } from 'sqlite';
+import { Migration, AppliedMigration, MigrationStatus } from '../models/migration';
+import { migrations as knownMigrations } from '../migrations';
+import { withTransaction } from './transaction';
+
+// Create the bookkeeping table that records which migrations have run
+const ensureMigrationsTable = async (db: Database): Promise<void> => {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt DATETIME NOT NULL
+    );
+  `);
+};
+
+// Get applied migrations in ascending version order
+export const getAppliedMigrations = async (db: Database): Promise<AppliedMigration[]> => {
+  await ensureMigrationsTable(db);
+  const rows = await db.all<AppliedMigration[]>(
+    'SELECT version, name, appliedAt FROM schema_migrations ORDER BY version ASC'
+  );
+  return rows.map(row => ({ ...row, appliedAt: new Date(row.appliedAt) }));
+};
+
+// Get the highest applied migration version (0 for an empty database)
+export const getCurrentVersion = async (db: Database): Promise<number> => {
+  await ensureMigrationsTable(db);
+  const result = await db.get('SELECT MAX(version) as version FROM schema_migrations');
+  return result?.version ?? 0;
+};
+
+// Check that migration versions are unique and strictly increasing
+const validateMigrations = (migrations: Migration[]): void => {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(
+        `Migration ${migration.version}_${migration.name} is out of order; versions must be strictly increasing`
+      );
+    }
+  });
+};
+
+// Refuse to touch a database whose schema was written by newer code
+export const assertSchemaNotNewer = async (
+  db: Database,
+  migrations: Migration[] = knownMigrations
+): Promise<void> => {
+  const currentVersion = await getCurrentVersion(db);
+  const latestVersion = migrations.length ? migrations[migrations.length - 1].version : 0;
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than the latest known migration ${latestVersion}. ` +
+      'Upgrade the application before running it against this database.'
+    );
+  }
+};
+
+// Apply pending migrations up to (and including) targetVersion, or all of them.
+// Returns the migrations that were applied.
+export const migrateUp = async (
+  db: Database,
+  targetVersion?: number,
+  migrations: Migration[] = knownMigrations
+): Promise<Migration[]> => {
+  validateMigrations(migrations);
+  await assertSchemaNotNewer(db, migrations);
+
+  const appliedVersions = new Set((await getAppliedMigrations(db)).map(m => m.version));
+  const pending = migrations.filter(
+    m => !appliedVersions.has(m.version) && (targetVersion === undefined || m.version <= targetVersion)
+  );
+
+  // Each migration commits together with its bookkeeping row, or not at all
+  for (const migration of pending) {
+    await withTransaction(db, async () => {
+      await migration.up(db);
+      await db.run(
+        'INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+        migration.version,
+        migration.name,
+        new Date().toISOString()
+      );
+    });
+    console.log(`Applied migration ${migration.version}_${migration.name}`);
+  }
+
+  return pending;
+};
+
+// Roll back the most recently applied migrations. Returns the migrations that were rolled back.
+export const migrateDown = async (
+  db: Database,
+  steps = 1,
+  migrations: Migration[] = knownMigrations
+): Promise<Migration[]> => {
+  await assertSchemaNotNewer(db, migrations);
+
+  const applied = (await getAppliedMigrations(db)).reverse().slice(0, steps);
+  const rolledBack: Migration[] = [];
+
+  for (const { version } of applied) {
+    const migration = migrations.find(m => m.version === version);
+    if (!migration) {
+      throw new Error(`Cannot roll back unknown migration version ${version}`);
+    }
+
+    await withTransaction(db, async () => {
+      await migration.down(db);
+      await db.run('DELETE FROM schema_migrations WHERE version = ?', version);
+    });
+    console.log(`Rolled back migration ${migration.version}_${migration.name}`);
+    rolledBack.push(migration);
+  }
+
+  return rolledBack;
+};
+
+// Get every known migration along with whether it has been applied
+export const getMigrationStatus = async (
+  db: Database,
+  migrations: Migration[] = knownMigrations
+): Promise<MigrationStatus[]> => {
+  const applied = new Map((await getAppliedMigrations(db)).map(m => [m.version, m]));
+
+  return migrations.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    applied: applied.has(migration.version),
+    appliedAt: applied.get(migration.version)?.appliedAt ?? null,
+  }));
+};
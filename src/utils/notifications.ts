@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { Notification, NotificationSinkType } from '../models/job';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const MAIL_FROM = 'Task Management API <noreply@task-management-api>';
+
+// Delivers notifications somewhere; send throws if the notification could not be
+// delivered, so the job sending it is retried
+export interface NotificationSink {
+  send(notification: Notification): Promise<void>;
+}
+
+const logSink: NotificationSink = {
+  send: async ({ kind, user, task, subject }) => {
+    console.log(`Notification (${kind}) to ${user.email} about task ${task.id}: ${subject}`);
+  }
+};
+
+// POSTs each notification as JSON; any response other than 2xx counts as a failure
+const createWebhookSink = (url: string): NotificationSink => ({
+  send: async notification => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'Task-Management-API-Notifications' },
+      body: JSON.stringify(notification),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Notification webhook responded with HTTP ${response.status}`);
+    }
+  }
+});
+
+// Header values must stay on one line
+const headerValue = (value: string): string => value.replace(/[\r\n]+/g, ' ');
+
+// Stands in for an SMTP server on a development machine: each message is written to the
+// mail directory as an .eml file, which mail clients can open
+const createMailSink = (directory: string): NotificationSink => ({
+  send: async ({ user, subject, text }) => {
+    const id = uuidv4();
+    const message = [
+      `Message-ID: <${id}@task-management-api>`,
+      `Date: ${new Date().toUTCString()}`,
+      `From: ${MAIL_FROM}`,
+      `To: ${headerValue(user.name)} <${user.email}>`,
+      `Subject: =?UTF-8?B?${Buffer.from(headerValue(subject)).toString('base64')}?=`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      text,
+      ''
+    ].join('\r\n');
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, `${Date.now()}-${id}.eml`), message);
+  }
+});
+
+// The sink chosen by NOTIFICATION_SINK
+export const createNotificationSink = (type: NotificationSinkType = config.notificationSink): NotificationSink => {
+  switch (type) {
+    case 'log':
+      return logSink;
+    case 'webhook':
+      return createWebhookSink(config.notificationWebhookUrl!);
+    case 'smtp':
+      return createMailSink(config.notificationMailDir);
+  }
+};
@@ -0,0 +1,170 @@
+import { InvalidPatchError, PatchTestFailedError } from './errors';
+
+export const MERGE_PATCH_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_TYPE = 'application/json-patch+json';
+
+// One operation of a JSON Patch (RFC 6902) document
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]));
+  }
+  return a === b;
+};
+
+// Apply a JSON Merge Patch (RFC 7386): objects merge recursively, null removes a member
+// and anything else replaces the target
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isObject(patch)) {
+    return clone(patch);
+  }
+  const result: JsonObject = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+};
+
+// Split a JSON Pointer (RFC 6901) into its unescaped reference tokens
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new InvalidPatchError(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+// Index of an array element named by a pointer token; "-" (past the end) only when adding
+const arrayIndex = (array: unknown[], token: string, pointer: string, adding: boolean): number => {
+  if (adding && token === '-') {
+    return array.length;
+  }
+  const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN;
+  if (Number.isNaN(index) || index > array.length || (!adding && index === array.length)) {
+    throw new InvalidPatchError(`Path "${pointer}" does not exist`);
+  }
+  return index;
+};
+
+// The container holding the value a pointer refers to, and the last token
+const resolveParent = (document: unknown, pointer: string): { parent: unknown; key: string } => {
+  const tokens = parsePointer(pointer);
+  const key = tokens.pop()!;
+  let parent = document;
+  for (const token of tokens) {
+    if (Array.isArray(parent)) {
+      parent = parent[arrayIndex(parent, token, pointer, false)];
+    } else if (isObject(parent) && Object.prototype.hasOwnProperty.call(parent, token)) {
+      parent = parent[token];
+    } else {
+      throw new InvalidPatchError(`Path "${pointer}" does not exist`);
+    }
+  }
+  return { parent, key };
+};
+
+const getValue = (document: unknown, pointer: string): unknown => {
+  if (pointer === '') {
+    return document;
+  }
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, key, pointer, false)];
+  }
+  if (isObject(parent) && Object.prototype.hasOwnProperty.call(parent, key)) {
+    return parent[key];
+  }
+  throw new InvalidPatchError(`Path "${pointer}" does not exist`);
+};
+
+// Each write returns the new document, since a pointer of "" replaces the whole document
+const addValue = (document: unknown, pointer: string, value: unknown): unknown => {
+  if (pointer === '') {
+    return value;
+  }
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, true), 0, value);
+  } else if (isObject(parent)) {
+    parent[key] = value;
+  } else {
+    throw new InvalidPatchError(`Path "${pointer}" does not exist`);
+  }
+  return document;
+};
+
+const removeValue = (document: unknown, pointer: string): unknown => {
+  if (pointer === '') {
+    return undefined;
+  }
+  getValue(document, pointer);
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, pointer, false), 1);
+  } else {
+    delete (parent as JsonObject)[key];
+  }
+  return document;
+};
+
+// Apply a JSON Patch (RFC 6902). Operations apply in order to a copy of the document, so
+// the original is untouched if any of them fails. Throws InvalidPatchError for a path that
+// cannot be applied and PatchTestFailedError when a test operation does not match.
+export const applyJsonPatch = (document: unknown, operations: JsonPatchOperation[]): unknown => {
+  let result = clone(document);
+  for (const { op, path, from, value } of operations) {
+    switch (op) {
+      case 'add':
+        result = addValue(result, path, clone(value));
+        break;
+      case 'remove':
+        result = removeValue(result, path);
+        break;
+      case 'replace':
+        getValue(result, path);
+        result = addValue(removeValue(result, path), path, clone(value));
+        break;
+      case 'move': {
+        if (path.startsWith(`${from}/`)) {
+          throw new InvalidPatchError(`Cannot move "${from}" into one of its own children`);
+        }
+        const moved = getValue(result, from!);
+        result = addValue(removeValue(result, from!), path, moved);
+        break;
+      }
+      case 'copy':
+        result = addValue(result, path, clone(getValue(result, from!)));
+        break;
+      case 'test':
+        if (!isDeepEqual(getValue(result, path), value)) {
+          throw new PatchTestFailedError(path);
+        }
+        break;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,233 @@
+import { RecurrenceFrequency, RecurrenceRule, RecurrenceWeekday } from '../models/recurrence';
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+// Weekday codes indexed like Date.getUTCDay
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL = 366;
+const MAX_COUNT = 1000;
+// Periods to scan for the next occurrence before giving up on a rule that (almost) never
+// matches, e.g. the 31st of every second month starting in February
+const MAX_PERIODS = 5000;
+
+const parsePositiveInteger = (value: string, name: string, max: number): number => {
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < 1 || number > max) {
+    throw new Error(`${name} must be a whole number from 1 to ${max}`);
+  }
+  return number;
+};
+
+// A date (20240131, the end of that day) or a UTC date-time (20240131T170000Z)
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw new Error('UNTIL must be a date such as 20240131 or a UTC date-time such as 20240131T170000Z');
+  }
+  const [year, month, day, hours = '23', minutes = '59', seconds = '59'] = match.slice(1);
+  const until = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+  // Out-of-range fields such as a 31st of April roll over into the next unit
+  if (until.getUTCDate() !== +day || until.getUTCHours() !== +hours || until.getUTCMinutes() !== +minutes) {
+    throw new Error('UNTIL is not a valid date');
+  }
+  return until;
+};
+
+const parseWeekday = (value: string, freq: RecurrenceFrequency): RecurrenceWeekday => {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) {
+    throw new Error(`BYDAY value "${value}" must be a weekday such as MO, optionally with an ordinal such as 1MO or -1FR`);
+  }
+  const weekday = WEEKDAYS.indexOf(match[2]);
+  if (match[1] === undefined) {
+    return { weekday };
+  }
+  const ordinal = Number(match[1]);
+  if (freq !== 'MONTHLY') {
+    throw new Error('BYDAY ordinals such as 1MO are only allowed with FREQ=MONTHLY');
+  }
+  if (ordinal === 0 || Math.abs(ordinal) > 5) {
+    throw new Error('BYDAY ordinals must be from 1 to 5 or -5 to -1');
+  }
+  return { weekday, ordinal };
+};
+
+const parseMonthDay = (value: string): number => {
+  const day = Number(value);
+  if (!/^[+-]?\d{1,2}$/.test(value) || day === 0 || Math.abs(day) > 31) {
+    throw new Error('BYMONTHDAY values must be from 1 to 31 or -31 to -1');
+  }
+  return day;
+};
+
+// Parse an RRULE such as FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10, with or without the RRULE:
+// prefix. Supports FREQ (DAILY, WEEKLY or MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT
+// and UNTIL; throws an Error describing the first problem found.
+export const parseRecurrenceRule = (text: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';').filter(part => part.trim())) {
+    const match = /^([A-Za-z]+)=(.+)$/.exec(part.trim());
+    if (!match) {
+      throw new Error(`"${part}" is not a NAME=VALUE part`);
+    }
+    const name = match[1].toUpperCase();
+    if (parts.has(name)) {
+      throw new Error(`${name} is given more than once`);
+    }
+    parts.set(name, match[2].trim().toUpperCase());
+  }
+
+  const unsupported = [...parts.keys()].find(name => !['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL'].includes(name));
+  if (unsupported) {
+    throw new Error(`${unsupported} is not supported; use FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL`);
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(`FREQ must be one of: ${FREQUENCIES.join(', ')}`);
+  }
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new Error('COUNT and UNTIL cannot be combined');
+  }
+  if (parts.has('BYMONTHDAY') && freq === 'WEEKLY') {
+    throw new Error('BYMONTHDAY is not allowed with FREQ=WEEKLY');
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: parts.has('INTERVAL') ? parsePositiveInteger(parts.get('INTERVAL')!, 'INTERVAL', MAX_INTERVAL) : 1,
+  };
+  if (parts.has('BYDAY')) {
+    const byDay = parts.get('BYDAY')!.split(',').map(value => parseWeekday(value, freq));
+    rule.byDay = byDay.filter((day, index) =>
+      byDay.findIndex(other => other.weekday === day.weekday && other.ordinal === day.ordinal) === index
+    );
+  }
+  if (parts.has('BYMONTHDAY')) {
+    rule.byMonthDay = [...new Set(parts.get('BYMONTHDAY')!.split(',').map(parseMonthDay))];
+  }
+  if (parts.has('COUNT')) {
+    rule.count = parsePositiveInteger(parts.get('COUNT')!, 'COUNT', MAX_COUNT);
+  }
+  if (parts.has('UNTIL')) {
+    rule.until = parseUntil(parts.get('UNTIL')!);
+  }
+  return rule;
+};
+
+// Write a rule in the canonical form stored on tasks, e.g. FREQ=MONTHLY;BYDAY=-1FR;COUNT=6
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => [
+  `FREQ=${rule.freq}`,
+  rule.interval > 1 ? `INTERVAL=${rule.interval}` : undefined,
+  rule.byDay ? `BYDAY=${rule.byDay.map(({ weekday, ordinal }) => `${ordinal ?? ''}${WEEKDAYS[weekday]}`).join(',')}` : undefined,
+  rule.byMonthDay ? `BYMONTHDAY=${rule.byMonthDay.join(',')}` : undefined,
+  rule.count !== undefined ? `COUNT=${rule.count}` : undefined,
+  rule.until ? `UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}` : undefined,
+].filter(part => part !== undefined).join(';');
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Midnight UTC of each day of a month matching the rule's BYDAY and BYMONTHDAY, in order;
+// without either, the day of the month the series started on
+const monthDays = (rule: RecurrenceRule, year: number, month: number, startDay: number): number[] => {
+  const length = daysInMonth(year, month);
+  const dayOf = (day: number) => Date.UTC(year, month, day);
+
+  let days = rule.byMonthDay
+    ? rule.byMonthDay.map(day => (day > 0 ? day : length + day + 1)).filter(day => day >= 1 && day <= length)
+    : undefined;
+
+  if (rule.byDay) {
+    const weekdayDays = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const first = ((weekday - new Date(dayOf(1)).getUTCDay() + 7) % 7) + 1;
+      const all: number[] = [];
+      for (let day = first; day <= length; day += 7) {
+        all.push(day);
+      }
+      if (ordinal === undefined) {
+        return all;
+      }
+      const day = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+      return day === undefined ? [] : [day];
+    });
+    // BYDAY narrows BYMONTHDAY when both are given
+    days = days ? days.filter(day => weekdayDays.includes(day)) : weekdayDays;
+  }
+
+  days = days ?? (startDay <= length ? [startDay] : []);
+  return [...new Set(days)].sort((a, b) => a - b).map(dayOf);
+};
+
+// Midnight UTC of every day the rule matches from the start day on, in order, a period of
+// the rule's frequency at a time
+function* matchingDays(rule: RecurrenceRule, start: Date): Generator<number> {
+  const startDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let days: number[];
+    switch (rule.freq) {
+      case 'DAILY': {
+        const day = startDay + period * rule.interval * DAY_MS;
+        const date = new Date(day);
+        const matches = (!rule.byDay || rule.byDay.some(({ weekday }) => weekday === date.getUTCDay())) &&
+          (!rule.byMonthDay || monthDays({ ...rule, byDay: undefined }, date.getUTCFullYear(), date.getUTCMonth(), 0).includes(day));
+        days = matches ? [day] : [];
+        break;
+      }
+      case 'WEEKLY': {
+        // Weeks start on Monday, as the RRULE default WKST=MO
+        const weekStart = startDay - ((new Date(startDay).getUTCDay() + 6) % 7) * DAY_MS + period * rule.interval * 7 * DAY_MS;
+        const weekdays = rule.byDay ? rule.byDay.map(({ weekday }) => weekday) : [start.getUTCDay()];
+        days = weekdays.map(weekday => weekStart + ((weekday + 6) % 7) * DAY_MS).sort((a, b) => a - b);
+        break;
+      }
+      case 'MONTHLY': {
+        const month = start.getUTCMonth() + period * rule.interval;
+        days = monthDays(rule, start.getUTCFullYear() + Math.floor(month / 12), month % 12, start.getUTCDate());
+        break;
+      }
+    }
+    yield* days.filter(day => day >= startDay);
+  }
+}
+
+// Occurrences of a series starting at start, which is always the first occurrence: start,
+// then every later time the rule matches, at start's time of day (UTC). Stops after COUNT
+// occurrences, after UNTIL, or after limit occurrences.
+export const getOccurrences = (rule: RecurrenceRule, start: Date, limit: number): Date[] => {
+  const occurrences = [start];
+  const timeOfDay = start.getTime() - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const max = Math.min(limit, rule.count ?? Infinity);
+
+  for (const day of matchingDays(rule, start)) {
+    if (occurrences.length >= max) {
+      break;
+    }
+    const occurrence = new Date(day + timeOfDay);
+    if (rule.until && occurrence > rule.until) {
+      break;
+    }
+    if (occurrence > start) {
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences.slice(0, max);
+};
+
+// The occurrence after a recurring task due at dueDate: its due date and the rule it
+// carries on with (COUNT counting down), or undefined when the series ends with the task
+export const getNextOccurrence = (
+  recurrence: string,
+  dueDate: Date
+): { dueDate: Date; recurrence: string } | undefined => {
+  const rule = parseRecurrenceRule(recurrence);
+  const [, next] = getOccurrences(rule, dueDate, 2);
+  if (!next) {
+    return undefined;
+  }
+  return {
+    dueDate: next,
+    recurrence: formatRecurrenceRule({ ...rule, count: rule.count === undefined ? undefined : rule.count - 1 }),
+  };
+};
@@ -0,0 +1,176 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  CreateTaskRequest,
+  UpdateTaskRequest,
+  ChildDeleteMode
+} from '../models/task';
+import { TaskEvent, WebhookEvent } from '../models/webhook';
+import { TaskRepository } from '../repositories';
+import { BlockedTaskError, ValidationError } from './errors';
+import { getNextOccurrence } from './recurrence';
+import { assertInitialStatus, assertTransition, workflow } from './workflow';
+
+// Events of an update: task.updated, plus task.completed if it finished the task
+export const toUpdateEvents = (previous: Task, task: Task): TaskEvent[] =>
+  previous.status !== TaskStatus.COMPLETED && task.status === TaskStatus.COMPLETED
+    ? [{ type: WebhookEvent.TASK_UPDATED, task, previous }, { type: WebhookEvent.TASK_COMPLETED, task, previous }]
+    : [{ type: WebhookEvent.TASK_UPDATED, task, previous }];
+
+// The series of a recurring task starts at its due date, so it cannot do without one
+const assertRecurrenceHasDueDate = (recurrence: string | null | undefined, dueDate: Date | null | undefined): void => {
+  if (recurrence && !dueDate) {
+    throw new ValidationError('recurrence', 'A recurring task needs a due date');
+  }
+};
+
+// The task created when an occurrence of a recurring task is completed: a copy of the
+// finished occurrence, due at the next date of the series
+export const findNextOccurrence = (events: TaskEvent[]): Task | undefined =>
+  events.find(event => event.type === WebhookEvent.TASK_CREATED)?.task;
+
+// The task changes shared by the REST and GraphQL APIs, so both enforce the same rules.
+// Each adds the task events of the changes it makes to events; callers publish them once
+// the changes are saved, so rolled-back changes are never announced.
+export const createTaskCommands = (taskRepository: TaskRepository) => {
+  // Store a new task built from a validated create request
+  const addTaskFromRequest = async (
+    request: CreateTaskRequest,
+    userId: string,
+    events: TaskEvent[],
+    id = uuidv4()
+  ): Promise<Task> => {
+    const { title, description, status, priority, dueDate, tags, parentId, recurrence } = request;
+    const initialStatus = status || workflow.defaultStatus;
+    assertInitialStatus(initialStatus);
+    assertRecurrenceHasDueDate(recurrence, dueDate);
+
+    const newTask: Task = {
+      id,
+      title,
+      description: description || '',
+      status: initialStatus,
+      priority: priority || TaskPriority.MEDIUM,
+      dueDate: dueDate || null,
+      tags: tags || [],
+      parentId: parentId || null,
+      recurrence: recurrence || null,
+      commentCount: 0,
+      userId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      deletedAt: null,
+      version: 1
+    };
+
+    const createdTask = await taskRepository.addTask(newTask);
+    events.push({ type: WebhookEvent.TASK_CREATED, task: createdTask });
+    return createdTask;
+  };
+
+  // Apply a validated update, enforcing the status workflow. Throws BlockedTaskError when
+  // the task would be started or finished while it still waits on other tasks, unless
+  // ignoreBlockers is set. Completing a recurring task hands its rule on to a new task for
+  // the next occurrence, if the series has one; findNextOccurrence picks it from events.
+  const applyTaskUpdate = async (
+    id: string,
+    userId: string,
+    updates: UpdateTaskRequest,
+    events: TaskEvent[],
+    ignoreBlockers = false,
+    expectedVersion?: number
+  ): Promise<Task | undefined> => {
+    const existingTask = await taskRepository.getTaskById(id, userId);
+
+    if (existingTask && updates.status !== undefined && existingTask.status !== updates.status) {
+      assertTransition(existingTask.status, updates.status);
+
+      const startsOrCompletes = updates.status === TaskStatus.IN_PROGRESS || updates.status === TaskStatus.COMPLETED;
+      if (startsOrCompletes && !ignoreBlockers) {
+        const blockers = await taskRepository.getBlockers(id, userId);
+        const incomplete = (blockers ?? []).filter(blocker => blocker.status !== TaskStatus.COMPLETED);
+        if (incomplete.length) {
+          throw new BlockedTaskError(incomplete);
+        }
+      }
+    }
+
+    if (!existingTask) {
+      return taskRepository.updateTask(id, userId, updates, expectedVersion);
+    }
+
+    const recurrence = updates.recurrence !== undefined ? updates.recurrence : existingTask.recurrence;
+    const dueDate = updates.dueDate !== undefined ? updates.dueDate : existingTask.dueDate;
+    assertRecurrenceHasDueDate(recurrence, dueDate);
+    const completes = existingTask.status !== TaskStatus.COMPLETED && updates.status === TaskStatus.COMPLETED;
+    if (!recurrence || !completes) {
+      const updatedTask = await taskRepository.updateTask(id, userId, updates, expectedVersion);
+      if (updatedTask) {
+        events.push(...toUpdateEvents(existingTask, updatedTask));
+      }
+      return updatedTask;
+    }
+
+    return taskRepository.transaction(async () => {
+      const updatedTask = await taskRepository.updateTask(id, userId, { ...updates, recurrence: null }, expectedVersion);
+      if (!updatedTask) {
+        return undefined;
+      }
+      const updateEvents = toUpdateEvents(existingTask, updatedTask);
+
+      const next = getNextOccurrence(recurrence, dueDate!);
+      if (next) {
+        const { title, description, priority, tags, parentId } = updatedTask;
+        await addTaskFromRequest(
+          { title, description, priority, tags, parentId, dueDate: next.dueDate, recurrence: next.recurrence },
+          userId,
+          updateEvents
+        );
+      }
+      events.push(...updateEvents);
+      return updatedTask;
+    });
+  };
+
+  // Move a task to the trash, returning whether it was found. The task.deleted event
+  // carries the task as it was before.
+  const trashTask = async (
+    id: string,
+    userId: string,
+    children: ChildDeleteMode,
+    events: TaskEvent[],
+    expectedVersion?: number
+  ): Promise<boolean> => {
+    const task = await taskRepository.getTaskById(id, userId);
+    const deleted = await taskRepository.deleteTask(id, userId, children, expectedVersion);
+    if (deleted && task) {
+      events.push({ type: WebhookEvent.TASK_DELETED, task });
+    }
+    return deleted;
+  };
+
+  // Take a task and the subtasks trashed with it out of the trash, adding a task.restored
+  // event for each. Undefined if the task is not in the trash.
+  const restoreTrashedTask = async (id: string, userId: string, events: TaskEvent[]): Promise<Task | undefined> => {
+    return taskRepository.transaction(async () => {
+      const task = await taskRepository.restoreTask(id, userId);
+      if (task) {
+        // Trashed tasks have no live subtasks, so the subtree is exactly what was restored
+        const restored = await taskRepository.getSubtree(id, userId);
+        events.push(...restored.map(restoredTask => ({ type: WebhookEvent.TASK_RESTORED, task: restoredTask })));
+      }
+      return task;
+    });
+  };
+
+  return {
+    addTaskFromRequest,
+    applyTaskUpdate,
+    trashTask,
+    restoreTrashedTask
+  };
+};
+
+export type TaskCommands = ReturnType<typeof createTaskCommands>;
@@ -0,0 +1,73 @@
+import { config } from '../config';
+import { TaskEvent } from '../models/webhook';
+import { queueWebhookDeliveries } from './webhooks';
+
+// A published task event as kept in the event log
+export interface LoggedTaskEvent extends TaskEvent {
+  id: string;
+  userId: string;
+  createdAt: Date;
+}
+
+export type TaskEventListener = (event: LoggedTaskEvent) => void;
+
+// Events since a Last-Event-ID; complete is false when some of them are no longer in the
+// log, or the id is not one the log handed out
+export interface TaskEventReplay {
+  events: LoggedTaskEvent[];
+  complete: boolean;
+}
+
+// Keeps the latest capacity events in memory and passes new ones to subscribers. Event ids
+// are "<epoch>-<sequence>", the epoch changing on every start, so an id from before a
+// restart is recognised as unknown rather than mistaken for a recent one.
+export const createTaskEventLog = (capacity: number) => {
+  const epoch = Date.now().toString(36);
+  const events: LoggedTaskEvent[] = [];
+  const listeners = new Set<TaskEventListener>();
+  let sequence = 0;
+
+  const append = (userId: string, published: TaskEvent[]): void => {
+    for (const event of published) {
+      const logged: LoggedTaskEvent = { ...event, id: `${epoch}-${++sequence}`, userId, createdAt: new Date() };
+      events.push(logged);
+      if (events.length > capacity) {
+        events.shift();
+      }
+      listeners.forEach(listener => listener(logged));
+    }
+  };
+
+  const since = (lastEventId: string): TaskEventReplay => {
+    const [idEpoch, idSequence] = lastEventId.split('-');
+    const last = Number(idSequence);
+    if (idEpoch !== epoch || !Number.isInteger(last) || last < 0 || last > sequence) {
+      return { events: [], complete: false };
+    }
+    // Sequences in the log are consecutive, ending at the current sequence
+    const missed = sequence - last;
+    return { events: missed ? events.slice(-missed) : [], complete: missed <= events.length };
+  };
+
+  // Id of the latest event, or of the start of the log before there are any
+  const latestId = (): string => `${epoch}-${sequence}`;
+
+  const subscribe = (listener: TaskEventListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { append, since, latestId, subscribe };
+};
+
+export type TaskEventLog = ReturnType<typeof createTaskEventLog>;
+
+export const taskEventLog = createTaskEventLog(config.eventLogSize);
+
+// Publish the events of saved task changes to event streams and webhooks
+export const publishTaskEvents = async (userId: string, events: TaskEvent[]): Promise<void> => {
+  taskEventLog.append(userId, events);
+  await queueWebhookDeliveries(userId, events);
+};
@@ -0,0 +1,58 @@
+import { Task, TaskQuery } from '../models/task';
+import { matchSearchQuery, SearchNode } from './textSearch';
+
+// Whether a task passes the task list filters, for filtering tasks one at a time outside
+// the repository. ready is left out since it depends on the task's blockers; search takes
+// the parsed query so it is only parsed once.
+export const matchesTaskFilter = (
+  task: Task,
+  filters: Omit<TaskQuery, 'ready' | 'search'>,
+  searchQuery?: SearchNode
+): boolean => {
+  const {
+    status,
+    priority,
+    tags,
+    tagMatch,
+    parentId,
+    dueBefore,
+    dueAfter,
+    createdFrom,
+    createdTo,
+    updatedFrom,
+    updatedTo
+  } = filters;
+
+  if (status?.length && !status.some(value => value.toUpperCase() === task.status)) {
+    return false;
+  }
+  if (priority?.length && !priority.includes(task.priority)) {
+    return false;
+  }
+  if (tags?.length) {
+    const matches = tagMatch === 'any'
+      ? tags.some(name => task.tags.includes(name))
+      : tags.every(name => task.tags.includes(name));
+    if (!matches) {
+      return false;
+    }
+  }
+  if (parentId && task.parentId !== parentId) {
+    return false;
+  }
+  if (
+    (dueAfter && (task.dueDate === null || task.dueDate <= dueAfter)) ||
+    (dueBefore && (task.dueDate === null || task.dueDate >= dueBefore))
+  ) {
+    return false;
+  }
+  if (
+    (createdFrom && task.createdAt < createdFrom) ||
+    (createdTo && task.createdAt > createdTo) ||
+    (updatedFrom && task.updatedAt < updatedFrom) ||
+    (updatedTo && task.updatedAt > updatedTo)
+  ) {
+    return false;
+  }
+  return !searchQuery || matchSearchQuery(searchQuery, task.title, task.description || '') !== undefined;
+};
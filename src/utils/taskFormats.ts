@@ -0,0 +1,191 @@
+import { Task } from '../models/task';
+import { TaskFileFormat } from '../models/importExport';
+import { InvalidImportError } from './errors';
+
+// Content type of each import/export format
+export const TASK_FILE_TYPES: Record<TaskFileFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
+
+// Columns of a CSV export, in order. Tags are joined with commas in a single cell.
+export const CSV_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'tags',
+  'parentId',
+  'recurrence',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+// A cell a spreadsheet would run as a formula, after any quotes a previous escape added
+const FORMULA_CELL = /^'*[=+\-@\t\r]/;
+
+// Prefix a would-be formula with a quote so spreadsheets show it as text. Cells that already
+// start with quotes before such a character get one more, so importing can always strip one.
+const escapeCsvFormula = (value: string): string => (FORMULA_CELL.test(value) ? `'${value}` : value);
+
+// Undo escapeCsvFormula on import
+const unescapeCsvFormula = (value: string): string =>
+  value.startsWith("'") && FORMULA_CELL.test(value) ? value.slice(1) : value;
+
+// Quote a CSV cell when it contains a delimiter, a quote or a line break (RFC 4180)
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsvRow = (cells: string[]): string => `${cells.map(escapeCsvCell).join(',')}\r\n`;
+
+const toCsvCells = (task: Task): string[] => [
+  task.id,
+  task.title,
+  task.description,
+  task.status,
+  task.priority,
+  task.dueDate ? task.dueDate.toISOString() : '',
+  task.tags.join(','),
+  task.parentId ?? '',
+  task.recurrence ?? '',
+  task.createdAt.toISOString(),
+  task.updatedAt.toISOString(),
+];
+
+// Writes tasks one at a time in an export format: start, then each task, then end
+export interface TaskEncoder {
+  start: string;
+  encode(task: Task, index: number): string;
+  end: string;
+}
+
+export const createTaskEncoder = (format: TaskFileFormat): TaskEncoder => {
+  switch (format) {
+    case 'csv':
+      return {
+        start: toCsvRow([...CSV_COLUMNS]),
+        encode: task => toCsvRow(toCsvCells(task).map(escapeCsvFormula)),
+        end: '',
+      };
+    case 'json':
+      return {
+        start: '[',
+        encode: (task, index) => `${index ? ',' : ''}\n${JSON.stringify(task)}`,
+        end: '\n]\n',
+      };
+    case 'ndjson':
+      return { start: '', encode: task => `${JSON.stringify(task)}\n`, end: '' };
+  }
+};
+
+// Split CSV text into records of cells (RFC 4180), skipping blank lines
+const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(cell);
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new InvalidImportError('CSV has an unterminated quoted cell');
+  }
+  endRecord();
+  return records;
+};
+
+// Turn CSV records into task objects keyed by the header row. Empty cells are left out so
+// they take the same defaults as a missing field; the tags cell is split on commas.
+const csvToObjects = (text: string): unknown[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+  const columns: readonly string[] = CSV_COLUMNS;
+  const unknown = header.find(column => !columns.includes(column));
+  if (unknown !== undefined) {
+    throw new InvalidImportError(`Unknown CSV column "${unknown}"; columns must be among: ${CSV_COLUMNS.join(', ')}`);
+  }
+  if (!header.includes('title')) {
+    throw new InvalidImportError('CSV must have a title column');
+  }
+
+  return rows.map(cells => {
+    const task: Record<string, unknown> = {};
+    header.forEach((column, index) => {
+      const cell = unescapeCsvFormula(cells[index] ?? '');
+      if (cell === '') {
+        return;
+      }
+      task[column] = column === 'tags'
+        ? cell.split(',').map(tag => tag.trim()).filter(Boolean)
+        : cell;
+    });
+    return task;
+  });
+};
+
+// A task read from an import file, or why its row could not be read
+export type ParsedImportRow = { row: number; value: unknown } | { row: number; error: string };
+
+// Read an import body into one entry per task, numbered from 1. A CSV or NDJSON body is
+// text; a JSON body has already been parsed and must be an array of tasks. An NDJSON line
+// that is not valid JSON is returned as an error for that row; problems with the file as a
+// whole throw InvalidImportError.
+export const parseTaskFile = (body: unknown, format: TaskFileFormat): ParsedImportRow[] => {
+  switch (format) {
+    case 'json':
+      if (!Array.isArray(body)) {
+        throw new InvalidImportError('A JSON import must be an array of tasks');
+      }
+      return body.map((value, index) => ({ row: index + 1, value }));
+    case 'csv':
+      return csvToObjects(typeof body === 'string' ? body : '').map((value, index) => ({ row: index + 1, value }));
+    case 'ndjson':
+      return (typeof body === 'string' ? body : '')
+        .split(/\r?\n/)
+        .filter(line => line.trim() !== '')
+        .map((line, index) => {
+          try {
+            return { row: index + 1, value: JSON.parse(line) };
+          } catch {
+            return { row: index + 1, error: 'Line is not valid JSON' };
+          }
+        });
+  }
+};
@@ -0,0 +1,16 @@
+import { Task, TaskStatus } from '../models/task';
+import { workflow } from './workflow';
+
+// Counts of a user's tasks by status
+export const buildTaskStats = (tasks: Task[]) => ({
+  total: tasks.length,
+  pending: tasks.filter(task => task.status === TaskStatus.PENDING).length,
+  inProgress: tasks.filter(task => task.status === TaskStatus.IN_PROGRESS).length,
+  completed: tasks.filter(task => task.status === TaskStatus.COMPLETED).length,
+  // Counts for every status of the configured workflow, custom ones included
+  byStatus: Object.fromEntries(
+    workflow.statuses.map(status => [status, tasks.filter(task => task.status === status).length])
+  ) as Record<string, number>
+});
+
+export type TaskStats = ReturnType<typeof buildTaskStats>;
@@ -0,0 +1,68 @@
+import { Response } from 'express';
+import { TaskQuery } from '../models/task';
+import { TaskRepository } from '../repositories';
+import { TaskEncoder } from './taskFormats';
+
+// Write part of a streamed response, waiting for the client to catch up when the buffer
+// is full; rejects if the client goes away
+const writeChunk = (res: Response, chunk: string): Promise<void> => new Promise((resolve, reject) => {
+  if (res.destroyed) {
+    reject(new Error('Client disconnected'));
+    return;
+  }
+  if (res.write(chunk)) {
+    resolve();
+    return;
+  }
+  const onDrain = () => {
+    res.off('close', onClose);
+    resolve();
+  };
+  const onClose = () => {
+    res.off('drain', onDrain);
+    reject(new Error('Client disconnected'));
+  };
+  res.once('drain', onDrain);
+  res.once('close', onClose);
+});
+
+// Stream a user's tasks matching a list query to the response through an encoder, writing
+// each batch as the store yields it. setHeaders runs just before the first write, so a
+// query that fails straight away (e.g. a bad search) can still get a JSON error response.
+export const sendTaskStream = async (
+  res: Response,
+  taskRepository: TaskRepository,
+  userId: string,
+  query: TaskQuery,
+  encoder: TaskEncoder,
+  setHeaders: () => void
+): Promise<void> => {
+  let index = 0;
+  const start = async () => {
+    if (!res.headersSent) {
+      setHeaders();
+      await writeChunk(res, encoder.start);
+    }
+  };
+
+  await taskRepository.streamTasks(userId, query, async tasks => {
+    await start();
+    await writeChunk(res, tasks.map(task => encoder.encode(task, index++)).join(''));
+  });
+  await start();
+  res.end(encoder.end);
+};
+
+// Handle an error of sendTaskStream. Once the response is under way it is too late for an
+// error response, so the stream is cut short rather than passed off as complete. Returns
+// false if nothing was sent yet and the caller should respond as usual.
+export const abortTaskStream = (res: Response, error: unknown, logMessage: string): boolean => {
+  if (!res.headersSent) {
+    return false;
+  }
+  if (!res.destroyed) {
+    console.error(logMessage, error);
+    res.destroy();
+  }
+  return true;
+};
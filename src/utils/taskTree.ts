@@ -0,0 +1,26 @@
+import { Task, TaskNode, TaskProgress, TaskStatus } from '../models/task';
+
+// Nest a subtree (root first, as returned by TaskRepository.getSubtree) and roll up
+// how many descendants of each task are completed
+export const buildTaskTree = (subtree: Task[]): TaskNode => {
+  const nodes = new Map<string, TaskNode>(
+    subtree.map(task => [task.id, { ...task, progress: { total: 0, completed: 0, percent: null }, children: [] }])
+  );
+  const root = nodes.get(subtree[0].id)!;
+
+  subtree.slice(1).forEach(task => nodes.get(task.parentId!)!.children.push(nodes.get(task.id)!));
+
+  const rollUp = (node: TaskNode): TaskProgress => {
+    node.children.forEach(child => {
+      const childProgress = rollUp(child);
+      node.progress.total += 1 + childProgress.total;
+      node.progress.completed += (child.status === TaskStatus.COMPLETED ? 1 : 0) + childProgress.completed;
+    });
+    const { total, completed } = node.progress;
+    node.progress.percent = total ? Math.round((completed / total) * 100) : null;
+    return node.progress;
+  };
+  rollUp(root);
+
+  return root;
+};
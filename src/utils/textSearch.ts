@@ -0,0 +1,270 @@
+// In-process implementation of the subset of SQLite FTS5 query syntax the API documents:
+// barewords, "quoted phrases", prefix* terms, AND / OR / NOT and parentheses.
+// Used by the in-memory task store so it answers search queries like the SQLite store.
+import { InvalidSearchQueryError } from './errors';
+
+const HIGHLIGHT_OPEN = '<mark>';
+const HIGHLIGHT_CLOSE = '</mark>';
+
+// Control characters SQLite puts around matches; the text is escaped before they become <mark> tags
+export const MATCH_OPEN = '\u0002';
+export const MATCH_CLOSE = '\u0003';
+
+// Title matches weigh more than description matches, mirroring the bm25 weights used in SQLite
+const TITLE_WEIGHT = 10;
+const DESCRIPTION_WEIGHT = 5;
+
+export type SearchNode =
+  | { type: 'phrase'; tokens: string[]; prefix: boolean }
+  | { type: 'and' | 'or' | 'not'; left: SearchNode; right: SearchNode };
+
+type QueryToken =
+  | { kind: 'phrase'; tokens: string[]; prefix: boolean }
+  | { kind: 'AND' | 'OR' | 'NOT' | '(' | ')' };
+
+interface TextToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Split text into lower-cased tokens with their offsets, like the unicode61 tokenizer
+const tokenizeText = (text: string): TextToken[] =>
+  [...text.matchAll(WORD)].map(match => ({
+    text: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+const lexQuery = (query: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char });
+      i++;
+    } else if (char === '"') {
+      let phrase = '';
+      i++;
+      for (;;) {
+        if (i >= query.length) {
+          throw new InvalidSearchQueryError('Invalid search query: unterminated string');
+        }
+        if (query[i] === '"') {
+          if (query[i + 1] === '"') {
+            phrase += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        phrase += query[i++];
+      }
+      const prefix = query[i] === '*';
+      if (prefix) {
+        i++;
+      }
+      tokens.push({ kind: 'phrase', tokens: tokenizeText(phrase).map(t => t.text), prefix });
+    } else {
+      const match = /^[\p{L}\p{N}_]+/u.exec(query.slice(i));
+      if (!match) {
+        throw new InvalidSearchQueryError(`Invalid search query: syntax error near "${query.slice(i)}"`);
+      }
+      const word = match[0];
+      i += word.length;
+
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word });
+        continue;
+      }
+      if (query[i] === ':') {
+        throw new InvalidSearchQueryError('Invalid search query: column filters are not supported by this store');
+      }
+      const prefix = query[i] === '*';
+      if (prefix) {
+        i++;
+      }
+      tokens.push({ kind: 'phrase', tokens: tokenizeText(word).map(t => t.text), prefix });
+    }
+  }
+
+  return tokens;
+};
+
+// Recursive descent parser; precedence from tightest to loosest is NOT, AND, OR
+export const parseSearchQuery = (query: string): SearchNode => {
+  const tokens = lexQuery(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const fail = (): never => {
+    throw new InvalidSearchQueryError(`Invalid search query: syntax error in "${query}"`);
+  };
+
+  const parsePrimary = (): SearchNode => {
+    const token = tokens[position++];
+    if (!token) {
+      return fail();
+    }
+    if (token.kind === '(') {
+      const node = parseOr();
+      if (tokens[position++]?.kind !== ')') {
+        fail();
+      }
+      return node;
+    }
+    if (token.kind === 'phrase') {
+      return { type: 'phrase', tokens: token.tokens, prefix: token.prefix };
+    }
+    return fail();
+  };
+
+  const parseNot = (): SearchNode => {
+    let node = parsePrimary();
+    while (peek()?.kind === 'NOT') {
+      position++;
+      node = { type: 'not', left: node, right: parsePrimary() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): SearchNode => {
+    let node = parseNot();
+    for (;;) {
+      const next = peek();
+      if (next?.kind === 'AND') {
+        position++;
+      } else if (!next || (next.kind !== 'phrase' && next.kind !== '(')) {
+        return node;
+      }
+      node = { type: 'and', left: node, right: parseNot() };
+    }
+  };
+
+  const parseOr = (): SearchNode => {
+    let node = parseAnd();
+    while (peek()?.kind === 'OR') {
+      position++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const root = parseOr();
+  if (position < tokens.length) {
+    fail();
+  }
+  return root;
+};
+
+interface FieldMatch {
+  tokens: TextToken[];
+  matched: Set<number>;
+  hits: number;
+}
+
+// Find every occurrence of a phrase in a tokenized field, recording matched token indexes
+const matchPhrase = (node: { tokens: string[]; prefix: boolean }, field: FieldMatch): boolean => {
+  const { tokens } = field;
+  const last = node.tokens.length - 1;
+  let found = false;
+
+  if (last < 0) {
+    return false;
+  }
+
+  for (let start = 0; start + last < tokens.length; start++) {
+    const isMatch = node.tokens.every((token, offset) => {
+      const text = tokens[start + offset].text;
+      return offset === last && node.prefix ? text.startsWith(token) : text === token;
+    });
+    if (isMatch) {
+      found = true;
+      field.hits++;
+      for (let offset = 0; offset <= last; offset++) {
+        field.matched.add(start + offset);
+      }
+    }
+  }
+  return found;
+};
+
+// Evaluate the query tree; NOT branches never contribute highlights or score
+const evaluate = (node: SearchNode, fields: FieldMatch[], record: boolean): boolean => {
+  switch (node.type) {
+    case 'phrase': {
+      const scratch = record ? fields : fields.map(f => ({ ...f, matched: new Set<number>(), hits: 0 }));
+      return scratch.map(field => matchPhrase(node, field)).some(Boolean);
+    }
+    case 'and':
+      return evaluate(node.left, fields, record) && evaluate(node.right, fields, record);
+    case 'or': {
+      const left = evaluate(node.left, fields, record);
+      const right = evaluate(node.right, fields, record);
+      return left || right;
+    }
+    case 'not':
+      return evaluate(node.left, fields, record) && !evaluate(node.right, fields, false);
+  }
+};
+
+// Highlights are meant to be rendered as HTML, so the task text itself is escaped
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Turn text with MATCH_OPEN/MATCH_CLOSE around matches into escaped HTML with <mark> tags
+export const toHighlightHtml = (marked: string): string =>
+  escapeHtml(marked).split(MATCH_OPEN).join(HIGHLIGHT_OPEN).split(MATCH_CLOSE).join(HIGHLIGHT_CLOSE);
+
+const highlight = (text: string, field: FieldMatch): string => {
+  let result = '';
+  let cursor = 0;
+  field.tokens.forEach((token, index) => {
+    if (field.matched.has(index)) {
+      result += escapeHtml(text.slice(cursor, token.start))
+        + HIGHLIGHT_OPEN + escapeHtml(text.slice(token.start, token.end)) + HIGHLIGHT_CLOSE;
+      cursor = token.end;
+    }
+  });
+  return result + escapeHtml(text.slice(cursor));
+};
+
+export interface SearchMatch {
+  score: number;
+  highlights: { title: string; description: string };
+}
+
+// Match a parsed query against a title and description; undefined when it does not match
+export const matchSearchQuery = (
+  query: SearchNode,
+  title: string,
+  description: string
+): SearchMatch | undefined => {
+  const titleField: FieldMatch = { tokens: tokenizeText(title), matched: new Set(), hits: 0 };
+  const descriptionField: FieldMatch = { tokens: tokenizeText(description), matched: new Set(), hits: 0 };
+
+  if (!evaluate(query, [titleField, descriptionField], true)) {
+    return undefined;
+  }
+
+  return {
+    score: titleField.hits * TITLE_WEIGHT + descriptionField.hits * DESCRIPTION_WEIGHT,
+    highlights: {
+      title: highlight(title, titleField),
+      description: highlight(description, descriptionField),
+    },
+  };
+};
@@ -0,0 +1,79 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Database } from 'sqlite';
+
+// All requests share one SQLite connection, so two transactions must never be open on it
+// at once, and a statement from another request must never run while one is open: it
+// would become part of that transaction and be undone by its rollback. Transactions and
+// the statements issued outside them are queued per connection and run one after another.
+const queues = new WeakMap<Database, Promise<unknown>>();
+
+// The transaction the current call chain runs in, so nested calls can tell they are nested
+const activeTransaction = new AsyncLocalStorage<{ db: Database; depth: number }>();
+
+// Run work inside BEGIN/COMMIT, rolling back if it throws. Called from within another
+// transaction on the same connection, work runs in a savepoint instead, so a failure
+// only undoes its own changes.
+export const withTransaction = async <T>(db: Database, work: () => Promise<T>): Promise<T> => {
+  const active = activeTransaction.getStore();
+  if (active?.db === db) {
+    const savepoint = `sp_${active.depth}`;
+    return activeTransaction.run({ db, depth: active.depth + 1 }, async () => {
+      await db.exec(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = await work();
+        await db.exec(`RELEASE ${savepoint}`);
+        return result;
+      } catch (error) {
+        await db.exec(`ROLLBACK TO ${savepoint}`);
+        await db.exec(`RELEASE ${savepoint}`);
+        throw error;
+      }
+    });
+  }
+
+  const previous = queues.get(db) ?? Promise.resolve();
+
+  const run = previous.catch(() => undefined).then(() =>
+    activeTransaction.run({ db, depth: 1 }, async () => {
+      await db.exec('BEGIN');
+      try {
+        const result = await work();
+        await db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        await db.exec('ROLLBACK');
+        throw error;
+      }
+    })
+  );
+
+  queues.set(db, run);
+  return run;
+};
+
+// The statements a caller can send over a connection
+const STATEMENT_METHODS = new Set<PropertyKey>(['exec', 'run', 'get', 'all', 'each', 'prepare']);
+
+// Wrap a connection so that statements issued outside a transaction wait in its queue
+// instead of joining whatever transaction happens to be open. Statements issued by the
+// transaction's own work run straight away.
+export const queueStatements = (db: Database): Database => {
+  const queued: Database = new Proxy(db, {
+    get: (target, property, receiver) => {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || !STATEMENT_METHODS.has(property)) {
+        return value;
+      }
+      return (...args: unknown[]) => {
+        if (activeTransaction.getStore()?.db === queued) {
+          return value.apply(target, args);
+        }
+        const previous = queues.get(queued) ?? Promise.resolve();
+        const run = previous.catch(() => undefined).then(() => value.apply(target, args));
+        queues.set(queued, run);
+        return run;
+      };
+    }
+  });
+  return queued;
+};
@@ -0,0 +1,29 @@
+import { TaskRepository } from '../repositories';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Purge trashed tasks older than the retention period now and then every intervalMs.
+// Returns a function that stops the purger.
+export const startTrashPurger = (
+  taskRepository: TaskRepository,
+  retentionDays: number,
+  intervalMs = 60 * 60 * 1000
+): (() => void) => {
+  const purge = async (): Promise<void> => {
+    try {
+      const purged = await taskRepository.purgeTrash({
+        deletedBefore: new Date(Date.now() - retentionDays * DAY_MS)
+      });
+      if (purged > 0) {
+        console.log(`Purged ${purged} task(s) from the trash`);
+      }
+    } catch (error) {
+      console.error('Error purging trash:', error);
+    }
+  };
+
+  void purge();
+  // Do not keep the process alive just for the purger
+  const timer = setInterval(purge, intervalMs).unref();
+  return () => clearInterval(timer);
+};
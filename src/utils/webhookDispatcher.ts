@@ -0,0 +1,34 @@
+import { getDueWebhookDeliveries } from './database';
+import { attemptDelivery } from './webhooks';
+
+const BATCH_SIZE = 20;
+
+// Send due webhook deliveries every intervalMs, a batch at a time. The queue lives in the
+// database, so deliveries pending when the server stops are sent after it restarts.
+// Returns a function that stops the dispatcher.
+export const startWebhookDispatcher = (intervalMs = 1000): (() => void) => {
+  // Skip a tick while the previous one is still sending, so no delivery is sent twice
+  let running = false;
+
+  const dispatch = async (): Promise<void> => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      let due = await getDueWebhookDeliveries(new Date(), BATCH_SIZE);
+      while (due.length) {
+        await Promise.all(due.map(({ delivery, webhook }) => attemptDelivery(delivery, webhook)));
+        due = due.length < BATCH_SIZE ? [] : await getDueWebhookDeliveries(new Date(), BATCH_SIZE);
+      }
+    } catch (error) {
+      console.error('Error dispatching webhook deliveries:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  // Do not keep the process alive just for the dispatcher
+  const timer = setInterval(dispatch, intervalMs).unref();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { TaskEvent, Webhook, WebhookDelivery } from '../models/webhook';
+import { addWebhookDeliveries, getSubscribedWebhooks, recordWebhookAttempt } from './database';
+import { ValidationError } from './errors';
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+// Addresses webhooks are never sent to: this host, private and shared networks, link-local
+// addresses (cloud metadata endpoints among them), multicast and reserved ranges
+const PRIVATE_ADDRESSES = new net.BlockList();
+([
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const).forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const).forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+// Whether an IP address is one webhooks may not reach. IPv4-mapped IPv6 addresses are
+// checked as the IPv4 address they map to.
+export const isPrivateAddress = (address: string): boolean =>
+  PRIVATE_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+// Host of a URL without the brackets around an IPv6 address
+const urlHost = (url: URL): string => url.hostname.replace(/^\[|\]$/g, '');
+
+// Resolve a host for a delivery connection, failing when any of its addresses is private.
+// Checking the addresses actually connected to means a host cannot pass at registration
+// and later resolve somewhere else.
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      callback(new Error(`${hostname} resolves to private address ${blocked.address}`), []);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Reject a webhook URL whose host is, or resolves to, a private address, unless
+// WEBHOOK_ALLOW_PRIVATE_URLS is set
+export const assertPublicWebhookUrl = async (url: string): Promise<void> => {
+  if (config.webhookAllowPrivateUrls) {
+    return;
+  }
+  const host = urlHost(new URL(url));
+  let addresses = [host];
+  if (!net.isIP(host)) {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map(({ address }) => address);
+    } catch {
+      throw new ValidationError('url', `URL host ${host} could not be resolved`);
+    }
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new ValidationError('url', 'URL must not point to a loopback, link-local or private network address');
+  }
+};
+
+// POST a body and resolve with the response status once the response has been read.
+// Redirects are not followed.
+const post = (url: string, headers: Record<string, string>, body: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const host = urlHost(target);
+    if (!config.webhookAllowPrivateUrls && net.isIP(host) && isPrivateAddress(host)) {
+      reject(new Error(`${host} is a private address`));
+      return;
+    }
+    const request = (target.protocol === 'https:' ? https : http).request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: config.webhookAllowPrivateUrls ? undefined : lookupPublicAddress,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      },
+      response => {
+        // Drain the body so the socket is released
+        response.resume();
+        response.on('end', () => resolve(response.statusCode!));
+        response.on('error', reject);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+
+// Signature of a delivery: the hex HMAC-SHA256 of "<timestamp>.<body>" keyed by the
+// webhook secret. Receivers recompute it from the X-Webhook-Timestamp header and the raw
+// body to check a delivery is genuine and recent.
+export const signPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// A delivery of an event to a webhook, due now
+export const createDelivery = (webhookId: string, eventId: string, event: string, payload: string): WebhookDelivery => {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    webhookId,
+    eventId,
+    event,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    lastAttemptAt: null,
+    responseStatus: null,
+    error: null,
+    createdAt: now
+  };
+};
+
+// Queue deliveries of task events to the user's subscribed webhooks. Failing to queue is
+// logged rather than thrown, since the changes behind the events are already saved.
+export const queueWebhookDeliveries = async (userId: string, events: TaskEvent[]): Promise<void> => {
+  try {
+    for (const { type, task } of events) {
+      const webhooks = await getSubscribedWebhooks(userId, type);
+      if (!webhooks.length) {
+        continue;
+      }
+      const eventId = uuidv4();
+      const payload = JSON.stringify({ id: eventId, type, createdAt: new Date(), data: { task } });
+      await addWebhookDeliveries(webhooks.map(webhook => createDelivery(webhook.id, eventId, type, payload)));
+    }
+  } catch (error) {
+    console.error('Error queueing webhook deliveries:', error);
+  }
+};
+
+// Wait before retrying a delivery that has failed attempts times
+const retryDelayMs = (attempts: number): number =>
+  config.webhookRetryDelaySeconds * 1000 * 2 ** (attempts - 1);
+
+// POST a delivery to its webhook and record the outcome. Any 2xx response counts as
+// delivered; anything else, including a redirect or a private destination, is retried
+// with exponential backoff until the delivery runs out of attempts.
+export const attemptDelivery = async (delivery: WebhookDelivery, webhook: Webhook): Promise<void> => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    responseStatus = await post(webhook.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Task-Management-API-Webhooks/1.0',
+      'X-Webhook-Id': webhook.id,
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': delivery.id,
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': signPayload(webhook.secret, timestamp, delivery.payload)
+    }, delivery.payload);
+    if (responseStatus < 200 || responseStatus > 299) {
+      error = `Receiver responded with status ${responseStatus}`;
+    }
+  } catch (caught) {
+    // An aborted request carries the reason, such as the timeout, in the cause
+    const cause = caught instanceof Error ? (caught as { cause?: unknown }).cause : undefined;
+    const reason = cause instanceof Error ? cause : caught;
+    error = (reason instanceof Error ? reason.message : String(reason)).slice(0, MAX_ERROR_LENGTH);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  const gaveUp = error !== null && attempts >= config.webhookMaxAttempts;
+  await recordWebhookAttempt(delivery.id, {
+    status: error === null ? 'succeeded' : gaveUp ? 'failed' : 'pending',
+    attempts,
+    nextAttemptAt: error === null || gaveUp ? null : new Date(now.getTime() + retryDelayMs(attempts)),
+    lastAttemptAt: now,
+    responseStatus,
+    error
+  });
+};
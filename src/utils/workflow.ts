@@ -0,0 +1,87 @@
+import fs from 'fs';
+import { config } from '../config';
+import { TaskStatus } from '../models/task';
+import { Workflow, WorkflowConfig } from '../models/workflow';
+import { InvalidTransitionError } from './errors';
+
+const STATUS_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+// Used when no workflow file is configured. Completed tasks can only be reopened
+// by moving them back to IN_PROGRESS.
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: Object.values(TaskStatus),
+  initialStatuses: Object.values(TaskStatus),
+  defaultStatus: TaskStatus.PENDING,
+  transitions: {
+    [TaskStatus.PENDING]: [TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED],
+    [TaskStatus.IN_PROGRESS]: [TaskStatus.PENDING, TaskStatus.COMPLETED],
+    [TaskStatus.COMPLETED]: [TaskStatus.IN_PROGRESS],
+  },
+};
+
+// Merge a workflow file over the defaults, rejecting unknown or malformed statuses
+export const resolveWorkflow = (workflowConfig: WorkflowConfig): Workflow => {
+  const custom = workflowConfig.statuses ?? [];
+  custom.forEach(status => {
+    if (!STATUS_PATTERN.test(status)) {
+      throw new Error(`Invalid workflow status "${status}"; use upper case letters, digits and _`);
+    }
+  });
+  const statuses = [...new Set([...DEFAULT_WORKFLOW.statuses, ...custom])];
+
+  const assertKnown = (status: string, where: string) => {
+    if (!statuses.includes(status)) {
+      throw new Error(`Unknown status "${status}" in workflow ${where}`);
+    }
+  };
+
+  const initialStatuses = workflowConfig.initialStatuses ?? DEFAULT_WORKFLOW.initialStatuses;
+  initialStatuses.forEach(status => assertKnown(status, 'initialStatuses'));
+
+  const defaultStatus = workflowConfig.defaultStatus ?? (
+    initialStatuses.includes(TaskStatus.PENDING) ? TaskStatus.PENDING : initialStatuses[0]
+  );
+  if (!initialStatuses.includes(defaultStatus)) {
+    throw new Error(`Workflow defaultStatus "${defaultStatus}" must be one of initialStatuses`);
+  }
+
+  const transitions = workflowConfig.transitions ?? DEFAULT_WORKFLOW.transitions;
+  Object.entries(transitions).forEach(([from, targets]) => {
+    assertKnown(from, 'transitions');
+    targets.forEach(to => assertKnown(to, `transitions of ${from}`));
+  });
+
+  return { statuses, initialStatuses, defaultStatus, transitions };
+};
+
+const loadWorkflow = (file: string | undefined): Workflow => {
+  if (!file) {
+    return DEFAULT_WORKFLOW;
+  }
+  try {
+    return resolveWorkflow(JSON.parse(fs.readFileSync(file, 'utf8')));
+  } catch (error) {
+    throw new Error(`Invalid workflow file ${file}: ${(error as Error).message}`);
+  }
+};
+
+// The workflow in effect, loaded once from WORKFLOW_FILE
+export const workflow = loadWorkflow(config.workflowFile);
+
+// Statuses a task in the given status may move to
+export const getNextStatuses = (from: string): string[] => workflow.transitions[from] ?? [];
+
+// Throw InvalidTransitionError unless a task may be created with the status
+export const assertInitialStatus = (status: string): void => {
+  if (!workflow.initialStatuses.includes(status)) {
+    throw new InvalidTransitionError(null, status, workflow.initialStatuses);
+  }
+};
+
+// Throw InvalidTransitionError unless a task may move between the statuses.
+// Keeping the current status is always allowed.
+export const assertTransition = (from: string, to: string): void => {
+  if (from !== to && !getNextStatuses(from).includes(to)) {
+    throw new InvalidTransitionError(from, to, getNextStatuses(from));
+  }
+};